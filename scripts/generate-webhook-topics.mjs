@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+/**
+ * Regenerates src/ShopifyClient/webhookTopics.ts from the WebhookSubscriptionTopic
+ * enum of the Admin GraphQL API.
+ *
+ * Usage: SHOPIFY_ACCESS_TOKEN=... MYSHOPIFY_DOMAIN=... [SHOPIFY_API_VERSION=...] \
+ *   node scripts/generate-webhook-topics.mjs
+ */
+
+import { writeFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+
+const OUTPUT = fileURLToPath(new URL("../src/ShopifyClient/webhookTopics.ts", import.meta.url));
+
+const { SHOPIFY_ACCESS_TOKEN, MYSHOPIFY_DOMAIN } = process.env;
+const apiVersion = process.env.SHOPIFY_API_VERSION || "2023-10";
+
+if (!SHOPIFY_ACCESS_TOKEN || !MYSHOPIFY_DOMAIN) {
+  console.error("SHOPIFY_ACCESS_TOKEN and MYSHOPIFY_DOMAIN must be set");
+  process.exit(1);
+}
+
+const response = await fetch(`https://${MYSHOPIFY_DOMAIN}/admin/api/${apiVersion}/graphql.json`, {
+  method: "POST",
+  headers: {
+    "Content-Type": "application/json",
+    "X-Shopify-Access-Token": SHOPIFY_ACCESS_TOKEN,
+  },
+  body: JSON.stringify({
+    query: `{
+      __type(name: "WebhookSubscriptionTopic") {
+        enumValues(includeDeprecated: true) {
+          name
+          description
+        }
+      }
+    }`,
+  }),
+});
+
+if (!response.ok) {
+  console.error(`Introspection failed: ${response.status} ${await response.text()}`);
+  process.exit(1);
+}
+
+const { data } = await response.json();
+const values = data.__type.enumValues;
+
+// Descriptions start with "The webhook topic for `orders/create` events."; the
+// name-based fallback only covers topics whose resource is a single word
+function restTopic({ name, description }) {
+  const match = /`([a-z_]+\/[a-z_]+)`/.exec(description ?? "");
+  if (match) {
+    return match[1];
+  }
+  const [resource, ...event] = name.toLowerCase().split("_");
+  return `${resource}/${event.join("_")}`;
+}
+
+const topics = values
+  .map((value) => ({ name: value.name, topic: restTopic(value) }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+const source = `// Generated by scripts/generate-webhook-topics.mjs from the WebhookSubscriptionTopic
+// enum of the Admin GraphQL API (${apiVersion}). Do not edit by hand.
+
+export enum ShopifyWebhookTopic {
+${topics.map(({ name, topic }) => `  ${name} = "${topic}",`).join("\n")}
+}
+
+export enum ShopifyWebhookTopicGraphql {
+${topics.map(({ name }) => `  ${name} = "${name}",`).join("\n")}
+}
+`;
+
+await writeFile(OUTPUT, source);
+console.log(`Wrote ${topics.length} webhook topics to ${OUTPUT}`);
@@ -0,0 +1,679 @@
+import {
+  BulkOperation,
+  BulkOperationRow,
+  BulkOperationType,
+  BxgyDiscountInput,
+  CalculatedDraftOrder,
+  CompleteDraftOrderResponse,
+  CreateBasicDiscountCodeInput,
+  CreateAutomaticBasicDiscountInput,
+  CreateBasicDiscountCodeResponse,
+  CreateBxgyDiscountCodeInput,
+  CreateBlogArticleResponse,
+  CreateDraftOrderPayload,
+  CreateFreeShippingDiscountCodeInput,
+  DiscountCodeBulkJob,
+  DraftOrderInput,
+  DraftOrderInvoiceEmail,
+  DraftOrderResponse,
+  GetPriceRuleInput,
+  GetPriceRuleResponse,
+  LoadBlogArticleResponse,
+  LoadBlogArticlesResponse,
+  LoadCollectionsResponse,
+  LoadCustomersResponse,
+  LoadDiscountsResponse,
+  LoadDraftOrdersResponse,
+  LoadProductsByIdsResponse,
+  LoadProductsResponse,
+  LoadVariantsByIdResponse,
+  ProductNode,
+  SearchProductsByPriceRangeResponse,
+  ShopDetails,
+  ShopifyClientPort,
+  ShopifyCollectionsQueryParams,
+  ShopifyCustomer,
+  ShopifyDiscount,
+  ShopifyDiscountsQueryParams,
+  ShopifyDraftOrder,
+  ShopifyDraftOrdersQueryParams,
+  ShopifyOrdersGraphqlQueryParams,
+  ShopifyOrdersGraphqlResponse,
+  ShopifyqlTableResponse,
+  ShopifyWebhook,
+  ShopifyWebhookTopic,
+  ShopifyWebhooksQueryParams,
+  LoadWebhooksResponse,
+  UpdateBlogArticleResponse,
+  WebhookSubscriptionOptions,
+  WebhookSubscriptionUpdate,
+} from "./ShopifyClientPort.js";
+import { Cache } from "../utils/cache.js";
+
+/**
+ * Groups of cached read methods, invalidated together when a related mutation succeeds
+ */
+export type CacheGroup =
+  | "shop"
+  | "products"
+  | "collections"
+  | "orders"
+  | "customers"
+  | "discounts"
+  | "blog"
+  | "webhooks";
+
+// Time to live per group, in milliseconds
+export const DEFAULT_CACHE_TTLS: Record<CacheGroup, number> = {
+  shop: 15 * 60 * 1000,
+  products: 2 * 60 * 1000,
+  collections: 5 * 60 * 1000,
+  orders: 30 * 1000,
+  customers: 60 * 1000,
+  discounts: 60 * 1000,
+  blog: 5 * 60 * 1000,
+  webhooks: 60 * 1000,
+};
+
+/**
+ * ShopifyClientPort decorator that caches read methods per shop and drops
+ * the affected groups once a mutation succeeds
+ */
+export class CachingShopifyClient implements ShopifyClientPort {
+  private readonly ttls: Record<CacheGroup, number>;
+
+  constructor(
+    private readonly inner: ShopifyClientPort,
+    private readonly cache: Cache,
+    ttls: Partial<Record<CacheGroup, number>> = {}
+  ) {
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...ttls };
+  }
+
+  /**
+   * Cache key prefix of a shop, optionally narrowed to a group
+   */
+  static keyPrefix(shop: string, group?: CacheGroup): string {
+    return group ? `${shop}|${group}|` : `${shop}|`;
+  }
+
+  private cached<T>(
+    shop: string,
+    group: CacheGroup,
+    method: string,
+    args: unknown[],
+    load: () => Promise<T>
+  ): Promise<T> {
+    // Keyed by shop rather than access token so tokens never end up in cache keys
+    const key = `${CachingShopifyClient.keyPrefix(shop, group)}${method}|${JSON.stringify(args)}`;
+    return this.cache.getOrSet(key, load, { ttl: this.ttls[group] });
+  }
+
+  private async invalidating<T>(shop: string, groups: CacheGroup[], mutate: () => Promise<T>): Promise<T> {
+    const result = await mutate();
+    for (const group of groups) {
+      this.cache.deleteByPrefix(CachingShopifyClient.keyPrefix(shop, group));
+    }
+    return result;
+  }
+
+  // Read methods
+
+  searchProductsByPriceRange(
+    accessToken: string,
+    shop: string,
+    params: { minPrice: number; maxPrice: number; currencyCode?: string; limit?: number }
+  ): Promise<SearchProductsByPriceRangeResponse> {
+    return this.cached(shop, "products", "searchProductsByPriceRange", [params], () =>
+      this.inner.searchProductsByPriceRange(accessToken, shop, params)
+    );
+  }
+
+  loadOrders(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyOrdersGraphqlQueryParams
+  ): Promise<ShopifyOrdersGraphqlResponse> {
+    return this.cached(shop, "orders", "loadOrders", [queryParams], () =>
+      this.inner.loadOrders(accessToken, shop, queryParams)
+    );
+  }
+
+  runShopifyqlQuery(accessToken: string, shop: string, query: string): Promise<ShopifyqlTableResponse> {
+    return this.cached(shop, "orders", "runShopifyqlQuery", [query], () =>
+      this.inner.runShopifyqlQuery(accessToken, shop, query)
+    );
+  }
+
+  loadDraftOrders(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyDraftOrdersQueryParams
+  ): Promise<LoadDraftOrdersResponse> {
+    return this.cached(shop, "orders", "loadDraftOrders", [queryParams], () =>
+      this.inner.loadDraftOrders(accessToken, shop, queryParams)
+    );
+  }
+
+  loadCustomers(
+    accessToken: string,
+    myshopifyDomain: string,
+    limit?: number,
+    next?: string
+  ): Promise<LoadCustomersResponse> {
+    return this.cached(myshopifyDomain, "customers", "loadCustomers", [limit, next], () =>
+      this.inner.loadCustomers(accessToken, myshopifyDomain, limit, next)
+    );
+  }
+
+  getCustomer(accessToken: string, myshopifyDomain: string, customerId: string): Promise<ShopifyCustomer> {
+    return this.cached(myshopifyDomain, "customers", "getCustomer", [customerId], () =>
+      this.inner.getCustomer(accessToken, myshopifyDomain, customerId)
+    );
+  }
+
+  loadProducts(
+    accessToken: string,
+    myshopifyDomain: string,
+    searchTitle: string | null,
+    limit?: number,
+    afterCursor?: string
+  ): Promise<LoadProductsResponse> {
+    return this.cached(myshopifyDomain, "products", "loadProducts", [searchTitle, limit, afterCursor], () =>
+      this.inner.loadProducts(accessToken, myshopifyDomain, searchTitle, limit, afterCursor)
+    );
+  }
+
+  loadProductsByCollectionId(
+    accessToken: string,
+    myshopifyDomain: string,
+    collectionId: string,
+    limit?: number,
+    afterCursor?: string
+  ): Promise<LoadProductsResponse> {
+    return this.cached(
+      myshopifyDomain,
+      "products",
+      "loadProductsByCollectionId",
+      [collectionId, limit, afterCursor],
+      () => this.inner.loadProductsByCollectionId(accessToken, myshopifyDomain, collectionId, limit, afterCursor)
+    );
+  }
+
+  loadProductsByIds(
+    accessToken: string,
+    myshopifyDomain: string,
+    productIds: string[]
+  ): Promise<LoadProductsByIdsResponse> {
+    return this.cached(myshopifyDomain, "products", "loadProductsByIds", [productIds], () =>
+      this.inner.loadProductsByIds(accessToken, myshopifyDomain, productIds)
+    );
+  }
+
+  loadVariantsByIds(
+    accessToken: string,
+    myshopifyDomain: string,
+    variantIds: string[]
+  ): Promise<LoadVariantsByIdResponse> {
+    return this.cached(myshopifyDomain, "products", "loadVariantsByIds", [variantIds], () =>
+      this.inner.loadVariantsByIds(accessToken, myshopifyDomain, variantIds)
+    );
+  }
+
+  loadCollections(
+    accessToken: string,
+    myshopifyDomain: string,
+    queryParams: ShopifyCollectionsQueryParams,
+    next?: string
+  ): Promise<LoadCollectionsResponse> {
+    return this.cached(myshopifyDomain, "collections", "loadCollections", [queryParams, next], () =>
+      this.inner.loadCollections(accessToken, myshopifyDomain, queryParams, next)
+    );
+  }
+
+  getPriceRule(accessToken: string, shop: string, input: GetPriceRuleInput): Promise<GetPriceRuleResponse> {
+    return this.cached(shop, "discounts", "getPriceRule", [input], () =>
+      this.inner.getPriceRule(accessToken, shop, input)
+    );
+  }
+
+  loadDiscounts(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyDiscountsQueryParams
+  ): Promise<LoadDiscountsResponse> {
+    return this.cached(shop, "discounts", "loadDiscounts", [queryParams], () =>
+      this.inner.loadDiscounts(accessToken, shop, queryParams)
+    );
+  }
+
+  getDiscount(accessToken: string, shop: string, discountId: string): Promise<ShopifyDiscount> {
+    return this.cached(shop, "discounts", "getDiscount", [discountId], () =>
+      this.inner.getDiscount(accessToken, shop, discountId)
+    );
+  }
+
+  loadShopDetails(accessToken: string, shop: string): Promise<ShopDetails> {
+    return this.cached(shop, "shop", "loadShopDetails", [], () =>
+      this.inner.loadShopDetails(accessToken, shop)
+    );
+  }
+
+  loadWebhooks(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyWebhooksQueryParams
+  ): Promise<LoadWebhooksResponse> {
+    return this.cached(shop, "webhooks", "loadWebhooks", [queryParams], () =>
+      this.inner.loadWebhooks(accessToken, shop, queryParams)
+    );
+  }
+
+  getWebhook(accessToken: string, shop: string, webhookId: string): Promise<ShopifyWebhook> {
+    return this.cached(shop, "webhooks", "getWebhook", [webhookId], () =>
+      this.inner.getWebhook(accessToken, shop, webhookId)
+    );
+  }
+
+  findWebhookByTopicAndCallbackUrl(
+    accessToken: string,
+    shop: string,
+    callbackUrl: string,
+    topic: ShopifyWebhookTopic
+  ): Promise<ShopifyWebhook | null> {
+    return this.cached(shop, "webhooks", "findWebhookByTopicAndCallbackUrl", [callbackUrl, topic], () =>
+      this.inner.findWebhookByTopicAndCallbackUrl(accessToken, shop, callbackUrl, topic)
+    );
+  }
+
+  loadBlogArticles(
+    accessToken: string,
+    myshopifyDomain: string,
+    options: { limit?: number; status?: "draft" | "published"; tag?: string }
+  ): Promise<LoadBlogArticlesResponse> {
+    return this.cached(myshopifyDomain, "blog", "loadBlogArticles", [options], () =>
+      this.inner.loadBlogArticles(accessToken, myshopifyDomain, options)
+    );
+  }
+
+  loadBlogArticle(
+    accessToken: string,
+    myshopifyDomain: string,
+    articleId: string
+  ): Promise<LoadBlogArticleResponse> {
+    return this.cached(myshopifyDomain, "blog", "loadBlogArticle", [articleId], () =>
+      this.inner.loadBlogArticle(accessToken, myshopifyDomain, articleId)
+    );
+  }
+
+  // Mutations
+
+  createDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderData: CreateDraftOrderPayload,
+    idempotencyKey: string
+  ): Promise<DraftOrderResponse> {
+    return this.invalidating(shop, ["orders"], () =>
+      this.inner.createDraftOrder(accessToken, shop, draftOrderData, idempotencyKey)
+    );
+  }
+
+  completeDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string,
+    options?: { paymentPending?: boolean }
+  ): Promise<CompleteDraftOrderResponse> {
+    return this.invalidating(shop, ["orders", "products", "customers"], () =>
+      this.inner.completeDraftOrder(accessToken, shop, draftOrderId, options)
+    );
+  }
+
+  updateDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string,
+    input: DraftOrderInput
+  ): Promise<ShopifyDraftOrder> {
+    return this.invalidating(shop, ["orders"], () =>
+      this.inner.updateDraftOrder(accessToken, shop, draftOrderId, input)
+    );
+  }
+
+  // Previews change nothing, but depend on live prices and rates, so they are not cached
+  calculateDraftOrder(
+    accessToken: string,
+    shop: string,
+    input: DraftOrderInput
+  ): Promise<CalculatedDraftOrder> {
+    return this.inner.calculateDraftOrder(accessToken, shop, input);
+  }
+
+  sendDraftOrderInvoice(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string,
+    email?: DraftOrderInvoiceEmail
+  ): Promise<ShopifyDraftOrder> {
+    return this.invalidating(shop, ["orders"], () =>
+      this.inner.sendDraftOrderInvoice(accessToken, shop, draftOrderId, email)
+    );
+  }
+
+  deleteDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string
+  ): Promise<void> {
+    return this.invalidating(shop, ["orders"], () =>
+      this.inner.deleteDraftOrder(accessToken, shop, draftOrderId)
+    );
+  }
+
+  createBasicDiscountCode(
+    accessToken: string,
+    shop: string,
+    discountInput: CreateBasicDiscountCodeInput
+  ): Promise<CreateBasicDiscountCodeResponse> {
+    return this.invalidating(shop, ["discounts"], () =>
+      this.inner.createBasicDiscountCode(accessToken, shop, discountInput)
+    );
+  }
+
+  activateDiscount(accessToken: string, shop: string, discountId: string): Promise<ShopifyDiscount> {
+    return this.invalidating(shop, ["discounts"], () =>
+      this.inner.activateDiscount(accessToken, shop, discountId)
+    );
+  }
+
+  deactivateDiscount(accessToken: string, shop: string, discountId: string): Promise<ShopifyDiscount> {
+    return this.invalidating(shop, ["discounts"], () =>
+      this.inner.deactivateDiscount(accessToken, shop, discountId)
+    );
+  }
+
+  updateDiscountEndDate(
+    accessToken: string,
+    shop: string,
+    discountId: string,
+    endsAt: string | null
+  ): Promise<ShopifyDiscount> {
+    return this.invalidating(shop, ["discounts"], () =>
+      this.inner.updateDiscountEndDate(accessToken, shop, discountId, endsAt)
+    );
+  }
+
+  deleteDiscount(accessToken: string, shop: string, discountId: string): Promise<void> {
+    return this.invalidating(shop, ["discounts"], () =>
+      this.inner.deleteDiscount(accessToken, shop, discountId)
+    );
+  }
+
+  createAutomaticBasicDiscount(
+    accessToken: string,
+    shop: string,
+    input: CreateAutomaticBasicDiscountInput
+  ): Promise<ShopifyDiscount> {
+    return this.invalidating(shop, ["discounts"], () =>
+      this.inner.createAutomaticBasicDiscount(accessToken, shop, input)
+    );
+  }
+
+  createAutomaticBxgyDiscount(
+    accessToken: string,
+    shop: string,
+    input: BxgyDiscountInput
+  ): Promise<ShopifyDiscount> {
+    return this.invalidating(shop, ["discounts"], () =>
+      this.inner.createAutomaticBxgyDiscount(accessToken, shop, input)
+    );
+  }
+
+  createBxgyDiscountCode(
+    accessToken: string,
+    shop: string,
+    input: CreateBxgyDiscountCodeInput
+  ): Promise<ShopifyDiscount> {
+    return this.invalidating(shop, ["discounts"], () =>
+      this.inner.createBxgyDiscountCode(accessToken, shop, input)
+    );
+  }
+
+  createFreeShippingDiscountCode(
+    accessToken: string,
+    shop: string,
+    input: CreateFreeShippingDiscountCodeInput
+  ): Promise<ShopifyDiscount> {
+    return this.invalidating(shop, ["discounts"], () =>
+      this.inner.createFreeShippingDiscountCode(accessToken, shop, input)
+    );
+  }
+
+  addDiscountCodes(
+    accessToken: string,
+    shop: string,
+    discountId: string,
+    codes: string[]
+  ): Promise<DiscountCodeBulkJob> {
+    return this.invalidating(shop, ["discounts"], () =>
+      this.inner.addDiscountCodes(accessToken, shop, discountId, codes)
+    );
+  }
+
+  // Polled until the job is done, so never cached; the codes only exist once it is
+  async getDiscountCodeBulkJob(accessToken: string, shop: string, jobId: string): Promise<DiscountCodeBulkJob> {
+    const job = await this.inner.getDiscountCodeBulkJob(accessToken, shop, jobId);
+    if (job.done) {
+      this.cache.deleteByPrefix(CachingShopifyClient.keyPrefix(shop, "discounts"));
+    }
+    return job;
+  }
+
+  // Bulk operations are never cached. A bulk mutation changes data while it
+  // runs, so the whole shop is dropped once one is seen finished
+  runBulkQuery(accessToken: string, shop: string, query: string): Promise<BulkOperation> {
+    return this.inner.runBulkQuery(accessToken, shop, query);
+  }
+
+  runBulkMutation(
+    accessToken: string,
+    shop: string,
+    mutation: string,
+    inputs: Array<Record<string, unknown>>
+  ): Promise<BulkOperation> {
+    return this.inner.runBulkMutation(accessToken, shop, mutation, inputs);
+  }
+
+  async getBulkOperation(
+    accessToken: string,
+    shop: string,
+    target: { id: string } | { type: BulkOperationType }
+  ): Promise<BulkOperation | null> {
+    const operation = await this.inner.getBulkOperation(accessToken, shop, target);
+    if (operation?.type === "MUTATION" && operation.completedAt) {
+      this.cache.deleteByPrefix(CachingShopifyClient.keyPrefix(shop));
+    }
+    return operation;
+  }
+
+  cancelBulkOperation(accessToken: string, shop: string, bulkOperationId: string): Promise<BulkOperation> {
+    return this.inner.cancelBulkOperation(accessToken, shop, bulkOperationId);
+  }
+
+  streamBulkOperationResult(url: string): AsyncIterable<BulkOperationRow> {
+    return this.inner.streamBulkOperationResult(url);
+  }
+
+  manageInventory(
+    accessToken: string,
+    shop: string,
+    data: Parameters<ShopifyClientPort["manageInventory"]>[2]
+  ): Promise<{ newQuantity: number; previousQuantity: number }> {
+    return this.invalidating(shop, ["products"], () => this.inner.manageInventory(accessToken, shop, data));
+  }
+
+  bulkVariantOperations(
+    accessToken: string,
+    shop: string,
+    operations: Parameters<ShopifyClientPort["bulkVariantOperations"]>[2]
+  ): Promise<void> {
+    return this.invalidating(shop, ["products"], () =>
+      this.inner.bulkVariantOperations(accessToken, shop, operations)
+    );
+  }
+
+  manageProductMetafields(
+    accessToken: string,
+    shop: string,
+    params: Parameters<ShopifyClientPort["manageProductMetafields"]>[2]
+  ): Promise<void> {
+    return this.invalidating(shop, ["products"], () =>
+      this.inner.manageProductMetafields(accessToken, shop, params)
+    );
+  }
+
+  manageProductCollections(
+    accessToken: string,
+    shop: string,
+    params: Parameters<ShopifyClientPort["manageProductCollections"]>[2]
+  ): Promise<void> {
+    return this.invalidating(shop, ["products", "collections"], () =>
+      this.inner.manageProductCollections(accessToken, shop, params)
+    );
+  }
+
+  manageProductImages(
+    accessToken: string,
+    shop: string,
+    params: Parameters<ShopifyClientPort["manageProductImages"]>[2]
+  ): Promise<void> {
+    return this.invalidating(shop, ["products"], () => this.inner.manageProductImages(accessToken, shop, params));
+  }
+
+  bulkUpdateVariantPrices(
+    accessToken: string,
+    shop: string,
+    updates: Array<{ variantId: string; newPrice: number }>
+  ): Promise<Array<{ variantId: string; newPrice: number }>> {
+    return this.invalidating(shop, ["products"], () =>
+      this.inner.bulkUpdateVariantPrices(accessToken, shop, updates)
+    );
+  }
+
+  createProduct(
+    accessToken: string,
+    shop: string,
+    productData: Parameters<ShopifyClientPort["createProduct"]>[2]
+  ): Promise<ProductNode> {
+    return this.invalidating(shop, ["products", "collections"], () =>
+      this.inner.createProduct(accessToken, shop, productData)
+    );
+  }
+
+  updateProduct(
+    accessToken: string,
+    shop: string,
+    productId: string,
+    updateData: Parameters<ShopifyClientPort["updateProduct"]>[3]
+  ): Promise<ProductNode> {
+    return this.invalidating(shop, ["products", "collections"], () =>
+      this.inner.updateProduct(accessToken, shop, productId, updateData)
+    );
+  }
+
+  bulkUpdateProducts(
+    accessToken: string,
+    shop: string,
+    updates: Parameters<ShopifyClientPort["bulkUpdateProducts"]>[2]
+  ): Promise<ProductNode[]> {
+    return this.invalidating(shop, ["products", "collections"], () =>
+      this.inner.bulkUpdateProducts(accessToken, shop, updates)
+    );
+  }
+
+  tagCustomer(accessToken: string, shop: string, customerId: string, tags: string[]): Promise<void> {
+    return this.invalidating(shop, ["customers"], () =>
+      this.inner.tagCustomer(accessToken, shop, customerId, tags)
+    );
+  }
+
+  subscribeWebhook(
+    accessToken: string,
+    shop: string,
+    callbackUrl: string,
+    topic: ShopifyWebhookTopic,
+    options?: WebhookSubscriptionOptions
+  ): Promise<ShopifyWebhook> {
+    return this.invalidating(shop, ["webhooks"], () =>
+      this.inner.subscribeWebhook(accessToken, shop, callbackUrl, topic, options)
+    );
+  }
+
+  subscribeEventBridgeWebhook(
+    accessToken: string,
+    shop: string,
+    arn: string,
+    topic: ShopifyWebhookTopic,
+    options?: WebhookSubscriptionOptions
+  ): Promise<ShopifyWebhook> {
+    return this.invalidating(shop, ["webhooks"], () =>
+      this.inner.subscribeEventBridgeWebhook(accessToken, shop, arn, topic, options)
+    );
+  }
+
+  subscribePubSubWebhook(
+    accessToken: string,
+    shop: string,
+    pubSubProject: string,
+    pubSubTopic: string,
+    topic: ShopifyWebhookTopic,
+    options?: WebhookSubscriptionOptions
+  ): Promise<ShopifyWebhook> {
+    return this.invalidating(shop, ["webhooks"], () =>
+      this.inner.subscribePubSubWebhook(accessToken, shop, pubSubProject, pubSubTopic, topic, options)
+    );
+  }
+
+  updateWebhook(
+    accessToken: string,
+    shop: string,
+    webhookId: string,
+    update: WebhookSubscriptionUpdate
+  ): Promise<ShopifyWebhook> {
+    return this.invalidating(shop, ["webhooks"], () =>
+      this.inner.updateWebhook(accessToken, shop, webhookId, update)
+    );
+  }
+
+  unsubscribeWebhook(accessToken: string, shop: string, webhookId: string): Promise<void> {
+    return this.invalidating(shop, ["webhooks"], () => this.inner.unsubscribeWebhook(accessToken, shop, webhookId));
+  }
+
+  createBlogArticle(
+    accessToken: string,
+    myshopifyDomain: string,
+    article: Parameters<ShopifyClientPort["createBlogArticle"]>[2]
+  ): Promise<CreateBlogArticleResponse> {
+    return this.invalidating(myshopifyDomain, ["blog"], () =>
+      this.inner.createBlogArticle(accessToken, myshopifyDomain, article)
+    );
+  }
+
+  updateBlogArticle(
+    accessToken: string,
+    myshopifyDomain: string,
+    articleId: string,
+    updates: Parameters<ShopifyClientPort["updateBlogArticle"]>[3]
+  ): Promise<UpdateBlogArticleResponse> {
+    return this.invalidating(myshopifyDomain, ["blog"], () =>
+      this.inner.updateBlogArticle(accessToken, myshopifyDomain, articleId, updates)
+    );
+  }
+
+  deleteBlogArticle(accessToken: string, myshopifyDomain: string, articleId: string): Promise<void> {
+    return this.invalidating(myshopifyDomain, ["blog"], () =>
+      this.inner.deleteBlogArticle(accessToken, myshopifyDomain, articleId)
+    );
+  }
+}
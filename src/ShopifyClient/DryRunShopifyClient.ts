@@ -0,0 +1,1369 @@
+/**
+ * ShopifyClientPort decorator that plans mutations instead of sending them
+ */
+
+import {
+  BlogArticle,
+  BulkOperation,
+  BulkOperationRow,
+  BulkOperationType,
+  BxgyDiscountInput,
+  CalculatedDraftOrder,
+  CompleteDraftOrderResponse,
+  CreateAutomaticBasicDiscountInput,
+  CreateBasicDiscountCodeInput,
+  CreateBasicDiscountCodeResponse,
+  CreateBlogArticleResponse,
+  CreateBxgyDiscountCodeInput,
+  CreateDraftOrderPayload,
+  CreateFreeShippingDiscountCodeInput,
+  DiscountCodeBulkJob,
+  DraftOrderInput,
+  DraftOrderInvoiceEmail,
+  DraftOrderResponse,
+  GetPriceRuleInput,
+  GetPriceRuleResponse,
+  LoadBlogArticleResponse,
+  LoadBlogArticlesResponse,
+  LoadCollectionsResponse,
+  LoadCustomersResponse,
+  LoadDiscountsResponse,
+  LoadDraftOrdersResponse,
+  LoadProductsByIdsResponse,
+  LoadProductsResponse,
+  LoadVariantsByIdResponse,
+  LoadWebhooksResponse,
+  MAX_DISCOUNT_CODES_PER_BULK_ADD,
+  ProductNode,
+  ProductVariantWithProductDetails,
+  SearchProductsByPriceRangeResponse,
+  ShopDetails,
+  ShopifyClientPort,
+  ShopifyCollectionsQueryParams,
+  ShopifyCustomer,
+  ShopifyDiscount,
+  ShopifyDiscountsQueryParams,
+  ShopifyDraftOrder,
+  ShopifyDraftOrdersQueryParams,
+  ShopifyInputError,
+  ShopifyOrdersGraphqlQueryParams,
+  ShopifyOrdersGraphqlResponse,
+  ShopifyqlTableResponse,
+  ShopifyWebhook,
+  ShopifyWebhookTopic,
+  ShopifyWebhooksQueryParams,
+  UpdateBlogArticleResponse,
+  WebhookEndpoint,
+  WebhookSubscriptionOptions,
+  WebhookSubscriptionUpdate,
+  webhookEndpointAddress,
+} from "./ShopifyClientPort.js";
+import {
+  checkBlogArticleFields,
+  checkDiscountCode,
+  checkDiscountCollections,
+  checkDiscountSchedule,
+  checkDiscountValue,
+  checkDraftOrderLineItems,
+  checkMetafieldIdentifier,
+  checkPrice,
+  checkProductFields,
+  checkTags,
+  checkVariantCount,
+  checkVariantFields,
+  checkWebhookEndpoint,
+} from "../utils/shopifyConstraints.js";
+
+/**
+ * One field a planned change sets; `before` is left out when the current value
+ * cannot be read through the port (metafield values, barcodes, weights)
+ */
+export type FieldChange = {
+  field: string;
+  before?: unknown;
+  after: unknown;
+};
+
+/**
+ * A mutation the dry run would have sent, with the problems that would make it fail
+ */
+export type PlannedChange = {
+  operation: keyof ShopifyClientPort;
+  action: "create" | "update" | "delete" | "send" | "complete";
+  resource: string;
+  // Null for resources that would be created
+  id: string | null;
+  // Title or name of the resource when it is known
+  title?: string;
+  changes: FieldChange[];
+  errors: string[];
+};
+
+// IDs handed out for resources a dry run pretends to create, e.g. gid://shopify/Product/dry-run-1
+export const DRY_RUN_ID_PREFIX = "dry-run-";
+
+// IDs the Admin API accepts in one nodes(ids:) query
+const MAX_NODES_PER_QUERY = 250;
+
+// Codes listed in the plan of a bulk code add, the rest are only counted
+const SAMPLE_CODE_COUNT = 5;
+
+type ProductFields = {
+  title?: string;
+  description?: string;
+  status?: "ACTIVE" | "ARCHIVED" | "DRAFT";
+  vendor?: string;
+  productType?: string;
+  tags?: string[];
+};
+
+function legacyId(id: string | number): string {
+  const parts = String(id).split("/");
+  return parts[parts.length - 1];
+}
+
+// A bulk operation that has just been started
+function createdBulkOperation(id: string, type: BulkOperationType, query: string): BulkOperation {
+  return {
+    id,
+    type,
+    status: "CREATED",
+    errorCode: null,
+    createdAt: new Date().toISOString(),
+    completedAt: null,
+    objectCount: 0,
+    fileSize: null,
+    url: null,
+    partialDataUrl: null,
+    query,
+  };
+}
+
+function isDryRunId(id: string): boolean {
+  return legacyId(id).startsWith(DRY_RUN_ID_PREFIX);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Changes of the fields set in `after`. Fields missing from `before` are
+ * reported without a before value, unchanged fields are left out.
+ */
+function diffFields(before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  return Object.entries(after)
+    .filter(([, value]) => value !== undefined)
+    .filter(([field, value]) => !(field in before) || !sameValue(before[field], value))
+    .map(([field, value]) => (field in before ? { field, before: before[field], after: value } : { field, after: value }));
+}
+
+function productFields(product: ProductNode): Required<ProductFields> {
+  return {
+    title: product.title,
+    description: product.description,
+    status: product.status,
+    vendor: product.vendor,
+    productType: product.productType,
+    tags: product.tags,
+  };
+}
+
+function discountStatus(startsAt: string, endsAt: string | null): ShopifyDiscount["status"] {
+  const now = new Date().toISOString();
+  if (endsAt !== null && endsAt <= now) {
+    return "EXPIRED";
+  }
+  return startsAt > now ? "SCHEDULED" : "ACTIVE";
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+/**
+ * Implements the read methods by delegating to the wrapped client. Mutations
+ * read the current state, validate their input against the Admin API limits
+ * and add a PlannedChange to `plannedChanges` instead of changing anything.
+ * They resolve with a plausible result, using DRY_RUN_ID_PREFIX IDs for new
+ * resources, so tools that chain several calls run to the end; problems are
+ * reported in the plan rather than thrown.
+ */
+export class DryRunShopifyClient implements ShopifyClientPort {
+  readonly plannedChanges: PlannedChange[] = [];
+
+  private nextId = 0;
+  private readonly codeJobs = new Map<string, DiscountCodeBulkJob>();
+  // Codes given to discounts earlier in the same plan
+  private readonly plannedCodes = new Set<string>();
+
+  constructor(private readonly inner: ShopifyClientPort) {}
+
+  private plan(change: Omit<PlannedChange, "errors"> & { errors?: string[] }): void {
+    this.plannedChanges.push({ ...change, errors: change.errors ?? [] });
+  }
+
+  private createGid(type: string): string {
+    return `gid://shopify/${type}/${DRY_RUN_ID_PREFIX}${++this.nextId}`;
+  }
+
+  // Resolves reads that answer a missing resource with ShopifyInputError to null
+  private async orNull<T>(load: () => Promise<T>): Promise<T | null> {
+    try {
+      return await load();
+    } catch (error) {
+      if (error instanceof ShopifyInputError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async loadProductMap(accessToken: string, shop: string, productIds: string[]): Promise<Map<string, ProductNode>> {
+    const products = new Map<string, ProductNode>();
+    const ids = [...new Set(productIds.filter((id) => !isDryRunId(id)).map(legacyId))];
+    for (const ids_ of chunk(ids, MAX_NODES_PER_QUERY)) {
+      const response = await this.inner.loadProductsByIds(accessToken, shop, ids_);
+      for (const product of response.products) {
+        products.set(legacyId(product.id), product);
+      }
+    }
+    return products;
+  }
+
+  private async loadVariantMap(
+    accessToken: string,
+    shop: string,
+    variantIds: string[]
+  ): Promise<Map<string, ProductVariantWithProductDetails>> {
+    const variants = new Map<string, ProductVariantWithProductDetails>();
+    const ids = [...new Set(variantIds.filter((id) => !isDryRunId(id)).map(legacyId))];
+    for (const ids_ of chunk(ids, MAX_NODES_PER_QUERY)) {
+      const response = await this.inner.loadVariantsByIds(accessToken, shop, ids_);
+      for (const variant of response.variants) {
+        variants.set(legacyId(variant.id), variant);
+      }
+    }
+    return variants;
+  }
+
+  private async findDraftOrder(accessToken: string, shop: string, draftOrderId: string): Promise<ShopifyDraftOrder | null> {
+    const response = await this.inner.loadDraftOrders(accessToken, shop, { first: 1, query: `id:${legacyId(draftOrderId)}` });
+    return response.draftOrders[0] ?? null;
+  }
+
+  private async checkLineItemVariants(
+    accessToken: string,
+    shop: string,
+    lineItems: DraftOrderInput["lineItems"]
+  ): Promise<string[]> {
+    if (!lineItems) {
+      return [];
+    }
+    const variants = await this.loadVariantMap(accessToken, shop, lineItems.map((lineItem) => lineItem.variantId));
+    return [
+      ...checkDraftOrderLineItems(lineItems),
+      ...lineItems
+        .map((lineItem, index) => ({ lineItem, index }))
+        .filter(({ lineItem }) => !variants.has(legacyId(lineItem.variantId)))
+        .map(({ lineItem, index }) => `lineItems[${index}].variantId: variant ${lineItem.variantId} not found`),
+    ];
+  }
+
+  // Draft orders that cannot be changed any more are reported like missing ones
+  private draftOrderErrors(draftOrderId: string, draftOrder: ShopifyDraftOrder | null): string[] {
+    if (!draftOrder) {
+      return [`Draft order ${draftOrderId} not found`];
+    }
+    return draftOrder.status === "COMPLETED" ? [`Draft order ${draftOrder.name} has already been completed`] : [];
+  }
+
+  // Result returned for a draft order the plan changes, or an empty one if it does not exist
+  private previewDraftOrder(draftOrderId: string, draftOrder: ShopifyDraftOrder | null): ShopifyDraftOrder {
+    const now = new Date().toISOString();
+    return (
+      draftOrder ?? {
+        id: draftOrderId,
+        name: draftOrderId,
+        status: "OPEN",
+        email: null,
+        note: null,
+        tags: [],
+        invoiceUrl: null,
+        invoiceSentAt: null,
+        createdAt: now,
+        updatedAt: now,
+        orderId: null,
+        appliedDiscount: null,
+        lineItems: [],
+        currencyCode: "",
+        subtotalPrice: "0.00",
+        totalTax: "0.00",
+        totalShippingPrice: "0.00",
+        totalPrice: "0.00",
+      }
+    );
+  }
+
+  private async checkCodeAvailable(accessToken: string, shop: string, code: string): Promise<string[]> {
+    const errors = checkDiscountCode(code);
+    if (errors.length > 0) {
+      return errors;
+    }
+    if (this.plannedCodes.has(code.toLowerCase())) {
+      return [`code "${code}": is already used earlier in this plan`];
+    }
+    const { discounts } = await this.inner.loadDiscounts(accessToken, shop, { first: 1, query: `code:${code}` });
+    const taken = discounts.find((discount) => discount.codes.some((taken) => taken.toLowerCase() === code.toLowerCase()));
+    return taken ? [`code "${code}": is already used by discount ${taken.id}`] : [];
+  }
+
+  // Plans a discount creation and returns the discount it would create
+  private async planDiscount(
+    accessToken: string,
+    shop: string,
+    operation: keyof ShopifyClientPort,
+    type: string,
+    input: { title: string; startsAt: string; endsAt?: string; code?: string; usageLimit?: number },
+    errors: string[]
+  ): Promise<ShopifyDiscount> {
+    const codes = input.code !== undefined ? [input.code] : [];
+    const allErrors = [
+      ...(input.title.trim() ? [] : ["title: must not be blank"]),
+      ...checkDiscountSchedule(input.startsAt, input.endsAt),
+      ...errors,
+    ];
+    for (const code of codes) {
+      allErrors.push(...(await this.checkCodeAvailable(accessToken, shop, code)));
+      this.plannedCodes.add(code.toLowerCase());
+    }
+
+    const id = this.createGid(codes.length > 0 ? "DiscountCodeNode" : "DiscountAutomaticNode");
+    this.plan({
+      operation,
+      action: "create",
+      resource: "discount",
+      id: null,
+      title: input.title,
+      changes: diffFields({}, input),
+      errors: allErrors,
+    });
+    return {
+      id,
+      title: input.title,
+      method: codes.length > 0 ? "CODE" : "AUTOMATIC",
+      type,
+      status: discountStatus(input.startsAt, input.endsAt ?? null),
+      summary: null,
+      codes,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt ?? null,
+      usageCount: 0,
+      usageLimit: input.usageLimit ?? null,
+    };
+  }
+
+  // Plans a change to an existing discount and returns the discount as it would be
+  private async planDiscountUpdate(
+    accessToken: string,
+    shop: string,
+    operation: keyof ShopifyClientPort,
+    discountId: string,
+    endsAt: string | null
+  ): Promise<ShopifyDiscount> {
+    const discount = await this.orNull(() => this.inner.getDiscount(accessToken, shop, discountId));
+    const after = {
+      status: discountStatus(discount?.startsAt ?? new Date().toISOString(), endsAt),
+      endsAt,
+    };
+    this.plan({
+      operation,
+      action: "update",
+      resource: "discount",
+      id: discount?.id ?? discountId,
+      title: discount?.title,
+      changes: discount ? diffFields({ status: discount.status, endsAt: discount.endsAt }, after) : diffFields({}, after),
+      errors: discount ? checkDiscountSchedule(discount.startsAt, endsAt) : [`Discount ${discountId} not found`],
+    });
+    return discount ? { ...discount, ...after } : { ...this.previewDiscount(discountId), ...after };
+  }
+
+  private previewDiscount(discountId: string): ShopifyDiscount {
+    return {
+      id: discountId,
+      title: "",
+      method: "CODE",
+      type: "",
+      status: "ACTIVE",
+      summary: null,
+      codes: [],
+      startsAt: new Date().toISOString(),
+      endsAt: null,
+      usageCount: 0,
+      usageLimit: null,
+    };
+  }
+
+  private async planWebhookSubscription(
+    accessToken: string,
+    shop: string,
+    operation: keyof ShopifyClientPort,
+    endpoint: WebhookEndpoint,
+    topic: ShopifyWebhookTopic,
+    options: WebhookSubscriptionOptions
+  ): Promise<ShopifyWebhook> {
+    const errors = checkWebhookEndpoint(endpoint);
+    const address = webhookEndpointAddress(endpoint);
+    if (errors.length === 0) {
+      const existing = await this.inner.findWebhookByTopicAndCallbackUrl(accessToken, shop, address, topic);
+      if (existing) {
+        errors.push(`A ${topic} subscription to ${address} already exists (${existing.id})`);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const webhook: ShopifyWebhook = {
+      id: this.createGid("WebhookSubscription"),
+      callbackUrl: address,
+      topic,
+      endpoint,
+      format: options.format ?? "JSON",
+      includeFields: options.includeFields ?? [],
+      metafieldNamespaces: options.metafieldNamespaces ?? [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.plan({
+      operation,
+      action: "create",
+      resource: "webhook",
+      id: null,
+      title: topic,
+      changes: diffFields({}, { topic, endpoint, ...options }),
+      errors,
+    });
+    return webhook;
+  }
+
+  private async planProductUpdates(
+    accessToken: string,
+    shop: string,
+    operation: keyof ShopifyClientPort,
+    updates: Array<ProductFields & { productId: string }>
+  ): Promise<ProductNode[]> {
+    const products = await this.loadProductMap(accessToken, shop, updates.map((update) => update.productId));
+    return updates.map(({ productId, ...fields }) => {
+      const product = products.get(legacyId(productId));
+      this.plan({
+        operation,
+        action: "update",
+        resource: "product",
+        id: product?.id ?? productId,
+        title: product?.title,
+        changes: diffFields(product ? productFields(product) : {}, fields),
+        errors: product ? checkProductFields(fields) : [`Product ${productId} not found`],
+      });
+      const changed = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+      return product ? { ...product, ...changed } : this.previewProduct(productId, changed);
+    });
+  }
+
+  private previewProduct(productId: string, fields: ProductFields): ProductNode {
+    const now = new Date().toISOString();
+    return {
+      id: productId,
+      handle: "",
+      title: "",
+      description: "",
+      status: "DRAFT",
+      vendor: "",
+      productType: "",
+      tags: [],
+      publishedAt: now,
+      updatedAt: now,
+      options: [],
+      images: { edges: [] },
+      variants: { edges: [] },
+      ...fields,
+    };
+  }
+
+  // Read methods
+
+  searchProductsByPriceRange(
+    accessToken: string,
+    shop: string,
+    params: { minPrice: number; maxPrice: number; currencyCode?: string; limit?: number }
+  ): Promise<SearchProductsByPriceRangeResponse> {
+    return this.inner.searchProductsByPriceRange(accessToken, shop, params);
+  }
+
+  loadOrders(accessToken: string, shop: string, queryParams: ShopifyOrdersGraphqlQueryParams): Promise<ShopifyOrdersGraphqlResponse> {
+    return this.inner.loadOrders(accessToken, shop, queryParams);
+  }
+
+  runShopifyqlQuery(accessToken: string, shop: string, query: string): Promise<ShopifyqlTableResponse> {
+    return this.inner.runShopifyqlQuery(accessToken, shop, query);
+  }
+
+  loadCustomers(accessToken: string, myshopifyDomain: string, limit?: number, next?: string): Promise<LoadCustomersResponse> {
+    return this.inner.loadCustomers(accessToken, myshopifyDomain, limit, next);
+  }
+
+  getCustomer(accessToken: string, myshopifyDomain: string, customerId: string): Promise<ShopifyCustomer> {
+    return this.inner.getCustomer(accessToken, myshopifyDomain, customerId);
+  }
+
+  loadProducts(
+    accessToken: string,
+    myshopifyDomain: string,
+    searchTitle: string | null,
+    limit?: number,
+    afterCursor?: string
+  ): Promise<LoadProductsResponse> {
+    return this.inner.loadProducts(accessToken, myshopifyDomain, searchTitle, limit, afterCursor);
+  }
+
+  loadProductsByCollectionId(
+    accessToken: string,
+    myshopifyDomain: string,
+    collectionId: string,
+    limit?: number,
+    afterCursor?: string
+  ): Promise<LoadProductsResponse> {
+    return this.inner.loadProductsByCollectionId(accessToken, myshopifyDomain, collectionId, limit, afterCursor);
+  }
+
+  loadProductsByIds(accessToken: string, myshopifyDomain: string, productIds: string[]): Promise<LoadProductsByIdsResponse> {
+    return this.inner.loadProductsByIds(accessToken, myshopifyDomain, productIds);
+  }
+
+  loadVariantsByIds(accessToken: string, myshopifyDomain: string, variantIds: string[]): Promise<LoadVariantsByIdResponse> {
+    return this.inner.loadVariantsByIds(accessToken, myshopifyDomain, variantIds);
+  }
+
+  loadCollections(
+    accessToken: string,
+    myshopifyDomain: string,
+    queryParams: ShopifyCollectionsQueryParams,
+    next?: string
+  ): Promise<LoadCollectionsResponse> {
+    return this.inner.loadCollections(accessToken, myshopifyDomain, queryParams, next);
+  }
+
+  calculateDraftOrder(accessToken: string, shop: string, input: DraftOrderInput): Promise<CalculatedDraftOrder> {
+    return this.inner.calculateDraftOrder(accessToken, shop, input);
+  }
+
+  loadDraftOrders(accessToken: string, shop: string, queryParams: ShopifyDraftOrdersQueryParams): Promise<LoadDraftOrdersResponse> {
+    return this.inner.loadDraftOrders(accessToken, shop, queryParams);
+  }
+
+  getPriceRule(accessToken: string, shop: string, input: GetPriceRuleInput): Promise<GetPriceRuleResponse> {
+    return this.inner.getPriceRule(accessToken, shop, input);
+  }
+
+  loadDiscounts(accessToken: string, shop: string, queryParams: ShopifyDiscountsQueryParams): Promise<LoadDiscountsResponse> {
+    return this.inner.loadDiscounts(accessToken, shop, queryParams);
+  }
+
+  getDiscount(accessToken: string, shop: string, discountId: string): Promise<ShopifyDiscount> {
+    return this.inner.getDiscount(accessToken, shop, discountId);
+  }
+
+  // Jobs of planned code additions report as finished straight away
+  async getDiscountCodeBulkJob(accessToken: string, shop: string, jobId: string): Promise<DiscountCodeBulkJob> {
+    return structuredClone(this.codeJobs.get(jobId)) ?? this.inner.getDiscountCodeBulkJob(accessToken, shop, jobId);
+  }
+
+  loadShopDetails(accessToken: string, shop: string): Promise<ShopDetails> {
+    return this.inner.loadShopDetails(accessToken, shop);
+  }
+
+  // Bulk queries read, so they run for real
+  runBulkQuery(accessToken: string, shop: string, query: string): Promise<BulkOperation> {
+    return this.inner.runBulkQuery(accessToken, shop, query);
+  }
+
+  async getBulkOperation(
+    accessToken: string,
+    shop: string,
+    target: { id: string } | { type: BulkOperationType }
+  ): Promise<BulkOperation | null> {
+    return "id" in target && isDryRunId(target.id) ? null : this.inner.getBulkOperation(accessToken, shop, target);
+  }
+
+  streamBulkOperationResult(url: string): AsyncIterable<BulkOperationRow> {
+    return this.inner.streamBulkOperationResult(url);
+  }
+
+  loadWebhooks(accessToken: string, shop: string, queryParams: ShopifyWebhooksQueryParams): Promise<LoadWebhooksResponse> {
+    return this.inner.loadWebhooks(accessToken, shop, queryParams);
+  }
+
+  getWebhook(accessToken: string, shop: string, webhookId: string): Promise<ShopifyWebhook> {
+    return this.inner.getWebhook(accessToken, shop, webhookId);
+  }
+
+  findWebhookByTopicAndCallbackUrl(
+    accessToken: string,
+    shop: string,
+    callbackUrl: string,
+    topic: ShopifyWebhookTopic
+  ): Promise<ShopifyWebhook | null> {
+    return this.inner.findWebhookByTopicAndCallbackUrl(accessToken, shop, callbackUrl, topic);
+  }
+
+  loadBlogArticles(
+    accessToken: string,
+    myshopifyDomain: string,
+    options: { limit?: number; status?: "draft" | "published"; tag?: string }
+  ): Promise<LoadBlogArticlesResponse> {
+    return this.inner.loadBlogArticles(accessToken, myshopifyDomain, options);
+  }
+
+  loadBlogArticle(accessToken: string, myshopifyDomain: string, articleId: string): Promise<LoadBlogArticleResponse> {
+    return this.inner.loadBlogArticle(accessToken, myshopifyDomain, articleId);
+  }
+
+  // Planned mutations
+
+  // Plans one change per input line, so confirmation thresholds count lines
+  async runBulkMutation(
+    accessToken: string,
+    shop: string,
+    mutation: string,
+    inputs: Array<Record<string, unknown>>
+  ): Promise<BulkOperation> {
+    const id = this.createGid("BulkOperation");
+    const rootField = mutation.match(/\{\s*(\w+)/)?.[1] ?? "mutation";
+    const errors = /^\s*mutation\b/.test(mutation) ? [] : ["mutation must be a GraphQL mutation"];
+    if (inputs.length === 0) {
+      this.plan({
+        operation: "runBulkMutation",
+        action: "update",
+        resource: rootField,
+        id: null,
+        changes: [],
+        errors: [...errors, "At least one input is required"],
+      });
+    }
+    inputs.forEach((input, line) =>
+      this.plan({
+        operation: "runBulkMutation",
+        action: /delete|remove/i.test(rootField) ? "delete" : "update",
+        resource: rootField,
+        id: null,
+        title: `Input line ${line + 1}`,
+        changes: Object.entries(input).map(([field, after]) => ({ field, after })),
+        errors,
+      })
+    );
+    return createdBulkOperation(id, "MUTATION", mutation);
+  }
+
+  async cancelBulkOperation(accessToken: string, shop: string, bulkOperationId: string): Promise<BulkOperation> {
+    const operation = await this.inner.getBulkOperation(accessToken, shop, { id: bulkOperationId });
+    const running = operation?.status === "CREATED" || operation?.status === "RUNNING";
+    this.plan({
+      operation: "cancelBulkOperation",
+      action: "update",
+      resource: "bulkOperation",
+      id: operation?.id ?? bulkOperationId,
+      changes: operation ? [{ field: "status", before: operation.status, after: "CANCELING" }] : [],
+      errors: !operation
+        ? [`Bulk operation ${bulkOperationId} not found`]
+        : running
+          ? []
+          : [`Bulk operation ${bulkOperationId} is already ${operation.status}`],
+    });
+    if (!operation) {
+      return { ...createdBulkOperation(bulkOperationId, "QUERY", ""), status: "CANCELED" };
+    }
+    return running ? { ...operation, status: "CANCELING" } : operation;
+  }
+
+  async createDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderData: CreateDraftOrderPayload,
+    idempotencyKey: string
+  ): Promise<DraftOrderResponse> {
+    const errors = await this.checkLineItemVariants(accessToken, shop, draftOrderData.lineItems);
+    if (draftOrderData.lineItems.length === 0) {
+      errors.push("lineItems: a draft order needs at least one line item");
+    }
+    this.plan({
+      operation: "createDraftOrder",
+      action: "create",
+      resource: "draftOrder",
+      id: null,
+      changes: diffFields({}, draftOrderData),
+      errors,
+    });
+    return { draftOrderId: this.createGid("DraftOrder"), draftOrderName: "(dry run)" };
+  }
+
+  async completeDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string,
+    options: { paymentPending?: boolean } = {}
+  ): Promise<CompleteDraftOrderResponse> {
+    const draftOrder = await this.findDraftOrder(accessToken, shop, draftOrderId);
+    this.plan({
+      operation: "completeDraftOrder",
+      action: "complete",
+      resource: "draftOrder",
+      id: draftOrder?.id ?? draftOrderId,
+      title: draftOrder?.name,
+      changes: [
+        ...diffFields(draftOrder ? { status: draftOrder.status } : {}, { status: "COMPLETED" }),
+        { field: "financialStatus", after: options.paymentPending ? "PENDING" : "PAID" },
+      ],
+      errors: this.draftOrderErrors(draftOrderId, draftOrder),
+    });
+    return {
+      draftOrderId: draftOrder?.id ?? draftOrderId,
+      draftOrderName: draftOrder?.name ?? draftOrderId,
+      orderId: this.createGid("Order"),
+    };
+  }
+
+  async updateDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string,
+    input: DraftOrderInput
+  ): Promise<ShopifyDraftOrder> {
+    const draftOrder = await this.findDraftOrder(accessToken, shop, draftOrderId);
+    const before = draftOrder
+      ? {
+          email: draftOrder.email,
+          note: draftOrder.note,
+          tags: draftOrder.tags.join(","),
+          appliedDiscount: draftOrder.appliedDiscount,
+          lineItems: draftOrder.lineItems.map((lineItem) => ({
+            variantId: lineItem.variantId,
+            quantity: lineItem.quantity,
+            ...(lineItem.appliedDiscount && { appliedDiscount: lineItem.appliedDiscount }),
+          })),
+        }
+      : {};
+    this.plan({
+      operation: "updateDraftOrder",
+      action: "update",
+      resource: "draftOrder",
+      id: draftOrder?.id ?? draftOrderId,
+      title: draftOrder?.name,
+      changes: diffFields(before, input),
+      errors: [
+        ...this.draftOrderErrors(draftOrderId, draftOrder),
+        ...(await this.checkLineItemVariants(accessToken, shop, input.lineItems)),
+      ],
+    });
+    return this.previewDraftOrder(draftOrderId, draftOrder);
+  }
+
+  async sendDraftOrderInvoice(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string,
+    email?: DraftOrderInvoiceEmail
+  ): Promise<ShopifyDraftOrder> {
+    const draftOrder = await this.findDraftOrder(accessToken, shop, draftOrderId);
+    const errors = this.draftOrderErrors(draftOrderId, draftOrder);
+    const to = email?.to ?? draftOrder?.email;
+    if (draftOrder && !to) {
+      errors.push("to: the draft order has no email address, give a recipient");
+    }
+    this.plan({
+      operation: "sendDraftOrderInvoice",
+      action: "send",
+      resource: "draftOrder",
+      id: draftOrder?.id ?? draftOrderId,
+      title: draftOrder?.name,
+      changes: [
+        ...diffFields(draftOrder ? { status: draftOrder.status } : {}, { status: "INVOICE_SENT" }),
+        ...diffFields({}, { to, subject: email?.subject, customMessage: email?.customMessage }),
+      ],
+      errors,
+    });
+    return this.previewDraftOrder(draftOrderId, draftOrder);
+  }
+
+  async deleteDraftOrder(accessToken: string, shop: string, draftOrderId: string): Promise<void> {
+    const draftOrder = await this.findDraftOrder(accessToken, shop, draftOrderId);
+    this.plan({
+      operation: "deleteDraftOrder",
+      action: "delete",
+      resource: "draftOrder",
+      id: draftOrder?.id ?? draftOrderId,
+      title: draftOrder?.name,
+      changes: draftOrder ? [{ field: "status", before: draftOrder.status, after: null }] : [],
+      errors: draftOrder ? [] : [`Draft order ${draftOrderId} not found`],
+    });
+  }
+
+  async createBasicDiscountCode(
+    accessToken: string,
+    shop: string,
+    discountInput: CreateBasicDiscountCodeInput
+  ): Promise<CreateBasicDiscountCodeResponse> {
+    const discount = await this.planDiscount(
+      accessToken,
+      shop,
+      "createBasicDiscountCode",
+      "DiscountCodeBasic",
+      discountInput,
+      [
+        ...checkDiscountValue(discountInput.valueType, discountInput.value),
+        ...checkDiscountCollections(discountInput.includeCollectionIds, discountInput.excludeCollectionIds),
+      ]
+    );
+    return { id: discount.id, code: discountInput.code };
+  }
+
+  activateDiscount(accessToken: string, shop: string, discountId: string): Promise<ShopifyDiscount> {
+    return this.planDiscountUpdate(accessToken, shop, "activateDiscount", discountId, null);
+  }
+
+  deactivateDiscount(accessToken: string, shop: string, discountId: string): Promise<ShopifyDiscount> {
+    return this.planDiscountUpdate(accessToken, shop, "deactivateDiscount", discountId, new Date().toISOString());
+  }
+
+  updateDiscountEndDate(accessToken: string, shop: string, discountId: string, endsAt: string | null): Promise<ShopifyDiscount> {
+    return this.planDiscountUpdate(accessToken, shop, "updateDiscountEndDate", discountId, endsAt);
+  }
+
+  async deleteDiscount(accessToken: string, shop: string, discountId: string): Promise<void> {
+    const discount = await this.orNull(() => this.inner.getDiscount(accessToken, shop, discountId));
+    this.plan({
+      operation: "deleteDiscount",
+      action: "delete",
+      resource: "discount",
+      id: discount?.id ?? discountId,
+      title: discount?.title,
+      changes: discount ? [{ field: "codes", before: discount.codes, after: null }] : [],
+      errors: discount ? [] : [`Discount ${discountId} not found`],
+    });
+  }
+
+  async createAutomaticBasicDiscount(
+    accessToken: string,
+    shop: string,
+    input: CreateAutomaticBasicDiscountInput
+  ): Promise<ShopifyDiscount> {
+    return this.planDiscount(
+      accessToken,
+      shop,
+      "createAutomaticBasicDiscount",
+      "DiscountAutomaticBasic",
+      input,
+      checkDiscountValue(input.valueType, input.value)
+    );
+  }
+
+  async createAutomaticBxgyDiscount(accessToken: string, shop: string, input: BxgyDiscountInput): Promise<ShopifyDiscount> {
+    return this.planDiscount(accessToken, shop, "createAutomaticBxgyDiscount", "DiscountAutomaticBxgy", input, [
+      ...checkDiscountValue("percentage", input.getPercentage).map((error) => error.replace(/^value/, "getPercentage")),
+    ]);
+  }
+
+  async createBxgyDiscountCode(accessToken: string, shop: string, input: CreateBxgyDiscountCodeInput): Promise<ShopifyDiscount> {
+    return this.planDiscount(accessToken, shop, "createBxgyDiscountCode", "DiscountCodeBxgy", input, [
+      ...checkDiscountValue("percentage", input.getPercentage).map((error) => error.replace(/^value/, "getPercentage")),
+    ]);
+  }
+
+  async createFreeShippingDiscountCode(
+    accessToken: string,
+    shop: string,
+    input: CreateFreeShippingDiscountCodeInput
+  ): Promise<ShopifyDiscount> {
+    return this.planDiscount(accessToken, shop, "createFreeShippingDiscountCode", "DiscountCodeFreeShipping", input, [
+      ...(input.countryCodes ?? [])
+        .filter((countryCode) => !/^[A-Z]{2}$/.test(countryCode))
+        .map((countryCode) => `countryCodes: "${countryCode}" is not a two-letter ISO country code`),
+    ]);
+  }
+
+  async addDiscountCodes(accessToken: string, shop: string, discountId: string, codes: string[]): Promise<DiscountCodeBulkJob> {
+    const errors: string[] = [];
+    let title: string | undefined;
+    if (!isDryRunId(discountId)) {
+      const discount = await this.orNull(() => this.inner.getDiscount(accessToken, shop, discountId));
+      title = discount?.title;
+      if (!discount) {
+        errors.push(`Discount ${discountId} not found`);
+      } else if (discount.method !== "CODE") {
+        errors.push(`Discount ${discountId} is an automatic discount and cannot have codes`);
+      }
+    }
+    if (codes.length > MAX_DISCOUNT_CODES_PER_BULK_ADD) {
+      errors.push(`codes: at most ${MAX_DISCOUNT_CODES_PER_BULK_ADD} codes can be added at once (got ${codes.length})`);
+    }
+    for (const code of codes) {
+      errors.push(...checkDiscountCode(code));
+      if (this.plannedCodes.has(code.toLowerCase())) {
+        errors.push(`code "${code}": is already used earlier in this plan`);
+      }
+      this.plannedCodes.add(code.toLowerCase());
+    }
+
+    this.plan({
+      operation: "addDiscountCodes",
+      action: "update",
+      resource: "discount",
+      id: discountId,
+      title,
+      changes: [{ field: "codes", after: { added: codes.length, sample: codes.slice(0, SAMPLE_CODE_COUNT) } }],
+      errors,
+    });
+    const job: DiscountCodeBulkJob = {
+      id: this.createGid("DiscountRedeemCodeBulkCreation"),
+      done: true,
+      codesCount: codes.length,
+      importedCount: codes.length,
+      failedCount: 0,
+      failedCodes: [],
+    };
+    this.codeJobs.set(job.id, job);
+    return structuredClone(job);
+  }
+
+  async manageInventory(
+    accessToken: string,
+    shop: string,
+    data: { variantId: string; action: "SET" | "ADJUST"; quantity: number; locationId?: string; reason?: string }
+  ): Promise<{ newQuantity: number; previousQuantity: number }> {
+    const variant = (await this.loadVariantMap(accessToken, shop, [data.variantId])).get(legacyId(data.variantId));
+    const previousQuantity = variant?.inventoryQuantity ?? 0;
+    const newQuantity = data.action === "SET" ? data.quantity : previousQuantity + data.quantity;
+    const errors = variant ? [] : [`Variant ${data.variantId} not found`];
+    if (!Number.isInteger(data.quantity) || (data.action === "SET" && data.quantity < 0)) {
+      errors.push(`quantity: must be a whole number${data.action === "SET" ? " and not negative" : ""} (got ${data.quantity})`);
+    }
+    this.plan({
+      operation: "manageInventory",
+      action: "update",
+      resource: "variant",
+      id: variant?.id ?? data.variantId,
+      title: variant ? `${variant.product.title} - ${variant.title}` : undefined,
+      changes: [
+        variant ? { field: "inventoryQuantity", before: previousQuantity, after: newQuantity } : { field: "inventoryQuantity", after: newQuantity },
+        ...diffFields({}, { locationId: data.locationId, reason: data.reason }),
+      ],
+      errors,
+    });
+    return { newQuantity, previousQuantity };
+  }
+
+  async bulkVariantOperations(
+    accessToken: string,
+    shop: string,
+    operations: Parameters<ShopifyClientPort["bulkVariantOperations"]>[2]
+  ): Promise<void> {
+    const products = await this.loadProductMap(accessToken, shop, operations.map((operation) => operation.productId));
+    // Variant counts as the operations planned so far would leave them
+    const variantCounts = new Map([...products].map(([id, product]) => [id, product.variants.edges.length]));
+
+    for (const { action, productId, variantData } of operations) {
+      const product = products.get(legacyId(productId));
+      const { id: variantId, ...fields } = variantData;
+      const variant = product?.variants.edges.find(({ node }) => variantId && legacyId(node.id) === legacyId(variantId))?.node;
+      const errors = product ? [] : [`Product ${productId} not found`];
+      const count = variantCounts.get(legacyId(productId)) ?? 0;
+
+      if (action === "CREATE") {
+        errors.push(...checkVariantFields(fields));
+        if (product) {
+          errors.push(...checkVariantCount(count + 1));
+          variantCounts.set(legacyId(productId), count + 1);
+        }
+      } else if (product && !variant) {
+        errors.push(`Variant ${variantId} not found on product ${productId}`);
+      } else if (action === "UPDATE") {
+        errors.push(...checkVariantFields(fields));
+      } else if (product && count <= 1) {
+        errors.push(`Variant ${variantId} is the only variant of product ${productId} and cannot be deleted`);
+      } else {
+        variantCounts.set(legacyId(productId), count - 1);
+      }
+
+      const before = variant
+        ? { title: variant.title, price: Number(variant.price), sku: variant.sku, inventory: variant.inventoryQuantity }
+        : {};
+      this.plan({
+        operation: "bulkVariantOperations",
+        action: action === "CREATE" ? "create" : action === "UPDATE" ? "update" : "delete",
+        resource: "variant",
+        id: action === "CREATE" ? null : variant?.id ?? variantId ?? null,
+        title: product ? `${product.title} - ${variant?.title ?? fields.title ?? "new variant"}` : undefined,
+        changes: action === "DELETE" ? (variant ? [{ field: "title", before: variant.title, after: null }] : []) : diffFields(before, fields),
+        errors,
+      });
+    }
+  }
+
+  async manageProductMetafields(
+    accessToken: string,
+    shop: string,
+    params: Parameters<ShopifyClientPort["manageProductMetafields"]>[2]
+  ): Promise<void> {
+    const product = (await this.loadProductMap(accessToken, shop, [params.productId])).get(legacyId(params.productId));
+    const errors = product ? [] : [`Product ${params.productId} not found`];
+    for (const { action, namespace, key, value, type } of params.operations) {
+      errors.push(...checkMetafieldIdentifier(namespace, key));
+      if (action === "SET" && (value === undefined || !type)) {
+        errors.push(`${namespace}.${key}: value and type are required to set a metafield`);
+      }
+    }
+    this.plan({
+      operation: "manageProductMetafields",
+      action: "update",
+      resource: "product",
+      id: product?.id ?? params.productId,
+      title: product?.title,
+      changes: params.operations.map(({ action, namespace, key, value, type }) => ({
+        field: `metafields.${namespace}.${key}`,
+        after: action === "SET" ? { value, type } : null,
+      })),
+      errors,
+    });
+  }
+
+  async manageProductCollections(
+    accessToken: string,
+    shop: string,
+    params: Parameters<ShopifyClientPort["manageProductCollections"]>[2]
+  ): Promise<void> {
+    const products = await this.loadProductMap(accessToken, shop, params.productIds);
+    const productErrors = params.productIds
+      .filter((productId) => !products.has(legacyId(productId)))
+      .map((productId) => `Product ${productId} not found`);
+
+    for (const collectionId of params.collectionIds) {
+      const { collections } = await this.inner.loadCollections(accessToken, shop, {
+        query: `id:${legacyId(collectionId)}`,
+        limit: 1,
+      });
+      const collection = collections.find((candidate) => legacyId(candidate.id) === legacyId(collectionId));
+      this.plan({
+        operation: "manageProductCollections",
+        action: "update",
+        resource: "collection",
+        id: collectionId,
+        title: collection?.title,
+        changes: [
+          {
+            field: params.action === "ADD" ? "productsAdded" : "productsRemoved",
+            after: params.productIds.map((productId) => products.get(legacyId(productId))?.id ?? productId),
+          },
+        ],
+        errors: [...(collection ? [] : [`Collection ${collectionId} not found`]), ...productErrors],
+      });
+    }
+  }
+
+  async manageProductImages(
+    accessToken: string,
+    shop: string,
+    params: Parameters<ShopifyClientPort["manageProductImages"]>[2]
+  ): Promise<void> {
+    const product = (await this.loadProductMap(accessToken, shop, [params.productId])).get(legacyId(params.productId));
+    const errors = product ? [] : [`Product ${params.productId} not found`];
+    params.images.forEach((image, index) => {
+      if (params.action === "ADD" && !image.url) {
+        errors.push(`images[${index}].url: required to add an image`);
+      } else if (params.action !== "ADD" && !image.id) {
+        errors.push(`images[${index}].id: required to ${params.action.toLowerCase()} an image`);
+      }
+      if (image.url !== undefined && !/^https?:\/\/\S+$/.test(image.url)) {
+        errors.push(`images[${index}].url: "${image.url}" is not an http(s) URL`);
+      }
+    });
+
+    const imageCount = product?.images.edges.length;
+    const delta = { ADD: params.images.length, UPDATE: 0, REMOVE: -params.images.length }[params.action];
+    this.plan({
+      operation: "manageProductImages",
+      action: "update",
+      resource: "product",
+      id: product?.id ?? params.productId,
+      title: product?.title,
+      changes: [
+        ...(imageCount !== undefined && delta !== 0 ? [{ field: "imageCount", before: imageCount, after: imageCount + delta }] : []),
+        ...params.images.map((image, index) => ({
+          field: `images[${index}]`,
+          after: params.action === "REMOVE" ? null : image,
+        })),
+      ],
+      errors,
+    });
+  }
+
+  async bulkUpdateVariantPrices(
+    accessToken: string,
+    shop: string,
+    updates: Array<{ variantId: string; newPrice: number }>
+  ): Promise<Array<{ variantId: string; newPrice: number }>> {
+    const variants = await this.loadVariantMap(accessToken, shop, updates.map((update) => update.variantId));
+    for (const { variantId, newPrice } of updates) {
+      const variant = variants.get(legacyId(variantId));
+      const after = Number.isFinite(newPrice) ? newPrice.toFixed(2) : String(newPrice);
+      this.plan({
+        operation: "bulkUpdateVariantPrices",
+        action: "update",
+        resource: "variant",
+        id: variant?.id ?? variantId,
+        title: variant ? `${variant.product.title} - ${variant.title}` : undefined,
+        changes: diffFields(variant ? { price: Number(variant.price).toFixed(2) } : {}, { price: after }),
+        errors: [...(variant ? [] : [`Variant ${variantId} not found`]), ...checkPrice("newPrice", newPrice)],
+      });
+    }
+    return structuredClone(updates);
+  }
+
+  async createProduct(
+    accessToken: string,
+    shop: string,
+    productData: Parameters<ShopifyClientPort["createProduct"]>[2]
+  ): Promise<ProductNode> {
+    const { variants, handle, status, options = [], ...fields } = productData;
+    this.plan({
+      operation: "createProduct",
+      action: "create",
+      resource: "product",
+      id: null,
+      title: productData.title,
+      changes: diffFields({}, productData),
+      errors: [
+        ...checkProductFields(fields),
+        ...checkVariantCount(variants.length),
+        ...variants.flatMap((variant, index) => checkVariantFields(variant, `variants[${index}].`)),
+      ],
+    });
+
+    const product = this.previewProduct(this.createGid("Product"), { ...fields, status: status ?? "ACTIVE" });
+    product.handle = handle ?? "";
+    product.options = options.map((name, index) => ({
+      id: this.createGid("ProductOption"),
+      name,
+      values: [...new Set(variants.map((variant) => variant.options?.[index] ?? ""))],
+    }));
+    product.variants.edges = variants.map((variant) => ({
+      node: {
+        id: this.createGid("ProductVariant"),
+        title: variant.title,
+        price: variant.price.toFixed(2),
+        sku: variant.sku ?? "",
+        availableForSale: variant.inventory > 0,
+        image: null,
+        inventoryPolicy: "DENY",
+        inventoryQuantity: variant.inventory,
+        selectedOptions: options.map((name, index) => ({ name, value: variant.options?.[index] ?? "" })),
+      },
+    }));
+    return product;
+  }
+
+  async updateProduct(accessToken: string, shop: string, productId: string, updateData: ProductFields): Promise<ProductNode> {
+    const [product] = await this.planProductUpdates(accessToken, shop, "updateProduct", [{ productId, ...updateData }]);
+    return product;
+  }
+
+  bulkUpdateProducts(
+    accessToken: string,
+    shop: string,
+    updates: Array<ProductFields & { productId: string }>
+  ): Promise<ProductNode[]> {
+    return this.planProductUpdates(accessToken, shop, "bulkUpdateProducts", updates);
+  }
+
+  async tagCustomer(accessToken: string, shop: string, customerId: string, tags: string[]): Promise<void> {
+    const customer = await this.orNull(() => this.inner.getCustomer(accessToken, shop, customerId));
+    const name = [customer?.first_name, customer?.last_name].filter(Boolean).join(" ") || customer?.email;
+    this.plan({
+      operation: "tagCustomer",
+      action: "update",
+      resource: "customer",
+      id: customerId,
+      title: name,
+      // customerUpdate replaces the tag list
+      changes: diffFields(customer ? { tags: customer.tags ?? "" } : {}, { tags: tags.join(", ") }),
+      errors: [...(customer ? [] : [`Customer ${customerId} not found`]), ...checkTags("tags", tags)],
+    });
+  }
+
+  subscribeWebhook(
+    accessToken: string,
+    shop: string,
+    callbackUrl: string,
+    topic: ShopifyWebhookTopic,
+    options: WebhookSubscriptionOptions = {}
+  ): Promise<ShopifyWebhook> {
+    return this.planWebhookSubscription(accessToken, shop, "subscribeWebhook", { type: "HTTP", callbackUrl }, topic, options);
+  }
+
+  subscribeEventBridgeWebhook(
+    accessToken: string,
+    shop: string,
+    arn: string,
+    topic: ShopifyWebhookTopic,
+    options: WebhookSubscriptionOptions = {}
+  ): Promise<ShopifyWebhook> {
+    return this.planWebhookSubscription(accessToken, shop, "subscribeEventBridgeWebhook", { type: "EVENT_BRIDGE", arn }, topic, options);
+  }
+
+  subscribePubSubWebhook(
+    accessToken: string,
+    shop: string,
+    pubSubProject: string,
+    pubSubTopic: string,
+    topic: ShopifyWebhookTopic,
+    options: WebhookSubscriptionOptions = {}
+  ): Promise<ShopifyWebhook> {
+    return this.planWebhookSubscription(
+      accessToken,
+      shop,
+      "subscribePubSubWebhook",
+      { type: "PUB_SUB", pubSubProject, pubSubTopic },
+      topic,
+      options
+    );
+  }
+
+  async updateWebhook(
+    accessToken: string,
+    shop: string,
+    webhookId: string,
+    update: WebhookSubscriptionUpdate
+  ): Promise<ShopifyWebhook> {
+    const webhook = await this.orNull(() => this.inner.getWebhook(accessToken, shop, webhookId));
+    const errors = webhook ? [] : [`Webhook ${webhookId} not found`];
+    if (update.endpoint) {
+      errors.push(...checkWebhookEndpoint(update.endpoint));
+      if (webhook && webhook.endpoint.type !== update.endpoint.type) {
+        errors.push(`endpoint: a ${webhook.endpoint.type} subscription cannot be moved to a ${update.endpoint.type} endpoint`);
+      }
+    }
+    const before = webhook
+      ? {
+          endpoint: webhook.endpoint,
+          format: webhook.format,
+          includeFields: webhook.includeFields,
+          metafieldNamespaces: webhook.metafieldNamespaces,
+        }
+      : {};
+    this.plan({
+      operation: "updateWebhook",
+      action: "update",
+      resource: "webhook",
+      id: webhook?.id ?? webhookId,
+      title: webhook?.topic,
+      changes: diffFields(before, update),
+      errors,
+    });
+
+    const changed = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+    const updated: ShopifyWebhook = webhook
+      ? { ...webhook, ...changed }
+      : {
+          id: webhookId,
+          callbackUrl: "",
+          topic: ShopifyWebhookTopic.SHOP_UPDATE,
+          endpoint: update.endpoint ?? { type: "HTTP", callbackUrl: "" },
+          format: update.format ?? "JSON",
+          includeFields: update.includeFields ?? [],
+          metafieldNamespaces: update.metafieldNamespaces ?? [],
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+    return { ...updated, callbackUrl: webhookEndpointAddress(updated.endpoint) };
+  }
+
+  async unsubscribeWebhook(accessToken: string, shop: string, webhookId: string): Promise<void> {
+    const webhook = await this.orNull(() => this.inner.getWebhook(accessToken, shop, webhookId));
+    this.plan({
+      operation: "unsubscribeWebhook",
+      action: "delete",
+      resource: "webhook",
+      id: webhook?.id ?? webhookId,
+      title: webhook?.topic,
+      changes: webhook ? [{ field: "callbackUrl", before: webhook.callbackUrl, after: null }] : [],
+      errors: webhook ? [] : [`Webhook ${webhookId} not found`],
+    });
+  }
+
+  async createBlogArticle(
+    accessToken: string,
+    myshopifyDomain: string,
+    article: Parameters<ShopifyClientPort["createBlogArticle"]>[2]
+  ): Promise<CreateBlogArticleResponse> {
+    this.plan({
+      operation: "createBlogArticle",
+      action: "create",
+      resource: "blogArticle",
+      id: null,
+      title: article.title,
+      changes: diffFields({}, article),
+      errors: checkBlogArticleFields(article),
+    });
+    return { article: { id: this.createGid("Article"), title: article.title, status: article.status ?? "draft" } };
+  }
+
+  async updateBlogArticle(
+    accessToken: string,
+    myshopifyDomain: string,
+    articleId: string,
+    updates: Parameters<ShopifyClientPort["updateBlogArticle"]>[3]
+  ): Promise<UpdateBlogArticleResponse> {
+    const article = (await this.orNull(() => this.inner.loadBlogArticle(accessToken, myshopifyDomain, articleId)))?.article;
+    this.plan({
+      operation: "updateBlogArticle",
+      action: "update",
+      resource: "blogArticle",
+      id: article?.id ?? articleId,
+      title: article?.title,
+      changes: diffFields(article ? this.articleFields(article) : {}, updates),
+      errors: [...(article ? [] : [`Article ${articleId} not found`]), ...checkBlogArticleFields(updates)],
+    });
+    return {
+      article: {
+        id: article?.id ?? articleId,
+        title: updates.title ?? article?.title ?? "",
+        status: updates.status ?? article?.status ?? "draft",
+      },
+    };
+  }
+
+  async deleteBlogArticle(accessToken: string, myshopifyDomain: string, articleId: string): Promise<void> {
+    const article = (await this.orNull(() => this.inner.loadBlogArticle(accessToken, myshopifyDomain, articleId)))?.article;
+    this.plan({
+      operation: "deleteBlogArticle",
+      action: "delete",
+      resource: "blogArticle",
+      id: article?.id ?? articleId,
+      title: article?.title,
+      changes: article ? [{ field: "title", before: article.title, after: null }] : [],
+      errors: article ? [] : [`Article ${articleId} not found`],
+    });
+  }
+
+  private articleFields(article: BlogArticle): Record<string, unknown> {
+    return {
+      title: article.title,
+      author: article.author,
+      body_html: article.body_html,
+      published_at: article.published_at,
+      tags: article.tags,
+      status: article.status,
+      image: article.image,
+    };
+  }
+}
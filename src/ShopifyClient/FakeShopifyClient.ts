@@ -0,0 +1,1931 @@
+/**
+ * In-memory ShopifyClientPort for offline tests and local development
+ */
+
+import {
+  BulkOperation,
+  BulkOperationRow,
+  BulkOperationType,
+  BlogArticle,
+  BxgyDiscountInput,
+  CalculatedDraftOrder,
+  CompleteDraftOrderResponse,
+  CreateBasicDiscountCodeInput,
+  CreateAutomaticBasicDiscountInput,
+  CreateBasicDiscountCodeResponse,
+  CreateBxgyDiscountCodeInput,
+  CreateBlogArticleResponse,
+  CreateDraftOrderPayload,
+  CreateFreeShippingDiscountCodeInput,
+  DiscountCodeBulkJob,
+  DiscountMinimumRequirementInput,
+  DiscountStatus,
+  DraftOrderAppliedDiscount,
+  DraftOrderInput,
+  DraftOrderInvoiceEmail,
+  DraftOrderResponse,
+  GetPriceRuleInput,
+  GetPriceRuleResponse,
+  LoadBlogArticleResponse,
+  LoadBlogArticlesResponse,
+  LoadCollectionsResponse,
+  LoadCustomersResponse,
+  LoadDiscountsResponse,
+  LoadDraftOrdersResponse,
+  LoadProductsByIdsResponse,
+  LoadProductsResponse,
+  LoadVariantsByIdResponse,
+  MAX_DISCOUNT_CODES_PER_BULK_ADD,
+  ProductImage,
+  ProductNode,
+  ProductVariant,
+  SelectedProductOption,
+  SearchProductsByPriceRangeResponse,
+  ShopDetails,
+  ShopifyClientPort,
+  ShopifyCollection,
+  ShopifyCollectionsQueryParams,
+  ShopifyCustomer,
+  ShopifyDiscount,
+  ShopifyDiscountsQueryParams,
+  ShopifyDraftOrder,
+  ShopifyDraftOrdersQueryParams,
+  ShopifyInputError,
+  ShopifyOrderGraphql,
+  ShopifyOrdersGraphqlQueryParams,
+  ShopifyOrdersGraphqlResponse,
+  ShopifyqlTableResponse,
+  ShopifyWebhook,
+  ShopifyWebhookTopic,
+  ShopifyWebhooksQueryParams,
+  LoadWebhooksResponse,
+  WebhookEndpoint,
+  WebhookSubscriptionOptions,
+  WebhookSubscriptionUpdate,
+  webhookEndpointAddress,
+  UpdateBlogArticleResponse,
+  getGraphqlShopifyUserError,
+} from "./ShopifyClientPort.js";
+import { checkDiscountCollections } from "../utils/shopifyConstraints.js";
+
+export type FakeCustomer = LoadCustomersResponse["customers"][number];
+
+export type FakeProduct = ProductNode;
+
+// Rows are what the result file will hold once the operation completes
+export type FakeBulkOperation = BulkOperation & {
+  rows: BulkOperationRow[];
+};
+
+export type FakeCollection = ShopifyCollection & {
+  productIds?: string[];
+};
+
+export type FakeDraftOrder = DraftOrderResponse & {
+  payload: CreateDraftOrderPayload;
+  status: ShopifyDraftOrder["status"];
+  orderId?: string;
+  invoiceSentAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type PriceRule = GetPriceRuleResponse["priceRule"];
+
+// Status is derived from the dates on every read, as it is in the Admin API
+export type FakeDiscount = Omit<ShopifyDiscount, "status"> & {
+  // Rules returned by getPriceRule, apart from the fields FakeDiscount already holds
+  rule: Omit<PriceRule, "id" | "title" | "status" | "startsAt" | "endsAt">;
+};
+
+export type FakeMetafield = {
+  namespace: string;
+  key: string;
+  value: string;
+  type?: string;
+};
+
+/**
+ * Data a FakeShopifyClient starts with; every field is optional
+ */
+export type FakeShopifyFixtures = {
+  shop?: ShopDetails;
+  products?: FakeProduct[];
+  // Inventory per variant ID, variants without an entry start at 0
+  inventory?: Record<string, number>;
+  orders?: ShopifyOrderGraphql[];
+  customers?: FakeCustomer[];
+  collections?: FakeCollection[];
+  blogArticles?: BlogArticle[];
+  webhooks?: FakeWebhook[];
+  // ShopifyQL results per dataset, the name after FROM
+  shopifyqlTables?: Record<string, ShopifyqlTableResponse>;
+};
+
+// Fixture webhooks need only an ID, topic and callback URL; the rest defaults to a JSON HTTP subscription
+export type FakeWebhook = Pick<ShopifyWebhook, "id" | "topic" | "callbackUrl"> & Partial<ShopifyWebhook>;
+
+export type FakeShopifyCall = {
+  method: keyof ShopifyClientPort;
+  shop: string;
+  args: unknown[];
+};
+
+// Trailing numeric part of a GID, or the value itself if it is not a GID
+function legacyId(id: string | number): string {
+  const parts = String(id).split("/");
+  return parts[parts.length - 1];
+}
+
+function toGid(type: string, id: string): string {
+  return id.startsWith("gid://") ? id : `gid://shopify/${type}/${id}`;
+}
+
+function sameId(a: string | number, b: string | number): boolean {
+  return legacyId(a) === legacyId(b);
+}
+
+// Whether an ID given the way the live client accepts it, numeric or as a GID,
+// names a stored ID; like Shopify, GIDs of another type or with a doubled
+// prefix name nothing
+function isIdOf(type: string, storedId: string | number, id: string): boolean {
+  return toGid(type, String(storedId)) === toGid(type, id);
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+// Pairs option names with a variant's values, given in the same order
+function selectedOptions(names: string[], values: string[] = []): SelectedProductOption[] {
+  return names.flatMap((name, index) => (values[index] === undefined ? [] : [{ name, value: values[index] }]));
+}
+
+// Matches a date against a search value such as `>=2024-01-01T00:00:00Z`
+function matchesDateComparison(date: string, value: string): boolean {
+  const [, operator, bound] = value.match(/^(>=|<=|>|<)?(.+)$/)!;
+  const difference = Date.parse(date) - Date.parse(bound);
+  switch (operator) {
+    case ">=":
+      return difference >= 0;
+    case "<=":
+      return difference <= 0;
+    case ">":
+      return difference > 0;
+    case "<":
+      return difference < 0;
+    default:
+      return date.slice(0, 10) === bound.slice(0, 10);
+  }
+}
+
+// Pages through items with the stringified offset as the cursor
+function paginate<T>(items: T[], limit: number, after?: string): { page: T[]; next?: string } {
+  const start = after ? Number(after) : 0;
+  const end = start + limit;
+  return {
+    page: items.slice(start, end),
+    next: end < items.length ? String(end) : undefined,
+  };
+}
+
+// Amount left after a draft order discount, never below zero
+function applyDiscount(amount: number, discount?: DraftOrderAppliedDiscount | null): number {
+  if (!discount) {
+    return amount;
+  }
+  const reduction = discount.valueType === "PERCENTAGE" ? (amount * discount.value) / 100 : discount.value;
+  return Math.max(0, amount - reduction);
+}
+
+function discountStatus(startsAt: string, endsAt: string | null): DiscountStatus {
+  const now = new Date().toISOString();
+  if (endsAt !== null && endsAt <= now) {
+    return "EXPIRED";
+  }
+  return startsAt > now ? "SCHEDULED" : "ACTIVE";
+}
+
+// Rates offered by draftOrderCalculate; the fake charges no tax and selects no shipping line
+const FAKE_SHIPPING_RATES: CalculatedDraftOrder["availableShippingRates"] = [
+  { handle: "standard", title: "Standard", price: "5.00" },
+  { handle: "express", title: "Express", price: "15.00" },
+];
+
+function defaultShopDetails(shop: string): ShopDetails {
+  return {
+    id: "gid://shopify/Shop/1",
+    name: shop.replace(/\.myshopify\.com$/, ""),
+    email: `owner@${shop}`,
+    myshopifyDomain: shop,
+    plan: { displayName: "Development", partnerDevelopment: true, shopifyPlus: false },
+    ianaTimezone: "UTC",
+    currencyCode: "USD",
+    weightUnit: "KILOGRAMS",
+    billingAddress: {
+      address1: "",
+      address2: "",
+      city: "",
+      zip: "",
+      country: "United States",
+      countryCode: "US",
+      province: "",
+      provinceCode: "",
+      phone: "",
+    },
+    primaryDomain: { url: `https://${shop}`, host: shop },
+    shippingCountries: [{ code: "US", name: "United States" }],
+  };
+}
+
+/**
+ * Implements ShopifyClientPort against in-memory data.
+ * Reads and writes behave like the Admin API closely enough for tool tests:
+ * mutations are visible to later reads, unknown IDs raise ShopifyInputError and
+ * every call is recorded in `calls` with the shop it was made against.
+ */
+export class FakeShopifyClient implements ShopifyClientPort {
+  readonly products = new Map<string, FakeProduct>();
+  readonly inventory = new Map<string, number>();
+  readonly metafields = new Map<string, FakeMetafield[]>();
+  readonly orders = new Map<string, ShopifyOrderGraphql>();
+  readonly customers = new Map<string, FakeCustomer>();
+  readonly collections = new Map<string, FakeCollection>();
+  readonly blogArticles = new Map<string, BlogArticle>();
+  readonly webhooks = new Map<string, ShopifyWebhook>();
+  readonly draftOrders = new Map<string, FakeDraftOrder>();
+  readonly discounts = new Map<string, FakeDiscount>();
+  readonly discountCodeJobs = new Map<string, DiscountCodeBulkJob>();
+  readonly shopifyqlTables = new Map<string, ShopifyqlTableResponse>();
+  readonly bulkOperations = new Map<string, FakeBulkOperation>();
+  readonly calls: FakeShopifyCall[] = [];
+
+  private shop?: ShopDetails;
+  private nextId = 1000;
+  private readonly failures = new Map<keyof ShopifyClientPort, unknown>();
+
+  constructor(fixtures: FakeShopifyFixtures = {}) {
+    this.seed(fixtures);
+  }
+
+  /**
+   * Adds fixtures to the store, replacing entries with the same ID
+   */
+  seed(fixtures: FakeShopifyFixtures): this {
+    if (fixtures.shop) {
+      this.shop = clone(fixtures.shop);
+    }
+    for (const product of fixtures.products ?? []) {
+      this.products.set(product.id, clone(product));
+    }
+    for (const [variantId, quantity] of Object.entries(fixtures.inventory ?? {})) {
+      this.inventory.set(variantId, quantity);
+    }
+    for (const order of fixtures.orders ?? []) {
+      this.orders.set(order.id, clone(order));
+    }
+    for (const customer of fixtures.customers ?? []) {
+      this.customers.set(String(customer.id), clone(customer));
+    }
+    for (const collection of fixtures.collections ?? []) {
+      this.collections.set(String(collection.id), clone(collection));
+    }
+    for (const article of fixtures.blogArticles ?? []) {
+      this.blogArticles.set(article.id, clone(article));
+    }
+    for (const [dataset, table] of Object.entries(fixtures.shopifyqlTables ?? {})) {
+      this.shopifyqlTables.set(dataset, clone(table));
+    }
+    for (const webhook of fixtures.webhooks ?? []) {
+      const now = new Date().toISOString();
+      this.webhooks.set(webhook.id, {
+        endpoint: { type: "HTTP", callbackUrl: webhook.callbackUrl },
+        format: "JSON",
+        includeFields: [],
+        metafieldNamespaces: [],
+        createdAt: now,
+        updatedAt: now,
+        ...clone(webhook),
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Makes the next call to `method` reject with `error`
+   */
+  failNext(method: keyof ShopifyClientPort, error: unknown): this {
+    this.failures.set(method, error);
+    return this;
+  }
+
+  private record(method: keyof ShopifyClientPort, shop: string, ...args: unknown[]): void {
+    this.calls.push({ method, shop, args });
+    if (this.failures.has(method)) {
+      const error = this.failures.get(method);
+      this.failures.delete(method);
+      throw error;
+    }
+  }
+
+  private createGid(type: string): string {
+    return `gid://shopify/${type}/${++this.nextId}`;
+  }
+
+  private notFound(type: string, id: string): ShopifyInputError {
+    return new ShopifyInputError({
+      contextData: { [`${type}Id`]: id },
+      innerError: [{ message: `${type} not found` }],
+    });
+  }
+
+  private findProduct(productId: string): FakeProduct {
+    const product = [...this.products.values()].find((p) => isIdOf("Product", p.id, productId));
+    if (!product) {
+      throw this.notFound("product", productId);
+    }
+    return product;
+  }
+
+  // Copies a product with the variant quantities of the inventory map
+  private cloneProduct(product: FakeProduct): FakeProduct {
+    const copy = clone(product);
+    for (const { node } of copy.variants.edges) {
+      node.inventoryQuantity = this.inventory.get(node.id) ?? null;
+    }
+    return copy;
+  }
+
+  private findVariant(variantId: string): { product: FakeProduct; variant: ProductVariant } {
+    for (const product of this.products.values()) {
+      const edge = product.variants.edges.find((e) => isIdOf("ProductVariant", e.node.id, variantId));
+      if (edge) {
+        return { product, variant: edge.node };
+      }
+    }
+    throw getGraphqlShopifyUserError([{ message: "Product variant not found" }], { variantId });
+  }
+
+  private findCollection(collectionId: string): FakeCollection {
+    const collection = [...this.collections.values()].find((c) => isIdOf("Collection", c.id, collectionId));
+    if (!collection) {
+      throw this.notFound("collection", collectionId);
+    }
+    return collection;
+  }
+
+  private findArticle(articleId: string): BlogArticle {
+    const article = [...this.blogArticles.values()].find((a) => sameId(a.id, articleId));
+    if (!article) {
+      throw this.notFound("article", articleId);
+    }
+    return article;
+  }
+
+  private findDiscount(discountId: string): FakeDiscount {
+    const discount = [...this.discounts.values()].find((d) => sameId(d.id, discountId));
+    if (!discount) {
+      throw this.notFound("discount", discountId);
+    }
+    return discount;
+  }
+
+  private addDiscount(
+    type: string,
+    fields: { title: string; startsAt: string; endsAt?: string; usageLimit?: number; codes?: string[] },
+    rule: FakeDiscount["rule"]
+  ): FakeDiscount {
+    const method = type.startsWith("DiscountCode") ? "CODE" : "AUTOMATIC";
+    const id = this.createGid(method === "CODE" ? "DiscountCodeNode" : "DiscountAutomaticNode");
+    const discount: FakeDiscount = {
+      id,
+      title: fields.title,
+      method,
+      type,
+      summary: null,
+      codes: fields.codes ?? [],
+      startsAt: fields.startsAt,
+      endsAt: fields.endsAt ?? null,
+      usageCount: 0,
+      usageLimit: fields.usageLimit ?? null,
+      rule: clone(rule),
+    };
+    this.discounts.set(id, discount);
+    return discount;
+  }
+
+  private isDiscountCodeTaken(code: string): boolean {
+    return [...this.discounts.values()].some((discount) => discount.codes.includes(code));
+  }
+
+  private checkDiscountCode(code: string): void {
+    if (this.isDiscountCodeTaken(code)) {
+      throw getGraphqlShopifyUserError(
+        [{ field: ["code"], message: "Code must be unique. Please try a different code." }],
+        { code }
+      );
+    }
+  }
+
+  private checkMinimumRequirement(input: DiscountMinimumRequirementInput): void {
+    if (input.prerequisiteSubtotalRange?.greaterThanOrEqualTo && input.prerequisiteQuantityRange?.greaterThanOrEqualTo) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "Set either a minimum subtotal or a minimum quantity, not both" }],
+      });
+    }
+  }
+
+  // Checks that the items exist and returns their GIDs, or nothing for all items
+  private checkDiscountItems(
+    productIds: string[] = [],
+    variantIds: string[] = [],
+    collectionIds: string[] = [],
+    allowAll: boolean
+  ): { productIds?: string[]; variantIds?: string[]; collectionIds?: string[] } {
+    if (collectionIds.length > 0 && productIds.length + variantIds.length > 0) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "A discount can target products or collections, not both" }],
+      });
+    }
+    if (!allowAll && productIds.length + variantIds.length + collectionIds.length === 0) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "Select the products, variants or collections the discount applies to" }],
+      });
+    }
+    productIds.forEach((productId) => this.findProduct(productId));
+    variantIds.forEach((variantId) => this.findVariant(variantId));
+    collectionIds.forEach((collectionId) => this.findCollection(collectionId));
+
+    const gids = (type: string, ids: string[]) => (ids.length > 0 ? ids.map((id) => toGid(type, id)) : undefined);
+    return {
+      productIds: gids("Product", productIds),
+      variantIds: gids("ProductVariant", variantIds),
+      collectionIds: gids("Collection", collectionIds),
+    };
+  }
+
+  private checkDiscountCustomers(customerIds: string[] = []): string[] | undefined {
+    for (const customerId of customerIds) {
+      if (!this.customers.has(legacyId(customerId))) {
+        throw this.notFound("customer", customerId);
+      }
+    }
+    return customerIds.length > 0 ? customerIds.map((id) => toGid("Customer", id)) : undefined;
+  }
+
+  private bxgyRule(input: BxgyDiscountInput): FakeDiscount["rule"] {
+    if (!input.prerequisiteQuantityRange?.greaterThanOrEqualTo === !input.prerequisiteSubtotalRange?.greaterThanOrEqualTo) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "A buy X get Y discount needs either a quantity or an amount to buy" }],
+      });
+    }
+    const buys = this.checkDiscountItems(
+      input.prerequisiteProductIds,
+      input.prerequisiteVariantIds,
+      input.prerequisiteCollectionIds,
+      false
+    );
+    const gets = this.checkDiscountItems(
+      input.entitledProductIds,
+      input.entitledVariantIds,
+      input.entitledCollectionIds,
+      false
+    );
+
+    return {
+      valueType: "percentage",
+      value: String(input.getPercentage),
+      targetType: "LINE_ITEM",
+      allocationMethod: "EACH",
+      customerSelection: "ALL",
+      oncePerCustomer: false,
+      prerequisiteSubtotalRange: input.prerequisiteSubtotalRange,
+      prerequisiteQuantityRange: input.prerequisiteQuantityRange,
+      prerequisiteProductIds: buys.productIds,
+      prerequisiteVariantIds: buys.variantIds,
+      prerequisiteCollectionIds: buys.collectionIds,
+      entitledProductIds: gets.productIds,
+      entitledVariantIds: gets.variantIds,
+      entitledCollectionIds: gets.collectionIds,
+    };
+  }
+
+  private toShopifyDiscount({ rule, ...discount }: FakeDiscount): ShopifyDiscount {
+    return { ...clone(discount), status: discountStatus(discount.startsAt, discount.endsAt) };
+  }
+
+  private findDraftOrder(draftOrderId: string): FakeDraftOrder {
+    const draftOrder = [...this.draftOrders.values()].find((d) => sameId(d.draftOrderId, draftOrderId));
+    if (!draftOrder) {
+      throw this.notFound("draftOrder", draftOrderId);
+    }
+    return draftOrder;
+  }
+
+  private findOpenDraftOrder(draftOrderId: string): FakeDraftOrder {
+    const draftOrder = this.findDraftOrder(draftOrderId);
+    if (draftOrder.status === "COMPLETED") {
+      throw getGraphqlShopifyUserError([{ message: "This order has already been completed" }], { draftOrderId });
+    }
+    return draftOrder;
+  }
+
+  // Prices line items from the stored variants and applies line and order discounts
+  private calculate(input: DraftOrderInput): CalculatedDraftOrder {
+    const lineItems = (input.lineItems ?? []).map((lineItem) => {
+      const { variant } = this.findVariant(lineItem.variantId);
+      const discountedTotal = applyDiscount(Number(variant.price) * lineItem.quantity, lineItem.appliedDiscount);
+      return {
+        title: variant.title,
+        quantity: lineItem.quantity,
+        variantId: variant.id,
+        originalUnitPrice: variant.price,
+        discountedTotal: discountedTotal.toFixed(2),
+        appliedDiscount: lineItem.appliedDiscount ?? null,
+      };
+    });
+    const lineItemsTotal = lineItems.reduce((sum, lineItem) => sum + Number(lineItem.discountedTotal), 0);
+    const subtotal = applyDiscount(lineItemsTotal, input.appliedDiscount).toFixed(2);
+
+    return {
+      currencyCode: this.currencyCode,
+      subtotalPrice: subtotal,
+      totalTax: "0.00",
+      totalShippingPrice: "0.00",
+      totalPrice: subtotal,
+      appliedDiscount: input.appliedDiscount ?? null,
+      lineItems,
+      availableShippingRates: clone(FAKE_SHIPPING_RATES),
+    };
+  }
+
+  private toShopifyDraftOrder(draftOrder: FakeDraftOrder): ShopifyDraftOrder {
+    const { availableShippingRates, ...calculated } = this.calculate(draftOrder.payload);
+    return {
+      ...calculated,
+      id: draftOrder.draftOrderId,
+      name: draftOrder.draftOrderName,
+      status: draftOrder.status,
+      email: draftOrder.payload.email ?? null,
+      note: draftOrder.payload.note ?? null,
+      tags: (draftOrder.payload.tags ?? "").split(",").map((tag) => tag.trim()).filter(Boolean),
+      invoiceUrl: `https://${this.shop?.myshopifyDomain ?? "example.myshopify.com"}/invoices/${legacyId(draftOrder.draftOrderId)}`,
+      invoiceSentAt: draftOrder.invoiceSentAt ?? null,
+      createdAt: draftOrder.createdAt,
+      updatedAt: draftOrder.updatedAt,
+      orderId: draftOrder.orderId ?? null,
+    };
+  }
+
+  private get currencyCode(): string {
+    return this.shop?.currencyCode ?? "USD";
+  }
+
+  async searchProductsByPriceRange(
+    accessToken: string,
+    shop: string,
+    params: {
+      minPrice: number;
+      maxPrice: number;
+      currencyCode?: string;
+      limit?: number;
+    }
+  ): Promise<SearchProductsByPriceRangeResponse> {
+    this.record("searchProductsByPriceRange", shop, params);
+    const products = [...this.products.values()].filter((product) =>
+      product.variants.edges.some(({ node }) => {
+        const price = Number(node.price);
+        return price >= params.minPrice && price <= params.maxPrice;
+      })
+    );
+    return {
+      products: products.slice(0, params.limit || 10).map((product) => this.cloneProduct(product)),
+      currencyCode: this.currencyCode,
+    };
+  }
+
+  async loadOrders(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyOrdersGraphqlQueryParams
+  ): Promise<ShopifyOrdersGraphqlResponse> {
+    this.record("loadOrders", shop, queryParams);
+    let orders = [...this.orders.values()];
+
+    // Supports the `id:`, `name:`, `email:` and `created_at:` search terms used by the tools
+    for (const term of (queryParams.query ?? "").split(/\s+/).filter(Boolean)) {
+      const [field, value] = term.includes(":") ? term.split(/:(.*)/, 2) : ["name", term];
+      orders = orders.filter((order) => {
+        if (field === "id") return sameId(order.id, value);
+        if (field === "email") return order.email === value;
+        if (field === "name") return order.name.replace(/^#/, "") === value.replace(/^#/, "");
+        if (field === "created_at") return matchesDateComparison(order.createdAt, value);
+        return true;
+      });
+    }
+
+    const sortValue = (order: ShopifyOrderGraphql): string | number => {
+      switch (queryParams.sortKey) {
+        case "TOTAL_PRICE":
+          return Number(order.totalPriceSet.shopMoney.amount);
+        case "CREATED_AT":
+        case "PROCESSED_AT":
+        case "UPDATED_AT":
+          return order.createdAt;
+        case "ORDER_NUMBER":
+          return Number(order.name.replace(/\D/g, ""));
+        default:
+          return Number(legacyId(order.id));
+      }
+    };
+    orders.sort((a, b) => (sortValue(a) < sortValue(b) ? -1 : sortValue(a) > sortValue(b) ? 1 : 0));
+    if (queryParams.reverse) {
+      orders.reverse();
+    }
+
+    const { page, next } = paginate(orders, queryParams.first ?? 10, queryParams.after);
+    return {
+      orders: clone(page),
+      pageInfo: { hasNextPage: next !== undefined, endCursor: next ?? null },
+    };
+  }
+
+  /**
+   * Bulk queries mentioning `products` return the products, their variants
+   * and images; any other query returns no rows. Operations run until they
+   * are polled once.
+   */
+  async runBulkQuery(accessToken: string, shop: string, query: string): Promise<BulkOperation> {
+    this.record("runBulkQuery", shop, query);
+    const rows: BulkOperationRow[] = [];
+    if (/\bproducts\b/.test(query)) {
+      for (const { variants, images, ...product } of this.products.values()) {
+        rows.push(clone(product));
+        for (const { node } of variants.edges) {
+          rows.push({ ...clone(node), __parentId: product.id });
+        }
+        for (const { node } of images.edges) {
+          rows.push({ ...clone(node), __typename: "Image", __parentId: product.id });
+        }
+      }
+    }
+    return this.startBulkOperation("QUERY", query, rows);
+  }
+
+  /**
+   * Records the inputs; each result row echoes the line it ran for with an empty payload
+   */
+  async runBulkMutation(
+    accessToken: string,
+    shop: string,
+    mutation: string,
+    inputs: Array<Record<string, unknown>>
+  ): Promise<BulkOperation> {
+    this.record("runBulkMutation", shop, mutation, inputs);
+    return this.startBulkOperation(
+      "MUTATION",
+      mutation,
+      inputs.map((_, index) => ({ data: {}, __lineNumber: index }))
+    );
+  }
+
+  async getBulkOperation(
+    accessToken: string,
+    shop: string,
+    target: { id: string } | { type: BulkOperationType }
+  ): Promise<BulkOperation | null> {
+    this.record("getBulkOperation", shop, target);
+    const operation =
+      "id" in target
+        ? [...this.bulkOperations.values()].find((candidate) => sameId(candidate.id, target.id))
+        : [...this.bulkOperations.values()].reverse().find((candidate) => candidate.type === target.type);
+    if (!operation) {
+      return null;
+    }
+    const polled = this.withoutRows(operation);
+    if (operation.status === "CREATED" || operation.status === "RUNNING") {
+      // The next poll finds it completed
+      Object.assign(operation, {
+        status: "COMPLETED",
+        completedAt: new Date().toISOString(),
+        objectCount: operation.rows.length,
+        url: operation.rows.length > 0 ? `https://storage.example.com/bulk/${legacyId(operation.id)}.jsonl` : null,
+      });
+    }
+    return polled;
+  }
+
+  async cancelBulkOperation(accessToken: string, shop: string, bulkOperationId: string): Promise<BulkOperation> {
+    this.record("cancelBulkOperation", shop, bulkOperationId);
+    const operation = [...this.bulkOperations.values()].find((candidate) => sameId(candidate.id, bulkOperationId));
+    if (!operation) {
+      throw this.notFound("bulkOperation", bulkOperationId);
+    }
+    if (operation.status !== "CREATED" && operation.status !== "RUNNING") {
+      throw new ShopifyInputError({
+        contextData: { bulkOperationId },
+        innerError: [{ message: `A bulk operation cannot be canceled when it is ${operation.status.toLowerCase()}` }],
+      });
+    }
+    operation.status = "CANCELED";
+    return this.withoutRows(operation);
+  }
+
+  async *streamBulkOperationResult(url: string): AsyncIterable<BulkOperationRow> {
+    const operation = [...this.bulkOperations.values()].find((candidate) => candidate.url === url);
+    if (!operation) {
+      throw new ShopifyInputError({ contextData: { url }, innerError: [{ message: "Result file not found" }] });
+    }
+    for (const row of operation.rows) {
+      yield clone(row);
+    }
+  }
+
+  private startBulkOperation(type: BulkOperationType, query: string, rows: BulkOperationRow[]): BulkOperation {
+    // Shopify runs one bulk operation of each type at a time
+    const running = [...this.bulkOperations.values()].find(
+      (operation) => operation.type === type && (operation.status === "CREATED" || operation.status === "RUNNING")
+    );
+    if (running) {
+      throw new ShopifyInputError({
+        innerError: [{ field: null, message: `A bulk ${type.toLowerCase()} operation for this app and shop is already in progress: ${running.id}.` }],
+      });
+    }
+
+    const operation: FakeBulkOperation = {
+      id: this.createGid("BulkOperation"),
+      type,
+      status: "RUNNING",
+      errorCode: null,
+      createdAt: new Date().toISOString(),
+      completedAt: null,
+      objectCount: 0,
+      fileSize: null,
+      url: null,
+      partialDataUrl: null,
+      query,
+      rows,
+    };
+    this.bulkOperations.set(operation.id, operation);
+    return this.withoutRows(operation);
+  }
+
+  private withoutRows({ rows, ...operation }: FakeBulkOperation): BulkOperation {
+    return clone(operation);
+  }
+
+  async runShopifyqlQuery(accessToken: string, shop: string, query: string): Promise<ShopifyqlTableResponse> {
+    this.record("runShopifyqlQuery", shop, query);
+    // Returns the table seeded for the dataset, whatever the rest of the query asks for
+    const dataset = query.match(/\bFROM\s+(\w+)/i)?.[1];
+    const table = dataset && this.shopifyqlTables.get(dataset);
+    if (!table) {
+      throw new ShopifyInputError({
+        contextData: { query },
+        innerError: [{ code: "SYNTAX_ERROR", message: `Unknown dataset ${dataset ?? "(none)"}` }],
+      });
+    }
+    return clone(table);
+  }
+
+  async loadCustomers(
+    accessToken: string,
+    myshopifyDomain: string,
+    limit?: number,
+    next?: string
+  ): Promise<LoadCustomersResponse> {
+    this.record("loadCustomers", myshopifyDomain, limit, next);
+    const { page, next: nextCursor } = paginate([...this.customers.values()], limit || 10, next);
+    return { customers: clone(page), next: nextCursor };
+  }
+
+  async getCustomer(accessToken: string, myshopifyDomain: string, customerId: string): Promise<ShopifyCustomer> {
+    this.record("getCustomer", myshopifyDomain, customerId);
+    const customer = this.customers.get(legacyId(customerId));
+    if (!customer) {
+      throw this.notFound("customer", customerId);
+    }
+    return clone(customer);
+  }
+
+  async loadProducts(
+    accessToken: string,
+    myshopifyDomain: string,
+    searchTitle: string | null,
+    limit?: number,
+    afterCursor?: string
+  ): Promise<LoadProductsResponse> {
+    this.record("loadProducts", myshopifyDomain, searchTitle, limit, afterCursor);
+    // Supports the `id:`, `status:`, `vendor:`, `collection_id:` and `updated_at:` terms, the rest matches the title
+    const terms: Array<[string, string]> = [];
+    const title = (searchTitle ?? "")
+      .replace(/\b(id|status|vendor|collection_id|updated_at):("(?:[^"\\]|\\.)*"|\S+)/g, (_, field: string, value: string) => {
+        terms.push([field, value.startsWith('"') ? JSON.parse(value) : value]);
+        return "";
+      })
+      .trim()
+      .replace(/^title:/, "")
+      .replace(/\*/g, "")
+      .toLowerCase();
+    const products = [...this.products.values()].filter(
+      (product) =>
+        (!title || product.title.toLowerCase().includes(title)) &&
+        terms.every(([field, value]) => {
+          if (field === "id") return sameId(product.id, value);
+          if (field === "status") return value.toUpperCase().split(",").includes(product.status);
+          if (field === "vendor") return product.vendor === value;
+          if (field === "collection_id") {
+            return (this.findCollection(value).productIds ?? []).some((id) => sameId(id, product.id));
+          }
+          return matchesDateComparison(product.updatedAt, value);
+        })
+    );
+    const { page, next } = paginate(products, limit || 10, afterCursor);
+    return { products: page.map((product) => this.cloneProduct(product)), currencyCode: this.currencyCode, next };
+  }
+
+  async loadProductsByCollectionId(
+    accessToken: string,
+    myshopifyDomain: string,
+    collectionId: string,
+    limit?: number,
+    afterCursor?: string
+  ): Promise<LoadProductsResponse> {
+    this.record("loadProductsByCollectionId", myshopifyDomain, collectionId, limit, afterCursor);
+    const collection = this.findCollection(collectionId);
+    const products = [...this.products.values()].filter((product) =>
+      (collection.productIds ?? []).some((id) => sameId(id, product.id))
+    );
+    const { page, next } = paginate(products, limit || 10, afterCursor);
+    return { products: page.map((product) => this.cloneProduct(product)), currencyCode: this.currencyCode, next };
+  }
+
+  async loadProductsByIds(
+    accessToken: string,
+    myshopifyDomain: string,
+    productIds: string[]
+  ): Promise<LoadProductsByIdsResponse> {
+    this.record("loadProductsByIds", myshopifyDomain, productIds);
+    const products = productIds.flatMap((productId) =>
+      [...this.products.values()].filter((product) => isIdOf("Product", product.id, productId))
+    );
+    return { products: products.map((product) => this.cloneProduct(product)), currencyCode: this.currencyCode };
+  }
+
+  async loadVariantsByIds(
+    accessToken: string,
+    myshopifyDomain: string,
+    variantIds: string[]
+  ): Promise<LoadVariantsByIdResponse> {
+    this.record("loadVariantsByIds", myshopifyDomain, variantIds);
+    const variants = variantIds.flatMap((variantId) =>
+      [...this.products.values()].flatMap((product) => {
+        const copy = this.cloneProduct(product);
+        return copy.variants.edges
+          .filter(({ node }) => isIdOf("ProductVariant", node.id, variantId))
+          .map(({ node }) => ({
+            ...node,
+            product: { id: copy.id, title: copy.title, description: copy.description, images: copy.images },
+          }));
+      })
+    );
+    return { variants, currencyCode: this.currencyCode };
+  }
+
+  async loadCollections(
+    accessToken: string,
+    myshopifyDomain: string,
+    queryParams: ShopifyCollectionsQueryParams,
+    next?: string
+  ): Promise<LoadCollectionsResponse> {
+    this.record("loadCollections", myshopifyDomain, queryParams, next);
+    const query = typeof queryParams.query === "string" ? queryParams.query.toLowerCase() : undefined;
+    // Supports `id:` lookups, anything else matches the title
+    const id = query?.startsWith("id:") ? query.slice(3) : undefined;
+    const name = id ? undefined : query;
+    const collections = [...this.collections.values()]
+      .filter((collection) => (!id || sameId(collection.id, id)) && (!name || collection.title.toLowerCase().includes(name)))
+      .map(({ productIds, ...collection }) => collection);
+    const { page, next: nextCursor } = paginate(collections, queryParams.limit || 10, next);
+    return { collections: clone(page), next: nextCursor };
+  }
+
+  async createDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderData: CreateDraftOrderPayload,
+    idempotencyKey: string
+  ): Promise<DraftOrderResponse> {
+    this.record("createDraftOrder", shop, draftOrderData, idempotencyKey);
+    this.calculate(draftOrderData);
+
+    const draftOrderId = this.createGid("DraftOrder");
+    const now = new Date().toISOString();
+    const draftOrder: FakeDraftOrder = {
+      draftOrderId,
+      draftOrderName: `#D${this.draftOrders.size + 1}`,
+      payload: clone(draftOrderData),
+      status: "OPEN",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.draftOrders.set(draftOrderId, draftOrder);
+    return { draftOrderId, draftOrderName: draftOrder.draftOrderName };
+  }
+
+  async completeDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string,
+    options: { paymentPending?: boolean } = {}
+  ): Promise<CompleteDraftOrderResponse> {
+    this.record("completeDraftOrder", shop, draftOrderId, options);
+    const draftOrder = this.findOpenDraftOrder(draftOrderId);
+    const calculated = this.calculate(draftOrder.payload);
+
+    const orderId = this.createGid("Order");
+    const lineItems = draftOrder.payload.lineItems.map((lineItem, index) => {
+      const { product, variant } = this.findVariant(lineItem.variantId);
+      const total = { amount: calculated.lineItems[index].discountedTotal, currencyCode: this.currencyCode };
+      return {
+        id: this.createGid("LineItem"),
+        title: variant.title,
+        quantity: lineItem.quantity,
+        currentQuantity: lineItem.quantity,
+        originalTotalSet: { shopMoney: total },
+        discountedTotalSet: { shopMoney: total },
+        product: { id: product.id },
+        variant: { id: variant.id, title: variant.title, sku: variant.sku, price: variant.price },
+      };
+    });
+
+    this.orders.set(orderId, {
+      id: orderId,
+      name: `#${1000 + this.orders.size + 1}`,
+      createdAt: new Date().toISOString(),
+      displayFinancialStatus: options.paymentPending ? "PENDING" : "PAID",
+      email: draftOrder.payload.email,
+      phone: draftOrder.payload.shippingAddress?.phone ?? null,
+      totalPriceSet: {
+        shopMoney: { amount: calculated.totalPrice, currencyCode: this.currencyCode },
+        presentmentMoney: { amount: calculated.totalPrice, currencyCode: this.currencyCode },
+      },
+      customer: null,
+      shippingAddress: {
+        provinceCode: draftOrder.payload.shippingAddress?.provinceCode ?? null,
+        countryCode: draftOrder.payload.shippingAddress?.countryCode ?? "",
+      },
+      lineItems: { nodes: lineItems },
+    });
+
+    draftOrder.status = "COMPLETED";
+    draftOrder.orderId = orderId;
+    draftOrder.updatedAt = new Date().toISOString();
+    return { draftOrderId: draftOrder.draftOrderId, draftOrderName: draftOrder.draftOrderName, orderId };
+  }
+
+  async updateDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string,
+    input: DraftOrderInput
+  ): Promise<ShopifyDraftOrder> {
+    this.record("updateDraftOrder", shop, draftOrderId, input);
+    const draftOrder = this.findOpenDraftOrder(draftOrderId);
+    const changes = Object.fromEntries(Object.entries(clone(input)).filter(([, value]) => value !== undefined));
+    const payload = { ...draftOrder.payload, ...changes };
+    this.calculate(payload);
+
+    draftOrder.payload = payload;
+    draftOrder.updatedAt = new Date().toISOString();
+    return this.toShopifyDraftOrder(draftOrder);
+  }
+
+  async calculateDraftOrder(
+    accessToken: string,
+    shop: string,
+    input: DraftOrderInput
+  ): Promise<CalculatedDraftOrder> {
+    this.record("calculateDraftOrder", shop, input);
+    return this.calculate(input);
+  }
+
+  async sendDraftOrderInvoice(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string,
+    email?: DraftOrderInvoiceEmail
+  ): Promise<ShopifyDraftOrder> {
+    this.record("sendDraftOrderInvoice", shop, draftOrderId, email);
+    const draftOrder = this.findOpenDraftOrder(draftOrderId);
+    if (!email?.to && !draftOrder.payload.email) {
+      throw getGraphqlShopifyUserError([{ field: ["email", "to"], message: "To can't be blank" }], { draftOrderId });
+    }
+
+    const now = new Date().toISOString();
+    draftOrder.status = "INVOICE_SENT";
+    draftOrder.invoiceSentAt = now;
+    draftOrder.updatedAt = now;
+    return this.toShopifyDraftOrder(draftOrder);
+  }
+
+  async loadDraftOrders(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyDraftOrdersQueryParams
+  ): Promise<LoadDraftOrdersResponse> {
+    this.record("loadDraftOrders", shop, queryParams);
+    let draftOrders = [...this.draftOrders.values()];
+
+    // Supports `id:`, `status:` and `email:` search terms, other terms match the name
+    for (const term of (queryParams.query ?? "").split(/\s+/).filter(Boolean)) {
+      const [field, value] = term.includes(":") ? term.split(/:(.*)/, 2) : ["name", term];
+      draftOrders = draftOrders.filter((draftOrder) => {
+        if (field === "id") return sameId(draftOrder.draftOrderId, value);
+        if (field === "status") return draftOrder.status.toLowerCase() === value.toLowerCase();
+        if (field === "email") return draftOrder.payload.email === value;
+        if (field === "name") return draftOrder.draftOrderName.replace(/^#/, "") === value.replace(/^#/, "");
+        return true;
+      });
+    }
+    if (queryParams.reverse) {
+      draftOrders.reverse();
+    }
+
+    const { page, next } = paginate(draftOrders, queryParams.first ?? 10, queryParams.after);
+    return {
+      draftOrders: page.map((draftOrder) => this.toShopifyDraftOrder(draftOrder)),
+      pageInfo: { hasNextPage: next !== undefined, endCursor: next ?? null },
+    };
+  }
+
+  async deleteDraftOrder(accessToken: string, shop: string, draftOrderId: string): Promise<void> {
+    this.record("deleteDraftOrder", shop, draftOrderId);
+    const draftOrder = this.findDraftOrder(draftOrderId);
+    this.draftOrders.delete(draftOrder.draftOrderId);
+  }
+
+  async createBasicDiscountCode(
+    accessToken: string,
+    shop: string,
+    discountInput: CreateBasicDiscountCodeInput
+  ): Promise<CreateBasicDiscountCodeResponse> {
+    this.record("createBasicDiscountCode", shop, discountInput);
+    this.checkDiscountCode(discountInput.code);
+    const productIds = discountInput.includeProductIds ?? [];
+    this.checkDiscountItems(productIds, [], discountInput.includeCollectionIds, true);
+    discountInput.excludeCollectionIds.forEach((collectionId) => this.findCollection(collectionId));
+    const collectionErrors = checkDiscountCollections(discountInput.includeCollectionIds, discountInput.excludeCollectionIds);
+    if (collectionErrors.length > 0) {
+      throw new ShopifyInputError({ innerError: collectionErrors.map((message) => ({ message })) });
+    }
+
+    // Excluded collections are removed from the included ones
+    const excluded = new Set(discountInput.excludeCollectionIds.map(legacyId));
+    const entitledCollectionIds =
+      discountInput.includeCollectionIds.length > 0
+        ? discountInput.includeCollectionIds
+            .map(legacyId)
+            .filter((id) => !excluded.has(id))
+            .map((id) => toGid("Collection", id))
+        : undefined;
+
+    const discount = this.addDiscount("DiscountCodeBasic", { ...discountInput, codes: [discountInput.code] }, {
+      valueType: discountInput.valueType,
+      value: String(discountInput.value),
+      targetType: "LINE_ITEM",
+      allocationMethod: "ACROSS",
+      usageLimit: discountInput.usageLimit,
+      customerSelection: "ALL",
+      oncePerCustomer: discountInput.appliesOncePerCustomer,
+      entitledProductIds: productIds.length > 0 ? productIds.map((id) => toGid("Product", id)) : undefined,
+      entitledCollectionIds,
+    });
+    return { id: discount.id, code: discountInput.code };
+  }
+
+  async getPriceRule(
+    accessToken: string,
+    shop: string,
+    input: GetPriceRuleInput
+  ): Promise<GetPriceRuleResponse> {
+    this.record("getPriceRule", shop, input);
+    const discount = this.findDiscount(input.id);
+    return {
+      priceRule: {
+        ...clone(discount.rule),
+        id: discount.id,
+        title: discount.title,
+        startsAt: discount.startsAt,
+        endsAt: discount.endsAt ?? undefined,
+        status: discountStatus(discount.startsAt, discount.endsAt),
+      },
+    };
+  }
+
+  async createAutomaticBasicDiscount(
+    accessToken: string,
+    shop: string,
+    input: CreateAutomaticBasicDiscountInput
+  ): Promise<ShopifyDiscount> {
+    this.record("createAutomaticBasicDiscount", shop, input);
+    this.checkMinimumRequirement(input);
+    const entitlements = this.checkDiscountItems(
+      input.entitledProductIds,
+      input.entitledVariantIds,
+      input.entitledCollectionIds,
+      true
+    );
+
+    const discount = this.addDiscount("DiscountAutomaticBasic", input, {
+      valueType: input.valueType,
+      value: String(input.value),
+      targetType: "LINE_ITEM",
+      allocationMethod: "ACROSS",
+      customerSelection: "ALL",
+      oncePerCustomer: false,
+      prerequisiteSubtotalRange: input.prerequisiteSubtotalRange,
+      prerequisiteQuantityRange: input.prerequisiteQuantityRange,
+      entitledProductIds: entitlements.productIds,
+      entitledVariantIds: entitlements.variantIds,
+      entitledCollectionIds: entitlements.collectionIds,
+    });
+    return this.toShopifyDiscount(discount);
+  }
+
+  async createAutomaticBxgyDiscount(
+    accessToken: string,
+    shop: string,
+    input: BxgyDiscountInput
+  ): Promise<ShopifyDiscount> {
+    this.record("createAutomaticBxgyDiscount", shop, input);
+    const discount = this.addDiscount("DiscountAutomaticBxgy", input, this.bxgyRule(input));
+    return this.toShopifyDiscount(discount);
+  }
+
+  async createBxgyDiscountCode(
+    accessToken: string,
+    shop: string,
+    input: CreateBxgyDiscountCodeInput
+  ): Promise<ShopifyDiscount> {
+    this.record("createBxgyDiscountCode", shop, input);
+    this.checkDiscountCode(input.code);
+    const customerIds = this.checkDiscountCustomers(input.prerequisiteCustomerIds);
+
+    const discount = this.addDiscount("DiscountCodeBxgy", { ...input, codes: [input.code] }, {
+      ...this.bxgyRule(input),
+      usageLimit: input.usageLimit,
+      oncePerCustomer: input.appliesOncePerCustomer,
+      customerSelection: customerIds ? "PREREQUISITE" : "ALL",
+      prerequisiteCustomerIds: customerIds,
+    });
+    return this.toShopifyDiscount(discount);
+  }
+
+  async createFreeShippingDiscountCode(
+    accessToken: string,
+    shop: string,
+    input: CreateFreeShippingDiscountCodeInput
+  ): Promise<ShopifyDiscount> {
+    this.record("createFreeShippingDiscountCode", shop, input);
+    this.checkDiscountCode(input.code);
+    this.checkMinimumRequirement(input);
+    const customerIds = this.checkDiscountCustomers(input.prerequisiteCustomerIds);
+
+    const discount = this.addDiscount("DiscountCodeFreeShipping", { ...input, codes: [input.code] }, {
+      valueType: "percentage",
+      value: "1",
+      targetType: "SHIPPING_LINE",
+      allocationMethod: "EACH",
+      usageLimit: input.usageLimit,
+      customerSelection: customerIds ? "PREREQUISITE" : "ALL",
+      oncePerCustomer: input.appliesOncePerCustomer,
+      prerequisiteSubtotalRange: input.prerequisiteSubtotalRange,
+      prerequisiteQuantityRange: input.prerequisiteQuantityRange,
+      prerequisiteShippingPriceRange: input.prerequisiteShippingPriceRange,
+      prerequisiteCustomerIds: customerIds,
+      entitledCountryIds: input.countryCodes?.length ? input.countryCodes : undefined,
+    });
+    return this.toShopifyDiscount(discount);
+  }
+
+  async loadDiscounts(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyDiscountsQueryParams
+  ): Promise<LoadDiscountsResponse> {
+    this.record("loadDiscounts", shop, queryParams);
+    let discounts = [...this.discounts.values()].map((discount) => this.toShopifyDiscount(discount));
+
+    // Supports `status:`, `method:` and `code:` (with a trailing * for prefixes), other terms match the title
+    for (const term of (queryParams.query ?? "").split(/\s+/).filter(Boolean)) {
+      const [field, value] = term.includes(":") ? term.split(/:(.*)/, 2) : ["title", term];
+      const matches = (candidate: string) =>
+        value.endsWith("*")
+          ? candidate.toLowerCase().startsWith(value.slice(0, -1).toLowerCase())
+          : candidate.toLowerCase() === value.toLowerCase();
+      discounts = discounts.filter((discount) => {
+        if (field === "status") return discount.status.toLowerCase() === value.toLowerCase();
+        if (field === "method") return discount.method.toLowerCase() === value.toLowerCase();
+        if (field === "code") return discount.codes.some(matches);
+        if (field === "title") return discount.title.toLowerCase().includes(value.toLowerCase());
+        return true;
+      });
+    }
+    if (queryParams.reverse) {
+      discounts.reverse();
+    }
+
+    const { page, next } = paginate(discounts, queryParams.first ?? 10, queryParams.after);
+    return {
+      discounts: page,
+      pageInfo: { hasNextPage: next !== undefined, endCursor: next ?? null },
+    };
+  }
+
+  async getDiscount(accessToken: string, shop: string, discountId: string): Promise<ShopifyDiscount> {
+    this.record("getDiscount", shop, discountId);
+    return this.toShopifyDiscount(this.findDiscount(discountId));
+  }
+
+  async activateDiscount(accessToken: string, shop: string, discountId: string): Promise<ShopifyDiscount> {
+    this.record("activateDiscount", shop, discountId);
+    const discount = this.findDiscount(discountId);
+    const now = new Date().toISOString();
+    if (discount.startsAt > now) {
+      discount.startsAt = now;
+    }
+    discount.endsAt = null;
+    return this.toShopifyDiscount(discount);
+  }
+
+  async deactivateDiscount(accessToken: string, shop: string, discountId: string): Promise<ShopifyDiscount> {
+    this.record("deactivateDiscount", shop, discountId);
+    const discount = this.findDiscount(discountId);
+    discount.endsAt = new Date().toISOString();
+    return this.toShopifyDiscount(discount);
+  }
+
+  async updateDiscountEndDate(
+    accessToken: string,
+    shop: string,
+    discountId: string,
+    endsAt: string | null
+  ): Promise<ShopifyDiscount> {
+    this.record("updateDiscountEndDate", shop, discountId, endsAt);
+    const discount = this.findDiscount(discountId);
+    if (endsAt !== null && endsAt <= discount.startsAt) {
+      throw getGraphqlShopifyUserError(
+        [{ field: ["endsAt"], message: "Ends at needs to be after starts_at" }],
+        { discountId }
+      );
+    }
+    discount.endsAt = endsAt;
+    return this.toShopifyDiscount(discount);
+  }
+
+  async deleteDiscount(accessToken: string, shop: string, discountId: string): Promise<void> {
+    this.record("deleteDiscount", shop, discountId);
+    this.discounts.delete(this.findDiscount(discountId).id);
+  }
+
+  // Jobs finish immediately; codes already used by any discount fail like they do in Shopify
+  async addDiscountCodes(
+    accessToken: string,
+    shop: string,
+    discountId: string,
+    codes: string[]
+  ): Promise<DiscountCodeBulkJob> {
+    this.record("addDiscountCodes", shop, discountId, codes);
+    const discount = this.findDiscount(discountId);
+    if (discount.method !== "CODE") {
+      throw getGraphqlShopifyUserError([{ field: ["discountId"], message: "Discount is not a code discount" }], {
+        discountId,
+      });
+    }
+    if (codes.length > MAX_DISCOUNT_CODES_PER_BULK_ADD) {
+      throw getGraphqlShopifyUserError(
+        [{ field: ["codes"], message: `Codes is too long (maximum is ${MAX_DISCOUNT_CODES_PER_BULK_ADD})` }],
+        { discountId }
+      );
+    }
+
+    const failedCodes: DiscountCodeBulkJob["failedCodes"] = [];
+    for (const code of codes) {
+      if (this.isDiscountCodeTaken(code)) {
+        failedCodes.push({ code, message: "Code must be unique. Please try a different code." });
+      } else {
+        discount.codes.push(code);
+      }
+    }
+
+    const job: DiscountCodeBulkJob = {
+      id: this.createGid("DiscountRedeemCodeBulkCreation"),
+      done: true,
+      codesCount: codes.length,
+      importedCount: codes.length - failedCodes.length,
+      failedCount: failedCodes.length,
+      failedCodes,
+    };
+    this.discountCodeJobs.set(job.id, job);
+    return { ...clone(job), done: false, failedCodes: [] };
+  }
+
+  async getDiscountCodeBulkJob(accessToken: string, shop: string, jobId: string): Promise<DiscountCodeBulkJob> {
+    this.record("getDiscountCodeBulkJob", shop, jobId);
+    const job = this.discountCodeJobs.get(jobId);
+    if (!job) {
+      throw this.notFound("discountCodeJob", jobId);
+    }
+    return clone(job);
+  }
+
+  async manageInventory(
+    accessToken: string,
+    shop: string,
+    data: {
+      variantId: string;
+      action: "SET" | "ADJUST";
+      quantity: number;
+      locationId?: string;
+      reason?: string;
+    }
+  ): Promise<{
+    newQuantity: number;
+    previousQuantity: number;
+  }> {
+    this.record("manageInventory", shop, data);
+    const { variant } = this.findVariant(data.variantId);
+    const previousQuantity = this.inventory.get(variant.id) ?? 0;
+    const newQuantity = data.action === "SET" ? data.quantity : previousQuantity + data.quantity;
+    this.inventory.set(variant.id, newQuantity);
+    return { newQuantity, previousQuantity };
+  }
+
+  async bulkVariantOperations(
+    accessToken: string,
+    shop: string,
+    operations: Array<{
+      action: "CREATE" | "UPDATE" | "DELETE";
+      productId: string;
+      variantData: {
+        id?: string;
+        title?: string;
+        price?: number;
+        sku?: string;
+        inventory?: number;
+        requiresShipping?: boolean;
+        taxable?: boolean;
+        barcode?: string;
+        weight?: number;
+        weightUnit?: "KILOGRAMS" | "GRAMS" | "POUNDS" | "OUNCES";
+        options?: string[];
+      };
+    }>
+  ): Promise<void> {
+    this.record("bulkVariantOperations", shop, operations);
+    for (const { action, productId, variantData } of operations) {
+      const product = this.findProduct(productId);
+
+      if (action === "CREATE") {
+        const variant: ProductVariant = {
+          id: this.createGid("ProductVariant"),
+          title: variantData.title ?? "Default Title",
+          price: (variantData.price ?? 0).toFixed(2),
+          sku: variantData.sku ?? "",
+          availableForSale: true,
+          image: null,
+          inventoryPolicy: "DENY",
+          inventoryQuantity: variantData.inventory ?? 0,
+          selectedOptions: selectedOptions(
+            product.options.map((option) => option.name),
+            variantData.options
+          ),
+        };
+        product.options.forEach((option, index) => {
+          const value = variantData.options?.[index];
+          if (value !== undefined && !option.values.includes(value)) {
+            option.values.push(value);
+          }
+        });
+        product.variants.edges.push({ node: variant });
+        this.inventory.set(variant.id, variantData.inventory ?? 0);
+        continue;
+      }
+
+      const edge = product.variants.edges.find((e) => variantData.id && isIdOf("ProductVariant", e.node.id, variantData.id));
+      if (!edge) {
+        throw getGraphqlShopifyUserError([{ message: "Product variant not found" }], { productId, variantId: variantData.id });
+      }
+
+      if (action === "DELETE") {
+        product.variants.edges = product.variants.edges.filter((e) => e !== edge);
+        this.inventory.delete(edge.node.id);
+        continue;
+      }
+
+      Object.assign(edge.node, {
+        ...(variantData.title !== undefined && { title: variantData.title }),
+        ...(variantData.price !== undefined && { price: variantData.price.toFixed(2) }),
+        ...(variantData.sku !== undefined && { sku: variantData.sku }),
+      });
+      if (variantData.inventory !== undefined) {
+        this.inventory.set(edge.node.id, variantData.inventory);
+      }
+    }
+  }
+
+  async manageProductMetafields(
+    accessToken: string,
+    shop: string,
+    params: {
+      productId: string;
+      operations: Array<{
+        action: "SET" | "DELETE";
+        key: string;
+        namespace: string;
+        value?: string;
+        type?: string;
+      }>;
+    }
+  ): Promise<void> {
+    this.record("manageProductMetafields", shop, params);
+    const product = this.findProduct(params.productId);
+    let metafields = this.metafields.get(product.id) ?? [];
+
+    for (const { action, key, namespace, value, type } of params.operations) {
+      metafields = metafields.filter((m) => m.namespace !== namespace || m.key !== key);
+      if (action === "SET") {
+        metafields.push({ namespace, key, value: value ?? "", type });
+      }
+    }
+    this.metafields.set(product.id, metafields);
+  }
+
+  async manageProductCollections(
+    accessToken: string,
+    shop: string,
+    params: {
+      action: "ADD" | "REMOVE";
+      productIds: string[];
+      collectionIds: string[];
+    }
+  ): Promise<void> {
+    this.record("manageProductCollections", shop, params);
+    const productIds = params.productIds.map((productId) => this.findProduct(productId).id);
+
+    for (const collectionId of params.collectionIds) {
+      const collection = this.findCollection(collectionId);
+      const members = (collection.productIds ?? []).filter(
+        (id) => !productIds.some((productId) => sameId(id, productId))
+      );
+      collection.productIds = params.action === "ADD" ? [...members, ...productIds] : members;
+    }
+  }
+
+  async manageProductImages(
+    accessToken: string,
+    shop: string,
+    params: {
+      productId: string;
+      action: "ADD" | "UPDATE" | "REMOVE";
+      images: Array<{
+        id?: string;
+        url?: string;
+        altText?: string;
+        position?: number;
+      }>;
+    }
+  ): Promise<void> {
+    this.record("manageProductImages", shop, params);
+    const product = this.findProduct(params.productId);
+    // Images are media, matched by their media image ID like Shopify does
+    const matches = (node: ProductImage & { id?: string }, image: { id?: string }) =>
+      image.id !== undefined && node.id !== undefined && isIdOf("MediaImage", node.id, image.id);
+
+    for (const image of params.images) {
+      const edges = product.images.edges as Array<{ node: ProductImage & { id?: string; altText?: string } }>;
+
+      if (params.action === "ADD") {
+        const edge = { node: { id: this.createGid("MediaImage"), src: image.url ?? "", height: 0, width: 0, altText: image.altText } };
+        edges.splice(image.position !== undefined ? image.position - 1 : edges.length, 0, edge);
+        continue;
+      }
+
+      const edge = edges.find((e) => matches(e.node, image));
+      if (!edge) {
+        throw this.notFound("image", image.id ?? "");
+      }
+
+      if (params.action === "REMOVE") {
+        product.images.edges = edges.filter((e) => e !== edge);
+      } else {
+        Object.assign(edge.node, {
+          ...(image.url !== undefined && { src: image.url }),
+          ...(image.altText !== undefined && { altText: image.altText }),
+        });
+      }
+    }
+  }
+
+  async bulkUpdateVariantPrices(
+    accessToken: string,
+    shop: string,
+    updates: Array<{
+      variantId: string;
+      newPrice: number;
+    }>
+  ): Promise<Array<{
+    variantId: string;
+    newPrice: number;
+  }>> {
+    this.record("bulkUpdateVariantPrices", shop, updates);
+    for (const { variantId, newPrice } of updates) {
+      this.findVariant(variantId).variant.price = newPrice.toFixed(2);
+    }
+    return clone(updates);
+  }
+
+  async createProduct(
+    accessToken: string,
+    shop: string,
+    productData: {
+      title: string;
+      description: string;
+      handle?: string;
+      status?: "ACTIVE" | "ARCHIVED" | "DRAFT";
+      vendor?: string;
+      productType?: string;
+      tags?: string[];
+      options?: string[];
+      variants: Array<{
+        title: string;
+        price: number;
+        sku?: string;
+        inventory: number;
+        requiresShipping?: boolean;
+        taxable?: boolean;
+        options?: string[];
+      }>;
+    }
+  ): Promise<ProductNode> {
+    this.record("createProduct", shop, productData);
+    const now = new Date().toISOString();
+    const product: FakeProduct = {
+      id: this.createGid("Product"),
+      handle: productData.handle ?? productData.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, ""),
+      title: productData.title,
+      description: productData.description,
+      publishedAt: now,
+      updatedAt: now,
+      options: (productData.options ?? []).map((name, index) => ({
+        id: this.createGid("ProductOption"),
+        name,
+        values: [...new Set(productData.variants.map((variant) => variant.options?.[index] ?? ""))],
+      })),
+      images: { edges: [] },
+      variants: {
+        edges: productData.variants.map((variant) => ({
+          node: {
+            id: this.createGid("ProductVariant"),
+            title: variant.title,
+            price: variant.price.toFixed(2),
+            sku: variant.sku ?? "",
+            availableForSale: variant.inventory > 0,
+            image: null,
+            inventoryPolicy: "DENY" as const,
+            inventoryQuantity: variant.inventory,
+            selectedOptions: selectedOptions(productData.options ?? [], variant.options),
+          },
+        })),
+      },
+      status: productData.status ?? "ACTIVE",
+      vendor: productData.vendor ?? "",
+      productType: productData.productType ?? "",
+      tags: productData.tags ?? [],
+    };
+
+    product.variants.edges.forEach(({ node }, index) => {
+      this.inventory.set(node.id, productData.variants[index].inventory);
+    });
+    this.products.set(product.id, product);
+    return this.cloneProduct(product);
+  }
+
+  async updateProduct(
+    accessToken: string,
+    shop: string,
+    productId: string,
+    updateData: {
+      title?: string;
+      description?: string;
+      status?: "ACTIVE" | "ARCHIVED" | "DRAFT";
+      vendor?: string;
+      productType?: string;
+      tags?: string[];
+    }
+  ): Promise<ProductNode> {
+    this.record("updateProduct", shop, productId, updateData);
+    const product = this.findProduct(productId);
+    const changes = Object.fromEntries(Object.entries(updateData).filter(([, value]) => value !== undefined));
+    Object.assign(product, changes, { updatedAt: new Date().toISOString() });
+    return this.cloneProduct(product);
+  }
+
+  async bulkUpdateProducts(
+    accessToken: string,
+    shop: string,
+    updates: Array<{
+      productId: string;
+      title?: string;
+      description?: string;
+      status?: "ACTIVE" | "ARCHIVED" | "DRAFT";
+      vendor?: string;
+      productType?: string;
+      tags?: string[];
+    }>
+  ): Promise<ProductNode[]> {
+    this.record("bulkUpdateProducts", shop, updates);
+    // Validate every ID first so a bad update leaves the store untouched
+    updates.forEach(({ productId }) => this.findProduct(productId));
+    return updates.map(({ productId, ...updateData }) => {
+      const product = this.findProduct(productId);
+      const changes = Object.fromEntries(Object.entries(updateData).filter(([, value]) => value !== undefined));
+      Object.assign(product, changes, { updatedAt: new Date().toISOString() });
+      return this.cloneProduct(product);
+    });
+  }
+
+  async loadShopDetails(
+    accessToken: string,
+    shop: string
+  ): Promise<ShopDetails> {
+    this.record("loadShopDetails", shop);
+    return clone(this.shop ?? defaultShopDetails(shop));
+  }
+
+  async tagCustomer(
+    accessToken: string,
+    shop: string,
+    customerId: string,
+    tags: string[]
+  ): Promise<void> {
+    this.record("tagCustomer", shop, customerId, tags);
+    const customer = this.customers.get(legacyId(customerId));
+    if (!customer) {
+      throw this.notFound("customer", customerId);
+    }
+    // customerUpdate replaces the tag list, matching ShopifyClient.tagCustomer
+    customer.tags = tags.join(", ");
+  }
+
+  async subscribeWebhook(
+    accessToken: string,
+    shop: string,
+    callbackUrl: string,
+    topic: ShopifyWebhookTopic,
+    options: WebhookSubscriptionOptions = {}
+  ): Promise<ShopifyWebhook> {
+    this.record("subscribeWebhook", shop, callbackUrl, topic, options);
+    return this.addWebhook(topic, { type: "HTTP", callbackUrl }, options);
+  }
+
+  async subscribeEventBridgeWebhook(
+    accessToken: string,
+    shop: string,
+    arn: string,
+    topic: ShopifyWebhookTopic,
+    options: WebhookSubscriptionOptions = {}
+  ): Promise<ShopifyWebhook> {
+    this.record("subscribeEventBridgeWebhook", shop, arn, topic, options);
+    return this.addWebhook(topic, { type: "EVENT_BRIDGE", arn }, options);
+  }
+
+  async subscribePubSubWebhook(
+    accessToken: string,
+    shop: string,
+    pubSubProject: string,
+    pubSubTopic: string,
+    topic: ShopifyWebhookTopic,
+    options: WebhookSubscriptionOptions = {}
+  ): Promise<ShopifyWebhook> {
+    this.record("subscribePubSubWebhook", shop, pubSubProject, pubSubTopic, topic, options);
+    return this.addWebhook(topic, { type: "PUB_SUB", pubSubProject, pubSubTopic }, options);
+  }
+
+  async updateWebhook(
+    accessToken: string,
+    shop: string,
+    webhookId: string,
+    update: WebhookSubscriptionUpdate
+  ): Promise<ShopifyWebhook> {
+    this.record("updateWebhook", shop, webhookId, update);
+    const webhook = this.findWebhook(webhookId);
+    const { endpoint, ...options } = update;
+    if (endpoint && endpoint.type !== webhook.endpoint.type) {
+      throw new ShopifyInputError({
+        innerError: [
+          {
+            message: `Cannot change a ${webhook.endpoint.type} webhook to ${endpoint.type}, subscribe the new endpoint and delete this one instead`,
+          },
+        ],
+        contextData: { webhookId },
+      });
+    }
+    if (endpoint) {
+      this.checkWebhookAddress(webhook.topic, endpoint, webhook.id);
+      webhook.endpoint = clone(endpoint);
+      webhook.callbackUrl = webhookEndpointAddress(endpoint);
+    }
+    for (const [key, value] of Object.entries(options)) {
+      if (value !== undefined) {
+        Object.assign(webhook, { [key]: clone(value) });
+      }
+    }
+    webhook.updatedAt = new Date().toISOString();
+    return clone(webhook);
+  }
+
+  async loadWebhooks(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyWebhooksQueryParams
+  ): Promise<LoadWebhooksResponse> {
+    this.record("loadWebhooks", shop, queryParams);
+    const webhooks = [...this.webhooks.values()].filter(
+      (webhook) =>
+        (!queryParams.topics?.length || queryParams.topics.includes(webhook.topic)) &&
+        (!queryParams.callbackUrl || webhook.callbackUrl === queryParams.callbackUrl) &&
+        (!queryParams.format || webhook.format === queryParams.format)
+    );
+
+    const { page, next } = paginate(webhooks, queryParams.first ?? 50, queryParams.after);
+    return {
+      webhooks: page.map(clone),
+      pageInfo: { hasNextPage: next !== undefined, endCursor: next ?? null },
+    };
+  }
+
+  async getWebhook(accessToken: string, shop: string, webhookId: string): Promise<ShopifyWebhook> {
+    this.record("getWebhook", shop, webhookId);
+    return clone(this.findWebhook(webhookId));
+  }
+
+  async findWebhookByTopicAndCallbackUrl(
+    accessToken: string,
+    shop: string,
+    callbackUrl: string,
+    topic: ShopifyWebhookTopic
+  ): Promise<ShopifyWebhook | null> {
+    this.record("findWebhookByTopicAndCallbackUrl", shop, callbackUrl, topic);
+    const webhook = [...this.webhooks.values()].find(
+      (w) => w.topic === topic && w.callbackUrl === callbackUrl
+    );
+    return webhook ? clone(webhook) : null;
+  }
+
+  private findWebhook(webhookId: string): ShopifyWebhook {
+    const webhook = [...this.webhooks.values()].find((w) => sameId(w.id, webhookId));
+    if (!webhook) {
+      throw this.notFound("webhook", webhookId);
+    }
+    return webhook;
+  }
+
+  // Shopify allows one subscription per topic and address
+  private checkWebhookAddress(topic: ShopifyWebhookTopic, endpoint: WebhookEndpoint, exceptId?: string): void {
+    const address = webhookEndpointAddress(endpoint);
+    const duplicate = [...this.webhooks.values()].some(
+      (webhook) => webhook.id !== exceptId && webhook.topic === topic && webhook.callbackUrl === address
+    );
+    if (duplicate) {
+      throw getGraphqlShopifyUserError(
+        [{ field: ["webhookSubscription", "callbackUrl"], message: "Address for this topic has already been taken" }],
+        { topic, endpoint }
+      );
+    }
+  }
+
+  private addWebhook(
+    topic: ShopifyWebhookTopic,
+    endpoint: WebhookEndpoint,
+    options: WebhookSubscriptionOptions
+  ): ShopifyWebhook {
+    this.checkWebhookAddress(topic, endpoint);
+    const now = new Date().toISOString();
+    const webhook: ShopifyWebhook = {
+      id: this.createGid("WebhookSubscription"),
+      callbackUrl: webhookEndpointAddress(endpoint),
+      topic,
+      endpoint: clone(endpoint),
+      format: options.format ?? "JSON",
+      includeFields: [...(options.includeFields ?? [])],
+      metafieldNamespaces: [...(options.metafieldNamespaces ?? [])],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.webhooks.set(webhook.id, webhook);
+    return clone(webhook);
+  }
+
+  async unsubscribeWebhook(
+    accessToken: string,
+    shop: string,
+    webhookId: string
+  ): Promise<void> {
+    this.record("unsubscribeWebhook", shop, webhookId);
+    this.webhooks.delete(this.findWebhook(webhookId).id);
+  }
+
+  async loadBlogArticles(
+    accessToken: string,
+    myshopifyDomain: string,
+    options: {
+      limit?: number;
+      status?: "draft" | "published";
+      tag?: string;
+    }
+  ): Promise<LoadBlogArticlesResponse> {
+    this.record("loadBlogArticles", myshopifyDomain, options);
+    const articles = [...this.blogArticles.values()].filter(
+      (article) =>
+        (!options.status || article.status === options.status) &&
+        (!options.tag || article.tags.includes(options.tag))
+    );
+    const { page, next } = paginate(articles, options.limit || 10);
+    return { articles: clone(page), next };
+  }
+
+  async loadBlogArticle(
+    accessToken: string,
+    myshopifyDomain: string,
+    articleId: string
+  ): Promise<LoadBlogArticleResponse> {
+    this.record("loadBlogArticle", myshopifyDomain, articleId);
+    return { article: clone(this.findArticle(articleId)) };
+  }
+
+  async createBlogArticle(
+    accessToken: string,
+    myshopifyDomain: string,
+    article: {
+      title: string;
+      author: string;
+      body_html: string;
+      published_at?: string;
+      tags?: string[];
+      image?: {
+        src: string;
+        alt?: string;
+      };
+      status?: "draft" | "published";
+    }
+  ): Promise<CreateBlogArticleResponse> {
+    this.record("createBlogArticle", myshopifyDomain, article);
+    const created: BlogArticle = {
+      id: legacyId(this.createGid("Article")),
+      title: article.title,
+      author: article.author,
+      body_html: article.body_html,
+      published_at: article.published_at ?? new Date().toISOString(),
+      tags: article.tags ?? [],
+      status: article.status ?? "draft",
+      image: article.image,
+    };
+    this.blogArticles.set(created.id, created);
+    return { article: { id: created.id, title: created.title, status: created.status } };
+  }
+
+  async updateBlogArticle(
+    accessToken: string,
+    myshopifyDomain: string,
+    articleId: string,
+    updates: {
+      title?: string;
+      author?: string;
+      body_html?: string;
+      published_at?: string;
+      tags?: string[];
+      image?: {
+        src: string;
+        alt?: string;
+      };
+      status?: "draft" | "published";
+    }
+  ): Promise<UpdateBlogArticleResponse> {
+    this.record("updateBlogArticle", myshopifyDomain, articleId, updates);
+    const article = this.findArticle(articleId);
+    const changes = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    Object.assign(article, changes);
+    return { article: { id: article.id, title: article.title, status: article.status } };
+  }
+
+  async deleteBlogArticle(
+    accessToken: string,
+    myshopifyDomain: string,
+    articleId: string
+  ): Promise<void> {
+    this.record("deleteBlogArticle", myshopifyDomain, articleId);
+    this.blogArticles.delete(this.findArticle(articleId).id);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Leaky-bucket throttler driven by Shopify's GraphQL query cost extensions
+ * See https://shopify.dev/docs/api/usage/rate-limits#graphql-admin-api-rate-limits
+ */
+
+export type ThrottleStatus = {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+};
+
+export type QueryCost = {
+  requestedQueryCost: number;
+  actualQueryCost: number | null;
+  throttleStatus: ThrottleStatus;
+};
+
+type BucketState = ThrottleStatus & {
+  updatedAt: number;
+};
+
+export type QueryCostThrottlerOptions = {
+  // Bucket assumed for a shop until its first response reports the real one
+  initialStatus?: ThrottleStatus;
+  // Cost assumed for a query until Shopify has reported its requestedQueryCost
+  defaultQueryCost?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+// Standard plan bucket; Plus and newer API versions report larger values
+const DEFAULT_THROTTLE_STATUS: ThrottleStatus = {
+  maximumAvailable: 1000,
+  currentlyAvailable: 1000,
+  restoreRate: 50,
+};
+
+const DEFAULT_QUERY_COST = 50;
+
+// Shopify rejects a query requesting more than this with MAX_COST_EXCEEDED, whatever the bucket holds
+export const MAX_SINGLE_QUERY_COST = 1000;
+
+export class QueryCostThrottler {
+  private readonly buckets = new Map<string, BucketState>();
+  private readonly queues = new Map<string, Promise<void>>();
+  private readonly queryCosts = new Map<string, number>();
+  private readonly initialStatus: ThrottleStatus;
+  private readonly defaultQueryCost: number;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(options: QueryCostThrottlerOptions = {}) {
+    this.initialStatus = options.initialStatus ?? DEFAULT_THROTTLE_STATUS;
+    this.defaultQueryCost = options.defaultQueryCost ?? DEFAULT_QUERY_COST;
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * Waits until the shop's bucket can afford the query, then reserves its estimated cost.
+   * Calls for the same shop are served in FIFO order so a large query is not starved.
+   * @param shop The myshopify domain the query is sent to
+   * @param query The GraphQL document, used to remember its last reported cost
+   */
+  async acquire(shop: string, query: string): Promise<void> {
+    const previous = this.queues.get(shop) ?? Promise.resolve();
+    const turn = previous.then(() => this.reserve(shop, this.estimateCost(query)));
+    // Keep the chain alive even if a reservation fails
+    this.queues.set(shop, turn.catch(() => undefined));
+    await turn;
+  }
+
+  /**
+   * Records the cost extension returned with a response
+   * @param shop The myshopify domain the query was sent to
+   * @param query The GraphQL document that was executed
+   * @param cost The `extensions.cost` payload, if Shopify returned one
+   */
+  update(shop: string, query: string, cost?: QueryCost): void {
+    if (!cost?.throttleStatus) {
+      return;
+    }
+
+    this.queryCosts.set(query, cost.requestedQueryCost);
+    this.buckets.set(shop, {
+      ...cost.throttleStatus,
+      updatedAt: this.now(),
+    });
+  }
+
+  /**
+   * Computes how long to wait before a throttled query can succeed
+   * @param shop The myshopify domain that throttled the query
+   * @param query The GraphQL document that was throttled
+   * @returns Delay in milliseconds until the bucket holds the requested cost
+   */
+  getThrottledDelay(shop: string, query: string): number {
+    const bucket = this.getBucket(shop);
+    const cost = this.estimateCost(query);
+    const missing = cost - bucket.currentlyAvailable;
+    return missing > 0 ? Math.ceil((missing / bucket.restoreRate) * 1000) : 0;
+  }
+
+  /**
+   * Returns the current (restored) bucket state of a shop
+   */
+  getStatus(shop: string): ThrottleStatus {
+    const { maximumAvailable, currentlyAvailable, restoreRate } = this.getBucket(shop);
+    return { maximumAvailable, currentlyAvailable, restoreRate };
+  }
+
+  private estimateCost(query: string): number {
+    return this.queryCosts.get(query) ?? this.defaultQueryCost;
+  }
+
+  /**
+   * Bucket state with the points restored since the last update applied
+   */
+  private getBucket(shop: string): BucketState {
+    const now = this.now();
+    const bucket = this.buckets.get(shop) ?? { ...this.initialStatus, updatedAt: now };
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+    const restored = {
+      ...bucket,
+      currentlyAvailable: Math.min(
+        bucket.maximumAvailable,
+        bucket.currentlyAvailable + elapsedSeconds * bucket.restoreRate
+      ),
+      updatedAt: now,
+    };
+    this.buckets.set(shop, restored);
+    return restored;
+  }
+
+  private async reserve(shop: string, cost: number): Promise<void> {
+    let bucket = this.getBucket(shop);
+    // A query can never cost more than the bucket holds
+    const needed = Math.min(cost, bucket.maximumAvailable);
+
+    if (bucket.currentlyAvailable < needed) {
+      const delay = Math.ceil(((needed - bucket.currentlyAvailable) / bucket.restoreRate) * 1000);
+      await this.sleep(delay);
+      bucket = this.getBucket(shop);
+    }
+
+    this.buckets.set(shop, {
+      ...bucket,
+      currentlyAvailable: bucket.currentlyAvailable - needed,
+    });
+  }
+}
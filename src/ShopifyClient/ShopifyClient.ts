@@ -1,30 +1,100 @@
 import {
+  BulkOperation,
+  BulkOperationRow,
+  BulkOperationType,
+  BxgyDiscountInput,
+  CalculatedDraftOrder,
   CompleteDraftOrderResponse,
   CreateBasicDiscountCodeInput,
+  CreateAutomaticBasicDiscountInput,
   CreateBasicDiscountCodeResponse,
+  CreateBxgyDiscountCodeInput,
   CreateDraftOrderPayload,
+  CreateFreeShippingDiscountCodeInput,
+  DiscountCodeBulkJob,
+  DiscountEntitlementsInput,
+  DiscountMinimumRequirementInput,
+  DraftOrderAddress,
+  DraftOrderInput,
+  DraftOrderInvoiceEmail,
+  DraftOrderLineItem,
   DraftOrderResponse,
+  DraftOrderTotals,
   GetPriceRuleInput,
   GetPriceRuleResponse,
   LoadCollectionsResponse,
   LoadCustomersResponse,
+  LoadDiscountsResponse,
+  LoadDraftOrdersResponse,
+  LoadProductsByIdsResponse,
   LoadProductsResponse,
+  LoadVariantsByIdResponse,
+  MAX_DISCOUNT_CODES_PER_BULK_ADD,
   ProductNode,
   SearchProductsByPriceRangeResponse,
   ShopifyClientPort,
   ShopifyCollectionsQueryParams,
+  ShopifyCustomer,
+  ShopifyDiscount,
+  ShopifyDiscountsQueryParams,
+  ShopifyDraftOrder,
+  ShopifyDraftOrdersQueryParams,
   ShopifyOrdersGraphqlQueryParams,
   ShopifyOrdersGraphqlResponse,
+  ShopifyqlTableResponse,
+  ShopifyWebhook,
   ShopifyWebhookTopic,
+  ShopifyWebhooksQueryParams,
+  LoadWebhooksResponse,
+  WebhookEndpoint,
+  WebhookSubscriptionOptions,
+  WebhookSubscriptionUpdate,
+  fromGraphqlWebhookTopic,
+  toGraphqlWebhookTopic,
+  webhookEndpointAddress,
+  GeneralShopifyClientError,
   getGraphqlShopifyError,
   getGraphqlShopifyUserError,
   getHttpShopifyError,
   LoadBlogArticlesResponse,
   LoadBlogArticleResponse,
   CreateBlogArticleResponse,
-  UpdateBlogArticleResponse
+  UpdateBlogArticleResponse,
+  ShopifyInputError,
+  ShopifyNetworkError,
+  ShopifyProductVariantNotFoundError,
+  ShopDetails
 } from "./ShopifyClientPort.js";
+import { QueryCost, QueryCostThrottler } from "./QueryCostThrottler.js";
+import {
+  getShopifyRetryDelay,
+  isMutation,
+  isRetryableShopifyError,
+  parseRetryAfter
+} from "./ShopifyRetryPolicy.js";
+import { withRetry } from "../utils/retry.js";
+import { checkDiscountCollections } from "../utils/shopifyConstraints.js";
+import { AuditLog, createAuditEntry } from "../utils/auditLog.js";
 import { gql } from "graphql-request";
+import { createInterface } from "node:readline";
+import { Readable } from "node:stream";
+import { ReadableStream } from "node:stream/web";
+
+const bulkOperationFragment = gql`
+  fragment BulkOperationFields on BulkOperation {
+    id
+    type
+    status
+    errorCode
+    createdAt
+    completedAt
+    objectCount
+    fileSize
+    url
+    partialDataUrl
+    query
+  }
+`;
 
 const productImagesFragment = gql`
   fragment ProductImages on Image {
@@ -45,6 +115,7 @@ const productVariantsFragment = gql`
     }
     availableForSale
     inventoryPolicy
+    inventoryQuantity
     selectedOptions {
       name
       value
@@ -58,6 +129,10 @@ const productFragment = gql`
     handle
     title
     description
+    status
+    vendor
+    productType
+    tags
     publishedAt
     updatedAt
     options {
@@ -84,16 +159,287 @@ const productFragment = gql`
   ${productVariantsFragment}
 `;
 
+const draftOrderDiscountFragment = gql`
+  fragment DraftOrderDiscount on DraftOrderAppliedDiscount {
+    title
+    value
+    valueType
+    description
+  }
+`;
+
+const draftOrderFragment = gql`
+  fragment DraftOrderFields on DraftOrder {
+    id
+    name
+    status
+    email
+    note2
+    tags
+    invoiceUrl
+    invoiceSentAt
+    createdAt
+    updatedAt
+    currencyCode
+    subtotalPriceSet { shopMoney { amount } }
+    totalTaxSet { shopMoney { amount } }
+    totalShippingPriceSet { shopMoney { amount } }
+    totalPriceSet { shopMoney { amount } }
+    order {
+      id
+    }
+    appliedDiscount {
+      ...DraftOrderDiscount
+    }
+    lineItems(first: 100) {
+      nodes {
+        title
+        quantity
+        variant {
+          id
+        }
+        originalUnitPriceSet { shopMoney { amount } }
+        discountedTotalSet { shopMoney { amount } }
+        appliedDiscount {
+          ...DraftOrderDiscount
+        }
+      }
+    }
+  }
+  ${draftOrderDiscountFragment}
+`;
+
+const discountNodeFragment = gql`
+  fragment DiscountNodeFields on DiscountNode {
+    id
+    discount {
+      __typename
+      ... on DiscountCodeBasic {
+        title
+        status
+        summary
+        startsAt
+        endsAt
+        asyncUsageCount
+        usageLimit
+        codes(first: 10) { nodes { code } }
+      }
+      ... on DiscountCodeBxgy {
+        title
+        status
+        summary
+        startsAt
+        endsAt
+        asyncUsageCount
+        usageLimit
+        codes(first: 10) { nodes { code } }
+      }
+      ... on DiscountCodeFreeShipping {
+        title
+        status
+        summary
+        startsAt
+        endsAt
+        asyncUsageCount
+        usageLimit
+        codes(first: 10) { nodes { code } }
+      }
+      ... on DiscountAutomaticBasic {
+        title
+        status
+        summary
+        startsAt
+        endsAt
+        asyncUsageCount
+      }
+      ... on DiscountAutomaticBxgy {
+        title
+        status
+        summary
+        startsAt
+        endsAt
+        asyncUsageCount
+      }
+      ... on DiscountAutomaticFreeShipping {
+        title
+        status
+        summary
+        startsAt
+        endsAt
+        asyncUsageCount
+      }
+    }
+  }
+`;
+
+const discountItemsFragment = gql`
+  fragment DiscountItemsFields on DiscountItems {
+    __typename
+    ... on DiscountProducts {
+      products(first: 100) { nodes { id } }
+      productVariants(first: 100) { nodes { id } }
+    }
+    ... on DiscountCollections {
+      collections(first: 100) { nodes { id } }
+    }
+  }
+`;
+
+const discountRulesFragment = gql`
+  fragment DiscountMinimumRequirementFields on DiscountMinimumRequirement {
+    __typename
+    ... on DiscountMinimumSubtotal {
+      greaterThanOrEqualToSubtotal { amount }
+    }
+    ... on DiscountMinimumQuantity {
+      greaterThanOrEqualToQuantity
+    }
+  }
+
+  fragment DiscountCustomerSelectionFields on DiscountCustomerSelection {
+    __typename
+    ... on DiscountCustomers {
+      customers { id }
+    }
+  }
+
+  fragment DiscountCustomerGetsFields on DiscountCustomerGets {
+    value {
+      __typename
+      ... on DiscountPercentage { percentage }
+      ... on DiscountAmount {
+        amount { amount }
+        appliesOnEachItem
+      }
+      ... on DiscountOnQuantity {
+        effect {
+          ... on DiscountPercentage { percentage }
+        }
+      }
+    }
+    items { ...DiscountItemsFields }
+  }
+
+  fragment DiscountCustomerBuysFields on DiscountCustomerBuys {
+    value {
+      __typename
+      ... on DiscountQuantity { quantity }
+      ... on DiscountPurchaseAmount { amount }
+    }
+    items { ...DiscountItemsFields }
+  }
+  ${discountItemsFragment}
+`;
+
+// Update mutation and input argument for each discount type, used to change end dates
+const DISCOUNT_UPDATE_MUTATIONS: Record<string, { mutation: string; argument: string; inputType: string }> = {
+  DiscountCodeBasic: {
+    mutation: "discountCodeBasicUpdate",
+    argument: "basicCodeDiscount",
+    inputType: "DiscountCodeBasicInput",
+  },
+  DiscountCodeBxgy: {
+    mutation: "discountCodeBxgyUpdate",
+    argument: "bxgyCodeDiscount",
+    inputType: "DiscountCodeBxgyInput",
+  },
+  DiscountCodeFreeShipping: {
+    mutation: "discountCodeFreeShippingUpdate",
+    argument: "freeShippingCodeDiscount",
+    inputType: "DiscountCodeFreeShippingInput",
+  },
+  DiscountAutomaticBasic: {
+    mutation: "discountAutomaticBasicUpdate",
+    argument: "automaticBasicDiscount",
+    inputType: "DiscountAutomaticBasicInput",
+  },
+  DiscountAutomaticBxgy: {
+    mutation: "discountAutomaticBxgyUpdate",
+    argument: "automaticBxgyDiscount",
+    inputType: "DiscountAutomaticBxgyInput",
+  },
+  DiscountAutomaticFreeShipping: {
+    mutation: "discountAutomaticFreeShippingUpdate",
+    argument: "freeShippingAutomaticDiscount",
+    inputType: "DiscountAutomaticFreeShippingInput",
+  },
+};
+
+const webhookSubscriptionFragment = gql`
+  fragment WebhookSubscriptionFields on WebhookSubscription {
+    id
+    topic
+    format
+    includeFields
+    metafieldNamespaces
+    createdAt
+    updatedAt
+    endpoint {
+      __typename
+      ... on WebhookHttpEndpoint { callbackUrl }
+      ... on WebhookEventBridgeEndpoint { arn }
+      ... on WebhookPubSubEndpoint { pubSubProject pubSubTopic }
+    }
+  }
+`;
+
+// Create and update mutations and their input type for each webhook endpoint type
+const WEBHOOK_MUTATIONS: Record<WebhookEndpoint["type"], { create: string; update: string; inputType: string }> = {
+  HTTP: {
+    create: "webhookSubscriptionCreate",
+    update: "webhookSubscriptionUpdate",
+    inputType: "WebhookSubscriptionInput",
+  },
+  EVENT_BRIDGE: {
+    create: "eventBridgeWebhookSubscriptionCreate",
+    update: "eventBridgeWebhookSubscriptionUpdate",
+    inputType: "EventBridgeWebhookSubscriptionInput",
+  },
+  PUB_SUB: {
+    create: "pubSubWebhookSubscriptionCreate",
+    update: "pubSubWebhookSubscriptionUpdate",
+    inputType: "PubSubWebhookSubscriptionInput",
+  },
+};
+
 interface GraphQLResponse {
   data: any;
   errors?: any[];
+  extensions?: {
+    cost?: QueryCost;
+  };
 }
 
 interface GraphQLErrorResponse {
   errors: any[];
+  extensions?: {
+    cost?: QueryCost;
+  };
 }
 
+type VariantOperationData = Parameters<ShopifyClientPort["bulkVariantOperations"]>[2][number]["variantData"];
+
+// Maximum number of retries after the first attempt of a single GraphQL request
+const MAX_REQUEST_RETRIES = 4;
+
+// Admin API version used when the client is not given the shop's
+export const DEFAULT_SHOPIFY_API_VERSION = "2024-04";
+
+// Bucket state is tracked per shop, so it is shared by every client instance in the process
+const sharedThrottler = new QueryCostThrottler();
+
 export class ShopifyClient implements ShopifyClientPort {
+  /**
+   * @param throttler Query cost throttler, shared by all clients unless given
+   * @param auditLog Log every mutation is recorded to, with its retries counted in its duration
+   * @param apiVersion Admin API version of the shop the client talks to
+   */
+  constructor(
+    private readonly throttler: QueryCostThrottler = sharedThrottler,
+    private readonly auditLog?: AuditLog,
+    private readonly apiVersion: string = DEFAULT_SHOPIFY_API_VERSION
+  ) {}
+
   async loadProductsByCollectionId(
     accessToken: string,
     myshopifyDomain: string,
@@ -134,6 +480,80 @@ export class ShopifyClient implements ShopifyClientPort {
     };
   }
 
+  async loadProductsByIds(
+    accessToken: string,
+    myshopifyDomain: string,
+    productIds: string[]
+  ): Promise<LoadProductsByIdsResponse> {
+    const query = gql`
+      query getProductsByIds($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on Product {
+            ...Product
+          }
+        }
+        shop {
+          currencyCode
+        }
+      }
+      ${productFragment}
+    `;
+
+    const response = await this.graphqlRequest(accessToken, myshopifyDomain, {
+      query,
+      variables: { ids: productIds.map((id) => this.toGid("Product", id)) }
+    });
+
+    return {
+      // Unknown IDs come back as null nodes
+      products: response.data.nodes.filter((node: any) => node?.id),
+      currencyCode: response.data.shop.currencyCode
+    };
+  }
+
+  async loadVariantsByIds(
+    accessToken: string,
+    myshopifyDomain: string,
+    variantIds: string[]
+  ): Promise<LoadVariantsByIdResponse> {
+    const query = gql`
+      query getVariantsByIds($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on ProductVariant {
+            ...ProductVariants
+            product {
+              id
+              title
+              description
+              images(first: 20) {
+                edges {
+                  node {
+                    ...ProductImages
+                  }
+                }
+              }
+            }
+          }
+        }
+        shop {
+          currencyCode
+        }
+      }
+      ${productImagesFragment}
+      ${productVariantsFragment}
+    `;
+
+    const response = await this.graphqlRequest(accessToken, myshopifyDomain, {
+      query,
+      variables: { ids: variantIds.map((id) => this.toGid("ProductVariant", id)) }
+    });
+
+    return {
+      variants: response.data.nodes.filter((node: any) => node?.id),
+      currencyCode: response.data.shop.currencyCode
+    };
+  }
+
   async loadCollections(
     accessToken: string,
     myshopifyDomain: string,
@@ -191,231 +611,1604 @@ export class ShopifyClient implements ShopifyClientPort {
     };
   }
 
-  createDraftOrder(accessToken: string, shop: string, draftOrderData: CreateDraftOrderPayload, idempotencyKey: string): Promise<DraftOrderResponse> {
-    throw new Error("Method not implemented.");
-  }
-  completeDraftOrder(accessToken: string, shop: string, draftOrderId: string, variantId: string): Promise<CompleteDraftOrderResponse> {
-    throw new Error("Method not implemented.");
-  }
-  createBasicDiscountCode(accessToken: string, shop: string, discountInput: CreateBasicDiscountCodeInput): Promise<CreateBasicDiscountCodeResponse> {
-    throw new Error("Method not implemented.");
-  }
-  getPriceRule(accessToken: string, shop: string, input: GetPriceRuleInput): Promise<GetPriceRuleResponse> {
-    throw new Error("Method not implemented.");
-  }
-  private readonly logger = console;
-  private SHOPIFY_API_VERSION = "2024-04";
-  private rateLimitDelay = 500; // Minimum delay between requests in ms
-  private lastRequestTime = 0;
-
-  private async enforceRateLimit() {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.rateLimitDelay) {
-      await new Promise(resolve => 
-        setTimeout(resolve, this.rateLimitDelay - timeSinceLastRequest)
-      );
-    }
-    
-    this.lastRequestTime = Date.now();
-  }
+  async createDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderData: CreateDraftOrderPayload,
+    idempotencyKey: string
+  ): Promise<DraftOrderResponse> {
+    const mutation = gql`
+      mutation draftOrderCreate($input: DraftOrderInput!) {
+        draftOrderCreate(input: $input) {
+          draftOrder {
+            id
+            name
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `;
 
-  private async graphqlRequest(accessToken: string, shop: string, params: any): Promise<GraphQLResponse> {
-    await this.enforceRateLimit();
-    
-    const url = `https://${shop}/admin/api/${this.SHOPIFY_API_VERSION}/graphql.json`;
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Shopify-Access-Token': accessToken,
+    // draftOrderCreate has no server-side idempotency, so the key only identifies
+    // the call in errors; replaying it after an unknown outcome could create a duplicate
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: mutation,
+      variables: {
+        input: this.toDraftOrderInput(draftOrderData),
       },
-      body: JSON.stringify(params),
     });
 
-    if (!response.ok) {
-      throw getHttpShopifyError(await response.json(), response.status);
+    if (response.data.draftOrderCreate.userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(
+        response.data.draftOrderCreate.userErrors,
+        { idempotencyKey }
+      );
     }
 
-    const result = await response.json() as unknown;
-
-    const hasErrors = (obj: unknown): obj is GraphQLErrorResponse => {
-      return typeof obj === 'object' && obj !== null && 'errors' in obj;
+    return {
+      draftOrderId: response.data.draftOrderCreate.draftOrder.id,
+      draftOrderName: response.data.draftOrderCreate.draftOrder.name,
     };
-    
-    if (hasErrors(result)) {
-      throw getGraphqlShopifyError(result.errors, response.status);
-    }
-
-    return result as GraphQLResponse;
   }
 
-  async manageInventory(
+  async completeDraftOrder(
     accessToken: string,
     shop: string,
-    data: {
-      variantId: string;
-      action: "SET" | "ADJUST";
-      quantity: number;
-      locationId?: string;
-      reason?: string;
-    }
-  ): Promise<{
-    newQuantity: number;
-    previousQuantity: number;
-  }> {
-    const mutation = `
-      mutation inventoryAdjustQuantity(
-        $input: InventoryAdjustQuantityInput!
-      ) {
-        inventoryAdjustQuantity(input: $input) {
-          inventoryLevel {
-            available
+    draftOrderId: string,
+    options: { paymentPending?: boolean } = {}
+  ): Promise<CompleteDraftOrderResponse> {
+    const mutation = gql`
+      mutation draftOrderComplete($id: ID!, $paymentPending: Boolean) {
+        draftOrderComplete(id: $id, paymentPending: $paymentPending) {
+          draftOrder {
+            id
+            name
+            order {
+              id
+            }
           }
           userErrors {
             field
             message
           }
         }
-      }`;
-
-    const { variantId, action, quantity, locationId } = data;
-    const variables = {
-      input: {
-        inventoryItemId: variantId,
-        availableDelta: action === "ADJUST" ? quantity : undefined,
-        availableQuantity: action === "SET" ? quantity : undefined,
-        locationId: locationId,
-      },
-    };
+      }
+    `;
 
     const response = await this.graphqlRequest(accessToken, shop, {
       query: mutation,
-      variables,
+      variables: {
+        id: this.toGid("DraftOrder", draftOrderId),
+        paymentPending: options.paymentPending ?? false,
+      },
     });
 
-    if (response.data.inventoryAdjustQuantity.userErrors?.length > 0) {
+    if (response.data.draftOrderComplete.userErrors?.length > 0) {
       throw getGraphqlShopifyUserError(
-        response.data.inventoryAdjustQuantity.userErrors,
-        { variantId, action, quantity }
+        response.data.draftOrderComplete.userErrors,
+        { draftOrderId }
       );
     }
 
+    const draftOrder = response.data.draftOrderComplete.draftOrder;
     return {
-      newQuantity: response.data.inventoryAdjustQuantity.inventoryLevel.available,
-      previousQuantity: response.data.inventoryAdjustQuantity.inventoryLevel.available - quantity,
+      draftOrderId: draftOrder.id,
+      draftOrderName: draftOrder.name,
+      orderId: draftOrder.order.id,
     };
   }
 
-  async bulkVariantOperations(
+  async updateDraftOrder(
     accessToken: string,
     shop: string,
-    operations: Array<{
-      action: "CREATE" | "UPDATE" | "DELETE";
-      productId: string;
-      variantData: {
-        id?: string;
-        title?: string;
-        price?: number;
-        sku?: string;
-        inventory?: number;
-        requiresShipping?: boolean;
-        taxable?: boolean;
-        barcode?: string;
-        weight?: number;
-        weightUnit?: "KILOGRAMS" | "GRAMS" | "POUNDS" | "OUNCES";
-      };
-    }>
-  ): Promise<void> {
-    const mutation = `
-      mutation productVariantBulkUpdate($input: ProductVariantsBulkInput!) {
-        productVariantsBulkUpdate(input: $input) {
-          variants {
-            id
+    draftOrderId: string,
+    input: DraftOrderInput
+  ): Promise<ShopifyDraftOrder> {
+    const mutation = gql`
+      mutation draftOrderUpdate($id: ID!, $input: DraftOrderInput!) {
+        draftOrderUpdate(id: $id, input: $input) {
+          draftOrder {
+            ...DraftOrderFields
           }
           userErrors {
             field
             message
           }
         }
-      }`;
-
-    const variables = {
-      input: {
-        operations: operations.map(op => ({
-          id: op.variantData.id,
-          productId: op.productId,
-          ...op.variantData,
-        })),
-      },
-    };
+      }
+      ${draftOrderFragment}
+    `;
 
     const response = await this.graphqlRequest(accessToken, shop, {
       query: mutation,
-      variables,
+      variables: {
+        id: this.toGid("DraftOrder", draftOrderId),
+        input: this.toDraftOrderInput(input),
+      },
     });
 
-    if (response.data.productVariantsBulkUpdate.userErrors?.length > 0) {
+    if (response.data.draftOrderUpdate.userErrors?.length > 0) {
       throw getGraphqlShopifyUserError(
-        response.data.productVariantsBulkUpdate.userErrors,
-        { operations }
+        response.data.draftOrderUpdate.userErrors,
+        { draftOrderId }
       );
     }
+
+    return this.mapDraftOrder(response.data.draftOrderUpdate.draftOrder);
   }
 
-  async manageProductMetafields(
+  async calculateDraftOrder(
     accessToken: string,
     shop: string,
-    params: {
-      productId: string;
-      operations: Array<{
-        action: "SET" | "DELETE";
-        key: string;
-        namespace: string;
-        value?: string;
-        type?: string;
-      }>;
-    }
-  ): Promise<void> {
-    const mutation = `
-      mutation metafieldBulkOperation($input: [MetafieldInput!]!) {
-        bulkOperationRunMutation(
-          mutation: "mutation metafieldSet($input: MetafieldInput!) { metafieldSet(input: $input) { metafield { id } userErrors { field message } } }"
-          stagedUploadPath: null
-          inputs: $input
-        ) {
-          bulkOperation {
-            id
-            status
+    input: DraftOrderInput
+  ): Promise<CalculatedDraftOrder> {
+    const mutation = gql`
+      mutation draftOrderCalculate($input: DraftOrderInput!) {
+        draftOrderCalculate(input: $input) {
+          calculatedDraftOrder {
+            currencyCode
+            subtotalPriceSet { shopMoney { amount } }
+            totalTaxSet { shopMoney { amount } }
+            totalShippingPriceSet { shopMoney { amount } }
+            totalPriceSet { shopMoney { amount } }
+            appliedDiscount {
+              ...DraftOrderDiscount
+            }
+            lineItems {
+              title
+              quantity
+              variant {
+                id
+              }
+              originalUnitPriceSet { shopMoney { amount } }
+              discountedTotalSet { shopMoney { amount } }
+              appliedDiscount {
+                ...DraftOrderDiscount
+              }
+            }
+            availableShippingRates {
+              handle
+              title
+              price {
+                amount
+              }
+            }
           }
           userErrors {
             field
             message
           }
         }
-      }`;
-
-    const variables = {
-      input: params.operations.map(op => ({
-        id: op.action === "DELETE" ? undefined : `gid://shopify/Product/${params.productId}`,
-        key: op.key,
-        namespace: op.namespace,
-        value: op.value,
-        type: op.type,
-      })),
-    };
+      }
+      ${draftOrderDiscountFragment}
+    `;
 
     const response = await this.graphqlRequest(accessToken, shop, {
       query: mutation,
-      variables,
+      variables: {
+        input: this.toDraftOrderInput(input),
+      },
     });
 
-    if (response.data.bulkOperationRunMutation.userErrors?.length > 0) {
-      throw getGraphqlShopifyUserError(
-        response.data.bulkOperationRunMutation.userErrors,
-        params
-      );
+    if (response.data.draftOrderCalculate.userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(response.data.draftOrderCalculate.userErrors);
+    }
+
+    const calculated = response.data.draftOrderCalculate.calculatedDraftOrder;
+    return {
+      ...this.mapDraftOrderTotals(calculated),
+      appliedDiscount: calculated.appliedDiscount,
+      lineItems: calculated.lineItems.map((lineItem: any) => this.mapDraftOrderLineItem(lineItem)),
+      availableShippingRates: calculated.availableShippingRates.map((rate: any) => ({
+        handle: rate.handle,
+        title: rate.title,
+        price: rate.price.amount,
+      })),
+    };
+  }
+
+  async sendDraftOrderInvoice(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string,
+    email?: DraftOrderInvoiceEmail
+  ): Promise<ShopifyDraftOrder> {
+    const mutation = gql`
+      mutation draftOrderInvoiceSend($id: ID!, $email: EmailInput) {
+        draftOrderInvoiceSend(id: $id, email: $email) {
+          draftOrder {
+            ...DraftOrderFields
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+      ${draftOrderFragment}
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: mutation,
+      variables: {
+        id: this.toGid("DraftOrder", draftOrderId),
+        email,
+      },
+    });
+
+    if (response.data.draftOrderInvoiceSend.userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(
+        response.data.draftOrderInvoiceSend.userErrors,
+        { draftOrderId }
+      );
+    }
+
+    return this.mapDraftOrder(response.data.draftOrderInvoiceSend.draftOrder);
+  }
+
+  async loadDraftOrders(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyDraftOrdersQueryParams
+  ): Promise<LoadDraftOrdersResponse> {
+    const query = gql`
+      query getDraftOrders($first: Int, $after: String, $query: String, $reverse: Boolean) {
+        draftOrders(first: $first, after: $after, query: $query, reverse: $reverse) {
+          nodes {
+            ...DraftOrderFields
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+      ${draftOrderFragment}
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query,
+      variables: {
+        ...queryParams,
+        first: queryParams.first || 10,
+      },
+    });
+
+    return {
+      draftOrders: response.data.draftOrders.nodes.map((node: any) => this.mapDraftOrder(node)),
+      pageInfo: response.data.draftOrders.pageInfo,
+    };
+  }
+
+  async deleteDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string
+  ): Promise<void> {
+    const mutation = gql`
+      mutation draftOrderDelete($input: DraftOrderDeleteInput!) {
+        draftOrderDelete(input: $input) {
+          deletedId
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: mutation,
+      variables: {
+        input: { id: this.toGid("DraftOrder", draftOrderId) },
+      },
+    });
+
+    if (response.data.draftOrderDelete.userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(
+        response.data.draftOrderDelete.userErrors,
+        { draftOrderId }
+      );
+    }
+  }
+
+  private toDraftOrderInput(input: DraftOrderInput): Record<string, unknown> {
+    const toMailingAddress = (address: DraftOrderAddress) => ({
+      address1: address.address1,
+      address2: address.address2,
+      city: address.city,
+      countryCode: address.countryCode,
+      provinceCode: address.provinceCode,
+      firstName: address.firstName,
+      lastName: address.lastName,
+      zip: address.zip,
+      phone: address.phone,
+    });
+
+    return {
+      email: input.email,
+      note: input.note,
+      tags: input.tags?.split(",").map((tag) => tag.trim()).filter(Boolean),
+      lineItems: input.lineItems?.map((lineItem) => ({
+        variantId: this.toGid("ProductVariant", lineItem.variantId),
+        quantity: lineItem.quantity,
+        appliedDiscount: lineItem.appliedDiscount,
+      })),
+      shippingAddress: input.shippingAddress && toMailingAddress(input.shippingAddress),
+      billingAddress: input.billingAddress && toMailingAddress(input.billingAddress),
+      appliedDiscount: input.appliedDiscount,
+    };
+  }
+
+  private mapDraftOrderTotals(node: any): DraftOrderTotals {
+    return {
+      currencyCode: node.currencyCode,
+      subtotalPrice: node.subtotalPriceSet.shopMoney.amount,
+      totalTax: node.totalTaxSet.shopMoney.amount,
+      totalShippingPrice: node.totalShippingPriceSet.shopMoney.amount,
+      totalPrice: node.totalPriceSet.shopMoney.amount,
+    };
+  }
+
+  private mapDraftOrderLineItem(node: any): DraftOrderLineItem {
+    return {
+      title: node.title,
+      quantity: node.quantity,
+      variantId: node.variant?.id ?? null,
+      originalUnitPrice: node.originalUnitPriceSet.shopMoney.amount,
+      discountedTotal: node.discountedTotalSet.shopMoney.amount,
+      appliedDiscount: node.appliedDiscount,
+    };
+  }
+
+  private mapDraftOrder(node: any): ShopifyDraftOrder {
+    return {
+      ...this.mapDraftOrderTotals(node),
+      id: node.id,
+      name: node.name,
+      status: node.status,
+      email: node.email,
+      note: node.note2,
+      tags: node.tags,
+      invoiceUrl: node.invoiceUrl,
+      invoiceSentAt: node.invoiceSentAt,
+      createdAt: node.createdAt,
+      updatedAt: node.updatedAt,
+      orderId: node.order?.id ?? null,
+      appliedDiscount: node.appliedDiscount,
+      lineItems: node.lineItems.nodes.map((lineItem: any) => this.mapDraftOrderLineItem(lineItem)),
+    };
+  }
+
+  async createBasicDiscountCode(
+    accessToken: string,
+    shop: string,
+    discountInput: CreateBasicDiscountCodeInput
+  ): Promise<CreateBasicDiscountCodeResponse> {
+    const mutation = gql`
+      mutation discountCodeBasicCreate($basicCodeDiscount: DiscountCodeBasicInput!) {
+        discountCodeBasicCreate(basicCodeDiscount: $basicCodeDiscount) {
+          codeDiscountNode {
+            id
+            codeDiscount {
+              ... on DiscountCodeBasic {
+                codes(first: 1) { nodes { code } }
+              }
+            }
+          }
+          userErrors {
+            field
+            code
+            message
+          }
+        }
+      }
+    `;
+
+    const value =
+      discountInput.valueType === "percentage"
+        ? { percentage: discountInput.value }
+        : { discountAmount: { amount: discountInput.value, appliesOnEachItem: false } };
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: mutation,
+      variables: {
+        basicCodeDiscount: {
+          title: discountInput.title,
+          code: discountInput.code,
+          startsAt: discountInput.startsAt,
+          endsAt: discountInput.endsAt,
+          usageLimit: discountInput.usageLimit,
+          appliesOncePerCustomer: discountInput.appliesOncePerCustomer,
+          combinesWith: discountInput.combinesWith,
+          customerSelection: { all: true },
+          customerGets: {
+            value,
+            items: this.toDiscountItems(discountInput),
+          },
+        },
+      },
+    });
+
+    const result = response.data.discountCodeBasicCreate;
+    if (result.userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(result.userErrors, { code: discountInput.code });
+    }
+
+    return {
+      id: result.codeDiscountNode.id,
+      code: result.codeDiscountNode.codeDiscount.codes.nodes[0]?.code ?? discountInput.code,
+    };
+  }
+
+  /**
+   * Reads a discount's rules in the price rule shape (value, targeting, prerequisites).
+   * Price rules are no longer exposed by the GraphQL Admin API, so this reads the discount node.
+   */
+  async getPriceRule(
+    accessToken: string,
+    shop: string,
+    input: GetPriceRuleInput
+  ): Promise<GetPriceRuleResponse> {
+    const query = gql`
+      query getPriceRule($id: ID!) {
+        discountNode(id: $id) {
+          id
+          discount {
+            __typename
+            ... on DiscountCodeBasic {
+              title
+              status
+              startsAt
+              endsAt
+              usageLimit
+              appliesOncePerCustomer
+              customerSelection { ...DiscountCustomerSelectionFields }
+              minimumRequirement { ...DiscountMinimumRequirementFields }
+              customerGets { ...DiscountCustomerGetsFields }
+            }
+            ... on DiscountCodeBxgy {
+              title
+              status
+              startsAt
+              endsAt
+              usageLimit
+              appliesOncePerCustomer
+              customerSelection { ...DiscountCustomerSelectionFields }
+              customerBuys { ...DiscountCustomerBuysFields }
+              customerGets { ...DiscountCustomerGetsFields }
+            }
+            ... on DiscountCodeFreeShipping {
+              title
+              status
+              startsAt
+              endsAt
+              usageLimit
+              appliesOncePerCustomer
+              customerSelection { ...DiscountCustomerSelectionFields }
+              minimumRequirement { ...DiscountMinimumRequirementFields }
+            }
+            ... on DiscountAutomaticBasic {
+              title
+              status
+              startsAt
+              endsAt
+              minimumRequirement { ...DiscountMinimumRequirementFields }
+              customerGets { ...DiscountCustomerGetsFields }
+            }
+            ... on DiscountAutomaticBxgy {
+              title
+              status
+              startsAt
+              endsAt
+              customerBuys { ...DiscountCustomerBuysFields }
+              customerGets { ...DiscountCustomerGetsFields }
+            }
+            ... on DiscountAutomaticFreeShipping {
+              title
+              status
+              startsAt
+              endsAt
+              minimumRequirement { ...DiscountMinimumRequirementFields }
+            }
+          }
+        }
+      }
+      ${discountRulesFragment}
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query,
+      variables: { id: this.toGid("DiscountNode", input.id) },
+    });
+
+    const node = response.data.discountNode;
+    if (!node) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "Discount not found" }],
+        contextData: { discountId: input.id },
+      });
+    }
+
+    return { priceRule: this.mapPriceRule(node) };
+  }
+
+  async loadDiscounts(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyDiscountsQueryParams
+  ): Promise<LoadDiscountsResponse> {
+    const query = gql`
+      query getDiscounts($first: Int, $after: String, $query: String, $reverse: Boolean) {
+        discountNodes(first: $first, after: $after, query: $query, reverse: $reverse) {
+          nodes {
+            ...DiscountNodeFields
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+      ${discountNodeFragment}
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query,
+      variables: {
+        ...queryParams,
+        first: queryParams.first || 10,
+      },
+    });
+
+    return {
+      discounts: response.data.discountNodes.nodes.map((node: any) => this.mapDiscount(node)),
+      pageInfo: response.data.discountNodes.pageInfo,
+    };
+  }
+
+  async getDiscount(
+    accessToken: string,
+    shop: string,
+    discountId: string
+  ): Promise<ShopifyDiscount> {
+    const query = gql`
+      query getDiscount($id: ID!) {
+        discountNode(id: $id) {
+          ...DiscountNodeFields
+        }
+      }
+      ${discountNodeFragment}
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query,
+      variables: { id: this.toGid("DiscountNode", discountId) },
+    });
+
+    if (!response.data.discountNode) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "Discount not found" }],
+        contextData: { discountId },
+      });
+    }
+
+    return this.mapDiscount(response.data.discountNode);
+  }
+
+  async activateDiscount(
+    accessToken: string,
+    shop: string,
+    discountId: string
+  ): Promise<ShopifyDiscount> {
+    const discount = await this.getDiscount(accessToken, shop, discountId);
+    const mutationName = discount.method === "CODE" ? "discountCodeActivate" : "discountAutomaticActivate";
+    await this.discountNodeMutation(accessToken, shop, mutationName, discount.id);
+    return this.getDiscount(accessToken, shop, discount.id);
+  }
+
+  async deactivateDiscount(
+    accessToken: string,
+    shop: string,
+    discountId: string
+  ): Promise<ShopifyDiscount> {
+    const discount = await this.getDiscount(accessToken, shop, discountId);
+    const mutationName = discount.method === "CODE" ? "discountCodeDeactivate" : "discountAutomaticDeactivate";
+    await this.discountNodeMutation(accessToken, shop, mutationName, discount.id);
+    return this.getDiscount(accessToken, shop, discount.id);
+  }
+
+  async updateDiscountEndDate(
+    accessToken: string,
+    shop: string,
+    discountId: string,
+    endsAt: string | null
+  ): Promise<ShopifyDiscount> {
+    const discount = await this.getDiscount(accessToken, shop, discountId);
+    const update = DISCOUNT_UPDATE_MUTATIONS[discount.type];
+    if (!update) {
+      throw new ShopifyInputError({
+        innerError: [{ message: `Discounts of type ${discount.type} cannot be updated` }],
+        contextData: { discountId },
+      });
+    }
+
+    const nodeField = discount.method === "CODE" ? "codeDiscountNode" : "automaticDiscountNode";
+    const mutation = gql`
+      mutation ${update.mutation}($id: ID!, $input: ${update.inputType}!) {
+        ${update.mutation}(id: $id, ${update.argument}: $input) {
+          ${nodeField} {
+            id
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: mutation,
+      variables: { id: discount.id, input: { endsAt } },
+    });
+
+    if (response.data[update.mutation].userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(response.data[update.mutation].userErrors, { discountId });
+    }
+
+    return this.getDiscount(accessToken, shop, discount.id);
+  }
+
+  async deleteDiscount(
+    accessToken: string,
+    shop: string,
+    discountId: string
+  ): Promise<void> {
+    const discount = await this.getDiscount(accessToken, shop, discountId);
+    const mutationName = discount.method === "CODE" ? "discountCodeDelete" : "discountAutomaticDelete";
+    await this.discountNodeMutation(accessToken, shop, mutationName, discount.id);
+  }
+
+  async createAutomaticBasicDiscount(
+    accessToken: string,
+    shop: string,
+    input: CreateAutomaticBasicDiscountInput
+  ): Promise<ShopifyDiscount> {
+    const value =
+      input.valueType === "percentage"
+        ? { percentage: input.value }
+        : { discountAmount: { amount: input.value, appliesOnEachItem: false } };
+
+    return this.createDiscount(accessToken, shop, "discountAutomaticBasicCreate", "automaticBasicDiscount", "DiscountAutomaticBasicInput", {
+      title: input.title,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      combinesWith: input.combinesWith,
+      minimumRequirement: this.toMinimumRequirement(input),
+      customerGets: {
+        value,
+        items: this.toEntitledItems(input),
+      },
+    });
+  }
+
+  async createAutomaticBxgyDiscount(
+    accessToken: string,
+    shop: string,
+    input: BxgyDiscountInput
+  ): Promise<ShopifyDiscount> {
+    return this.createDiscount(accessToken, shop, "discountAutomaticBxgyCreate", "automaticBxgyDiscount", "DiscountAutomaticBxgyInput", {
+      title: input.title,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      combinesWith: input.combinesWith,
+      ...this.toBxgyRules(input),
+    });
+  }
+
+  async createBxgyDiscountCode(
+    accessToken: string,
+    shop: string,
+    input: CreateBxgyDiscountCodeInput
+  ): Promise<ShopifyDiscount> {
+    return this.createDiscount(accessToken, shop, "discountCodeBxgyCreate", "bxgyCodeDiscount", "DiscountCodeBxgyInput", {
+      title: input.title,
+      code: input.code,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      combinesWith: input.combinesWith,
+      usageLimit: input.usageLimit,
+      appliesOncePerCustomer: input.appliesOncePerCustomer,
+      customerSelection: this.toCustomerSelection(input.prerequisiteCustomerIds),
+      ...this.toBxgyRules(input),
+    });
+  }
+
+  async createFreeShippingDiscountCode(
+    accessToken: string,
+    shop: string,
+    input: CreateFreeShippingDiscountCodeInput
+  ): Promise<ShopifyDiscount> {
+    return this.createDiscount(accessToken, shop, "discountCodeFreeShippingCreate", "freeShippingCodeDiscount", "DiscountCodeFreeShippingInput", {
+      title: input.title,
+      code: input.code,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      combinesWith: input.combinesWith,
+      usageLimit: input.usageLimit,
+      appliesOncePerCustomer: input.appliesOncePerCustomer,
+      customerSelection: this.toCustomerSelection(input.prerequisiteCustomerIds),
+      minimumRequirement: this.toMinimumRequirement(input),
+      maximumShippingPrice: input.prerequisiteShippingPriceRange?.lessThanOrEqualTo,
+      destination: input.countryCodes?.length
+        ? { countries: { add: input.countryCodes } }
+        : { all: true },
+    });
+  }
+
+  async addDiscountCodes(
+    accessToken: string,
+    shop: string,
+    discountId: string,
+    codes: string[]
+  ): Promise<DiscountCodeBulkJob> {
+    if (codes.length > MAX_DISCOUNT_CODES_PER_BULK_ADD) {
+      throw new ShopifyInputError({
+        innerError: [{ message: `At most ${MAX_DISCOUNT_CODES_PER_BULK_ADD} codes can be added at once` }],
+        contextData: { discountId, codesCount: codes.length },
+      });
+    }
+
+    const mutation = gql`
+      mutation discountRedeemCodeBulkAdd($discountId: ID!, $codes: [DiscountRedeemCodeInput!]!) {
+        discountRedeemCodeBulkAdd(discountId: $discountId, codes: $codes) {
+          bulkCreation {
+            id
+            done
+            codesCount
+            importedCount
+            failedCount
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: mutation,
+      variables: {
+        discountId: this.toGid("DiscountCodeNode", discountId),
+        codes: codes.map((code) => ({ code })),
+      },
+    });
+
+    const result = response.data.discountRedeemCodeBulkAdd;
+    if (result.userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(result.userErrors, { discountId });
+    }
+
+    return { ...result.bulkCreation, failedCodes: [] };
+  }
+
+  async getDiscountCodeBulkJob(
+    accessToken: string,
+    shop: string,
+    jobId: string
+  ): Promise<DiscountCodeBulkJob> {
+    const query = gql`
+      query getDiscountCodeBulkJob($id: ID!, $after: String) {
+        discountRedeemCodeBulkCreation(id: $id) {
+          id
+          done
+          codesCount
+          importedCount
+          failedCount
+          codes(first: 250, after: $after) {
+            nodes {
+              code
+              errors {
+                message
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }
+    `;
+
+    const failedCodes: DiscountCodeBulkJob["failedCodes"] = [];
+    let after: string | undefined;
+    for (;;) {
+      const response = await this.graphqlRequest(accessToken, shop, {
+        query,
+        variables: { id: jobId, after },
+      });
+
+      const job = response.data.discountRedeemCodeBulkCreation;
+      if (!job) {
+        throw new ShopifyInputError({
+          innerError: [{ message: "Discount code job not found" }],
+          contextData: { jobId },
+        });
+      }
+
+      // Per-code errors are only final once the job is done
+      if (job.done && job.failedCount > 0) {
+        for (const node of job.codes.nodes) {
+          if (node.errors?.length > 0) {
+            failedCodes.push({ code: node.code, message: node.errors.map((e: { message: string }) => e.message).join("; ") });
+          }
+        }
+        if (job.codes.pageInfo.hasNextPage) {
+          after = job.codes.pageInfo.endCursor;
+          continue;
+        }
+      }
+
+      const { codes, ...counts } = job;
+      return { ...counts, failedCodes };
+    }
+  }
+
+  // Runs a discount create mutation and reads the new discount back
+  private async createDiscount(
+    accessToken: string,
+    shop: string,
+    mutationName: string,
+    argument: string,
+    inputType: string,
+    input: Record<string, unknown>
+  ): Promise<ShopifyDiscount> {
+    const nodeField = mutationName.startsWith("discountCode") ? "codeDiscountNode" : "automaticDiscountNode";
+    const mutation = gql`
+      mutation ${mutationName}($input: ${inputType}!) {
+        ${mutationName}(${argument}: $input) {
+          ${nodeField} {
+            id
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: mutation,
+      variables: { input },
+    });
+
+    const result = response.data[mutationName];
+    if (result.userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(result.userErrors, { title: input.title, code: input.code });
+    }
+
+    return this.getDiscount(accessToken, shop, result[nodeField].id);
+  }
+
+  private toBxgyRules(input: BxgyDiscountInput): Record<string, unknown> {
+    const { prerequisiteQuantityRange, prerequisiteSubtotalRange } = input;
+    if (!prerequisiteQuantityRange?.greaterThanOrEqualTo === !prerequisiteSubtotalRange?.greaterThanOrEqualTo) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "A buy X get Y discount needs either a quantity or an amount to buy" }],
+      });
+    }
+
+    return {
+      usesPerOrderLimit: input.usesPerOrderLimit?.toString(),
+      customerBuys: {
+        value: prerequisiteQuantityRange?.greaterThanOrEqualTo
+          ? { quantity: String(prerequisiteQuantityRange.greaterThanOrEqualTo) }
+          : { amount: prerequisiteSubtotalRange!.greaterThanOrEqualTo },
+        items: this.toItemsInput(
+          input.prerequisiteProductIds,
+          input.prerequisiteVariantIds,
+          input.prerequisiteCollectionIds,
+          false
+        ),
+      },
+      customerGets: {
+        value: {
+          discountOnQuantity: {
+            quantity: String(input.getQuantity),
+            effect: { percentage: input.getPercentage },
+          },
+        },
+        items: this.toItemsInput(
+          input.entitledProductIds,
+          input.entitledVariantIds,
+          input.entitledCollectionIds,
+          false
+        ),
+      },
+    };
+  }
+
+  private toEntitledItems(input: DiscountEntitlementsInput): Record<string, unknown> {
+    return this.toItemsInput(
+      input.entitledProductIds,
+      input.entitledVariantIds,
+      input.entitledCollectionIds,
+      true
+    );
+  }
+
+  private toItemsInput(
+    productIds: string[] = [],
+    variantIds: string[] = [],
+    collectionIds: string[] = [],
+    allowAll: boolean
+  ): Record<string, unknown> {
+    if (collectionIds.length > 0 && productIds.length + variantIds.length > 0) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "A discount can target products or collections, not both" }],
+      });
+    }
+    if (collectionIds.length > 0) {
+      return { collections: { add: collectionIds.map((id) => this.toGid("Collection", id)) } };
+    }
+    if (productIds.length + variantIds.length > 0) {
+      return {
+        products: {
+          productsToAdd: productIds.map((id) => this.toGid("Product", id)),
+          productVariantsToAdd: variantIds.map((id) => this.toGid("ProductVariant", id)),
+        },
+      };
+    }
+    if (!allowAll) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "Select the products, variants or collections the discount applies to" }],
+      });
+    }
+    return { all: true };
+  }
+
+  private toMinimumRequirement(input: DiscountMinimumRequirementInput): Record<string, unknown> | undefined {
+    const subtotal = input.prerequisiteSubtotalRange?.greaterThanOrEqualTo;
+    const quantity = input.prerequisiteQuantityRange?.greaterThanOrEqualTo;
+    if (subtotal && quantity) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "Set either a minimum subtotal or a minimum quantity, not both" }],
+      });
+    }
+    if (subtotal) {
+      return { subtotal: { greaterThanOrEqualToSubtotal: subtotal } };
+    }
+    if (quantity) {
+      return { quantity: { greaterThanOrEqualToQuantity: String(quantity) } };
+    }
+    return undefined;
+  }
+
+  private toCustomerSelection(customerIds: string[] = []): Record<string, unknown> {
+    return customerIds.length > 0
+      ? { customers: { add: customerIds.map((id) => this.toGid("Customer", id)) } }
+      : { all: true };
+  }
+
+  // Runs one of the activate/deactivate/delete mutations, which all take only the node ID
+  private async discountNodeMutation(
+    accessToken: string,
+    shop: string,
+    mutationName: string,
+    discountId: string
+  ): Promise<void> {
+    const mutation = gql`
+      mutation ${mutationName}($id: ID!) {
+        ${mutationName}(id: $id) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: mutation,
+      variables: { id: discountId },
+    });
+
+    if (response.data[mutationName].userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(response.data[mutationName].userErrors, { discountId });
+    }
+  }
+
+  /**
+   * Builds DiscountItemsInput from the include/exclude lists. Shopify cannot exclude
+   * collections directly, so excluded collections are removed from the included ones.
+   */
+  private toDiscountItems(
+    input: Pick<CreateBasicDiscountCodeInput, "includeCollectionIds" | "excludeCollectionIds" | "includeProductIds">
+  ): Record<string, unknown> {
+    const productIds = input.includeProductIds ?? [];
+    if (productIds.length > 0 && input.includeCollectionIds.length > 0) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "A discount can target products or collections, not both" }],
+      });
+    }
+    if (productIds.length > 0) {
+      return { products: { productsToAdd: productIds.map((id) => this.toGid("Product", id)) } };
+    }
+    const errors = checkDiscountCollections(input.includeCollectionIds, input.excludeCollectionIds);
+    if (errors.length > 0) {
+      throw new ShopifyInputError({ innerError: errors.map((message) => ({ message })) });
+    }
+    if (input.includeCollectionIds.length === 0) {
+      return { all: true };
+    }
+
+    const excluded = new Set(input.excludeCollectionIds.map((id) => this.toGid("Collection", id)));
+    const entitled = input.includeCollectionIds
+      .map((id) => this.toGid("Collection", id))
+      .filter((id) => !excluded.has(id));
+    return { collections: { add: entitled } };
+  }
+
+  private mapDiscount(node: any): ShopifyDiscount {
+    const discount = node.discount;
+    const method = discount.__typename.startsWith("DiscountCode") ? "CODE" : "AUTOMATIC";
+    return {
+      id: `gid://shopify/${method === "CODE" ? "DiscountCodeNode" : "DiscountAutomaticNode"}/${this.getIdFromGid(node.id)}`,
+      title: discount.title,
+      method,
+      type: discount.__typename,
+      status: discount.status,
+      summary: discount.summary ?? null,
+      codes: discount.codes?.nodes.map((code: { code: string }) => code.code) ?? [],
+      startsAt: discount.startsAt,
+      endsAt: discount.endsAt ?? null,
+      usageCount: discount.asyncUsageCount ?? 0,
+      usageLimit: discount.usageLimit ?? null,
+    };
+  }
+
+  private mapPriceRule(node: any): GetPriceRuleResponse["priceRule"] {
+    const discount = node.discount;
+    const idsOf = (connection?: { nodes: Array<{ id: string }> }) => connection?.nodes.map((n) => n.id);
+    const gets = discount.customerGets;
+    const buys = discount.customerBuys;
+    const getsValue = gets?.value?.effect ?? gets?.value;
+    const minimum = discount.minimumRequirement;
+    const isFreeShipping = discount.__typename.endsWith("FreeShipping");
+
+    return {
+      id: node.id,
+      title: discount.title,
+      status: discount.status,
+      startsAt: discount.startsAt,
+      endsAt: discount.endsAt ?? undefined,
+      targetType: isFreeShipping ? "SHIPPING_LINE" : "LINE_ITEM",
+      valueType: isFreeShipping || getsValue?.percentage !== undefined ? "percentage" : "fixed_amount",
+      value: isFreeShipping ? "1" : String(getsValue?.percentage ?? getsValue?.amount?.amount ?? ""),
+      allocationMethod: buys || gets?.value?.appliesOnEachItem ? "EACH" : "ACROSS",
+      usageLimit: discount.usageLimit ?? undefined,
+      customerSelection: discount.customerSelection?.__typename === "DiscountCustomers" ? "PREREQUISITE" : "ALL",
+      oncePerCustomer: discount.appliesOncePerCustomer ?? false,
+      prerequisiteSubtotalRange:
+        minimum?.greaterThanOrEqualToSubtotal || buys?.value?.amount
+          ? { greaterThanOrEqualTo: minimum?.greaterThanOrEqualToSubtotal?.amount ?? buys.value.amount }
+          : undefined,
+      prerequisiteQuantityRange:
+        minimum?.greaterThanOrEqualToQuantity || buys?.value?.quantity
+          ? { greaterThanOrEqualTo: Number(minimum?.greaterThanOrEqualToQuantity ?? buys.value.quantity) }
+          : undefined,
+      entitledProductIds: idsOf(gets?.items?.products),
+      entitledVariantIds: idsOf(gets?.items?.productVariants),
+      entitledCollectionIds: idsOf(gets?.items?.collections),
+      prerequisiteProductIds: idsOf(buys?.items?.products),
+      prerequisiteVariantIds: idsOf(buys?.items?.productVariants),
+      prerequisiteCollectionIds: idsOf(buys?.items?.collections),
+      prerequisiteCustomerIds: discount.customerSelection?.customers?.map((customer: { id: string }) => customer.id),
+    };
+  }
+
+  private readonly logger = console;
+
+  /**
+   * Sends a GraphQL request, scheduling it against the shop's query cost budget.
+   * Failed attempts are retried through the Shopify retry policy; mutations are never
+   * replayed after an unknown outcome (5xx, network error).
+   */
+  private async graphqlRequest(accessToken: string, shop: string, params: any): Promise<GraphQLResponse> {
+    const query: string = params.query;
+    const retryContext = { isMutation: isMutation(query) };
+
+    const request = () =>
+      withRetry(
+        async () => {
+          await this.throttler.acquire(shop, query);
+          return this.sendGraphqlRequest(accessToken, shop, params);
+        },
+        {
+          maxRetries: MAX_REQUEST_RETRIES,
+          shouldRetry: (error) => isRetryableShopifyError(error, retryContext),
+          // The throttler was synced from the THROTTLED response, so it knows when the cost is restored
+          getRetryDelay: (error) => getShopifyRetryDelay(error, this.throttler.getThrottledDelay(shop, query)),
+        }
+      );
+    if (!retryContext.isMutation || !this.auditLog) {
+      return request();
+    }
+
+    const startedAt = Date.now();
+    const audit = (outcome: { response?: GraphQLResponse; error?: unknown }) =>
+      this.auditLog!.add(
+        createAuditEntry({
+          shopDomain: shop,
+          query,
+          variables: params.variables,
+          durationMs: Date.now() - startedAt,
+          ...outcome,
+        })
+      ).catch((error) => console.error("Failed to write the audit log:", error));
+
+    try {
+      const response = await request();
+      await audit({ response });
+      return response;
+    } catch (error) {
+      await audit({ error });
+      throw error;
+    }
+  }
+
+  private async sendGraphqlRequest(accessToken: string, shop: string, params: any): Promise<GraphQLResponse> {
+    const url = `https://${shop}/admin/api/${this.apiVersion}/graphql.json`;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Shopify-Access-Token': accessToken,
+        },
+        body: JSON.stringify(params),
+      });
+    } catch (error) {
+      throw new ShopifyNetworkError({ innerError: error, contextData: { shop } });
+    }
+
+    if (!response.ok) {
+      // Error bodies are not always JSON (e.g. gateway errors)
+      const body = await response.text();
+      let innerError: unknown = body;
+      try {
+        innerError = JSON.parse(body);
+      } catch {
+        // Keep the raw body
+      }
+      throw getHttpShopifyError(innerError, response.status, {
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      });
+    }
+
+    const result = await response.json() as unknown;
+
+    const hasErrors = (obj: unknown): obj is GraphQLErrorResponse => {
+      return typeof obj === 'object' && obj !== null && 'errors' in obj;
+    };
+
+    this.throttler.update(shop, params.query, (result as GraphQLResponse | null)?.extensions?.cost);
+    
+    if (hasErrors(result)) {
+      throw getGraphqlShopifyError(result.errors, response.status, result.extensions?.cost && {
+        queryCost: result.extensions.cost
+      });
+    }
+
+    return result as GraphQLResponse;
+  }
+
+  async manageInventory(
+    accessToken: string,
+    shop: string,
+    data: {
+      variantId: string;
+      action: "SET" | "ADJUST";
+      quantity: number;
+      locationId?: string;
+      reason?: string;
+    }
+  ): Promise<{
+    newQuantity: number;
+    previousQuantity: number;
+  }> {
+    const { variantId, action, quantity } = data;
+    // location without an ID is the shop's primary location
+    const target = await this.graphqlRequest(accessToken, shop, {
+      query: gql`
+        query inventoryTarget($variantId: ID!, $locationId: ID) {
+          productVariant(id: $variantId) {
+            inventoryItem {
+              id
+            }
+          }
+          location(id: $locationId) {
+            id
+          }
+        }
+      `,
+      variables: {
+        variantId: this.toGid("ProductVariant", variantId),
+        locationId: data.locationId && this.toGid("Location", data.locationId),
+      },
+    });
+
+    const inventoryItemId = target.data.productVariant?.inventoryItem.id;
+    if (!inventoryItemId) {
+      throw new ShopifyProductVariantNotFoundError({ contextData: { variantId } });
+    }
+    const locationId = target.data.location?.id;
+    if (!locationId) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "Location not found" }],
+        contextData: { locationId: data.locationId },
+      });
+    }
+    const reason = data.reason ?? "correction";
+
+    if (action === "SET") {
+      const changes = await this.setAvailableQuantities(
+        accessToken,
+        shop,
+        [{ inventoryItemId, locationId, quantity }],
+        reason
+      );
+      const delta = changes.find((change) => change.name === "available")?.delta ?? 0;
+      return { newQuantity: quantity, previousQuantity: quantity - delta };
+    }
+
+    const mutation = `
+      mutation inventoryAdjustQuantities($input: InventoryAdjustQuantitiesInput!) {
+        inventoryAdjustQuantities(input: $input) {
+          inventoryAdjustmentGroup {
+            changes {
+              name
+              delta
+              quantityAfterChange
+            }
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }`;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: mutation,
+      variables: {
+        input: {
+          name: "available",
+          reason,
+          changes: [{ delta: quantity, inventoryItemId, locationId }],
+        },
+      },
+    });
+
+    if (response.data.inventoryAdjustQuantities.userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(
+        response.data.inventoryAdjustQuantities.userErrors,
+        { variantId, action, quantity }
+      );
+    }
+
+    const change = response.data.inventoryAdjustQuantities.inventoryAdjustmentGroup.changes.find(
+      (change: { name: string }) => change.name === "available"
+    );
+    return {
+      newQuantity: change.quantityAfterChange,
+      previousQuantity: change.quantityAfterChange - quantity,
+    };
+  }
+
+  /**
+   * Sets the available quantities of inventory items, whatever they were before
+   * @param reason Shopify's reason code of the change, e.g. "correction"
+   * @returns The changes made; none for quantities that were already set
+   */
+  private async setAvailableQuantities(
+    accessToken: string,
+    shop: string,
+    quantities: Array<{ inventoryItemId: string; locationId: string; quantity: number }>,
+    reason: string
+  ): Promise<Array<{ name: string; delta: number }>> {
+    const mutation = `
+      mutation inventorySetQuantities($input: InventorySetQuantitiesInput!) {
+        inventorySetQuantities(input: $input) {
+          inventoryAdjustmentGroup {
+            changes {
+              name
+              delta
+            }
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }`;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: mutation,
+      variables: {
+        input: { name: "available", reason, ignoreCompareQuantity: true, quantities },
+      },
+    });
+
+    if (response.data.inventorySetQuantities.userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(response.data.inventorySetQuantities.userErrors, { quantities });
+    }
+
+    return response.data.inventorySetQuantities.inventoryAdjustmentGroup?.changes ?? [];
+  }
+
+  async bulkVariantOperations(
+    accessToken: string,
+    shop: string,
+    operations: Array<{
+      action: "CREATE" | "UPDATE" | "DELETE";
+      productId: string;
+      variantData: VariantOperationData;
+    }>
+  ): Promise<void> {
+    // Variants are created, updated and deleted product by product
+    const byProduct = new Map<string, typeof operations>();
+    for (const operation of operations) {
+      const productId = this.toGid("Product", operation.productId);
+      byProduct.set(productId, [...(byProduct.get(productId) ?? []), operation]);
+    }
+    const locationId = operations.some((op) => op.action !== "DELETE" && op.variantData.inventory !== undefined)
+      ? await this.loadPrimaryLocationId(accessToken, shop)
+      : undefined;
+
+    for (const [productId, productOperations] of byProduct) {
+      const variantsOf = (action: "CREATE" | "UPDATE" | "DELETE") =>
+        productOperations.filter((op) => op.action === action).map((op) => op.variantData);
+      const creates = variantsOf("CREATE");
+      const updates = variantsOf("UPDATE");
+      const deletes = variantsOf("DELETE");
+      const optionNames = [...creates, ...updates].some((variant) => variant.options?.length)
+        ? await this.loadProductOptionNames(accessToken, shop, productId)
+        : [];
+
+      if (creates.length > 0) {
+        const response = await this.graphqlRequest(accessToken, shop, {
+          query: `
+            mutation productVariantsBulkCreate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+              productVariantsBulkCreate(productId: $productId, variants: $variants) {
+                productVariants {
+                  id
+                }
+                userErrors {
+                  field
+                  message
+                }
+              }
+            }`,
+          variables: {
+            productId,
+            variants: creates.map((variant) => ({
+              ...this.toVariantsBulkInput(variant, optionNames),
+              inventoryQuantities:
+                variant.inventory === undefined ? undefined : [{ availableQuantity: variant.inventory, locationId }],
+            })),
+          },
+        });
+        if (response.data.productVariantsBulkCreate.userErrors?.length > 0) {
+          throw getGraphqlShopifyUserError(response.data.productVariantsBulkCreate.userErrors, { productId, creates });
+        }
+      }
+
+      if (updates.length > 0) {
+        const response = await this.graphqlRequest(accessToken, shop, {
+          query: `
+            mutation productVariantsBulkUpdate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+              productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+                productVariants {
+                  id
+                  inventoryItem {
+                    id
+                  }
+                }
+                userErrors {
+                  field
+                  message
+                }
+              }
+            }`,
+          variables: {
+            productId,
+            variants: updates.map((variant) => ({
+              id: this.toGid("ProductVariant", variant.id!),
+              ...this.toVariantsBulkInput(variant, optionNames),
+            })),
+          },
+        });
+        if (response.data.productVariantsBulkUpdate.userErrors?.length > 0) {
+          throw getGraphqlShopifyUserError(response.data.productVariantsBulkUpdate.userErrors, { productId, updates });
+        }
+
+        // Only new variants take quantities, existing ones get theirs set afterwards
+        const updated: Array<{ id: string; inventoryItem: { id: string } }> =
+          response.data.productVariantsBulkUpdate.productVariants;
+        const quantities = updates
+          .filter((variant) => variant.inventory !== undefined)
+          .map((variant) => ({
+            inventoryItemId: updated.find(({ id }) => id === this.toGid("ProductVariant", variant.id!))!.inventoryItem.id,
+            locationId: locationId!,
+            quantity: variant.inventory!,
+          }));
+        if (quantities.length > 0) {
+          await this.setAvailableQuantities(accessToken, shop, quantities, "correction");
+        }
+      }
+
+      if (deletes.length > 0) {
+        const response = await this.graphqlRequest(accessToken, shop, {
+          query: `
+            mutation productVariantsBulkDelete($productId: ID!, $variantsIds: [ID!]!) {
+              productVariantsBulkDelete(productId: $productId, variantsIds: $variantsIds) {
+                product {
+                  id
+                }
+                userErrors {
+                  field
+                  message
+                }
+              }
+            }`,
+          variables: {
+            productId,
+            variantsIds: deletes.map((variant) => this.toGid("ProductVariant", variant.id!)),
+          },
+        });
+        if (response.data.productVariantsBulkDelete.userErrors?.length > 0) {
+          throw getGraphqlShopifyUserError(response.data.productVariantsBulkDelete.userErrors, { productId, deletes });
+        }
+      }
+    }
+  }
+
+  /**
+   * Maps variant fields to a ProductVariantsBulkInput; the variant title
+   * follows from its option values
+   * @param optionNames Names of the product's options, in order
+   */
+  private toVariantsBulkInput(variant: VariantOperationData, optionNames: string[]): Record<string, unknown> {
+    const { sku, requiresShipping, weight, weightUnit } = variant;
+    const inventoryItem = {
+      sku,
+      requiresShipping,
+      measurement: weight === undefined ? undefined : { weight: { value: weight, unit: weightUnit ?? "KILOGRAMS" } },
+    };
+    return {
+      price: variant.price?.toString(),
+      barcode: variant.barcode,
+      taxable: variant.taxable,
+      optionValues: variant.options?.map((name, position) => ({ optionName: optionNames[position], name })),
+      inventoryItem: Object.values(inventoryItem).some((value) => value !== undefined) ? inventoryItem : undefined,
+    };
+  }
+
+  private async loadProductOptionNames(accessToken: string, shop: string, productId: string): Promise<string[]> {
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: gql`
+        query productOptions($id: ID!) {
+          product(id: $id) {
+            options {
+              name
+            }
+          }
+        }
+      `,
+      variables: { id: productId },
+    });
+    return (response.data.product?.options ?? []).map((option: { name: string }) => option.name);
+  }
+
+  private async loadPrimaryLocationId(accessToken: string, shop: string): Promise<string> {
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: gql`
+        query primaryLocation {
+          location {
+            id
+          }
+        }
+      `,
+    });
+    return response.data.location.id;
+  }
+
+  async manageProductMetafields(
+    accessToken: string,
+    shop: string,
+    params: {
+      productId: string;
+      operations: Array<{
+        action: "SET" | "DELETE";
+        key: string;
+        namespace: string;
+        value?: string;
+        type?: string;
+      }>;
+    }
+  ): Promise<void> {
+    const ownerId = this.toGid("Product", params.productId);
+    const sets = params.operations.filter((op) => op.action === "SET");
+    const deletes = params.operations.filter((op) => op.action === "DELETE");
+
+    if (sets.length > 0) {
+      // metafieldsSet takes up to 25 metafields and applies all of them or none
+      const response = await this.graphqlRequest(accessToken, shop, {
+        query: `
+          mutation metafieldsSet($metafields: [MetafieldsSetInput!]!) {
+            metafieldsSet(metafields: $metafields) {
+              metafields {
+                id
+              }
+              userErrors {
+                field
+                message
+              }
+            }
+          }`,
+        variables: {
+          metafields: sets.map(({ namespace, key, value, type }) => ({ ownerId, namespace, key, value, type })),
+        },
+      });
+      if (response.data.metafieldsSet.userErrors?.length > 0) {
+        throw getGraphqlShopifyUserError(response.data.metafieldsSet.userErrors, params);
+      }
+    }
+
+    for (const { namespace, key } of deletes) {
+      const response = await this.graphqlRequest(accessToken, shop, {
+        query: gql`
+          query productMetafield($id: ID!, $namespace: String!, $key: String!) {
+            product(id: $id) {
+              metafield(namespace: $namespace, key: $key) {
+                id
+              }
+            }
+          }
+        `,
+        variables: { id: ownerId, namespace, key },
+      });
+      const metafieldId = response.data.product?.metafield?.id;
+      if (!metafieldId) {
+        // Already gone
+        continue;
+      }
+
+      const deleted = await this.graphqlRequest(accessToken, shop, {
+        query: `
+          mutation metafieldDelete($input: MetafieldDeleteInput!) {
+            metafieldDelete(input: $input) {
+              deletedId
+              userErrors {
+                field
+                message
+              }
+            }
+          }`,
+        variables: { input: { id: metafieldId } },
+      });
+      if (deleted.data.metafieldDelete.userErrors?.length > 0) {
+        throw getGraphqlShopifyUserError(deleted.data.metafieldDelete.userErrors, { namespace, key });
+      }
     }
   }
 
@@ -428,12 +2221,10 @@ export class ShopifyClient implements ShopifyClientPort {
       collectionIds: string[];
     }
   ): Promise<void> {
+    const mutationName = params.action === "ADD" ? "collectionAddProducts" : "collectionRemoveProducts";
     const mutation = `
-      mutation collectionAddProducts($input: CollectionAddProductsInput!) {
-        collectionAddProducts(input: $input) {
-          job {
-            id
-          }
+      mutation ${mutationName}($id: ID!, $productIds: [ID!]!) {
+        ${mutationName}(id: $id, productIds: $productIds) {
           userErrors {
             field
             message
@@ -443,10 +2234,8 @@ export class ShopifyClient implements ShopifyClientPort {
 
     for (const collectionId of params.collectionIds) {
       const variables = {
-        input: {
-          id: `gid://shopify/Collection/${collectionId}`,
-          productIds: params.productIds.map(id => `gid://shopify/Product/${id}`),
-        },
+        id: this.toGid("Collection", collectionId),
+        productIds: params.productIds.map((id) => this.toGid("Product", id)),
       };
 
       const response = await this.graphqlRequest(accessToken, shop, {
@@ -454,9 +2243,9 @@ export class ShopifyClient implements ShopifyClientPort {
         variables,
       });
 
-      if (response.data.collectionAddProducts.userErrors?.length > 0) {
+      if (response.data[mutationName].userErrors?.length > 0) {
         throw getGraphqlShopifyUserError(
-          response.data.collectionAddProducts.userErrors,
+          response.data[mutationName].userErrors,
           { collectionId, ...params }
         );
       }
@@ -468,49 +2257,119 @@ export class ShopifyClient implements ShopifyClientPort {
     shop: string,
     params: {
       productId: string;
-      action: "ADD" | "UPDATE" | "REMOVE";
-      images: Array<{
-        id?: string;
-        url?: string;
-        altText?: string;
-        position?: number;
-      }>;
-    }
-  ): Promise<void> {
-    const mutation = `
-      mutation productImageUpdate($input: ProductImageUpdateInput!) {
-        productImageUpdate(input: $input) {
-          image {
-            id
-          }
-          userErrors {
-            field
-            message
-          }
-        }
-      }`;
+      action: "ADD" | "UPDATE" | "REMOVE";
+      images: Array<{
+        id?: string;
+        url?: string;
+        altText?: string;
+        position?: number;
+      }>;
+    }
+  ): Promise<void> {
+    const productId = this.toGid("Product", params.productId);
 
-    for (const image of params.images) {
-      const variables = {
-        input: {
-          id: image.id ? `gid://shopify/ProductImage/${image.id}` : undefined,
-          productId: `gid://shopify/Product/${params.productId}`,
-          src: image.url,
-          altText: image.altText,
-          position: image.position,
+    if (params.action === "REMOVE") {
+      const response = await this.graphqlRequest(accessToken, shop, {
+        query: `
+          mutation productDeleteMedia($productId: ID!, $mediaIds: [ID!]!) {
+            productDeleteMedia(productId: $productId, mediaIds: $mediaIds) {
+              deletedMediaIds
+              mediaUserErrors {
+                field
+                message
+              }
+            }
+          }`,
+        variables: {
+          productId,
+          mediaIds: params.images.map((image) => this.toGid("MediaImage", image.id!)),
         },
-      };
+      });
+      if (response.data.productDeleteMedia.mediaUserErrors?.length > 0) {
+        throw getGraphqlShopifyUserError(response.data.productDeleteMedia.mediaUserErrors, params);
+      }
+      return;
+    }
 
+    let mediaIds: string[];
+    if (params.action === "ADD") {
       const response = await this.graphqlRequest(accessToken, shop, {
-        query: mutation,
-        variables,
+        query: `
+          mutation productCreateMedia($productId: ID!, $media: [CreateMediaInput!]!) {
+            productCreateMedia(productId: $productId, media: $media) {
+              media {
+                id
+              }
+              mediaUserErrors {
+                field
+                message
+              }
+            }
+          }`,
+        variables: {
+          productId,
+          media: params.images.map((image) => ({
+            originalSource: image.url,
+            alt: image.altText,
+            mediaContentType: "IMAGE",
+          })),
+        },
+      });
+      if (response.data.productCreateMedia.mediaUserErrors?.length > 0) {
+        throw getGraphqlShopifyUserError(response.data.productCreateMedia.mediaUserErrors, params);
+      }
+      mediaIds = response.data.productCreateMedia.media.map((media: { id: string }) => media.id);
+    } else {
+      mediaIds = params.images.map((image) => this.toGid("MediaImage", image.id!));
+      const response = await this.graphqlRequest(accessToken, shop, {
+        query: `
+          mutation productUpdateMedia($productId: ID!, $media: [UpdateMediaInput!]!) {
+            productUpdateMedia(productId: $productId, media: $media) {
+              media {
+                id
+              }
+              mediaUserErrors {
+                field
+                message
+              }
+            }
+          }`,
+        variables: {
+          productId,
+          media: params.images.map((image, index) => ({
+            id: mediaIds[index],
+            alt: image.altText,
+            previewImageSource: image.url,
+          })),
+        },
       });
+      if (response.data.productUpdateMedia.mediaUserErrors?.length > 0) {
+        throw getGraphqlShopifyUserError(response.data.productUpdateMedia.mediaUserErrors, params);
+      }
+    }
 
-      if (response.data.productImageUpdate.userErrors?.length > 0) {
-        throw getGraphqlShopifyUserError(
-          response.data.productImageUpdate.userErrors,
-          { image, ...params }
-        );
+    // Positions are applied by moving the media once they exist
+    const moves = params.images.flatMap((image, index) =>
+      image.position === undefined ? [] : [{ id: mediaIds[index], newPosition: String(image.position - 1) }]
+    );
+    if (moves.length > 0) {
+      const response = await this.graphqlRequest(accessToken, shop, {
+        query: `
+          mutation productReorderMedia($id: ID!, $moves: [MoveInput!]!) {
+            productReorderMedia(id: $id, moves: $moves) {
+              job {
+                id
+              }
+              mediaUserErrors {
+                field
+                message
+              }
+            }
+          }`,
+        variables: { id: productId, moves },
+      });
+      if (response.data.productReorderMedia.mediaUserErrors?.length > 0) {
+        throw getGraphqlShopifyUserError(response.data.productReorderMedia.mediaUserErrors, params);
       }
     }
   }
@@ -526,10 +2385,40 @@ export class ShopifyClient implements ShopifyClientPort {
     variantId: string;
     newPrice: number;
   }>> {
+    // Prices are updated product by product, so the variants' products are looked up first
+    const variantIds = updates.map((update) => this.toGid("ProductVariant", update.variantId));
+    const lookup = await this.graphqlRequest(accessToken, shop, {
+      query: gql`
+        query variantProducts($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on ProductVariant {
+              id
+              product {
+                id
+              }
+            }
+          }
+        }
+      `,
+      variables: { ids: variantIds },
+    });
+
+    const byProduct = new Map<string, Array<{ id: string; price: string }>>();
+    updates.forEach((update, index) => {
+      const productId = lookup.data.nodes[index]?.product?.id;
+      if (!productId) {
+        throw new ShopifyProductVariantNotFoundError({ contextData: { variantId: update.variantId } });
+      }
+      byProduct.set(productId, [
+        ...(byProduct.get(productId) ?? []),
+        { id: variantIds[index], price: update.newPrice.toString() },
+      ]);
+    });
+
     const mutation = `
-      mutation productVariantPriceUpdate($input: ProductVariantPriceUpdateInput!) {
-        productVariantPriceUpdate(input: $input) {
-          variant {
+      mutation productVariantsBulkUpdate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+        productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+          productVariants {
             id
             price
           }
@@ -540,34 +2429,29 @@ export class ShopifyClient implements ShopifyClientPort {
         }
       }`;
 
-    const results = [];
-    for (const update of updates) {
-      const variables = {
-        input: {
-          id: `gid://shopify/ProductVariant/${update.variantId}`,
-          price: update.newPrice.toString(),
-        },
-      };
-
+    const prices = new Map<string, number>();
+    for (const [productId, variants] of byProduct) {
       const response = await this.graphqlRequest(accessToken, shop, {
         query: mutation,
-        variables,
+        variables: { productId, variants },
       });
 
-      if (response.data.productVariantPriceUpdate.userErrors?.length > 0) {
+      if (response.data.productVariantsBulkUpdate.userErrors?.length > 0) {
         throw getGraphqlShopifyUserError(
-          response.data.productVariantPriceUpdate.userErrors,
-          update
+          response.data.productVariantsBulkUpdate.userErrors,
+          { productId, variants }
         );
       }
 
-      results.push({
-        variantId: update.variantId,
-        newPrice: parseFloat(response.data.productVariantPriceUpdate.variant.price),
-      });
+      for (const variant of response.data.productVariantsBulkUpdate.productVariants) {
+        prices.set(variant.id, parseFloat(variant.price));
+      }
     }
 
-    return results;
+    return updates.map((update, index) => ({
+      variantId: update.variantId,
+      newPrice: prices.get(variantIds[index]) ?? update.newPrice,
+    }));
   }
 
   async createProduct(
@@ -576,9 +2460,12 @@ export class ShopifyClient implements ShopifyClientPort {
     productData: {
       title: string;
       description: string;
+      handle?: string;
+      status?: "ACTIVE" | "ARCHIVED" | "DRAFT";
       vendor?: string;
       productType?: string;
       tags?: string[];
+      options?: string[];
       variants: Array<{
         title: string;
         price: number;
@@ -586,6 +2473,7 @@ export class ShopifyClient implements ShopifyClientPort {
         inventory: number;
         requiresShipping?: boolean;
         taxable?: boolean;
+        options?: string[];
       }>;
     }
   ): Promise<ProductNode> {
@@ -597,6 +2485,10 @@ export class ShopifyClient implements ShopifyClientPort {
             handle
             title
             description
+            status
+            vendor
+            productType
+            tags
             publishedAt
             updatedAt
             options {
@@ -622,6 +2514,7 @@ export class ShopifyClient implements ShopifyClientPort {
                   sku
                   availableForSale
                   inventoryPolicy
+                  inventoryQuantity
                   selectedOptions {
                     name
                     value
@@ -641,9 +2534,12 @@ export class ShopifyClient implements ShopifyClientPort {
       input: {
         title: productData.title,
         descriptionHtml: productData.description,
+        handle: productData.handle,
+        status: productData.status,
         vendor: productData.vendor,
         productType: productData.productType,
         tags: productData.tags,
+        options: productData.options,
         variants: productData.variants.map(v => ({
           title: v.title,
           price: v.price.toString(),
@@ -651,6 +2547,7 @@ export class ShopifyClient implements ShopifyClientPort {
           inventoryQuantity: v.inventory,
           requiresShipping: v.requiresShipping,
           taxable: v.taxable,
+          options: v.options,
         })),
       },
     };
@@ -691,6 +2588,10 @@ export class ShopifyClient implements ShopifyClientPort {
             handle
             title
             description
+            status
+            vendor
+            productType
+            tags
             publishedAt
             updatedAt
             options {
@@ -716,6 +2617,7 @@ export class ShopifyClient implements ShopifyClientPort {
                   sku
                   availableForSale
                   inventoryPolicy
+                  inventoryQuantity
                   selectedOptions {
                     name
                     value
@@ -733,7 +2635,7 @@ export class ShopifyClient implements ShopifyClientPort {
 
     const variables = {
       input: {
-        id: `gid://shopify/Product/${productId}`,
+        id: this.toGid("Product", productId),
         title: updateData.title,
         descriptionHtml: updateData.description,
         status: updateData.status,
@@ -771,187 +2673,412 @@ export class ShopifyClient implements ShopifyClientPort {
       tags?: string[];
     }>
   ): Promise<ProductNode[]> {
-    const mutation = `
-      mutation productBulkUpdate($input: [ProductInput!]!) {
-        productBulkUpdate(input: $input) {
-          products {
-            id
-            handle
-            title
-            description
-            publishedAt
-            updatedAt
-            options {
+    // Shopify has no bulk product update, so each product is updated on its own
+    const products: ProductNode[] = [];
+    for (const { productId, ...updateData } of updates) {
+      products.push(await this.updateProduct(accessToken, shop, productId, updateData));
+    }
+    return products;
+  }
+
+  async searchProductsByPriceRange(
+    accessToken: string, 
+    shop: string,
+    params: {
+      minPrice: number;
+      maxPrice: number;
+      currencyCode?: string;
+      limit?: number;
+    }
+  ): Promise<SearchProductsByPriceRangeResponse> {
+    const query = gql`
+      query getProductsByPriceRange($query: String!, $first: Int!) {
+        products(query: $query, first: $first) {
+          edges {
+            node {
+              ...Product
+            }
+          }
+        }
+        shop {
+          currencyCode
+        }
+      }
+      ${productFragment}
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query,
+      variables: {
+        query: `variants.price:>=${params.minPrice} AND variants.price:<=${params.maxPrice}`,
+        first: params.limit || 10
+      }
+    });
+
+    return {
+      products: response.data.products.edges.map((edge: any) => edge.node),
+      currencyCode: response.data.shop.currencyCode
+    };
+  }
+
+  async loadOrders(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyOrdersGraphqlQueryParams
+  ): Promise<ShopifyOrdersGraphqlResponse> {
+    const query = gql`
+      query getOrders(
+        $first: Int
+        $after: String
+        $query: String
+        $sortKey: OrderSortKeys
+        $reverse: Boolean
+        $lineItemsFirst: Int = 10
+      ) {
+        orders(first: $first, after: $after, query: $query, sortKey: $sortKey, reverse: $reverse) {
+          edges {
+            node {
               id
               name
-              values
-            }
-            images(first: 10) {
-              edges {
-                node {
-                  src
-                  height
-                  width
+              createdAt
+              displayFinancialStatus
+              email
+              totalPriceSet {
+                shopMoney {
+                  amount
+                  currencyCode
+                }
+                presentmentMoney {
+                  amount
+                  currencyCode
                 }
               }
-            }
-            variants(first: 10) {
-              edges {
-                node {
+              customer {
+                id
+                email
+              }
+              lineItems(first: $lineItemsFirst) {
+                nodes {
                   id
                   title
-                  price
-                  sku
-                  availableForSale
-                  inventoryPolicy
-                  selectedOptions {
-                    name
-                    value
+                  quantity
+                  currentQuantity
+                  originalTotalSet {
+                    shopMoney {
+                      amount
+                      currencyCode
+                    }
+                  }
+                  discountedTotalSet {
+                    shopMoney {
+                      amount
+                      currencyCode
+                    }
+                  }
+                  product {
+                    id
+                  }
+                  variant {
+                    id
+                    title
+                    sku
+                    price
                   }
                 }
               }
             }
           }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query,
+      variables: queryParams
+    });
+
+    return {
+      orders: response.data.orders.edges.map((edge: any) => edge.node),
+      pageInfo: response.data.orders.pageInfo
+    };
+  }
+
+  async runBulkQuery(accessToken: string, shop: string, bulkQuery: string): Promise<BulkOperation> {
+    const query = gql`
+      mutation bulkOperationRunQuery($query: String!) {
+        bulkOperationRunQuery(query: $query) {
+          bulkOperation {
+            ...BulkOperationFields
+          }
           userErrors {
             field
             message
           }
         }
-      }`;
+      }
+      ${bulkOperationFragment}
+    `;
 
-    const variables = {
-      input: updates.map(update => ({
-        id: `gid://shopify/Product/${update.productId}`,
-        title: update.title,
-        descriptionHtml: update.description,
-        status: update.status,
-        vendor: update.vendor,
-        productType: update.productType,
-        tags: update.tags,
-      })),
-    };
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query,
+      variables: { query: bulkQuery }
+    });
+    return this.startedBulkOperation(response.data.bulkOperationRunQuery, { query: bulkQuery });
+  }
+
+  async runBulkMutation(
+    accessToken: string,
+    shop: string,
+    mutation: string,
+    inputs: Array<Record<string, unknown>>
+  ): Promise<BulkOperation> {
+    const stagedUploadPath = await this.uploadBulkMutationVariables(
+      accessToken,
+      shop,
+      inputs.map((input) => JSON.stringify(input)).join("\n") + "\n"
+    );
+
+    const query = gql`
+      mutation bulkOperationRunMutation($mutation: String!, $stagedUploadPath: String!) {
+        bulkOperationRunMutation(mutation: $mutation, stagedUploadPath: $stagedUploadPath) {
+          bulkOperation {
+            ...BulkOperationFields
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+      ${bulkOperationFragment}
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query,
+      variables: { mutation, stagedUploadPath }
+    });
+    return this.startedBulkOperation(response.data.bulkOperationRunMutation, { mutation, stagedUploadPath });
+  }
+
+  async getBulkOperation(
+    accessToken: string,
+    shop: string,
+    target: { id: string } | { type: BulkOperationType }
+  ): Promise<BulkOperation | null> {
+    if ("id" in target) {
+      const response = await this.graphqlRequest(accessToken, shop, {
+        query: gql`
+          query getBulkOperation($id: ID!) {
+            node(id: $id) {
+              ...BulkOperationFields
+            }
+          }
+          ${bulkOperationFragment}
+        `,
+        variables: { id: this.toGid("BulkOperation", target.id) }
+      });
+      return response.data.node ? this.mapBulkOperation(response.data.node) : null;
+    }
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: gql`
+        query getCurrentBulkOperation($type: BulkOperationType!) {
+          currentBulkOperation(type: $type) {
+            ...BulkOperationFields
+          }
+        }
+        ${bulkOperationFragment}
+      `,
+      variables: { type: target.type }
+    });
+    return response.data.currentBulkOperation ? this.mapBulkOperation(response.data.currentBulkOperation) : null;
+  }
+
+  async cancelBulkOperation(accessToken: string, shop: string, bulkOperationId: string): Promise<BulkOperation> {
+    const query = gql`
+      mutation bulkOperationCancel($id: ID!) {
+        bulkOperationCancel(id: $id) {
+          bulkOperation {
+            ...BulkOperationFields
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+      ${bulkOperationFragment}
+    `;
 
     const response = await this.graphqlRequest(accessToken, shop, {
-      query: mutation,
-      variables,
+      query,
+      variables: { id: this.toGid("BulkOperation", bulkOperationId) }
     });
+    return this.startedBulkOperation(response.data.bulkOperationCancel, { bulkOperationId });
+  }
 
-    if (response.data.productBulkUpdate.userErrors?.length > 0) {
-      throw getGraphqlShopifyUserError(
-        response.data.productBulkUpdate.userErrors,
-        updates
-      );
+  async *streamBulkOperationResult(url: string): AsyncIterable<BulkOperationRow> {
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      throw new ShopifyNetworkError({ innerError: error, contextData: { url } });
+    }
+    if (!response.ok || !response.body) {
+      throw getHttpShopifyError(await response.text(), response.status);
     }
 
-    return response.data.productBulkUpdate.products;
+    // Read line by line so large results are never held as one string
+    const lines = createInterface({ input: Readable.fromWeb(response.body as ReadableStream), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line) as BulkOperationRow;
+      }
+    }
   }
 
-  async searchProductsByPriceRange(
-    accessToken: string, 
-    shop: string,
-    params: {
-      minPrice: number;
-      maxPrice: number;
-      currencyCode?: string;
-      limit?: number;
-    }
-  ): Promise<SearchProductsByPriceRangeResponse> {
-    const query = gql`
-      query getProductsByPriceRange($query: String!, $first: Int!) {
-        products(query: $query, first: $first) {
-          edges {
-            node {
-              ...Product
+  /**
+   * Uploads the JSONL variables of a bulk mutation to a staged upload target
+   * @returns The staged upload path to start the mutation with
+   */
+  private async uploadBulkMutationVariables(accessToken: string, shop: string, jsonl: string): Promise<string> {
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: gql`
+        mutation stagedUploadsCreate($input: [StagedUploadInput!]!) {
+          stagedUploadsCreate(input: $input) {
+            stagedTargets {
+              url
+              resourceUrl
+              parameters {
+                name
+                value
+              }
+            }
+            userErrors {
+              field
+              message
             }
           }
         }
-        shop {
-          currencyCode
-        }
-      }
-      ${productFragment}
-    `;
-
-    const response = await this.graphqlRequest(accessToken, shop, {
-      query,
+      `,
       variables: {
-        query: `variants.price:>=${params.minPrice} AND variants.price:<=${params.maxPrice}`,
-        first: params.limit || 10
+        input: [{
+          resource: "BULK_MUTATION_VARIABLES",
+          filename: "bulk_op_vars.jsonl",
+          mimeType: "text/jsonl",
+          httpMethod: "POST"
+        }]
       }
     });
 
+    const { stagedTargets, userErrors } = response.data.stagedUploadsCreate;
+    if (userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(userErrors);
+    }
+    const [target] = stagedTargets as Array<{ url: string; parameters: Array<{ name: string; value: string }> }>;
+
+    // The file goes last, after the signed parameters
+    const form = new FormData();
+    for (const { name, value } of target.parameters) {
+      form.append(name, value);
+    }
+    form.append("file", new Blob([jsonl], { type: "text/jsonl" }), "bulk_op_vars.jsonl");
+
+    let upload: Response;
+    try {
+      upload = await fetch(target.url, { method: "POST", body: form });
+    } catch (error) {
+      throw new ShopifyNetworkError({ innerError: error, contextData: { shop } });
+    }
+    if (!upload.ok) {
+      throw getHttpShopifyError(await upload.text(), upload.status);
+    }
+
+    const key = target.parameters.find(({ name }) => name === "key");
+    if (!key) {
+      throw new GeneralShopifyClientError({ innerError: [{ message: "The staged upload target has no key" }] });
+    }
+    return key.value;
+  }
+
+  private startedBulkOperation(
+    payload: { bulkOperation: any; userErrors?: Array<{ field?: string[]; message: string }> },
+    contextData: Record<string, unknown>
+  ): BulkOperation {
+    if (payload.userErrors?.length || !payload.bulkOperation) {
+      throw new ShopifyInputError({ innerError: payload.userErrors, contextData });
+    }
+    return this.mapBulkOperation(payload.bulkOperation);
+  }
+
+  private mapBulkOperation(node: any): BulkOperation {
     return {
-      products: response.data.products.edges.map((edge: any) => edge.node),
-      currencyCode: response.data.shop.currencyCode
+      id: node.id,
+      type: node.type,
+      status: node.status,
+      errorCode: node.errorCode ?? null,
+      createdAt: node.createdAt,
+      completedAt: node.completedAt ?? null,
+      objectCount: Number(node.objectCount ?? 0),
+      fileSize: node.fileSize === null || node.fileSize === undefined ? null : Number(node.fileSize),
+      url: node.url ?? null,
+      partialDataUrl: node.partialDataUrl ?? null,
+      query: node.query
     };
   }
 
-  async loadOrders(
+  async runShopifyqlQuery(
     accessToken: string,
     shop: string,
-    queryParams: ShopifyOrdersGraphqlQueryParams
-  ): Promise<ShopifyOrdersGraphqlResponse> {
+    shopifyqlQuery: string
+  ): Promise<ShopifyqlTableResponse> {
     const query = gql`
-      query getOrders($first: Int, $after: String, $query: String, $sortKey: OrderSortKeys, $reverse: Boolean) {
-        orders(first: $first, after: $after, query: $query, sortKey: $sortKey, reverse: $reverse) {
-          edges {
-            node {
-              id
-              name
-              createdAt
-              displayFinancialStatus
-              email
-              totalPriceSet {
-                shopMoney {
-                  amount
-                  currencyCode
-                }
-                presentmentMoney {
-                  amount
-                  currencyCode
-                }
-              }
-              customer {
-                id
-                email
-              }
-              lineItems(first: 10) {
-                nodes {
-                  id
-                  title
-                  quantity
-                  originalTotalSet {
-                    shopMoney {
-                      amount
-                      currencyCode
-                    }
-                  }
-                  variant {
-                    id
-                    title
-                    sku
-                    price
-                  }
-                }
+      query runShopifyqlQuery($query: String!) {
+        shopifyqlQuery(query: $query) {
+          __typename
+          parseErrors {
+            code
+            message
+          }
+          ... on TableResponse {
+            tableData {
+              columns {
+                name
+                dataType
+                displayName
               }
+              rowData
             }
           }
-          pageInfo {
-            hasNextPage
-            endCursor
-          }
         }
       }
     `;
 
     const response = await this.graphqlRequest(accessToken, shop, {
       query,
-      variables: queryParams
+      variables: { query: shopifyqlQuery }
     });
 
+    const result = response.data.shopifyqlQuery;
+    if (result?.parseErrors?.length) {
+      throw new ShopifyInputError({
+        innerError: result.parseErrors,
+        contextData: { query: shopifyqlQuery }
+      });
+    }
+    if (!result?.tableData) {
+      throw new ShopifyInputError({
+        innerError: [{ message: `ShopifyQL returned a ${result?.__typename ?? "empty response"} instead of a table` }],
+        contextData: { query: shopifyqlQuery }
+      });
+    }
     return {
-      orders: response.data.orders.edges.map((edge: any) => edge.node),
-      pageInfo: response.data.orders.pageInfo
+      columns: result.tableData.columns,
+      rowData: result.tableData.rowData
     };
   }
 
@@ -995,21 +3122,62 @@ export class ShopifyClient implements ShopifyClientPort {
     });
 
     return {
-      customers: response.data.customers.edges.map((edge: any) => ({
-        id: this.getIdFromGid(edge.node.id),
-        email: edge.node.email,
-        first_name: edge.node.firstName,
-        last_name: edge.node.lastName,
-        phone: edge.node.phone,
-        orders_count: edge.node.ordersCount,
-        tags: edge.node.tags,
-        currency: edge.node.defaultAddress?.countryCodeV2
-      })),
+      customers: response.data.customers.edges.map((edge: any) => this.mapCustomer(edge.node)),
       next: response.data.customers.pageInfo.hasNextPage ? 
         response.data.customers.pageInfo.endCursor : undefined
     };
   }
 
+  async getCustomer(
+    accessToken: string,
+    myshopifyDomain: string,
+    customerId: string
+  ): Promise<ShopifyCustomer> {
+    const query = gql`
+      query getCustomer($id: ID!) {
+        customer(id: $id) {
+          id
+          email
+          firstName
+          lastName
+          phone
+          ordersCount
+          tags
+          defaultAddress {
+            countryCodeV2
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphqlRequest(accessToken, myshopifyDomain, {
+      query,
+      variables: { id: this.toGid("Customer", customerId) }
+    });
+
+    if (!response.data.customer) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "Customer not found" }],
+        contextData: { customerId },
+      });
+    }
+    return this.mapCustomer(response.data.customer);
+  }
+
+  private mapCustomer(node: any): ShopifyCustomer {
+    return {
+      id: Number(this.getIdFromGid(node.id)),
+      email: node.email,
+      first_name: node.firstName,
+      last_name: node.lastName,
+      phone: node.phone,
+      orders_count: node.ordersCount,
+      // The Admin API returns a list, the port joins it like the REST API does
+      tags: Array.isArray(node.tags) ? node.tags.join(", ") : node.tags,
+      currency: node.defaultAddress?.countryCodeV2
+    };
+  }
+
   async loadProducts(
     accessToken: string,
     myshopifyDomain: string,
@@ -1025,6 +3193,10 @@ export class ShopifyClient implements ShopifyClientPort {
               ...Product
             }
           }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
         }
         shop {
           currencyCode
@@ -1042,12 +3214,19 @@ export class ShopifyClient implements ShopifyClientPort {
       }
     });
 
+    const { pageInfo } = response.data.products;
     return {
       products: response.data.products.edges.map((edge: any) => edge.node),
-      currencyCode: response.data.shop.currencyCode
+      currencyCode: response.data.shop.currencyCode,
+      next: pageInfo.hasNextPage ? pageInfo.endCursor : undefined
     };
   }
 
+  // Accepts either a numeric ID or a GID
+  private toGid(type: string, id: string): string {
+    return id.startsWith("gid://") ? id : `gid://shopify/${type}/${id}`;
+  }
+
   getIdFromGid(gid: string): string {
     const parts = gid.split('/');
     return parts[parts.length - 1];
@@ -1057,15 +3236,65 @@ export class ShopifyClient implements ShopifyClientPort {
     accessToken: string,
     shop: string,
     callbackUrl: string,
-    topic: ShopifyWebhookTopic
-  ): Promise<{ id: string; topic: string; callbackUrl: string }> {
+    topic: ShopifyWebhookTopic,
+    options: WebhookSubscriptionOptions = {}
+  ): Promise<ShopifyWebhook> {
+    return this.createWebhookSubscription(accessToken, shop, topic, { type: "HTTP", callbackUrl }, options);
+  }
+
+  async subscribeEventBridgeWebhook(
+    accessToken: string,
+    shop: string,
+    arn: string,
+    topic: ShopifyWebhookTopic,
+    options: WebhookSubscriptionOptions = {}
+  ): Promise<ShopifyWebhook> {
+    return this.createWebhookSubscription(accessToken, shop, topic, { type: "EVENT_BRIDGE", arn }, options);
+  }
+
+  async subscribePubSubWebhook(
+    accessToken: string,
+    shop: string,
+    pubSubProject: string,
+    pubSubTopic: string,
+    topic: ShopifyWebhookTopic,
+    options: WebhookSubscriptionOptions = {}
+  ): Promise<ShopifyWebhook> {
+    return this.createWebhookSubscription(
+      accessToken,
+      shop,
+      topic,
+      { type: "PUB_SUB", pubSubProject, pubSubTopic },
+      options
+    );
+  }
+
+  async updateWebhook(
+    accessToken: string,
+    shop: string,
+    webhookId: string,
+    update: WebhookSubscriptionUpdate
+  ): Promise<ShopifyWebhook> {
+    const current = await this.getWebhook(accessToken, shop, webhookId);
+    const { endpoint, ...options } = update;
+    // Each endpoint type has its own update mutation, so the type cannot change
+    if (endpoint && endpoint.type !== current.endpoint.type) {
+      throw new ShopifyInputError({
+        innerError: [
+          {
+            message: `Cannot change a ${current.endpoint.type} webhook to ${endpoint.type}, subscribe the new endpoint and delete this one instead`,
+          },
+        ],
+        contextData: { webhookId },
+      });
+    }
+
+    const { update: mutationName, inputType } = WEBHOOK_MUTATIONS[current.endpoint.type];
     const mutation = gql`
-      mutation webhookSubscriptionCreate($topic: WebhookSubscriptionTopic!, $webhookSubscription: WebhookSubscriptionInput!) {
-        webhookSubscriptionCreate(topic: $topic, webhookSubscription: $webhookSubscription) {
+      mutation ${mutationName}($id: ID!, $webhookSubscription: ${inputType}!) {
+        ${mutationName}(id: $id, webhookSubscription: $webhookSubscription) {
           webhookSubscription {
-            id
-            topic
-            callbackUrl
+            ...WebhookSubscriptionFields
           }
           userErrors {
             field
@@ -1073,59 +3302,126 @@ export class ShopifyClient implements ShopifyClientPort {
           }
         }
       }
+      ${webhookSubscriptionFragment}
     `;
 
     const response = await this.graphqlRequest(accessToken, shop, {
       query: mutation,
       variables: {
-        topic,
+        id: current.id,
         webhookSubscription: {
-          callbackUrl,
+          ...(endpoint ? this.toWebhookEndpointInput(endpoint) : {}),
+          ...options,
         },
       },
     });
 
-    if (response.data.webhookSubscriptionCreate.userErrors?.length > 0) {
-      throw getGraphqlShopifyUserError(
-        response.data.webhookSubscriptionCreate.userErrors,
-        { topic, callbackUrl }
-      );
+    const { webhookSubscription, userErrors } = response.data[mutationName];
+    if (userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(userErrors, { webhookId, update });
     }
 
-    return response.data.webhookSubscriptionCreate.webhookSubscription;
+    return this.mapWebhook(webhookSubscription);
   }
 
-  async findWebhookByTopicAndCallbackUrl(
+  async loadWebhooks(
     accessToken: string,
     shop: string,
-    callbackUrl: string,
-    topic: ShopifyWebhookTopic
-  ): Promise<{ id: string; topic: string; callbackUrl: string } | null> {
+    queryParams: ShopifyWebhooksQueryParams
+  ): Promise<LoadWebhooksResponse> {
     const query = gql`
-      query getWebhooks($first: Int!) {
-        webhookSubscriptions(first: $first) {
-          edges {
-            node {
-              id
-              topic
-              callbackUrl
-            }
+      query getWebhooks(
+        $first: Int!
+        $after: String
+        $topics: [WebhookSubscriptionTopic!]
+        $callbackUrl: URL
+        $format: WebhookSubscriptionFormat
+      ) {
+        webhookSubscriptions(
+          first: $first
+          after: $after
+          topics: $topics
+          callbackUrl: $callbackUrl
+          format: $format
+        ) {
+          nodes {
+            ...WebhookSubscriptionFields
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
           }
         }
       }
+      ${webhookSubscriptionFragment}
     `;
 
     const response = await this.graphqlRequest(accessToken, shop, {
       query,
       variables: {
-        first: 100, // Adjust this number based on your needs
+        ...queryParams,
+        first: queryParams.first || 50,
+        topics: queryParams.topics?.map(toGraphqlWebhookTopic),
       },
     });
 
-    const webhooks = response.data.webhookSubscriptions.edges;
-    return webhooks.find(
-      (edge: any) => edge.node.topic === topic && edge.node.callbackUrl === callbackUrl
-    )?.node || null;
+    return {
+      webhooks: response.data.webhookSubscriptions.nodes.map((node: any) => this.mapWebhook(node)),
+      pageInfo: response.data.webhookSubscriptions.pageInfo,
+    };
+  }
+
+  async getWebhook(
+    accessToken: string,
+    shop: string,
+    webhookId: string
+  ): Promise<ShopifyWebhook> {
+    const query = gql`
+      query getWebhook($id: ID!) {
+        webhookSubscription(id: $id) {
+          ...WebhookSubscriptionFields
+        }
+      }
+      ${webhookSubscriptionFragment}
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query,
+      variables: { id: this.toGid("WebhookSubscription", webhookId) },
+    });
+
+    if (!response.data.webhookSubscription) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "Webhook not found" }],
+        contextData: { webhookId },
+      });
+    }
+
+    return this.mapWebhook(response.data.webhookSubscription);
+  }
+
+  async findWebhookByTopicAndCallbackUrl(
+    accessToken: string,
+    shop: string,
+    callbackUrl: string,
+    topic: ShopifyWebhookTopic
+  ): Promise<ShopifyWebhook | null> {
+    let after: string | undefined;
+    do {
+      const { webhooks, pageInfo } = await this.loadWebhooks(accessToken, shop, {
+        first: 100,
+        after,
+        topics: [topic],
+        callbackUrl,
+      });
+      const webhook = webhooks.find((w) => w.topic === topic && w.callbackUrl === callbackUrl);
+      if (webhook) {
+        return webhook;
+      }
+      after = pageInfo.hasNextPage ? pageInfo.endCursor ?? undefined : undefined;
+    } while (after);
+
+    return null;
   }
 
   async unsubscribeWebhook(
@@ -1148,7 +3444,7 @@ export class ShopifyClient implements ShopifyClientPort {
     const response = await this.graphqlRequest(accessToken, shop, {
       query: mutation,
       variables: {
-        id: `gid://shopify/WebhookSubscription/${webhookId}`,
+        id: this.toGid("WebhookSubscription", webhookId),
       },
     });
 
@@ -1160,42 +3456,93 @@ export class ShopifyClient implements ShopifyClientPort {
     }
   }
 
+  private async createWebhookSubscription(
+    accessToken: string,
+    shop: string,
+    topic: ShopifyWebhookTopic,
+    endpoint: WebhookEndpoint,
+    options: WebhookSubscriptionOptions
+  ): Promise<ShopifyWebhook> {
+    const { create: mutationName, inputType } = WEBHOOK_MUTATIONS[endpoint.type];
+    const mutation = gql`
+      mutation ${mutationName}($topic: WebhookSubscriptionTopic!, $webhookSubscription: ${inputType}!) {
+        ${mutationName}(topic: $topic, webhookSubscription: $webhookSubscription) {
+          webhookSubscription {
+            ...WebhookSubscriptionFields
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+      ${webhookSubscriptionFragment}
+    `;
+
+    const response = await this.graphqlRequest(accessToken, shop, {
+      query: mutation,
+      variables: {
+        topic: toGraphqlWebhookTopic(topic),
+        webhookSubscription: {
+          ...this.toWebhookEndpointInput(endpoint),
+          ...options,
+        },
+      },
+    });
+
+    const { webhookSubscription, userErrors } = response.data[mutationName];
+    if (userErrors?.length > 0) {
+      throw getGraphqlShopifyUserError(userErrors, { topic, endpoint });
+    }
+
+    return this.mapWebhook(webhookSubscription);
+  }
+
+  private toWebhookEndpointInput(endpoint: WebhookEndpoint): Record<string, string> {
+    switch (endpoint.type) {
+      case "HTTP":
+        return { callbackUrl: endpoint.callbackUrl };
+      case "EVENT_BRIDGE":
+        return { arn: endpoint.arn };
+      case "PUB_SUB":
+        return { pubSubProject: endpoint.pubSubProject, pubSubTopic: endpoint.pubSubTopic };
+    }
+  }
+
+  private mapWebhook(node: any): ShopifyWebhook {
+    let endpoint: WebhookEndpoint;
+    switch (node.endpoint.__typename) {
+      case "WebhookEventBridgeEndpoint":
+        endpoint = { type: "EVENT_BRIDGE", arn: node.endpoint.arn };
+        break;
+      case "WebhookPubSubEndpoint":
+        endpoint = {
+          type: "PUB_SUB",
+          pubSubProject: node.endpoint.pubSubProject,
+          pubSubTopic: node.endpoint.pubSubTopic,
+        };
+        break;
+      default:
+        endpoint = { type: "HTTP", callbackUrl: node.endpoint.callbackUrl };
+    }
+
+    return {
+      id: node.id,
+      callbackUrl: webhookEndpointAddress(endpoint),
+      topic: fromGraphqlWebhookTopic(node.topic),
+      endpoint,
+      format: node.format,
+      includeFields: node.includeFields ?? [],
+      metafieldNamespaces: node.metafieldNamespaces ?? [],
+      createdAt: node.createdAt,
+      updatedAt: node.updatedAt,
+    };
+  }
+
   async loadShopDetails(
     accessToken: string,
     shop: string
-  ): Promise<{
-    id: string;
-    name: string;
-    email: string;
-    myshopifyDomain: string;
-    plan: {
-      displayName: string;
-      partnerDevelopment: boolean;
-      shopifyPlus: boolean;
-    };
-    ianaTimezone: string;
-    currencyCode: string;
-    weightUnit: string;
-    billingAddress: {
-      address1: string;
-      address2: string;
-      city: string;
-      zip: string;
-      country: string;
-      countryCode: string;
-      province: string;
-      provinceCode: string;
-      phone: string;
-    };
-    primaryDomain: {
-      url: string;
-      host: string;
-    };
-    shippingCountries: Array<{
-      code: string;
-      name: string;
-    }>;
-  }> {
+  ): Promise<ShopDetails> {
     const query = gql`
       query getShopDetails {
         shop {
@@ -1307,6 +3654,10 @@ export class ShopifyClient implements ShopifyClientPort {
                 src
                 altText
               }
+              blog {
+                id
+                handle
+              }
             }
           }
           pageInfo {
@@ -1342,7 +3693,11 @@ export class ShopifyClient implements ShopifyClientPort {
         image: edge.node.image ? {
           src: edge.node.image.src,
           alt: edge.node.image.altText
-        } : undefined
+        } : undefined,
+        blog: {
+          id: this.getIdFromGid(edge.node.blog.id),
+          handle: edge.node.blog.handle
+        }
       })),
       next: response.data.articles.pageInfo.hasNextPage ? 
         response.data.articles.pageInfo.endCursor : undefined
@@ -1370,6 +3725,10 @@ export class ShopifyClient implements ShopifyClientPort {
             src
             altText
           }
+          blog {
+            id
+            handle
+          }
         }
       }
     `;
@@ -1382,6 +3741,12 @@ export class ShopifyClient implements ShopifyClientPort {
     });
 
     const article = response.data.article;
+    if (!article) {
+      throw new ShopifyInputError({
+        innerError: [{ message: "Article not found" }],
+        contextData: { articleId },
+      });
+    }
     return {
       article: {
         id: this.getIdFromGid(article.id),
@@ -1394,7 +3759,11 @@ export class ShopifyClient implements ShopifyClientPort {
         image: article.image ? {
           src: article.image.src,
           alt: article.image.altText
-        } : undefined
+        } : undefined,
+        blog: {
+          id: this.getIdFromGid(article.blog.id),
+          handle: article.blog.handle
+        }
       }
     };
   }
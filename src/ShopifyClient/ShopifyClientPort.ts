@@ -1,20 +1,26 @@
+import { MAX_SINGLE_QUERY_COST } from "./QueryCostThrottler.js";
+import { ShopifyWebhookTopic, ShopifyWebhookTopicGraphql } from "./webhookTopics.js";
+
 // Base types
 export type Nullable<T> = T | null;
 export type ISODate = string;
 export type Maybe<T> = T | null | undefined;
 
 // Customer types
+export type ShopifyCustomer = {
+  id?: number;
+  email?: string;
+  first_name?: string;
+  last_name?: string;
+  phone?: string;
+  orders_count?: number;
+  // Comma-separated
+  tags?: string;
+  currency?: string;
+};
+
 export type LoadCustomersResponse = {
-  customers: Array<{
-    id?: number;
-    email?: string;
-    first_name?: string;
-    last_name?: string;
-    phone?: string;
-    orders_count?: number;
-    tags?: string;
-    currency?: string;
-  }>;
+  customers: ShopifyCustomer[];
   next?: string;
 };
 
@@ -25,8 +31,24 @@ export type ShopifyOrdersGraphqlQueryParams = {
   query?: string;
   sortKey?: "PROCESSED_AT" | "TOTAL_PRICE" | "ID" | "CREATED_AT" | "UPDATED_AT" | "ORDER_NUMBER";
   reverse?: boolean;
+  // Line items returned per order, defaults to 10
+  lineItemsFirst?: number;
 };
 
+// Requested cost of an order of the loadOrders query without its line items, and of
+// each line item: Shopify charges a point per object and two per connection
+const ORDER_QUERY_COST = 7;
+const LINE_ITEM_QUERY_COST = 7;
+
+/**
+ * Largest page of orders loadOrders can request without exceeding Shopify's single query cost
+ * @param lineItemsFirst Line items requested per order
+ */
+export function maxOrdersPerPage(lineItemsFirst: number): number {
+  // The orders connection itself costs two points
+  return Math.max(1, Math.floor((MAX_SINGLE_QUERY_COST - 2) / (ORDER_QUERY_COST + lineItemsFirst * LINE_ITEM_QUERY_COST)));
+}
+
 export type ShopifyOrderGraphql = {
   id: string;
   name: string;
@@ -51,9 +73,16 @@ export type ShopifyOrderGraphql = {
       id: string;
       title: string;
       quantity: number;
+      // Quantity left after refunds and order edits removed units
+      currentQuantity: number;
       originalTotalSet: {
         shopMoney: { amount: string; currencyCode: string };
       };
+      // Total after line item discounts, excluding order level discounts
+      discountedTotalSet: {
+        shopMoney: { amount: string; currencyCode: string };
+      };
+      product: { id: string } | null;
       variant: {
         id: string;
         title: string;
@@ -72,12 +101,71 @@ export type ShopifyOrdersGraphqlResponse = {
   };
 };
 
+// ShopifyQL types
+export type ShopifyqlColumn = {
+  name: string;
+  // e.g. "MONEY", "INTEGER", "PERCENT", "STRING" or "DAY"
+  dataType: string;
+  displayName: string;
+};
+
+export type ShopifyqlTableResponse = {
+  columns: ShopifyqlColumn[];
+  // Cells as strings, in column order
+  rowData: string[][];
+};
+
+// Bulk operation types
+export type BulkOperationType = "QUERY" | "MUTATION";
+
+export type BulkOperationStatus =
+  | "CREATED"
+  | "RUNNING"
+  | "COMPLETED"
+  | "CANCELING"
+  | "CANCELED"
+  | "FAILED"
+  | "EXPIRED";
+
+export type BulkOperation = {
+  id: string;
+  type: BulkOperationType;
+  status: BulkOperationStatus;
+  // e.g. "ACCESS_DENIED", "INTERNAL_SERVER_ERROR" or "TIMEOUT" when the operation failed
+  errorCode: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  objectCount: number;
+  // Size of the result file in bytes
+  fileSize: number | null;
+  // JSONL result, for about a week after the operation completed
+  url: string | null;
+  // JSONL of the objects processed before the operation failed
+  partialDataUrl: string | null;
+  query: string;
+};
+
+/**
+ * One line of a bulk operation result. Objects of nested connections are
+ * flattened onto their own line with the ID of their parent in `__parentId`;
+ * mutation results carry the line of their input in `__lineNumber`
+ */
+export type BulkOperationRow = Record<string, unknown> & {
+  __parentId?: string;
+  __lineNumber?: number;
+};
+
 // Product types
 export type ProductNode = {
   id: string;
   handle: string;
   title: string;
   description: string;
+  status: "ACTIVE" | "ARCHIVED" | "DRAFT";
+  // Empty when not set
+  vendor: string;
+  productType: string;
+  tags: string[];
   publishedAt: string;
   updatedAt: string;
   options: ProductOption[];
@@ -113,6 +201,8 @@ export type ProductVariant = {
   availableForSale: boolean;
   image: Nullable<ProductImage>;
   inventoryPolicy: "CONTINUE" | "DENY";
+  // Available quantity across locations, null when inventory is not tracked
+  inventoryQuantity: Nullable<number>;
   selectedOptions: SelectedProductOption[];
 };
 
@@ -127,15 +217,36 @@ export type SearchProductsByPriceRangeResponse = {
   currencyCode: string;
 };
 
+export type ProductSalesDay = {
+  date: string;
+  unitsSold: number;
+  revenue: number;
+  orderCount: number;
+};
+
 export type ProductAnalytics = {
   productId: string;
-  metrics: {
-    views?: number;
-    addToCart?: number;
-    purchases?: number;
-    revenue?: number;
-    conversionRate?: number;
-  };
+  currencyCode: string | null;
+  from: string;
+  to: string;
+  unitsSold: number;
+  unitsRefunded: number;
+  revenue: number;
+  orderCount: number;
+  averageSellingPrice: number | null;
+  refundRate: number | null;
+  daily: ProductSalesDay[];
+  // Online store sessions from ShopifyQL, null when it is not available
+  storefront: {
+    viewSessions: number | null;
+    addToCartSessions: number | null;
+    conversionRate: number | null;
+  } | null;
+  // Metrics that could not be computed, with the reason
+  unavailable: Record<string, string>;
+  notes: string[];
+  // Whether orders past the scan limit were left out
+  truncated: boolean;
 };
 
 export type ProductImageOperation = {
@@ -212,47 +323,47 @@ export type ShopifyCollectionsQueryParams = {
 };
 
 // Draft Order types
+export type DraftOrderAppliedDiscount = {
+  title: string;
+  value: number;
+  valueType: "FIXED_AMOUNT" | "PERCENTAGE";
+  description?: string;
+};
+
+export type DraftOrderAddress = {
+  address1: string;
+  address2?: string;
+  countryCode: string;
+  firstName: string;
+  lastName: string;
+  zip: string;
+  city: string;
+  country: string;
+  province?: string;
+  provinceCode?: string;
+  phone?: string;
+};
+
+export type DraftOrderLineItemInput = {
+  variantId: string;
+  quantity: number;
+  appliedDiscount?: DraftOrderAppliedDiscount;
+};
+
 export type CreateDraftOrderPayload = {
-  lineItems: Array<{
-    variantId: string;
-    quantity: number;
-    appliedDiscount?: {
-      title: string;
-      value: number;
-      valueType: "FIXED_AMOUNT" | "PERCENTAGE";
-    };
-  }>;
-  shippingAddress: {
-    address1: string;
-    address2?: string;
-    countryCode: string;
-    firstName: string;
-    lastName: string;
-    zip: string;
-    city: string;
-    country: string;
-    province?: string;
-    provinceCode?: string;
-    phone?: string;
-  };
-  billingAddress: {
-    address1: string;
-    address2?: string;
-    countryCode: string;
-    firstName: string;
-    lastName: string;
-    zip: string;
-    city: string;
-    country: string;
-    province?: string;
-    provinceCode?: string;
-    phone?: string;
-  };
+  lineItems: DraftOrderLineItemInput[];
+  shippingAddress?: DraftOrderAddress;
+  billingAddress?: DraftOrderAddress;
   email: string;
   tags: string;
   note: string;
+  // Discount on the whole order, on top of any line item discounts
+  appliedDiscount?: DraftOrderAppliedDiscount;
 };
 
+// Fields of a draft order that can be changed or previewed; omitted fields are left as they are
+export type DraftOrderInput = Partial<CreateDraftOrderPayload>;
+
 export type DraftOrderResponse = {
   draftOrderId: string;
   draftOrderName: string;
@@ -264,6 +375,70 @@ export type CompleteDraftOrderResponse = {
   orderId: string;
 };
 
+export type DraftOrderTotals = {
+  currencyCode: string;
+  subtotalPrice: string;
+  totalTax: string;
+  totalShippingPrice: string;
+  totalPrice: string;
+};
+
+export type DraftOrderLineItem = {
+  title: string;
+  quantity: number;
+  variantId: string | null;
+  originalUnitPrice: string;
+  discountedTotal: string;
+  appliedDiscount: DraftOrderAppliedDiscount | null;
+};
+
+export type ShopifyDraftOrder = DraftOrderTotals & {
+  id: string;
+  name: string;
+  status: "OPEN" | "INVOICE_SENT" | "COMPLETED";
+  email: string | null;
+  note: string | null;
+  tags: string[];
+  invoiceUrl: string | null;
+  invoiceSentAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  orderId: string | null;
+  appliedDiscount: DraftOrderAppliedDiscount | null;
+  lineItems: DraftOrderLineItem[];
+};
+
+export type CalculatedDraftOrder = DraftOrderTotals & {
+  appliedDiscount: DraftOrderAppliedDiscount | null;
+  lineItems: DraftOrderLineItem[];
+  availableShippingRates: Array<{
+    handle: string;
+    title: string;
+    price: string;
+  }>;
+};
+
+export type ShopifyDraftOrdersQueryParams = {
+  first?: number;
+  after?: string;
+  query?: string;
+  reverse?: boolean;
+};
+
+export type LoadDraftOrdersResponse = {
+  draftOrders: ShopifyDraftOrder[];
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+};
+
+export type DraftOrderInvoiceEmail = {
+  to?: string;
+  subject?: string;
+  customMessage?: string;
+};
+
 // Shop types
 export type ShopResponse = {
   data: {
@@ -273,6 +448,40 @@ export type ShopResponse = {
   };
 };
 
+export type ShopDetails = {
+  id: string;
+  name: string;
+  email: string;
+  myshopifyDomain: string;
+  plan: {
+    displayName: string;
+    partnerDevelopment: boolean;
+    shopifyPlus: boolean;
+  };
+  ianaTimezone: string;
+  currencyCode: string;
+  weightUnit: string;
+  billingAddress: {
+    address1: string;
+    address2: string;
+    city: string;
+    zip: string;
+    country: string;
+    countryCode: string;
+    province: string;
+    provinceCode: string;
+    phone: string;
+  };
+  primaryDomain: {
+    url: string;
+    host: string;
+  };
+  shippingCountries: Array<{
+    code: string;
+    name: string;
+  }>;
+};
+
 export type LoadStorefrontsResponse = {
   shop: {
     id: string;
@@ -338,8 +547,10 @@ export type CreateBasicDiscountCodeInput = {
   valueType: string;
   value: number;
   usageLimit?: number;
+  // When includeCollectionIds and includeProductIds are both empty the discount applies to all items
   includeCollectionIds: string[];
   excludeCollectionIds: string[];
+  includeProductIds?: string[];
   appliesOncePerCustomer: boolean;
   combinesWith: {
     productDiscounts: boolean;
@@ -353,6 +564,119 @@ export type CreateBasicDiscountCodeResponse = {
   code: string;
 };
 
+type PriceRule = GetPriceRuleResponse["priceRule"];
+
+export type DiscountCombinesWith = CreateBasicDiscountCodeInput["combinesWith"];
+
+// Minimum the order must reach; Shopify only checks the lower bound, and only one of the two
+export type DiscountMinimumRequirementInput = Pick<
+  PriceRule,
+  "prerequisiteSubtotalRange" | "prerequisiteQuantityRange"
+>;
+
+// Items the discount applies to; all items when every list is empty or omitted.
+// Products and variants can be combined, collections cannot be mixed with either.
+export type DiscountEntitlementsInput = Pick<
+  PriceRule,
+  "entitledProductIds" | "entitledVariantIds" | "entitledCollectionIds"
+>;
+
+type DiscountScheduleInput = {
+  title: string;
+  startsAt: ISODate;
+  endsAt?: ISODate;
+  combinesWith: DiscountCombinesWith;
+};
+
+type DiscountCodeOptionsInput = Pick<PriceRule, "prerequisiteCustomerIds"> & {
+  code: string;
+  usageLimit?: number;
+  appliesOncePerCustomer: boolean;
+};
+
+export type CreateAutomaticBasicDiscountInput = DiscountScheduleInput &
+  DiscountMinimumRequirementInput &
+  DiscountEntitlementsInput & {
+    valueType: "percentage" | "fixed_amount";
+    // Percentage as a decimal (0.1 for 10%) or a fixed amount
+    value: number;
+  };
+
+// Buy X (prerequisite items, by quantity or amount spent) get Y (entitled items)
+export type BxgyDiscountInput = DiscountScheduleInput &
+  Pick<PriceRule, "prerequisiteProductIds" | "prerequisiteVariantIds" | "prerequisiteCollectionIds"> &
+  DiscountMinimumRequirementInput &
+  DiscountEntitlementsInput & {
+    // Number of entitled items the customer gets
+    getQuantity: number;
+    // Discount on the entitled items as a decimal; 1 makes them free
+    getPercentage: number;
+    usesPerOrderLimit?: number;
+  };
+
+export type CreateBxgyDiscountCodeInput = BxgyDiscountInput & DiscountCodeOptionsInput;
+
+export type CreateFreeShippingDiscountCodeInput = DiscountScheduleInput &
+  DiscountCodeOptionsInput &
+  DiscountMinimumRequirementInput &
+  // Shipping rates above prerequisiteShippingPriceRange.lessThanOrEqualTo are not discounted
+  Pick<PriceRule, "prerequisiteShippingPriceRange"> & {
+    // ISO country codes; all countries when omitted
+    countryCodes?: string[];
+  };
+
+// Codes accepted by one discountRedeemCodeBulkAdd call
+export const MAX_DISCOUNT_CODES_PER_BULK_ADD = 250;
+
+// Asynchronous job adding codes to a code discount
+export type DiscountCodeBulkJob = {
+  id: string;
+  done: boolean;
+  codesCount: number;
+  importedCount: number;
+  failedCount: number;
+  // Filled in once the job is done
+  failedCodes: Array<{
+    code: string;
+    message: string;
+  }>;
+};
+
+export type DiscountStatus = "ACTIVE" | "EXPIRED" | "SCHEDULED";
+
+export type ShopifyDiscount = {
+  // DiscountCodeNode or DiscountAutomaticNode GID
+  id: string;
+  title: string;
+  method: "CODE" | "AUTOMATIC";
+  // GraphQL type of the discount, e.g. DiscountCodeBasic or DiscountAutomaticBxgy
+  type: string;
+  status: DiscountStatus;
+  summary: string | null;
+  // Empty for automatic discounts
+  codes: string[];
+  startsAt: ISODate;
+  endsAt: ISODate | null;
+  usageCount: number;
+  usageLimit: number | null;
+};
+
+export type ShopifyDiscountsQueryParams = {
+  first?: number;
+  after?: string;
+  // Discount search syntax, e.g. "status:active" or "code:SUMMER*"
+  query?: string;
+  reverse?: boolean;
+};
+
+export type LoadDiscountsResponse = {
+  discounts: ShopifyDiscount[];
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+};
+
 export type BasicDiscountCodeResponse = {
   data: {
     discountCodeBasicCreate: {
@@ -498,6 +822,38 @@ export class ShopifyProductVariantNotAvailableForSaleError extends ShopifyClient
   }
 }
 
+export class ShopifyThrottledError extends ShopifyClientErrorBase {
+  static code = "SHOPIFY_CLIENT.THROTTLED";
+
+  constructor(payload: CustomErrorPayload = {}) {
+    super("Shopify request throttled", ShopifyThrottledError.code, payload);
+  }
+}
+
+export class ShopifyRateLimitError extends ShopifyClientErrorBase {
+  static code = "SHOPIFY_CLIENT.RATE_LIMIT_ERROR";
+
+  constructor(payload: CustomErrorPayload = {}) {
+    super("Shopify rate limit exceeded", ShopifyRateLimitError.code, payload);
+  }
+}
+
+export class ShopifyServerError extends ShopifyClientErrorBase {
+  static code = "SHOPIFY_CLIENT.SERVER_ERROR";
+
+  constructor(payload: CustomErrorPayload = {}) {
+    super("Shopify server error", ShopifyServerError.code, payload);
+  }
+}
+
+export class ShopifyNetworkError extends ShopifyClientErrorBase {
+  static code = "SHOPIFY_CLIENT.NETWORK_ERROR";
+
+  constructor(payload: CustomErrorPayload = {}) {
+    super("Shopify network error", ShopifyNetworkError.code, payload);
+  }
+}
+
 export class GeneralShopifyClientError extends ShopifyClientErrorBase {
   static code = "SHOPIFY_CLIENT.GENERAL_ERROR";
 
@@ -511,6 +867,7 @@ export function getHttpShopifyError(
   statusCode: number,
   contextData?: Record<string, any>
 ): ShopifyClientErrorBase {
+  contextData = { statusCode, ...contextData };
   switch (statusCode) {
     case 401:
     case 403:
@@ -520,7 +877,12 @@ export function getHttpShopifyError(
       return new ShopifyInputError({ innerError: error, contextData });
     case 402:
       return new ShopifyPaymentError({ innerError: error, contextData });
+    case 429:
+      return new ShopifyRateLimitError({ innerError: error, contextData });
     default:
+      if (statusCode >= 500) {
+        return new ShopifyServerError({ innerError: error, contextData });
+      }
       return new GeneralShopifyClientError({ innerError: error, contextData });
   }
 }
@@ -530,6 +892,9 @@ export function getGraphqlShopifyError(
   statusCode: number,
   contextData?: Record<string, any>
 ): ShopifyClientErrorBase {
+  if (errors.some(e => e.extensions?.code === "THROTTLED")) {
+    return new ShopifyThrottledError({ innerError: errors, contextData });
+  }
   switch (statusCode) {
     case 403:
       return new ShopifyAuthorizationError({ innerError: errors, contextData });
@@ -556,18 +921,94 @@ export function getGraphqlShopifyUserError(
 }
 
 // Webhook types
-export enum ShopifyWebhookTopic {
-  ORDERS_UPDATED = "orders/updated"
+export { ShopifyWebhookTopic, ShopifyWebhookTopicGraphql };
+
+/**
+ * Converts a topic to its WebhookSubscriptionTopic name, e.g. "orders/updated" to "ORDERS_UPDATED"
+ */
+export function toGraphqlWebhookTopic(topic: ShopifyWebhookTopic): ShopifyWebhookTopicGraphql {
+  const name = (Object.keys(ShopifyWebhookTopic) as Array<keyof typeof ShopifyWebhookTopic>).find(
+    (key) => ShopifyWebhookTopic[key] === topic
+  );
+  if (!name) {
+    throw new ShopifyInputError({ innerError: [{ message: `Unknown webhook topic ${topic}` }], contextData: { topic } });
+  }
+  return ShopifyWebhookTopicGraphql[name];
+}
+
+/**
+ * Converts a WebhookSubscriptionTopic name back to its topic, e.g. "ORDERS_UPDATED" to "orders/updated"
+ */
+export function fromGraphqlWebhookTopic(name: string): ShopifyWebhookTopic {
+  const topic = ShopifyWebhookTopic[name as keyof typeof ShopifyWebhookTopic];
+  if (!topic) {
+    throw new ShopifyInputError({ innerError: [{ message: `Unknown webhook topic ${name}` }], contextData: { topic: name } });
+  }
+  return topic;
 }
 
-export enum ShopifyWebhookTopicGraphql {
-  ORDERS_UPDATED = "ORDERS_UPDATED"
+export type WebhookSubscriptionFormat = "JSON" | "XML";
+
+// Where Shopify delivers the events of a subscription
+export type WebhookEndpoint =
+  | { type: "HTTP"; callbackUrl: string }
+  | { type: "EVENT_BRIDGE"; arn: string }
+  | { type: "PUB_SUB"; pubSubProject: string; pubSubTopic: string };
+
+/**
+ * Address of an endpoint as Shopify reports it in `callbackUrl`
+ */
+export function webhookEndpointAddress(endpoint: WebhookEndpoint): string {
+  switch (endpoint.type) {
+    case "HTTP":
+      return endpoint.callbackUrl;
+    case "EVENT_BRIDGE":
+      return endpoint.arn;
+    case "PUB_SUB":
+      return `pubsub://${endpoint.pubSubProject}:${endpoint.pubSubTopic}`;
+  }
 }
 
+export type WebhookSubscriptionOptions = {
+  format?: WebhookSubscriptionFormat;
+  // Payload fields to deliver, e.g. ["id", "updated_at"]; the whole payload when empty
+  includeFields?: string[];
+  // Namespaces of the metafields added to the payload
+  metafieldNamespaces?: string[];
+};
+
+export type WebhookSubscriptionUpdate = WebhookSubscriptionOptions & {
+  // Must have the same type as the current endpoint
+  endpoint?: WebhookEndpoint;
+};
+
 export type ShopifyWebhook = {
   id: string;
+  // The HTTPS URL, the EventBridge ARN or the pubsub://project:topic address
   callbackUrl: string;
   topic: ShopifyWebhookTopic;
+  endpoint: WebhookEndpoint;
+  format: WebhookSubscriptionFormat;
+  includeFields: string[];
+  metafieldNamespaces: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ShopifyWebhooksQueryParams = {
+  first?: number;
+  after?: string;
+  topics?: ShopifyWebhookTopic[];
+  callbackUrl?: string;
+  format?: WebhookSubscriptionFormat;
+};
+
+export type LoadWebhooksResponse = {
+  webhooks: ShopifyWebhook[];
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
 };
 
 // Blog types
@@ -583,6 +1024,11 @@ export type BlogArticle = {
     src: string;
     alt?: string;
   };
+  // The blog the article is published in
+  blog?: {
+    id: string;
+    handle: string;
+  };
 };
 
 export type LoadBlogArticlesResponse = {
@@ -629,6 +1075,60 @@ export interface ShopifyClientPort {
     queryParams: ShopifyOrdersGraphqlQueryParams
   ): Promise<ShopifyOrdersGraphqlResponse>;
 
+  /**
+   * Starts a bulk query, e.g. `{ products { edges { node { id } } } }`
+   * @throws ShopifyInputError if the query is invalid or a bulk query is already running
+   */
+  runBulkQuery(
+    accessToken: string,
+    shop: string,
+    query: string
+  ): Promise<BulkOperation>;
+
+  /**
+   * Uploads one line of variables per input and starts a bulk mutation running
+   * `mutation` once per line
+   * @throws ShopifyInputError if the mutation is invalid or a bulk mutation is already running
+   */
+  runBulkMutation(
+    accessToken: string,
+    shop: string,
+    mutation: string,
+    inputs: Array<Record<string, unknown>>
+  ): Promise<BulkOperation>;
+
+  /**
+   * Loads a bulk operation by ID, or the shop's most recent one of a type
+   * @returns The operation, or null if the shop has none
+   */
+  getBulkOperation(
+    accessToken: string,
+    shop: string,
+    target: { id: string } | { type: BulkOperationType }
+  ): Promise<BulkOperation | null>;
+
+  cancelBulkOperation(
+    accessToken: string,
+    shop: string,
+    bulkOperationId: string
+  ): Promise<BulkOperation>;
+
+  /**
+   * Downloads the JSONL result of a bulk operation one row at a time
+   * @param url The `url` or `partialDataUrl` of a bulk operation
+   */
+  streamBulkOperationResult(url: string): AsyncIterable<BulkOperationRow>;
+
+  /**
+   * Runs a ShopifyQL query, which needs the read_reports scope
+   * @throws ShopifyInputError with the parse errors if the query is invalid
+   */
+  runShopifyqlQuery(
+    accessToken: string,
+    shop: string,
+    query: string
+  ): Promise<ShopifyqlTableResponse>;
+
   loadCustomers(
     accessToken: string,
     myshopifyDomain: string,
@@ -636,6 +1136,12 @@ export interface ShopifyClientPort {
     next?: string
   ): Promise<LoadCustomersResponse>;
 
+  getCustomer(
+    accessToken: string,
+    myshopifyDomain: string,
+    customerId: string
+  ): Promise<ShopifyCustomer>;
+
   loadProducts(
     accessToken: string,
     myshopifyDomain: string,
@@ -652,6 +1158,20 @@ export interface ShopifyClientPort {
     afterCursor?: string
   ): Promise<LoadProductsResponse>;
 
+  // IDs that do not exist are left out of the response
+  loadProductsByIds(
+    accessToken: string,
+    myshopifyDomain: string,
+    productIds: string[]
+  ): Promise<LoadProductsByIdsResponse>;
+
+  // IDs that do not exist are left out of the response
+  loadVariantsByIds(
+    accessToken: string,
+    myshopifyDomain: string,
+    variantIds: string[]
+  ): Promise<LoadVariantsByIdResponse>;
+
   loadCollections(
     accessToken: string,
     myshopifyDomain: string,
@@ -670,9 +1190,44 @@ export interface ShopifyClientPort {
     accessToken: string,
     shop: string,
     draftOrderId: string,
-    variantId: string
+    options?: {
+      // Leave the order's payment pending instead of marking it as paid
+      paymentPending?: boolean;
+    }
   ): Promise<CompleteDraftOrderResponse>;
 
+  updateDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string,
+    input: DraftOrderInput
+  ): Promise<ShopifyDraftOrder>;
+
+  calculateDraftOrder(
+    accessToken: string,
+    shop: string,
+    input: DraftOrderInput
+  ): Promise<CalculatedDraftOrder>;
+
+  sendDraftOrderInvoice(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string,
+    email?: DraftOrderInvoiceEmail
+  ): Promise<ShopifyDraftOrder>;
+
+  loadDraftOrders(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyDraftOrdersQueryParams
+  ): Promise<LoadDraftOrdersResponse>;
+
+  deleteDraftOrder(
+    accessToken: string,
+    shop: string,
+    draftOrderId: string
+  ): Promise<void>;
+
   createBasicDiscountCode(
     accessToken: string,
     shop: string,
@@ -685,6 +1240,82 @@ export interface ShopifyClientPort {
     input: GetPriceRuleInput
   ): Promise<GetPriceRuleResponse>;
 
+  loadDiscounts(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyDiscountsQueryParams
+  ): Promise<LoadDiscountsResponse>;
+
+  getDiscount(
+    accessToken: string,
+    shop: string,
+    discountId: string
+  ): Promise<ShopifyDiscount>;
+
+  activateDiscount(
+    accessToken: string,
+    shop: string,
+    discountId: string
+  ): Promise<ShopifyDiscount>;
+
+  deactivateDiscount(
+    accessToken: string,
+    shop: string,
+    discountId: string
+  ): Promise<ShopifyDiscount>;
+
+  // Pass null to remove the end date
+  updateDiscountEndDate(
+    accessToken: string,
+    shop: string,
+    discountId: string,
+    endsAt: ISODate | null
+  ): Promise<ShopifyDiscount>;
+
+  deleteDiscount(
+    accessToken: string,
+    shop: string,
+    discountId: string
+  ): Promise<void>;
+
+  createAutomaticBasicDiscount(
+    accessToken: string,
+    shop: string,
+    input: CreateAutomaticBasicDiscountInput
+  ): Promise<ShopifyDiscount>;
+
+  createAutomaticBxgyDiscount(
+    accessToken: string,
+    shop: string,
+    input: BxgyDiscountInput
+  ): Promise<ShopifyDiscount>;
+
+  createBxgyDiscountCode(
+    accessToken: string,
+    shop: string,
+    input: CreateBxgyDiscountCodeInput
+  ): Promise<ShopifyDiscount>;
+
+  createFreeShippingDiscountCode(
+    accessToken: string,
+    shop: string,
+    input: CreateFreeShippingDiscountCodeInput
+  ): Promise<ShopifyDiscount>;
+
+  // Starts a job adding up to MAX_DISCOUNT_CODES_PER_BULK_ADD codes to a code discount
+  addDiscountCodes(
+    accessToken: string,
+    shop: string,
+    discountId: string,
+    codes: string[]
+  ): Promise<DiscountCodeBulkJob>;
+
+  getDiscountCodeBulkJob(
+    accessToken: string,
+    shop: string,
+    jobId: string
+  ): Promise<DiscountCodeBulkJob>;
+
   manageInventory(
     accessToken: string,
     shop: string,
@@ -692,7 +1323,9 @@ export interface ShopifyClientPort {
       variantId: string;
       action: "SET" | "ADJUST";
       quantity: number;
+      // The shop's primary location when omitted
       locationId?: string;
+      // Shopify's reason code, e.g. "received" or "damaged"; "correction" when omitted
       reason?: string;
     }
   ): Promise<{
@@ -711,12 +1344,15 @@ export interface ShopifyClientPort {
         title?: string;
         price?: number;
         sku?: string;
+        // Available quantity at the shop's primary location
         inventory?: number;
         requiresShipping?: boolean;
         taxable?: boolean;
         barcode?: string;
         weight?: number;
         weightUnit?: "KILOGRAMS" | "GRAMS" | "POUNDS" | "OUNCES";
+        // Values of the product's options, in the order of its options
+        options?: string[];
       };
     }>
   ): Promise<void>;
@@ -779,9 +1415,15 @@ export interface ShopifyClientPort {
     productData: {
       title: string;
       description: string;
+      // Derived from the title when omitted
+      handle?: string;
+      // ACTIVE when omitted
+      status?: "ACTIVE" | "ARCHIVED" | "DRAFT";
       vendor?: string;
       productType?: string;
       tags?: string[];
+      // Option names, e.g. ["Size", "Color"]; each variant gives its values in the same order
+      options?: string[];
       variants: Array<{
         title: string;
         price: number;
@@ -789,6 +1431,7 @@ export interface ShopifyClientPort {
         inventory: number;
         requiresShipping?: boolean;
         taxable?: boolean;
+        options?: string[];
       }>;
     }
   ): Promise<ProductNode>;
@@ -821,6 +1464,75 @@ export interface ShopifyClientPort {
     }>
   ): Promise<ProductNode[]>;
 
+  loadShopDetails(
+    accessToken: string,
+    shop: string
+  ): Promise<ShopDetails>;
+
+  tagCustomer(
+    accessToken: string,
+    shop: string,
+    customerId: string,
+    tags: string[]
+  ): Promise<void>;
+
+  subscribeWebhook(
+    accessToken: string,
+    shop: string,
+    callbackUrl: string,
+    topic: ShopifyWebhookTopic,
+    options?: WebhookSubscriptionOptions
+  ): Promise<ShopifyWebhook>;
+
+  subscribeEventBridgeWebhook(
+    accessToken: string,
+    shop: string,
+    arn: string,
+    topic: ShopifyWebhookTopic,
+    options?: WebhookSubscriptionOptions
+  ): Promise<ShopifyWebhook>;
+
+  subscribePubSubWebhook(
+    accessToken: string,
+    shop: string,
+    pubSubProject: string,
+    pubSubTopic: string,
+    topic: ShopifyWebhookTopic,
+    options?: WebhookSubscriptionOptions
+  ): Promise<ShopifyWebhook>;
+
+  updateWebhook(
+    accessToken: string,
+    shop: string,
+    webhookId: string,
+    update: WebhookSubscriptionUpdate
+  ): Promise<ShopifyWebhook>;
+
+  loadWebhooks(
+    accessToken: string,
+    shop: string,
+    queryParams: ShopifyWebhooksQueryParams
+  ): Promise<LoadWebhooksResponse>;
+
+  getWebhook(
+    accessToken: string,
+    shop: string,
+    webhookId: string
+  ): Promise<ShopifyWebhook>;
+
+  findWebhookByTopicAndCallbackUrl(
+    accessToken: string,
+    shop: string,
+    callbackUrl: string,
+    topic: ShopifyWebhookTopic
+  ): Promise<ShopifyWebhook | null>;
+
+  unsubscribeWebhook(
+    accessToken: string,
+    shop: string,
+    webhookId: string
+  ): Promise<void>;
+
   loadBlogArticles(
     accessToken: string,
     myshopifyDomain: string,
@@ -0,0 +1,76 @@
+/**
+ * Retry policy for Shopify Admin API requests, keyed on the ShopifyClientErrorBase subclasses
+ */
+
+import {
+  CustomError,
+  ShopifyNetworkError,
+  ShopifyRateLimitError,
+  ShopifyServerError,
+  ShopifyThrottledError,
+} from "./ShopifyClientPort.js";
+
+export type ShopifyRetryContext = {
+  isMutation: boolean;
+};
+
+/**
+ * Checks whether a GraphQL document is a mutation
+ */
+export function isMutation(query: string): boolean {
+  const withoutComments = query.replace(/#[^\n]*/g, "").trim();
+  return /^mutation\b/.test(withoutComments);
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date)
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, Math.ceil(seconds * 1000));
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Decides whether a failed request may be sent again.
+ * Throttled (GraphQL THROTTLED) and rate limited (HTTP 429) requests were rejected
+ * before execution, so they are retried for queries and mutations alike.
+ * Server (5xx) and network errors leave the outcome unknown, so only queries are
+ * retried after them; sending a mutation again could apply it twice.
+ */
+export function isRetryableShopifyError(error: unknown, context: ShopifyRetryContext): boolean {
+  if (error instanceof ShopifyThrottledError || error instanceof ShopifyRateLimitError) {
+    return true;
+  }
+
+  if (error instanceof ShopifyServerError || error instanceof ShopifyNetworkError) {
+    return !context.isMutation;
+  }
+
+  return false;
+}
+
+/**
+ * Delay before retrying a Shopify error
+ * @param error The error of the failed attempt
+ * @param throttledDelayMs Time the query cost throttler computed for the bucket to restore the query's cost
+ * @returns The throttler's restore delay for THROTTLED errors, the Retry-After delay when
+ * Shopify sent one, otherwise undefined to use exponential backoff
+ */
+export function getShopifyRetryDelay(error: unknown, throttledDelayMs = 0): number | undefined {
+  if (error instanceof ShopifyThrottledError) {
+    return throttledDelayMs;
+  }
+
+  const retryAfterMs = error instanceof CustomError ? error.contextData?.retryAfterMs : undefined;
+  return typeof retryAfterMs === "number" ? retryAfterMs : undefined;
+}
@@ -0,0 +1,142 @@
+/**
+ * Waiting for bulk operations and rebuilding their JSONL results
+ */
+
+import { BulkOperation, BulkOperationRow, ShopifyClientPort } from "./ShopifyClientPort.js";
+import { WebhookEventStore } from "../utils/webhookEventStore.js";
+
+export interface WaitForBulkOperationOptions {
+  // First delay between polls; it doubles up to maxPollIntervalMs
+  pollIntervalMs?: number;
+  maxPollIntervalMs?: number;
+  // Returns the operation as it is once this much time has passed
+  timeoutMs?: number;
+  // Webhook deliveries; a bulk_operations/finish delivery for the operation ends the current delay
+  finishEvents?: WebhookEventStore;
+}
+
+export interface BulkOperationObjects {
+  // Top level objects with their children nested, at most `limit` of them
+  objects: Array<Record<string, unknown>>;
+  // Top level objects in the whole result
+  totalObjects: number;
+}
+
+const FINISHED_STATUSES: ReadonlySet<BulkOperation["status"]> = new Set([
+  "COMPLETED",
+  "CANCELED",
+  "FAILED",
+  "EXPIRED",
+]);
+
+/**
+ * Whether a bulk operation stopped running, successfully or not
+ */
+export function isBulkOperationFinished(operation: BulkOperation): boolean {
+  return FINISHED_STATUSES.has(operation.status);
+}
+
+/**
+ * Polls a bulk operation until it finishes or the timeout passes
+ * @returns The operation as last loaded; check its status, it may still be running
+ * @throws ShopifyInputError if the operation does not exist
+ */
+export async function waitForBulkOperation(
+  client: ShopifyClientPort,
+  accessToken: string,
+  shop: string,
+  bulkOperationId: string,
+  options: WaitForBulkOperationOptions = {}
+): Promise<BulkOperation> {
+  const deadline = Date.now() + (options.timeoutMs ?? 5 * 60 * 1000);
+  const maxPollIntervalMs = options.maxPollIntervalMs ?? 10_000;
+  let pollIntervalMs = options.pollIntervalMs ?? 1000;
+
+  let wake: (() => void) | undefined;
+  const stopListening = options.finishEvents?.onEvent((event) => {
+    const payload = event.payload as { admin_graphql_api_id?: string } | null;
+    if (event.topic === "bulk_operations/finish" && event.shopDomain === shop && payload?.admin_graphql_api_id === bulkOperationId) {
+      wake?.();
+    }
+  });
+
+  try {
+    for (;;) {
+      const operation = await client.getBulkOperation(accessToken, shop, { id: bulkOperationId });
+      if (!operation) {
+        throw new Error(`Bulk operation ${bulkOperationId} not found`);
+      }
+      const remainingMs = deadline - Date.now();
+      if (isBulkOperationFinished(operation) || remainingMs <= 0) {
+        return operation;
+      }
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, Math.min(pollIntervalMs, remainingMs));
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      pollIntervalMs = Math.min(pollIntervalMs * 2, maxPollIntervalMs);
+    }
+  } finally {
+    stopListening?.();
+  }
+}
+
+// "ProductVariant" for gid://shopify/ProductVariant/1
+function typeName(row: BulkOperationRow): string {
+  const match = typeof row.id === "string" ? row.id.match(/^gid:\/\/shopify\/(\w+)\//) : null;
+  return match?.[1] ?? (typeof row.__typename === "string" ? row.__typename : "children");
+}
+
+/**
+ * Rebuilds the objects of a bulk query result, nesting each row under its
+ * `__parentId`. Shopify writes parents before their children, so rows are
+ * nested as they stream in and only the first `limit` top level objects are
+ * kept in memory.
+ * @param rows Rows of the result, in file order
+ * @param options.limit Top level objects to keep, all of them when omitted
+ * @param options.childKeys Key children are nested under per type, e.g.
+ * `{ ProductVariant: "variants" }`; defaults to the type name
+ */
+export async function readBulkOperationObjects(
+  rows: AsyncIterable<BulkOperationRow>,
+  options: { limit?: number; childKeys?: Record<string, string> } = {}
+): Promise<BulkOperationObjects> {
+  const limit = options.limit ?? Infinity;
+  const objects: Array<Record<string, unknown>> = [];
+  // Kept objects by ID, so their children can find them
+  const kept = new Map<string, Record<string, unknown>>();
+  let totalObjects = 0;
+
+  for await (const { __parentId: parentId, ...row } of rows) {
+    if (parentId === undefined) {
+      totalObjects++;
+      if (objects.length < limit) {
+        objects.push(row);
+        if (typeof row.id === "string") {
+          kept.set(row.id, row);
+        }
+      }
+      continue;
+    }
+
+    // Children of objects past the limit are dropped with them
+    const parent = kept.get(parentId);
+    if (!parent) {
+      continue;
+    }
+    const type = typeName(row);
+    const key = options.childKeys?.[type] ?? type;
+    const children = (parent[key] as unknown[] | undefined) ?? [];
+    children.push(row);
+    parent[key] = children;
+    if (typeof row.id === "string") {
+      kept.set(row.id, row);
+    }
+  }
+
+  return { objects, totalObjects };
+}
@@ -0,0 +1,37 @@
+import { ShopifyClient } from "./ShopifyClient.js";
+import { CachingShopifyClient } from "./CachingShopifyClient.js";
+import { ShopifyClientPort } from "./ShopifyClientPort.js";
+import { Cache } from "../utils/cache.js";
+import { AuditLog } from "../utils/auditLog.js";
+import { loadCacheConfig, shopRegistry, ShopConfig } from "../config/index.js";
+import { ToolContext } from "../tools/toolContext.js";
+
+const cacheConfig = loadCacheConfig();
+
+// Shared by every tool call so cached responses outlive a single request
+export const responseCache = new Cache({ maxEntries: cacheConfig.maxEntries });
+
+/**
+ * Creates the client used by the tools, wrapped in the response cache unless
+ * SHOPIFY_CACHE_ENABLED=false
+ * @param shop Shop the client talks to, in its configured API version
+ * @param auditLog Log the client records its mutations to
+ */
+export function createShopifyClient(shop: ShopConfig, auditLog?: AuditLog): ShopifyClientPort {
+  const client = new ShopifyClient(undefined, auditLog, shop.apiVersion);
+  return cacheConfig.enabled ? new CachingShopifyClient(client, responseCache) : client;
+}
+
+/**
+ * Tool context used by main(): the configured shops, served through the
+ * cached live client
+ */
+export function createDefaultToolContext(): ToolContext {
+  const context: ToolContext = {
+    shopRegistry,
+    // Reads auditLog on every call so main() can set it once the log is loaded
+    createClient: (shop) => createShopifyClient(shop, context.auditLog),
+    responseCache,
+  };
+  return context;
+}
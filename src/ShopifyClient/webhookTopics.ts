@@ -0,0 +1,338 @@
+// Generated by scripts/generate-webhook-topics.mjs from the WebhookSubscriptionTopic
+// enum of the Admin GraphQL API (2023-10). Do not edit by hand.
+
+export enum ShopifyWebhookTopic {
+  APP_PURCHASES_ONE_TIME_UPDATE = "app_purchases_one_time/update",
+  APP_SUBSCRIPTIONS_APPROACHING_CAPPED_AMOUNT = "app_subscriptions/approaching_capped_amount",
+  APP_SUBSCRIPTIONS_UPDATE = "app_subscriptions/update",
+  APP_UNINSTALLED = "app/uninstalled",
+  ATTRIBUTED_SESSIONS_FIRST = "attributed_sessions/first",
+  ATTRIBUTED_SESSIONS_LAST = "attributed_sessions/last",
+  AUDIT_EVENTS_ADMIN_API_ACTIVITY = "audit_events/admin_api_activity",
+  BULK_OPERATIONS_FINISH = "bulk_operations/finish",
+  CARTS_CREATE = "carts/create",
+  CARTS_UPDATE = "carts/update",
+  CHANNELS_DELETE = "channels/delete",
+  CHECKOUTS_CREATE = "checkouts/create",
+  CHECKOUTS_DELETE = "checkouts/delete",
+  CHECKOUTS_UPDATE = "checkouts/update",
+  COLLECTIONS_CREATE = "collections/create",
+  COLLECTIONS_DELETE = "collections/delete",
+  COLLECTIONS_UPDATE = "collections/update",
+  COLLECTION_LISTINGS_ADD = "collection_listings/add",
+  COLLECTION_LISTINGS_REMOVE = "collection_listings/remove",
+  COLLECTION_LISTINGS_UPDATE = "collection_listings/update",
+  COLLECTION_PUBLICATIONS_CREATE = "collection_publications/create",
+  COLLECTION_PUBLICATIONS_DELETE = "collection_publications/delete",
+  COLLECTION_PUBLICATIONS_UPDATE = "collection_publications/update",
+  COMPANIES_CREATE = "companies/create",
+  COMPANIES_DELETE = "companies/delete",
+  COMPANIES_UPDATE = "companies/update",
+  COMPANY_CONTACTS_CREATE = "company_contacts/create",
+  COMPANY_CONTACTS_DELETE = "company_contacts/delete",
+  COMPANY_CONTACTS_UPDATE = "company_contacts/update",
+  COMPANY_CONTACT_ROLES_ASSIGN = "company_contact_roles/assign",
+  COMPANY_CONTACT_ROLES_REVOKE = "company_contact_roles/revoke",
+  COMPANY_LOCATIONS_CREATE = "company_locations/create",
+  COMPANY_LOCATIONS_DELETE = "company_locations/delete",
+  COMPANY_LOCATIONS_UPDATE = "company_locations/update",
+  CUSTOMERS_CREATE = "customers/create",
+  CUSTOMERS_DELETE = "customers/delete",
+  CUSTOMERS_DISABLE = "customers/disable",
+  CUSTOMERS_EMAIL_MARKETING_CONSENT_UPDATE = "customers_email_marketing_consent/update",
+  CUSTOMERS_ENABLE = "customers/enable",
+  CUSTOMERS_MARKETING_CONSENT_UPDATE = "customers_marketing_consent/update",
+  CUSTOMERS_MERGE = "customers/merge",
+  CUSTOMERS_UPDATE = "customers/update",
+  CUSTOMER_GROUPS_CREATE = "customer_groups/create",
+  CUSTOMER_GROUPS_DELETE = "customer_groups/delete",
+  CUSTOMER_GROUPS_UPDATE = "customer_groups/update",
+  CUSTOMER_PAYMENT_METHODS_CREATE = "customer_payment_methods/create",
+  CUSTOMER_PAYMENT_METHODS_REVOKE = "customer_payment_methods/revoke",
+  CUSTOMER_PAYMENT_METHODS_UPDATE = "customer_payment_methods/update",
+  DISPUTES_CREATE = "disputes/create",
+  DISPUTES_UPDATE = "disputes/update",
+  DOMAINS_CREATE = "domains/create",
+  DOMAINS_DESTROY = "domains/destroy",
+  DOMAINS_UPDATE = "domains/update",
+  DRAFT_ORDERS_CREATE = "draft_orders/create",
+  DRAFT_ORDERS_DELETE = "draft_orders/delete",
+  DRAFT_ORDERS_UPDATE = "draft_orders/update",
+  FULFILLMENTS_CREATE = "fulfillments/create",
+  FULFILLMENTS_UPDATE = "fulfillments/update",
+  FULFILLMENT_EVENTS_CREATE = "fulfillment_events/create",
+  FULFILLMENT_EVENTS_DELETE = "fulfillment_events/delete",
+  FULFILLMENT_ORDERS_CANCELLATION_REQUEST_ACCEPTED = "fulfillment_orders/cancellation_request_accepted",
+  FULFILLMENT_ORDERS_CANCELLATION_REQUEST_REJECTED = "fulfillment_orders/cancellation_request_rejected",
+  FULFILLMENT_ORDERS_CANCELLATION_REQUEST_SUBMITTED = "fulfillment_orders/cancellation_request_submitted",
+  FULFILLMENT_ORDERS_CANCELLED = "fulfillment_orders/cancelled",
+  FULFILLMENT_ORDERS_FULFILLMENT_REQUEST_ACCEPTED = "fulfillment_orders/fulfillment_request_accepted",
+  FULFILLMENT_ORDERS_FULFILLMENT_REQUEST_REJECTED = "fulfillment_orders/fulfillment_request_rejected",
+  FULFILLMENT_ORDERS_FULFILLMENT_REQUEST_SUBMITTED = "fulfillment_orders/fulfillment_request_submitted",
+  FULFILLMENT_ORDERS_FULFILLMENT_SERVICE_FAILED_TO_COMPLETE = "fulfillment_orders/fulfillment_service_failed_to_complete",
+  FULFILLMENT_ORDERS_HOLD_RELEASED = "fulfillment_orders/hold_released",
+  FULFILLMENT_ORDERS_LINE_ITEMS_PREPARED_FOR_LOCAL_DELIVERY = "fulfillment_orders/line_items_prepared_for_local_delivery",
+  FULFILLMENT_ORDERS_LINE_ITEMS_PREPARED_FOR_PICKUP = "fulfillment_orders/line_items_prepared_for_pickup",
+  FULFILLMENT_ORDERS_MOVED = "fulfillment_orders/moved",
+  FULFILLMENT_ORDERS_ORDER_ROUTING_COMPLETE = "fulfillment_orders/order_routing_complete",
+  FULFILLMENT_ORDERS_PLACED_ON_HOLD = "fulfillment_orders/placed_on_hold",
+  FULFILLMENT_ORDERS_RESCHEDULED = "fulfillment_orders/rescheduled",
+  FULFILLMENT_ORDERS_SCHEDULED_FULFILLMENT_ORDER_READY = "fulfillment_orders/scheduled_fulfillment_order_ready",
+  INVENTORY_ITEMS_CREATE = "inventory_items/create",
+  INVENTORY_ITEMS_DELETE = "inventory_items/delete",
+  INVENTORY_ITEMS_UPDATE = "inventory_items/update",
+  INVENTORY_LEVELS_CONNECT = "inventory_levels/connect",
+  INVENTORY_LEVELS_DISCONNECT = "inventory_levels/disconnect",
+  INVENTORY_LEVELS_UPDATE = "inventory_levels/update",
+  LOCALES_CREATE = "locales/create",
+  LOCALES_UPDATE = "locales/update",
+  LOCATIONS_ACTIVATE = "locations/activate",
+  LOCATIONS_CREATE = "locations/create",
+  LOCATIONS_DEACTIVATE = "locations/deactivate",
+  LOCATIONS_DELETE = "locations/delete",
+  LOCATIONS_UPDATE = "locations/update",
+  MARKETS_CREATE = "markets/create",
+  MARKETS_DELETE = "markets/delete",
+  MARKETS_UPDATE = "markets/update",
+  ORDERS_CANCELLED = "orders/cancelled",
+  ORDERS_CREATE = "orders/create",
+  ORDERS_DELETE = "orders/delete",
+  ORDERS_EDITED = "orders/edited",
+  ORDERS_FULFILLED = "orders/fulfilled",
+  ORDERS_PAID = "orders/paid",
+  ORDERS_PARTIALLY_FULFILLED = "orders/partially_fulfilled",
+  ORDERS_SHOPIFY_PROTECT_ELIGIBILITY_CHANGED = "orders/shopify_protect_eligibility_changed",
+  ORDERS_UPDATED = "orders/updated",
+  ORDER_TRANSACTIONS_CREATE = "order_transactions/create",
+  PAYMENT_SCHEDULES_DUE = "payment_schedules/due",
+  PAYMENT_TERMS_CREATE = "payment_terms/create",
+  PAYMENT_TERMS_DELETE = "payment_terms/delete",
+  PAYMENT_TERMS_UPDATE = "payment_terms/update",
+  PRODUCTS_CREATE = "products/create",
+  PRODUCTS_DELETE = "products/delete",
+  PRODUCTS_UPDATE = "products/update",
+  PRODUCT_FEEDS_CREATE = "product_feeds/create",
+  PRODUCT_FEEDS_FULL_SYNC = "product_feeds/full_sync",
+  PRODUCT_FEEDS_INCREMENTAL_SYNC = "product_feeds/incremental_sync",
+  PRODUCT_FEEDS_UPDATE = "product_feeds/update",
+  PRODUCT_LISTINGS_ADD = "product_listings/add",
+  PRODUCT_LISTINGS_REMOVE = "product_listings/remove",
+  PRODUCT_LISTINGS_UPDATE = "product_listings/update",
+  PRODUCT_PUBLICATIONS_CREATE = "product_publications/create",
+  PRODUCT_PUBLICATIONS_DELETE = "product_publications/delete",
+  PRODUCT_PUBLICATIONS_UPDATE = "product_publications/update",
+  PROFILES_CREATE = "profiles/create",
+  PROFILES_DELETE = "profiles/delete",
+  PROFILES_UPDATE = "profiles/update",
+  REFUNDS_CREATE = "refunds/create",
+  RETURNS_APPROVE = "returns/approve",
+  RETURNS_CANCEL = "returns/cancel",
+  RETURNS_CLOSE = "returns/close",
+  RETURNS_DECLINE = "returns/decline",
+  RETURNS_REOPEN = "returns/reopen",
+  RETURNS_REQUEST = "returns/request",
+  REVERSE_DELIVERIES_ATTACH_DELIVERABLE = "reverse_deliveries/attach_deliverable",
+  REVERSE_FULFILLMENT_ORDERS_DISPOSE = "reverse_fulfillment_orders/dispose",
+  SCHEDULED_PRODUCT_LISTINGS_ADD = "scheduled_product_listings/add",
+  SCHEDULED_PRODUCT_LISTINGS_REMOVE = "scheduled_product_listings/remove",
+  SCHEDULED_PRODUCT_LISTINGS_UPDATE = "scheduled_product_listings/update",
+  SEGMENTS_CREATE = "segments/create",
+  SEGMENTS_DELETE = "segments/delete",
+  SEGMENTS_UPDATE = "segments/update",
+  SELLING_PLAN_GROUPS_CREATE = "selling_plan_groups/create",
+  SELLING_PLAN_GROUPS_DELETE = "selling_plan_groups/delete",
+  SELLING_PLAN_GROUPS_UPDATE = "selling_plan_groups/update",
+  SHOP_UPDATE = "shop/update",
+  SUBSCRIPTION_BILLING_ATTEMPTS_CHALLENGED = "subscription_billing_attempts/challenged",
+  SUBSCRIPTION_BILLING_ATTEMPTS_FAILURE = "subscription_billing_attempts/failure",
+  SUBSCRIPTION_BILLING_ATTEMPTS_SUCCESS = "subscription_billing_attempts/success",
+  SUBSCRIPTION_BILLING_CYCLES_SKIP = "subscription_billing_cycles/skip",
+  SUBSCRIPTION_BILLING_CYCLES_UNSKIP = "subscription_billing_cycles/unskip",
+  SUBSCRIPTION_BILLING_CYCLE_EDITS_CREATE = "subscription_billing_cycle_edits/create",
+  SUBSCRIPTION_BILLING_CYCLE_EDITS_DELETE = "subscription_billing_cycle_edits/delete",
+  SUBSCRIPTION_BILLING_CYCLE_EDITS_UPDATE = "subscription_billing_cycle_edits/update",
+  SUBSCRIPTION_CONTRACTS_ACTIVATE = "subscription_contracts/activate",
+  SUBSCRIPTION_CONTRACTS_CANCEL = "subscription_contracts/cancel",
+  SUBSCRIPTION_CONTRACTS_CREATE = "subscription_contracts/create",
+  SUBSCRIPTION_CONTRACTS_EXPIRE = "subscription_contracts/expire",
+  SUBSCRIPTION_CONTRACTS_FAIL = "subscription_contracts/fail",
+  SUBSCRIPTION_CONTRACTS_PAUSE = "subscription_contracts/pause",
+  SUBSCRIPTION_CONTRACTS_UPDATE = "subscription_contracts/update",
+  TAX_SERVICES_CREATE = "tax_services/create",
+  TAX_SERVICES_UPDATE = "tax_services/update",
+  TENDER_TRANSACTIONS_CREATE = "tender_transactions/create",
+  THEMES_CREATE = "themes/create",
+  THEMES_DELETE = "themes/delete",
+  THEMES_PUBLISH = "themes/publish",
+  THEMES_UPDATE = "themes/update",
+  VARIANTS_IN_STOCK = "variants/in_stock",
+  VARIANTS_OUT_OF_STOCK = "variants/out_of_stock",
+}
+
+export enum ShopifyWebhookTopicGraphql {
+  APP_PURCHASES_ONE_TIME_UPDATE = "APP_PURCHASES_ONE_TIME_UPDATE",
+  APP_SUBSCRIPTIONS_APPROACHING_CAPPED_AMOUNT = "APP_SUBSCRIPTIONS_APPROACHING_CAPPED_AMOUNT",
+  APP_SUBSCRIPTIONS_UPDATE = "APP_SUBSCRIPTIONS_UPDATE",
+  APP_UNINSTALLED = "APP_UNINSTALLED",
+  ATTRIBUTED_SESSIONS_FIRST = "ATTRIBUTED_SESSIONS_FIRST",
+  ATTRIBUTED_SESSIONS_LAST = "ATTRIBUTED_SESSIONS_LAST",
+  AUDIT_EVENTS_ADMIN_API_ACTIVITY = "AUDIT_EVENTS_ADMIN_API_ACTIVITY",
+  BULK_OPERATIONS_FINISH = "BULK_OPERATIONS_FINISH",
+  CARTS_CREATE = "CARTS_CREATE",
+  CARTS_UPDATE = "CARTS_UPDATE",
+  CHANNELS_DELETE = "CHANNELS_DELETE",
+  CHECKOUTS_CREATE = "CHECKOUTS_CREATE",
+  CHECKOUTS_DELETE = "CHECKOUTS_DELETE",
+  CHECKOUTS_UPDATE = "CHECKOUTS_UPDATE",
+  COLLECTIONS_CREATE = "COLLECTIONS_CREATE",
+  COLLECTIONS_DELETE = "COLLECTIONS_DELETE",
+  COLLECTIONS_UPDATE = "COLLECTIONS_UPDATE",
+  COLLECTION_LISTINGS_ADD = "COLLECTION_LISTINGS_ADD",
+  COLLECTION_LISTINGS_REMOVE = "COLLECTION_LISTINGS_REMOVE",
+  COLLECTION_LISTINGS_UPDATE = "COLLECTION_LISTINGS_UPDATE",
+  COLLECTION_PUBLICATIONS_CREATE = "COLLECTION_PUBLICATIONS_CREATE",
+  COLLECTION_PUBLICATIONS_DELETE = "COLLECTION_PUBLICATIONS_DELETE",
+  COLLECTION_PUBLICATIONS_UPDATE = "COLLECTION_PUBLICATIONS_UPDATE",
+  COMPANIES_CREATE = "COMPANIES_CREATE",
+  COMPANIES_DELETE = "COMPANIES_DELETE",
+  COMPANIES_UPDATE = "COMPANIES_UPDATE",
+  COMPANY_CONTACTS_CREATE = "COMPANY_CONTACTS_CREATE",
+  COMPANY_CONTACTS_DELETE = "COMPANY_CONTACTS_DELETE",
+  COMPANY_CONTACTS_UPDATE = "COMPANY_CONTACTS_UPDATE",
+  COMPANY_CONTACT_ROLES_ASSIGN = "COMPANY_CONTACT_ROLES_ASSIGN",
+  COMPANY_CONTACT_ROLES_REVOKE = "COMPANY_CONTACT_ROLES_REVOKE",
+  COMPANY_LOCATIONS_CREATE = "COMPANY_LOCATIONS_CREATE",
+  COMPANY_LOCATIONS_DELETE = "COMPANY_LOCATIONS_DELETE",
+  COMPANY_LOCATIONS_UPDATE = "COMPANY_LOCATIONS_UPDATE",
+  CUSTOMERS_CREATE = "CUSTOMERS_CREATE",
+  CUSTOMERS_DELETE = "CUSTOMERS_DELETE",
+  CUSTOMERS_DISABLE = "CUSTOMERS_DISABLE",
+  CUSTOMERS_EMAIL_MARKETING_CONSENT_UPDATE = "CUSTOMERS_EMAIL_MARKETING_CONSENT_UPDATE",
+  CUSTOMERS_ENABLE = "CUSTOMERS_ENABLE",
+  CUSTOMERS_MARKETING_CONSENT_UPDATE = "CUSTOMERS_MARKETING_CONSENT_UPDATE",
+  CUSTOMERS_MERGE = "CUSTOMERS_MERGE",
+  CUSTOMERS_UPDATE = "CUSTOMERS_UPDATE",
+  CUSTOMER_GROUPS_CREATE = "CUSTOMER_GROUPS_CREATE",
+  CUSTOMER_GROUPS_DELETE = "CUSTOMER_GROUPS_DELETE",
+  CUSTOMER_GROUPS_UPDATE = "CUSTOMER_GROUPS_UPDATE",
+  CUSTOMER_PAYMENT_METHODS_CREATE = "CUSTOMER_PAYMENT_METHODS_CREATE",
+  CUSTOMER_PAYMENT_METHODS_REVOKE = "CUSTOMER_PAYMENT_METHODS_REVOKE",
+  CUSTOMER_PAYMENT_METHODS_UPDATE = "CUSTOMER_PAYMENT_METHODS_UPDATE",
+  DISPUTES_CREATE = "DISPUTES_CREATE",
+  DISPUTES_UPDATE = "DISPUTES_UPDATE",
+  DOMAINS_CREATE = "DOMAINS_CREATE",
+  DOMAINS_DESTROY = "DOMAINS_DESTROY",
+  DOMAINS_UPDATE = "DOMAINS_UPDATE",
+  DRAFT_ORDERS_CREATE = "DRAFT_ORDERS_CREATE",
+  DRAFT_ORDERS_DELETE = "DRAFT_ORDERS_DELETE",
+  DRAFT_ORDERS_UPDATE = "DRAFT_ORDERS_UPDATE",
+  FULFILLMENTS_CREATE = "FULFILLMENTS_CREATE",
+  FULFILLMENTS_UPDATE = "FULFILLMENTS_UPDATE",
+  FULFILLMENT_EVENTS_CREATE = "FULFILLMENT_EVENTS_CREATE",
+  FULFILLMENT_EVENTS_DELETE = "FULFILLMENT_EVENTS_DELETE",
+  FULFILLMENT_ORDERS_CANCELLATION_REQUEST_ACCEPTED = "FULFILLMENT_ORDERS_CANCELLATION_REQUEST_ACCEPTED",
+  FULFILLMENT_ORDERS_CANCELLATION_REQUEST_REJECTED = "FULFILLMENT_ORDERS_CANCELLATION_REQUEST_REJECTED",
+  FULFILLMENT_ORDERS_CANCELLATION_REQUEST_SUBMITTED = "FULFILLMENT_ORDERS_CANCELLATION_REQUEST_SUBMITTED",
+  FULFILLMENT_ORDERS_CANCELLED = "FULFILLMENT_ORDERS_CANCELLED",
+  FULFILLMENT_ORDERS_FULFILLMENT_REQUEST_ACCEPTED = "FULFILLMENT_ORDERS_FULFILLMENT_REQUEST_ACCEPTED",
+  FULFILLMENT_ORDERS_FULFILLMENT_REQUEST_REJECTED = "FULFILLMENT_ORDERS_FULFILLMENT_REQUEST_REJECTED",
+  FULFILLMENT_ORDERS_FULFILLMENT_REQUEST_SUBMITTED = "FULFILLMENT_ORDERS_FULFILLMENT_REQUEST_SUBMITTED",
+  FULFILLMENT_ORDERS_FULFILLMENT_SERVICE_FAILED_TO_COMPLETE = "FULFILLMENT_ORDERS_FULFILLMENT_SERVICE_FAILED_TO_COMPLETE",
+  FULFILLMENT_ORDERS_HOLD_RELEASED = "FULFILLMENT_ORDERS_HOLD_RELEASED",
+  FULFILLMENT_ORDERS_LINE_ITEMS_PREPARED_FOR_LOCAL_DELIVERY = "FULFILLMENT_ORDERS_LINE_ITEMS_PREPARED_FOR_LOCAL_DELIVERY",
+  FULFILLMENT_ORDERS_LINE_ITEMS_PREPARED_FOR_PICKUP = "FULFILLMENT_ORDERS_LINE_ITEMS_PREPARED_FOR_PICKUP",
+  FULFILLMENT_ORDERS_MOVED = "FULFILLMENT_ORDERS_MOVED",
+  FULFILLMENT_ORDERS_ORDER_ROUTING_COMPLETE = "FULFILLMENT_ORDERS_ORDER_ROUTING_COMPLETE",
+  FULFILLMENT_ORDERS_PLACED_ON_HOLD = "FULFILLMENT_ORDERS_PLACED_ON_HOLD",
+  FULFILLMENT_ORDERS_RESCHEDULED = "FULFILLMENT_ORDERS_RESCHEDULED",
+  FULFILLMENT_ORDERS_SCHEDULED_FULFILLMENT_ORDER_READY = "FULFILLMENT_ORDERS_SCHEDULED_FULFILLMENT_ORDER_READY",
+  INVENTORY_ITEMS_CREATE = "INVENTORY_ITEMS_CREATE",
+  INVENTORY_ITEMS_DELETE = "INVENTORY_ITEMS_DELETE",
+  INVENTORY_ITEMS_UPDATE = "INVENTORY_ITEMS_UPDATE",
+  INVENTORY_LEVELS_CONNECT = "INVENTORY_LEVELS_CONNECT",
+  INVENTORY_LEVELS_DISCONNECT = "INVENTORY_LEVELS_DISCONNECT",
+  INVENTORY_LEVELS_UPDATE = "INVENTORY_LEVELS_UPDATE",
+  LOCALES_CREATE = "LOCALES_CREATE",
+  LOCALES_UPDATE = "LOCALES_UPDATE",
+  LOCATIONS_ACTIVATE = "LOCATIONS_ACTIVATE",
+  LOCATIONS_CREATE = "LOCATIONS_CREATE",
+  LOCATIONS_DEACTIVATE = "LOCATIONS_DEACTIVATE",
+  LOCATIONS_DELETE = "LOCATIONS_DELETE",
+  LOCATIONS_UPDATE = "LOCATIONS_UPDATE",
+  MARKETS_CREATE = "MARKETS_CREATE",
+  MARKETS_DELETE = "MARKETS_DELETE",
+  MARKETS_UPDATE = "MARKETS_UPDATE",
+  ORDERS_CANCELLED = "ORDERS_CANCELLED",
+  ORDERS_CREATE = "ORDERS_CREATE",
+  ORDERS_DELETE = "ORDERS_DELETE",
+  ORDERS_EDITED = "ORDERS_EDITED",
+  ORDERS_FULFILLED = "ORDERS_FULFILLED",
+  ORDERS_PAID = "ORDERS_PAID",
+  ORDERS_PARTIALLY_FULFILLED = "ORDERS_PARTIALLY_FULFILLED",
+  ORDERS_SHOPIFY_PROTECT_ELIGIBILITY_CHANGED = "ORDERS_SHOPIFY_PROTECT_ELIGIBILITY_CHANGED",
+  ORDERS_UPDATED = "ORDERS_UPDATED",
+  ORDER_TRANSACTIONS_CREATE = "ORDER_TRANSACTIONS_CREATE",
+  PAYMENT_SCHEDULES_DUE = "PAYMENT_SCHEDULES_DUE",
+  PAYMENT_TERMS_CREATE = "PAYMENT_TERMS_CREATE",
+  PAYMENT_TERMS_DELETE = "PAYMENT_TERMS_DELETE",
+  PAYMENT_TERMS_UPDATE = "PAYMENT_TERMS_UPDATE",
+  PRODUCTS_CREATE = "PRODUCTS_CREATE",
+  PRODUCTS_DELETE = "PRODUCTS_DELETE",
+  PRODUCTS_UPDATE = "PRODUCTS_UPDATE",
+  PRODUCT_FEEDS_CREATE = "PRODUCT_FEEDS_CREATE",
+  PRODUCT_FEEDS_FULL_SYNC = "PRODUCT_FEEDS_FULL_SYNC",
+  PRODUCT_FEEDS_INCREMENTAL_SYNC = "PRODUCT_FEEDS_INCREMENTAL_SYNC",
+  PRODUCT_FEEDS_UPDATE = "PRODUCT_FEEDS_UPDATE",
+  PRODUCT_LISTINGS_ADD = "PRODUCT_LISTINGS_ADD",
+  PRODUCT_LISTINGS_REMOVE = "PRODUCT_LISTINGS_REMOVE",
+  PRODUCT_LISTINGS_UPDATE = "PRODUCT_LISTINGS_UPDATE",
+  PRODUCT_PUBLICATIONS_CREATE = "PRODUCT_PUBLICATIONS_CREATE",
+  PRODUCT_PUBLICATIONS_DELETE = "PRODUCT_PUBLICATIONS_DELETE",
+  PRODUCT_PUBLICATIONS_UPDATE = "PRODUCT_PUBLICATIONS_UPDATE",
+  PROFILES_CREATE = "PROFILES_CREATE",
+  PROFILES_DELETE = "PROFILES_DELETE",
+  PROFILES_UPDATE = "PROFILES_UPDATE",
+  REFUNDS_CREATE = "REFUNDS_CREATE",
+  RETURNS_APPROVE = "RETURNS_APPROVE",
+  RETURNS_CANCEL = "RETURNS_CANCEL",
+  RETURNS_CLOSE = "RETURNS_CLOSE",
+  RETURNS_DECLINE = "RETURNS_DECLINE",
+  RETURNS_REOPEN = "RETURNS_REOPEN",
+  RETURNS_REQUEST = "RETURNS_REQUEST",
+  REVERSE_DELIVERIES_ATTACH_DELIVERABLE = "REVERSE_DELIVERIES_ATTACH_DELIVERABLE",
+  REVERSE_FULFILLMENT_ORDERS_DISPOSE = "REVERSE_FULFILLMENT_ORDERS_DISPOSE",
+  SCHEDULED_PRODUCT_LISTINGS_ADD = "SCHEDULED_PRODUCT_LISTINGS_ADD",
+  SCHEDULED_PRODUCT_LISTINGS_REMOVE = "SCHEDULED_PRODUCT_LISTINGS_REMOVE",
+  SCHEDULED_PRODUCT_LISTINGS_UPDATE = "SCHEDULED_PRODUCT_LISTINGS_UPDATE",
+  SEGMENTS_CREATE = "SEGMENTS_CREATE",
+  SEGMENTS_DELETE = "SEGMENTS_DELETE",
+  SEGMENTS_UPDATE = "SEGMENTS_UPDATE",
+  SELLING_PLAN_GROUPS_CREATE = "SELLING_PLAN_GROUPS_CREATE",
+  SELLING_PLAN_GROUPS_DELETE = "SELLING_PLAN_GROUPS_DELETE",
+  SELLING_PLAN_GROUPS_UPDATE = "SELLING_PLAN_GROUPS_UPDATE",
+  SHOP_UPDATE = "SHOP_UPDATE",
+  SUBSCRIPTION_BILLING_ATTEMPTS_CHALLENGED = "SUBSCRIPTION_BILLING_ATTEMPTS_CHALLENGED",
+  SUBSCRIPTION_BILLING_ATTEMPTS_FAILURE = "SUBSCRIPTION_BILLING_ATTEMPTS_FAILURE",
+  SUBSCRIPTION_BILLING_ATTEMPTS_SUCCESS = "SUBSCRIPTION_BILLING_ATTEMPTS_SUCCESS",
+  SUBSCRIPTION_BILLING_CYCLES_SKIP = "SUBSCRIPTION_BILLING_CYCLES_SKIP",
+  SUBSCRIPTION_BILLING_CYCLES_UNSKIP = "SUBSCRIPTION_BILLING_CYCLES_UNSKIP",
+  SUBSCRIPTION_BILLING_CYCLE_EDITS_CREATE = "SUBSCRIPTION_BILLING_CYCLE_EDITS_CREATE",
+  SUBSCRIPTION_BILLING_CYCLE_EDITS_DELETE = "SUBSCRIPTION_BILLING_CYCLE_EDITS_DELETE",
+  SUBSCRIPTION_BILLING_CYCLE_EDITS_UPDATE = "SUBSCRIPTION_BILLING_CYCLE_EDITS_UPDATE",
+  SUBSCRIPTION_CONTRACTS_ACTIVATE = "SUBSCRIPTION_CONTRACTS_ACTIVATE",
+  SUBSCRIPTION_CONTRACTS_CANCEL = "SUBSCRIPTION_CONTRACTS_CANCEL",
+  SUBSCRIPTION_CONTRACTS_CREATE = "SUBSCRIPTION_CONTRACTS_CREATE",
+  SUBSCRIPTION_CONTRACTS_EXPIRE = "SUBSCRIPTION_CONTRACTS_EXPIRE",
+  SUBSCRIPTION_CONTRACTS_FAIL = "SUBSCRIPTION_CONTRACTS_FAIL",
+  SUBSCRIPTION_CONTRACTS_PAUSE = "SUBSCRIPTION_CONTRACTS_PAUSE",
+  SUBSCRIPTION_CONTRACTS_UPDATE = "SUBSCRIPTION_CONTRACTS_UPDATE",
+  TAX_SERVICES_CREATE = "TAX_SERVICES_CREATE",
+  TAX_SERVICES_UPDATE = "TAX_SERVICES_UPDATE",
+  TENDER_TRANSACTIONS_CREATE = "TENDER_TRANSACTIONS_CREATE",
+  THEMES_CREATE = "THEMES_CREATE",
+  THEMES_DELETE = "THEMES_DELETE",
+  THEMES_PUBLISH = "THEMES_PUBLISH",
+  THEMES_UPDATE = "THEMES_UPDATE",
+  VARIANTS_IN_STOCK = "VARIANTS_IN_STOCK",
+  VARIANTS_OUT_OF_STOCK = "VARIANTS_OUT_OF_STOCK",
+}
@@ -0,0 +1,113 @@
+import { jest } from "@jest/globals";
+import { CachingShopifyClient } from "../ShopifyClient/CachingShopifyClient.js";
+import { FakeShopifyClient } from "../ShopifyClient/FakeShopifyClient.js";
+import { LoadProductsResponse } from "../ShopifyClient/ShopifyClientPort.js";
+import { Cache } from "../utils/cache.js";
+import { createFixtures } from "./fixtures.js";
+
+const SHOP = "main.myshopify.com";
+
+describe("response cache", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("expires entries after their TTL", () => {
+    let now = 1_000_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    const cache = new Cache({ defaultTTL: 1000 });
+
+    cache.set("short", 1);
+    cache.set("long", 2, { ttl: 5000 });
+    now += 1000;
+    expect(cache.get("short")).toBe(1);
+    now += 1;
+    expect(cache.get("short")).toBeNull();
+    expect(cache.get("long")).toBe(2);
+    expect(cache.getStats()).toMatchObject({ size: 1, hits: 2, misses: 1 });
+  });
+
+  it("evicts the least recently used entry beyond maxEntries", () => {
+    const cache = new Cache({ maxEntries: 2 });
+
+    cache.set("a", 1);
+    cache.set("b", 2);
+    // Reading "a" makes "b" the least recently used
+    expect(cache.get("a")).toBe(1);
+    cache.set("c", 3);
+    expect(cache.get("b")).toBeNull();
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("c")).toBe(3);
+    expect(cache.getStats()).toMatchObject({ size: 2, evictions: 1 });
+  });
+
+  describe("CachingShopifyClient", () => {
+    let fake: FakeShopifyClient;
+    let cache: Cache;
+    let client: CachingShopifyClient;
+
+    function loadCount(): number {
+      return fake.calls.filter((call) => call.method === "loadProducts").length;
+    }
+
+    beforeEach(() => {
+      fake = new FakeShopifyClient(createFixtures());
+      cache = new Cache();
+      client = new CachingShopifyClient(fake, cache);
+    });
+
+    it("serves repeated reads from the cache per shop and arguments", async () => {
+      await client.loadProducts("shpat_main", SHOP, null, 10);
+      await client.loadProducts("shpat_main", SHOP, null, 10);
+      expect(loadCount()).toBe(1);
+
+      await client.loadProducts("shpat_main", SHOP, null, 5);
+      await client.loadProducts("shpat_outlet", "outlet.myshopify.com", null, 10);
+      expect(loadCount()).toBe(3);
+      // Tokens stay out of the keys
+      expect(JSON.stringify(cache)).not.toContain("shpat_");
+    });
+
+    it("drops the groups a successful mutation affects", async () => {
+      await client.loadProducts("shpat_main", SHOP, null, 10);
+      await client.loadCustomers("shpat_main", SHOP, 10);
+
+      const updated = await client.updateProduct("shpat_main", SHOP, "gid://shopify/Product/101", { title: "Renamed" });
+      expect(updated.title).toBe("Renamed");
+
+      const products = await client.loadProducts("shpat_main", SHOP, null, 10);
+      expect(loadCount()).toBe(2);
+      expect(products.products[0].title).toBe("Renamed");
+      await client.loadCustomers("shpat_main", SHOP, 10);
+      expect(fake.calls.filter((call) => call.method === "loadCustomers")).toHaveLength(1);
+
+      // Failed mutations leave the cache alone
+      fake.failNext("updateProduct", new Error("boom"));
+      await expect(client.updateProduct("shpat_main", SHOP, "gid://shopify/Product/101", { title: "X" })).rejects.toThrow("boom");
+      await client.loadProducts("shpat_main", SHOP, null, 10);
+      expect(loadCount()).toBe(2);
+    });
+
+    it("does not cache a read that was in flight during an invalidation", async () => {
+      let finishRead!: () => void;
+      const loadProducts = fake.loadProducts.bind(fake);
+      jest.spyOn(fake, "loadProducts").mockImplementationOnce(async (...args) => {
+        const stale = await loadProducts(...args);
+        await new Promise<void>((resolve) => (finishRead = resolve));
+        return stale;
+      });
+
+      const reading = client.loadProducts("shpat_main", SHOP, null, 10);
+      await new Promise((resolve) => setImmediate(resolve));
+      await client.updateProduct("shpat_main", SHOP, "gid://shopify/Product/101", { title: "Renamed" });
+      finishRead();
+      expect((await reading).products[0].title).toBe("Linen Shirt");
+
+      const fresh: LoadProductsResponse = await client.loadProducts("shpat_main", SHOP, null, 10);
+      expect(fresh.products[0].title).toBe("Renamed");
+      // The second read is cached again
+      await client.loadProducts("shpat_main", SHOP, null, 10);
+      expect(fake.loadProducts).toHaveBeenCalledTimes(2);
+    });
+  });
+});
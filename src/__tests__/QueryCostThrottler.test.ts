@@ -0,0 +1,85 @@
+import { QueryCostThrottler, ThrottleStatus } from "../ShopifyClient/QueryCostThrottler.js";
+
+const SHOP = "main.myshopify.com";
+const QUERY = "{ products(first: 10) { edges { node { id } } } }";
+
+describe("QueryCostThrottler", () => {
+  let clock: number;
+  let sleeps: number[];
+
+  // Sleeping moves the clock on, so the bucket refills while a call waits
+  function createThrottler(initialStatus: ThrottleStatus, defaultQueryCost = 50): QueryCostThrottler {
+    return new QueryCostThrottler({
+      initialStatus,
+      defaultQueryCost,
+      now: () => clock,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+        clock += ms;
+      },
+    });
+  }
+
+  beforeEach(() => {
+    clock = 1_000_000;
+    sleeps = [];
+  });
+
+  it("takes the cost of each query from the bucket and refills it at the restore rate", async () => {
+    const throttler = createThrottler({ maximumAvailable: 1000, currentlyAvailable: 1000, restoreRate: 50 });
+
+    await throttler.acquire(SHOP, QUERY);
+    await throttler.acquire(SHOP, QUERY);
+    expect(throttler.getStatus(SHOP).currentlyAvailable).toBe(900);
+
+    clock += 1000;
+    expect(throttler.getStatus(SHOP).currentlyAvailable).toBe(950);
+    // Never past the maximum
+    clock += 60_000;
+    expect(throttler.getStatus(SHOP).currentlyAvailable).toBe(1000);
+    expect(sleeps).toEqual([]);
+
+    // Shops have buckets of their own
+    expect(throttler.getStatus("outlet.myshopify.com").currentlyAvailable).toBe(1000);
+  });
+
+  it("waits until the bucket holds the cost of the query, in call order", async () => {
+    const throttler = createThrottler({ maximumAvailable: 100, currentlyAvailable: 60, restoreRate: 10 });
+    const order: number[] = [];
+
+    await Promise.all([1, 2].map((call) => throttler.acquire(SHOP, QUERY).then(() => order.push(call))));
+    // The first query fits; the second waits for the 40 points it lacks at 10 points per second
+    expect(sleeps).toEqual([4000]);
+    expect(order).toEqual([1, 2]);
+    expect(throttler.getStatus(SHOP).currentlyAvailable).toBe(0);
+    expect(throttler.getThrottledDelay(SHOP, QUERY)).toBe(5000);
+
+    // A query costing more than the bucket waits for a full bucket only
+    const expensive = createThrottler({ maximumAvailable: 100, currentlyAvailable: 100, restoreRate: 10 }, 500);
+    await expensive.acquire(SHOP, QUERY);
+    expect(sleeps).toEqual([4000]);
+    expect(expensive.getStatus(SHOP).currentlyAvailable).toBe(0);
+  });
+
+  it("syncs the bucket and query costs from extensions.cost", async () => {
+    const throttler = createThrottler({ maximumAvailable: 1000, currentlyAvailable: 1000, restoreRate: 50 });
+
+    throttler.update(SHOP, QUERY, {
+      requestedQueryCost: 300,
+      actualQueryCost: 120,
+      throttleStatus: { maximumAvailable: 2000, currentlyAvailable: 200, restoreRate: 100 },
+    });
+    expect(throttler.getStatus(SHOP)).toEqual({ maximumAvailable: 2000, currentlyAvailable: 200, restoreRate: 100 });
+
+    // The query is now expected to cost its requestedQueryCost of 300
+    expect(throttler.getThrottledDelay(SHOP, QUERY)).toBe(1000);
+    await throttler.acquire(SHOP, QUERY);
+    expect(sleeps).toEqual([1000]);
+    expect(throttler.getStatus(SHOP).currentlyAvailable).toBe(0);
+
+    // Other queries keep the default cost, and responses without a cost change nothing
+    expect(throttler.getThrottledDelay(SHOP, "{ shop { name } }")).toBe(500);
+    throttler.update(SHOP, QUERY, undefined);
+    expect(throttler.getStatus(SHOP).maximumAvailable).toBe(2000);
+  });
+});
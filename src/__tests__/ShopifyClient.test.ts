@@ -9,16 +9,14 @@ import {
 // Load environment variables from .env file
 config();
 
-const SHOPIFY_ACCESS_TOKEN = process.env.SHOPIFY_ACCESS_TOKEN;
-const MYSHOPIFY_DOMAIN = process.env.MYSHOPIFY_DOMAIN;
+const SHOPIFY_ACCESS_TOKEN = process.env.SHOPIFY_ACCESS_TOKEN ?? "";
+const MYSHOPIFY_DOMAIN = process.env.MYSHOPIFY_DOMAIN ?? "";
 
-if (!SHOPIFY_ACCESS_TOKEN || !MYSHOPIFY_DOMAIN) {
-  throw new Error(
-    "SHOPIFY_ACCESS_TOKEN and MYSHOPIFY_DOMAIN must be set in .env file"
-  );
-}
+// These tests run against a live store, so they are skipped unless
+// SHOPIFY_ACCESS_TOKEN and MYSHOPIFY_DOMAIN are set (see tools.test.ts for the offline suite)
+const describeLive = SHOPIFY_ACCESS_TOKEN && MYSHOPIFY_DOMAIN ? describe : describe.skip;
 
-describe("ShopifyClient", () => {
+describeLive("ShopifyClient", () => {
   let client: ShopifyClient;
 
   beforeEach(() => {
@@ -272,8 +270,7 @@ describe("ShopifyClient", () => {
       const completedOrder = await client.completeDraftOrder(
         SHOPIFY_ACCESS_TOKEN,
         MYSHOPIFY_DOMAIN,
-        draftOrder.draftOrderId,
-        draftOrderData.lineItems[0].variantId
+        draftOrder.draftOrderId
       );
       expect(completedOrder).toBeDefined();
       expect(completedOrder.orderId).toBeDefined();
@@ -0,0 +1,117 @@
+import { jest } from "@jest/globals";
+import { QueryCostThrottler } from "../ShopifyClient/QueryCostThrottler.js";
+import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
+import {
+  CustomError,
+  ShopifyAuthorizationError,
+  ShopifyNetworkError,
+  ShopifyRateLimitError,
+  ShopifyServerError,
+  ShopifyThrottledError,
+} from "../ShopifyClient/ShopifyClientPort.js";
+import { getShopifyRetryDelay, isRetryableShopifyError, parseRetryAfter } from "../ShopifyClient/ShopifyRetryPolicy.js";
+import { withRetry } from "../utils/retry.js";
+import { jsonResponse } from "./fixtures.js";
+
+describe("Shopify retry policy", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("retries throttled requests always and failed requests of unknown outcome for queries only", () => {
+    const query = { isMutation: false };
+    const mutation = { isMutation: true };
+
+    for (const error of [new ShopifyThrottledError({}), new ShopifyRateLimitError({})]) {
+      expect(isRetryableShopifyError(error, query)).toBe(true);
+      expect(isRetryableShopifyError(error, mutation)).toBe(true);
+    }
+    for (const error of [new ShopifyServerError({}), new ShopifyNetworkError({})]) {
+      expect(isRetryableShopifyError(error, query)).toBe(true);
+      expect(isRetryableShopifyError(error, mutation)).toBe(false);
+    }
+    expect(isRetryableShopifyError(new ShopifyAuthorizationError({}), query)).toBe(false);
+    expect(isRetryableShopifyError(new Error("network down"), query)).toBe(false);
+  });
+
+  it("waits as long as Retry-After says", () => {
+    const now = Date.parse("2024-06-01T10:00:00Z");
+    expect(parseRetryAfter("2.5", now)).toBe(2500);
+    expect(parseRetryAfter("Sat, 01 Jun 2024 10:00:03 GMT", now)).toBe(3000);
+    expect(parseRetryAfter("Sat, 01 Jun 2024 09:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+
+    expect(getShopifyRetryDelay(new ShopifyRateLimitError({ contextData: { retryAfterMs: 2000 } }))).toBe(2000);
+    // Throttled queries wait for the delay the throttler computed
+    expect(getShopifyRetryDelay(new ShopifyThrottledError({}), 1500)).toBe(1500);
+    expect(getShopifyRetryDelay(new ShopifyRateLimitError({}), 1500)).toBeUndefined();
+    expect(getShopifyRetryDelay(new ShopifyServerError({}))).toBeUndefined();
+  });
+
+  it("retries at most maxRetries times and records the retries on the error", async () => {
+    const failing = jest.fn(async () => {
+      throw new ShopifyServerError({ contextData: { shop: "main.myshopify.com" } });
+    });
+    const error = await withRetry(failing, { maxRetries: 2, initialDelay: 0, shouldRetry: () => true }).catch(
+      (error) => error
+    );
+    expect(failing).toHaveBeenCalledTimes(3);
+    expect((error as CustomError).contextData).toEqual({ shop: "main.myshopify.com", retryCount: 2 });
+
+    let calls = 0;
+    const flaky = async () => (++calls < 2 ? Promise.reject(new Error("ECONNRESET")) : "ok");
+    await expect(withRetry(flaky, { maxRetries: 1, initialDelay: 0 })).resolves.toBe("ok");
+
+    const rejected = jest.fn(async () => {
+      throw new ShopifyAuthorizationError({});
+    });
+    await expect(withRetry(rejected, { maxRetries: 3, shouldRetry: () => false })).rejects.toThrow(ShopifyAuthorizationError);
+    expect(rejected).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends rate limited requests again after Retry-After and never replays failed mutations", async () => {
+    const client = new ShopifyClient(new QueryCostThrottler());
+    const fetchMock = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ errors: "Exceeded 2 calls per second" }, 429, { "Retry-After": "0" }))
+      .mockResolvedValueOnce(jsonResponse({ data: { node: null } }))
+      .mockResolvedValueOnce(jsonResponse({ errors: "Internal error" }, 500));
+
+    const startedAt = Date.now();
+    await expect(client.getBulkOperation("shpat_main", "main.myshopify.com", { id: "1" })).resolves.toBeNull();
+    // Retry-After replaces the one second backoff
+    expect(Date.now() - startedAt).toBeLessThan(900);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const error = await client.cancelBulkOperation("shpat_main", "main.myshopify.com", "1").catch((error) => error);
+    expect(error).toBeInstanceOf(ShopifyServerError);
+    expect((error as CustomError).contextData).toMatchObject({ statusCode: 500, retryCount: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("waits for the throttler's restore delay before sending a throttled query again", async () => {
+    const throttler = new QueryCostThrottler();
+    const client = new ShopifyClient(throttler);
+    const throttledDelay = jest.spyOn(throttler, "getThrottledDelay").mockReturnValue(5);
+    const cost = {
+      requestedQueryCost: 10,
+      actualQueryCost: null,
+      throttleStatus: { maximumAvailable: 1000, currentlyAvailable: 20, restoreRate: 50 },
+    };
+    const fetchMock = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        jsonResponse({ errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }], extensions: { cost } })
+      )
+      .mockResolvedValueOnce(jsonResponse({ data: { node: null } }));
+
+    await expect(client.getBulkOperation("shpat_main", "main.myshopify.com", { id: "1" })).resolves.toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(throttledDelay).toHaveBeenCalledWith("main.myshopify.com", expect.stringContaining("BulkOperation"));
+  });
+});
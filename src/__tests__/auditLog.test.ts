@@ -0,0 +1,160 @@
+import { jest } from "@jest/globals";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { QueryCostThrottler } from "../ShopifyClient/QueryCostThrottler.js";
+import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
+import { auditToolCalls, registerAuditTools } from "../tools/auditTools.js";
+import { AuditEntry, AuditLog, createAuditEntry, redactSecrets, runInToolCall } from "../utils/auditLog.js";
+import { connectClient, createToolContext, jsonResponse } from "./fixtures.js";
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    id: overrides.id ?? "entry",
+    timestamp: "2024-06-01T00:00:00.000Z",
+    tool: null,
+    shopDomain: "main.myshopify.com",
+    operations: [],
+    arguments: {},
+    resourceIds: [],
+    userErrors: [],
+    durationMs: 1,
+    error: null,
+    ...overrides,
+  };
+}
+
+describe("audit log", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "shopify-audit-"));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("records mutations sent by the client with the tool that sent them", async () => {
+    const auditLog = new AuditLog();
+    const client = new ShopifyClient(new QueryCostThrottler(), auditLog);
+    const fetchMock = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        jsonResponse({
+          data: {
+            webhookSubscriptionDelete: {
+              deletedWebhookSubscriptionId: "gid://shopify/WebhookSubscription/701",
+              userErrors: [],
+            },
+          },
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          data: {
+            webhookSubscriptionDelete: {
+              deletedWebhookSubscriptionId: null,
+              userErrors: [{ field: ["id"], message: "Webhook subscription does not exist" }],
+            },
+          },
+        })
+      )
+      .mockResolvedValueOnce(jsonResponse({ data: { shop: { name: "Main" } } }));
+
+    await runInToolCall("manage-webhook", () => client.unsubscribeWebhook("shpat_secret", "main.myshopify.com", "701"));
+    await expect(client.unsubscribeWebhook("shpat_secret", "main.myshopify.com", "702")).rejects.toThrow();
+    await client.loadShopDetails("shpat_secret", "main.myshopify.com").catch(() => undefined);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const { entries } = auditLog.list();
+    expect(entries).toHaveLength(2);
+    expect(entries[1]).toMatchObject({
+      tool: "manage-webhook",
+      shopDomain: "main.myshopify.com",
+      operations: ["webhookSubscriptionDelete"],
+      arguments: { id: "gid://shopify/WebhookSubscription/701" },
+      resourceIds: ["gid://shopify/WebhookSubscription/701"],
+      userErrors: [],
+      error: null,
+    });
+    expect(entries[0]).toMatchObject({
+      tool: null,
+      userErrors: [{ field: ["id"], message: "Webhook subscription does not exist" }],
+    });
+    expect(JSON.stringify(entries)).not.toContain("shpat_secret");
+  });
+
+  it("redacts secrets from arguments and error messages", () => {
+    expect(
+      redactSecrets({ input: { apiKey: "abc", note: "token shpat_123abc", tags: ["shpss_xyz"] }, accessToken: "x" })
+    ).toEqual({ input: { apiKey: "[REDACTED]", note: "token [REDACTED]", tags: ["[REDACTED]"] }, accessToken: "[REDACTED]" });
+
+    const failed = createAuditEntry({
+      shopDomain: "main.myshopify.com",
+      query: "mutation { a: productDelete(input: { id: 1 }) { deletedProductId } }",
+      durationMs: 3,
+      error: new Error("Unauthorized for shpat_123abc"),
+    });
+    expect(failed).toMatchObject({ operations: ["productDelete"], error: "Unauthorized for [REDACTED]" });
+  });
+
+  it("filters by time range, tool and resource ID and persists across restarts", async () => {
+    const path = join(directory, "audit-log.jsonl");
+    const auditLog = new AuditLog({ path });
+    await auditLog.add(entry({ id: "1", timestamp: "2024-06-01T00:00:00.000Z", tool: "update-product", resourceIds: ["gid://shopify/Product/101"] }));
+    await auditLog.add(entry({ id: "2", timestamp: "2024-06-02T00:00:00.000Z", tool: "bulk-update-variant-prices", arguments: { productId: "gid://shopify/Product/101" } }));
+    await auditLog.add(entry({ id: "3", timestamp: "2024-06-03T00:00:00.000Z", tool: "update-product", shopDomain: "outlet.myshopify.com" }));
+
+    const ids = (page: { entries: AuditEntry[] }) => page.entries.map((audited) => audited.id);
+    expect(ids(auditLog.list())).toEqual(["3", "2", "1"]);
+    expect(ids(auditLog.list({ since: "2024-06-02T00:00:00Z", until: "2024-06-02T23:59:59Z" }))).toEqual(["2"]);
+    expect(ids(auditLog.list({ tool: "update-product", shopDomain: "main.myshopify.com" }))).toEqual(["1"]);
+    expect(ids(auditLog.list({ resourceId: "gid://shopify/Product/101" }))).toEqual(["2", "1"]);
+    expect(auditLog.list({ first: 2 }).pageInfo).toEqual({ hasNextPage: true, endCursor: "2" });
+
+    expect((await readFile(path, "utf8")).trim().split("\n")).toHaveLength(3);
+    const reloaded = new AuditLog({ path, maxEntries: 2 });
+    await reloaded.load();
+    expect(ids(reloaded.list())).toEqual(["3", "2"]);
+  });
+
+  it("get-audit-log queries the log and tool calls are audited with their name", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const auditLog = new AuditLog();
+    const context = createToolContext(
+      () => {
+        throw new Error("not used");
+      },
+      { auditLog }
+    );
+
+    const server = new McpServer({ name: "shopify-audit-test", version: "0.0.0" });
+    const audited = auditToolCalls(server);
+    registerAuditTools(audited, context);
+    audited.tool("touch-product", {}, async () => {
+      await auditLog.add(
+        createAuditEntry({ shopDomain: "main.myshopify.com", query: "mutation { productUpdate { product { id } } }", durationMs: 1 })
+      );
+      return { content: [{ type: "text", text: "done" }] };
+    });
+
+    const client = await connectClient(server);
+
+    await client.callTool({ name: "touch-product", arguments: {} });
+    const result = (await client.callTool({
+      name: "get-audit-log",
+      arguments: { tool: "touch-product", shop: "main" },
+    })) as { content: Array<{ text: string }> };
+    expect(JSON.parse(result.content[0].text).entries).toEqual([
+      expect.objectContaining({ tool: "touch-product", operations: ["productUpdate"] }),
+    ]);
+
+    context.auditLog = undefined;
+    const disabled = (await client.callTool({ name: "get-audit-log", arguments: {} })) as { isError?: boolean };
+    expect(disabled.isError).toBe(true);
+    await client.close();
+  });
+});
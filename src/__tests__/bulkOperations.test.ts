@@ -0,0 +1,238 @@
+import { jest } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FakeShopifyClient } from "../ShopifyClient/FakeShopifyClient.js";
+import { QueryCostThrottler } from "../ShopifyClient/QueryCostThrottler.js";
+import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
+import { BulkOperation, BulkOperationRow, ShopifyClientPort } from "../ShopifyClient/ShopifyClientPort.js";
+import { readBulkOperationObjects, waitForBulkOperation } from "../ShopifyClient/bulkOperations.js";
+import { registerBulkOperationTools } from "../tools/bulkOperationTools.js";
+import { ToolContext } from "../tools/toolContext.js";
+import { WebhookEventStore } from "../utils/webhookEventStore.js";
+import { connectClient, createFixtures, createToolContext, jsonResponse, ToolResult } from "./fixtures.js";
+
+async function* rowsOf(rows: BulkOperationRow[]): AsyncIterable<BulkOperationRow> {
+  yield* rows;
+}
+
+function bulkOperation(overrides: Partial<BulkOperation> = {}): BulkOperation {
+  return {
+    id: "gid://shopify/BulkOperation/1",
+    type: "QUERY",
+    status: "RUNNING",
+    errorCode: null,
+    createdAt: "2024-06-01T00:00:00Z",
+    completedAt: null,
+    objectCount: 0,
+    fileSize: null,
+    url: null,
+    partialDataUrl: null,
+    query: "{ products { edges { node { id } } } }",
+    ...overrides,
+  };
+}
+
+describe("bulk operations", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("nests rows under their __parentId and keeps only the first objects", async () => {
+    const rows = [
+      { id: "gid://shopify/Product/1", title: "Shirt" },
+      { id: "gid://shopify/ProductVariant/11", sku: "S", __parentId: "gid://shopify/Product/1" },
+      { id: "gid://shopify/InventoryLevel/111", available: 3, __parentId: "gid://shopify/ProductVariant/11" },
+      { id: "gid://shopify/ProductVariant/12", sku: "M", __parentId: "gid://shopify/Product/1" },
+      { id: "gid://shopify/Product/2", title: "Scarf" },
+      { id: "gid://shopify/ProductVariant/21", sku: "ONE", __parentId: "gid://shopify/Product/2" },
+    ];
+
+    const all = await readBulkOperationObjects(rowsOf(rows), { childKeys: { ProductVariant: "variants" } });
+    expect(all.totalObjects).toBe(2);
+    expect(all.objects[0]).toEqual({
+      id: "gid://shopify/Product/1",
+      title: "Shirt",
+      variants: [
+        { id: "gid://shopify/ProductVariant/11", sku: "S", InventoryLevel: [{ id: "gid://shopify/InventoryLevel/111", available: 3 }] },
+        { id: "gid://shopify/ProductVariant/12", sku: "M" },
+      ],
+    });
+
+    const first = await readBulkOperationObjects(rowsOf(rows), { limit: 1 });
+    expect(first.totalObjects).toBe(2);
+    expect(first.objects.map((object) => object.title)).toEqual(["Shirt"]);
+    expect(first.objects[0].ProductVariant).toHaveLength(2);
+  });
+
+  it("stops waiting when the bulk_operations/finish webhook arrives", async () => {
+    const finishEvents = new WebhookEventStore();
+    let status: BulkOperation["status"] = "RUNNING";
+    const client = {
+      getBulkOperation: async () => bulkOperation({ status }),
+    } as unknown as ShopifyClientPort;
+
+    const waiting = waitForBulkOperation(client, "shpat_main", "main.myshopify.com", "gid://shopify/BulkOperation/1", {
+      pollIntervalMs: 60_000,
+      finishEvents,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    status = "COMPLETED";
+    await finishEvents.add({
+      id: "delivery-1",
+      topic: "bulk_operations/finish",
+      shopDomain: "main.myshopify.com",
+      apiVersion: "2024-04",
+      eventId: null,
+      triggeredAt: null,
+      receivedAt: new Date().toISOString(),
+      payload: { admin_graphql_api_id: "gid://shopify/BulkOperation/1", status: "completed" },
+    });
+    await expect(waiting).resolves.toMatchObject({ status: "COMPLETED" });
+
+    // Past the timeout the operation is returned as it is
+    status = "RUNNING";
+    await expect(
+      waitForBulkOperation(client, "shpat_main", "main.myshopify.com", "gid://shopify/BulkOperation/1", { timeoutMs: 0 })
+    ).resolves.toMatchObject({ status: "RUNNING" });
+  });
+
+  it("stages the mutation variables before starting a bulk mutation and streams its result", async () => {
+    const client = new ShopifyClient(new QueryCostThrottler());
+    const fetchMock = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        jsonResponse({
+          data: {
+            stagedUploadsCreate: {
+              stagedTargets: [
+                {
+                  url: "https://uploads.example.com/",
+                  resourceUrl: null,
+                  parameters: [
+                    { name: "key", value: "tmp/bulk/vars.jsonl" },
+                    { name: "policy", value: "signed" },
+                  ],
+                },
+              ],
+              userErrors: [],
+            },
+          },
+        })
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 201 }))
+      .mockResolvedValueOnce(
+        jsonResponse({
+          data: {
+            bulkOperationRunMutation: {
+              bulkOperation: bulkOperation({ type: "MUTATION", status: "CREATED", objectCount: "0" as unknown as number }),
+              userErrors: [],
+            },
+          },
+        })
+      )
+      .mockResolvedValueOnce(
+        new Response('{"data":{"productUpdate":{"userErrors":[]}},"__lineNumber":0}\n\n{"data":{},"__lineNumber":1}\n')
+      );
+
+    const operation = await client.runBulkMutation("shpat_main", "main.myshopify.com", "mutation call($input: ProductInput!) { productUpdate(input: $input) { userErrors { message } } }", [
+      { input: { id: "gid://shopify/Product/1", title: "A" } },
+      { input: { id: "gid://shopify/Product/2", title: "B" } },
+    ]);
+    expect(operation).toMatchObject({ type: "MUTATION", status: "CREATED", objectCount: 0 });
+
+    const [uploadUrl, upload] = fetchMock.mock.calls[1] as [string, RequestInit];
+    expect(uploadUrl).toBe("https://uploads.example.com/");
+    const form = upload.body as FormData;
+    expect(form.get("key")).toBe("tmp/bulk/vars.jsonl");
+    expect((await (form.get("file") as Blob).text()).trim().split("\n").map((line) => JSON.parse(line))).toEqual([
+      { input: { id: "gid://shopify/Product/1", title: "A" } },
+      { input: { id: "gid://shopify/Product/2", title: "B" } },
+    ]);
+    const started = JSON.parse((fetchMock.mock.calls[2] as [string, RequestInit])[1].body as string);
+    expect(started.variables.stagedUploadPath).toBe("tmp/bulk/vars.jsonl");
+
+    const rows: BulkOperationRow[] = [];
+    for await (const row of client.streamBulkOperationResult("https://storage.example.com/result.jsonl")) {
+      rows.push(row);
+    }
+    expect(rows.map((row) => row.__lineNumber)).toEqual([0, 1]);
+  });
+
+  describe("tools", () => {
+    let client: Client;
+    let fake: FakeShopifyClient;
+    let context: ToolContext;
+
+    async function callToolJson(name: string, args: Record<string, unknown>): Promise<any> {
+      const result = (await client.callTool({ name, arguments: args })) as ToolResult;
+      expect(result.isError).toBeFalsy();
+      return JSON.parse(result.content[0].text);
+    }
+
+    beforeAll(async () => {
+      context = createToolContext(() => fake);
+
+      const server = new McpServer({ name: "shopify-bulk-test", version: "0.0.0" });
+      registerBulkOperationTools(server, context);
+
+      client = await connectClient(server);
+    });
+
+    afterAll(async () => {
+      await client.close();
+    });
+
+    beforeEach(() => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      fake = new FakeShopifyClient(createFixtures());
+    });
+
+    it("starts a bulk query, waits for it and returns its nested results", async () => {
+      const started = await callToolJson("start-bulk-query", {
+        query: "{ products { edges { node { id title variants { edges { node { id sku } } } } } } }",
+      });
+      expect(started.status).toBe("RUNNING");
+
+      const busy = (await client.callTool({ name: "start-bulk-query", arguments: { query: "{ products { edges { node { id } } } }" } })) as ToolResult;
+      expect(busy.isError).toBe(true);
+      expect(busy.content[0].text).toContain("already in progress");
+
+      const finished = await callToolJson("get-bulk-operation", { wait: true, includeResults: true, limit: 2 });
+      expect(finished.operation).toMatchObject({ id: started.id, status: "COMPLETED", objectCount: 10 });
+      expect(finished.totalObjects).toBe(3);
+      expect(finished.objects.map((product: any) => product.title)).toEqual(["Linen Shirt", "Wool Scarf"]);
+      expect(finished.objects[0].ProductVariant.map((variant: any) => variant.sku)).toEqual(["SHIRT-S", "SHIRT-M"]);
+    });
+
+    it("plans bulk mutations in dry runs and cancels running ones", async () => {
+      const mutation = "mutation call($input: ProductInput!) { productUpdate(input: $input) { userErrors { message } } }";
+      const plan = await callToolJson("start-bulk-mutation", {
+        mutation,
+        inputs: [{ input: { id: "gid://shopify/Product/101", title: "Shirt" } }],
+        dryRun: true,
+      });
+      expect(plan).toMatchObject({
+        dryRun: true,
+        valid: true,
+        changes: [{ operation: "runBulkMutation", action: "update", resource: "productUpdate" }],
+      });
+      expect(fake.bulkOperations.size).toBe(0);
+
+      const started = await callToolJson("start-bulk-mutation", {
+        mutation,
+        inputs: [{ input: { id: "gid://shopify/Product/101", title: "Shirt" } }],
+      });
+      expect(fake.calls.find((call) => call.method === "runBulkMutation")!.args[1]).toEqual([
+        { input: { id: "gid://shopify/Product/101", title: "Shirt" } },
+      ]);
+
+      const canceled = await callToolJson("cancel-bulk-operation", { bulkOperationId: started.id });
+      expect(canceled.status).toBe("CANCELED");
+      const missing = (await client.callTool({
+        name: "get-bulk-operation",
+        arguments: { bulkOperationId: "gid://shopify/BulkOperation/999" },
+      })) as ToolResult;
+      expect(missing.isError).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import { jest } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FakeShopifyClient } from "../ShopifyClient/FakeShopifyClient.js";
+import { QueryCostThrottler } from "../ShopifyClient/QueryCostThrottler.js";
+import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
+import { registerCatalogTools } from "../tools/catalogTools.js";
+import { ToolContext } from "../tools/toolContext.js";
+import { ConfirmationStore } from "../utils/confirmationStore.js";
+import { formatCsv, parseCsv } from "../utils/csv.js";
+import { parseProductCsv, toProductCsvRows } from "../utils/productCsv.js";
+import { connectClient, createFixtures, createToolContext, mockGraphqlResponses, ToolResult } from "./fixtures.js";
+
+const IMPORT_COLUMNS = ["Handle", "Title", "Option1 Name", "Option1 Value", "Variant SKU", "Variant Price", "Image Src"];
+
+function importCsv(rows: string[][]): string {
+  return formatCsv(IMPORT_COLUMNS, rows);
+}
+
+function createCatalog(): FakeShopifyClient {
+  const fixtures = createFixtures();
+  const [shirt, scarf, tote] = fixtures.products!;
+  shirt.images.edges.push({ node: { src: "https://cdn.example.com/101-back.jpg", height: 800, width: 800 } });
+  shirt.variants.edges[1].node.image = shirt.images.edges[1].node;
+  shirt.tags = ["summer", "linen"];
+  scarf.status = "DRAFT";
+  scarf.updatedAt = "2024-03-01T00:00:00Z";
+  tote.vendor = "Canvas & Co";
+  return new FakeShopifyClient(fixtures);
+}
+
+describe("catalog", () => {
+  it("flattens a product into Shopify's product CSV rows", () => {
+    const [shirt] = createCatalog().products.values();
+    expect(toProductCsvRows(shirt)).toEqual([
+      {
+        Handle: "linen-shirt",
+        Title: "Linen Shirt",
+        "Body (HTML)": "Linen Shirt description",
+        Vendor: "Acme",
+        Type: "Apparel",
+        Tags: "summer, linen",
+        Published: "TRUE",
+        Status: "active",
+        "Option1 Name": "Size",
+        "Option1 Value": "S",
+        "Variant SKU": "SHIRT-S",
+        "Variant Inventory Tracker": "",
+        "Variant Inventory Qty": "",
+        "Variant Inventory Policy": "deny",
+        "Variant Price": "40.00",
+        "Variant Image": "",
+        "Image Src": "https://cdn.example.com/101.jpg",
+        "Image Position": "1",
+      },
+      {
+        Handle: "linen-shirt",
+        "Option1 Value": "M",
+        "Variant SKU": "SHIRT-M",
+        "Variant Inventory Tracker": "",
+        "Variant Inventory Qty": "",
+        "Variant Inventory Policy": "deny",
+        "Variant Price": "45.00",
+        "Variant Image": "https://cdn.example.com/101-back.jpg",
+        "Image Src": "https://cdn.example.com/101-back.jpg",
+        "Image Position": "2",
+      },
+    ]);
+  });
+
+  it("parses quoted CSV fields and validates the rows of a product CSV", () => {
+    expect(parseCsv('\ufeffa,"b ""c""",d\r\n"multi\nline",,\n')).toEqual([
+      ["a", 'b "c"', "d"],
+      ["multi\nline", "", ""],
+    ]);
+    expect(() => parseProductCsv("Handle,Vendor\nshirt,Acme\n")).toThrow("lacks the required columns: Title");
+
+    const parsed = parseProductCsv(
+      importCsv([
+        ["tee", "Tee", "Size", "S", "TEE-S", "10.00", ""],
+        ["tee", "", "", "M", "TEE-S", "ten", ""],
+        ["tee", "", "", "S", "TEE-S2", "12.00", ""],
+        ["cap", "Cap", "", "", "CAP", "5", "https://cdn.example.com/cap.jpg"],
+        ["tee", "", "", "L", "TEE-L", "10.00", ""],
+        ["", "Orphan", "", "", "", "", ""],
+      ])
+    );
+    expect(parsed.ignoredColumns).toEqual(["Image Src"]);
+    expect(parsed.errors).toEqual([{ row: 7, message: "Handle is blank" }]);
+    expect(parsed.products.map(({ handle, rows }) => ({ handle, rows }))).toEqual([
+      { handle: "tee", rows: [2, 3, 4] },
+      { handle: "cap", rows: [5] },
+    ]);
+    expect(parsed.products[0].errors).toEqual([
+      { row: 3, message: 'Variant SKU "TEE-S" is also used by row 2' },
+      { row: 3, message: 'Variant Price "ten" is not an amount' },
+      { row: 4, message: "has the same option values as row 2" },
+      { row: 6, message: 'handle "tee" is also used by row 2; the rows of a product must be consecutive' },
+    ]);
+    expect(parsed.products[1]).toMatchObject({ options: [], variants: [{ row: 5, sku: "CAP", price: 5 }], errors: [] });
+  });
+
+  describe("tools", () => {
+    let client: Client;
+    let fake: FakeShopifyClient;
+    let context: ToolContext;
+    let exportDirectory: string;
+
+    async function callToolJson(name: string, args: Record<string, unknown>): Promise<any> {
+      const result = (await client.callTool({ name, arguments: args })) as ToolResult;
+      expect(result.isError).toBeFalsy();
+      return JSON.parse(result.content[0].text);
+    }
+
+    beforeAll(async () => {
+      context = createToolContext(() => fake);
+
+      const server = new McpServer({ name: "shopify-catalog-test", version: "0.0.0" });
+      registerCatalogTools(server, context);
+
+      client = await connectClient(server);
+    });
+
+    afterAll(async () => {
+      await client.close();
+    });
+
+    beforeEach(async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      fake = createCatalog();
+      exportDirectory = await mkdtemp(join(tmpdir(), "shopify-export-"));
+      context.exportDirectory = exportDirectory;
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await rm(exportDirectory, { recursive: true, force: true });
+    });
+
+    it("pages through the whole catalog into a product CSV", async () => {
+      const result = await callToolJson("export-products", { fileName: "catalog.csv" });
+      expect(result).toEqual({
+        path: join(exportDirectory, "catalog.csv"),
+        format: "csv",
+        query: null,
+        productCount: 3,
+        variantCount: 4,
+        rowCount: 4,
+      });
+
+      const lines = (await readFile(result.path, "utf8")).trimEnd().split("\n");
+      expect(lines[0]).toMatch(/^Handle,Title,Body \(HTML\),Vendor,/);
+      expect(lines[1]).toContain('linen-shirt,Linen Shirt,Linen Shirt description,Acme,Apparel,"summer, linen",TRUE,Size,S,');
+      expect(lines[3]).toMatch(/^wool-scarf,.*,draft$/);
+      expect(lines[4]).toMatch(/^canvas-tote,Canvas Tote,Canvas Tote description,Canvas & Co,/);
+      // Only the finished file is left behind
+      expect(await readdir(exportDirectory)).toEqual(["catalog.csv"]);
+    });
+
+    it("exports the products matching the filters as JSONL", async () => {
+      const result = await callToolJson("export-products", {
+        format: "jsonl",
+        status: ["ACTIVE", "DRAFT"],
+        collectionId: "gid://shopify/Collection/501",
+        vendor: "Acme",
+      });
+      expect(result.path).toMatch(/products-main-.*\.jsonl$/);
+      expect(result.query).toBe("status:active,draft vendor:Acme collection_id:501");
+      expect(result.productCount).toBe(1);
+
+      const [shirt] = (await readFile(result.path, "utf8")).trimEnd().split("\n").map((line) => JSON.parse(line));
+      expect(shirt).toMatchObject({ handle: "linen-shirt", images: [{}, {}], variants: [{ sku: "SHIRT-S" }, { sku: "SHIRT-M" }] });
+
+      const updated = await callToolJson("export-products", { format: "jsonl", updatedSince: "2024-02-01", vendor: "Canvas & Co" });
+      expect(updated.query).toBe('vendor:"Canvas & Co" updated_at:>=2024-02-01T00:00:00.000Z');
+      expect(updated.productCount).toBe(0);
+      expect((await callToolJson("export-products", { vendor: "Canvas & Co" })).productCount).toBe(1);
+    });
+
+    it("imports its own export without changing anything", async () => {
+      await callToolJson("export-products", { fileName: "catalog.csv" });
+      const result = await callToolJson("import-products", { fileName: "catalog.csv" });
+      expect(result.summary).toEqual({ products: { skip: 3 }, rows: { skipped: 4 } });
+      expect(result.ignoredColumns).toEqual([
+        "Published",
+        "Variant Inventory Tracker",
+        "Variant Inventory Policy",
+        "Image Src",
+        "Image Position",
+        "Variant Image",
+      ]);
+      expect(result.rows[0]).toMatchObject({ row: 2, handle: "linen-shirt", action: "skip", matchedBy: "handle" });
+      expect(fake.calls.filter(({ method }) => method !== "loadProducts")).toEqual([]);
+    });
+
+    it("plans and applies creates and updates with a result per row", async () => {
+      const csv = importCsv([
+        ["linen-shirt", "Linen Shirt", "Size", "M", "SHIRT-M", "49.00", ""],
+        ["linen-shirt", "", "", "L", "SHIRT-L", "52.00", ""],
+        ["scarf-2024", "Wool Scarf 2024", "Size", "One Size", "SCARF", "25.00", ""],
+        ["silk-tie", "Silk Tie", "Color", "Red", "TIE-RED", "30.00", ""],
+        ["silk-tie", "", "", "Blue", "TIE-BLUE", "30.00", ""],
+        ["canvas-tote", "Canvas Tote", "Size", "One Size", "SHIRT-S", "15.00", ""],
+      ]);
+
+      const plan = await callToolJson("import-products", { csv, dryRun: true });
+      expect(plan).toMatchObject({ dryRun: true, valid: false, summary: { products: { update: 2, create: 1, invalid: 1 } } });
+      expect(plan.rows.map(({ row, action, status }: any) => [row, action, status])).toEqual([
+        [2, "update", "planned"],
+        [3, "create", "planned"],
+        [4, "update", "planned"],
+        [5, "create", "planned"],
+        [6, "create", "planned"],
+        [7, "invalid", "skipped"],
+      ]);
+      expect(plan.rows[0].changes).toEqual([{ field: "price", before: 45, after: 49 }]);
+      expect(plan.rows[2]).toMatchObject({
+        matchedBy: "sku",
+        productId: "gid://shopify/Product/102",
+        changes: [{ field: "title", before: "Wool Scarf", after: "Wool Scarf 2024" }],
+      });
+      expect(plan.rows[5].errors).toEqual(['Variant SKU "SHIRT-S" belongs to product linen-shirt']);
+      expect(fake.calls.filter(({ method }) => method !== "loadProducts")).toEqual([]);
+
+      const result = await callToolJson("import-products", { csv });
+      expect(result.summary.rows).toEqual({ applied: 5, skipped: 1 });
+      const [shirt, scarf, , tie] = [...fake.products.values()];
+      expect(shirt.variants.edges.map(({ node }) => [node.sku, node.price, node.selectedOptions])).toEqual([
+        ["SHIRT-S", "40.00", [{ name: "Size", value: "S" }]],
+        ["SHIRT-M", "49.00", [{ name: "Size", value: "M" }]],
+        ["SHIRT-L", "52.00", [{ name: "Size", value: "L" }]],
+      ]);
+      expect(scarf.title).toBe("Wool Scarf 2024");
+      expect(tie).toMatchObject({ handle: "silk-tie", options: [{ name: "Color", values: ["Red", "Blue"] }] });
+      expect(result.rows[4]).toMatchObject({ action: "create", status: "applied", productId: tie.id, variantId: tie.variants.edges[1].node.id });
+    });
+
+    it("sends the changes of an existing product to Shopify under its own IDs", async () => {
+      const [shirt] = createFixtures().products!;
+      const { fetchMock, requests } = mockGraphqlResponses(
+        { products: { edges: [{ node: shirt }], pageInfo: { hasNextPage: false } }, shop: { currencyCode: "USD" } },
+        { productUpdate: { product: { ...shirt, title: "Linen Shirt 2" }, userErrors: [] } },
+        { product: { options: [{ name: "Size" }] } },
+        { productVariantsBulkCreate: { productVariants: [{ id: "gid://shopify/ProductVariant/1013" }], userErrors: [] } },
+        {
+          productVariantsBulkUpdate: {
+            productVariants: [{ id: "gid://shopify/ProductVariant/1011", inventoryItem: { id: "gid://shopify/InventoryItem/9" } }],
+            userErrors: [],
+          },
+        }
+      );
+      const server = new McpServer({ name: "shopify-catalog-live-test", version: "0.0.0" });
+      registerCatalogTools(server, createToolContext(() => new ShopifyClient(new QueryCostThrottler())));
+      const liveClient = await connectClient(server);
+      try {
+        const csv = importCsv([
+          ["linen-shirt", "Linen Shirt 2", "Size", "S", "SHIRT-S", "41.00", ""],
+          ["linen-shirt", "", "", "M", "SHIRT-M", "45.00", ""],
+          ["linen-shirt", "", "", "L", "SHIRT-L", "52.00", ""],
+        ]);
+        const result = (await liveClient.callTool({ name: "import-products", arguments: { csv } })) as ToolResult;
+        expect(JSON.parse(result.content[0].text).summary.rows).toEqual({ applied: 2, skipped: 1 });
+
+        const [, update, options, createVariants, updateVariants] = requests();
+        expect(update.query).toContain("productUpdate(input: $input)");
+        expect(update.variables.input).toEqual({ id: "gid://shopify/Product/101", title: "Linen Shirt 2" });
+        expect(options.variables).toEqual({ id: "gid://shopify/Product/101" });
+        expect(createVariants.query).toContain("productVariantsBulkCreate(productId: $productId, variants: $variants)");
+        expect(createVariants.variables).toEqual({
+          productId: "gid://shopify/Product/101",
+          variants: [{ price: "52", optionValues: [{ optionName: "Size", name: "L" }], inventoryItem: { sku: "SHIRT-L" } }],
+        });
+        expect(updateVariants.query).toContain("productVariantsBulkUpdate(productId: $productId, variants: $variants)");
+        expect(updateVariants.variables).toEqual({
+          productId: "gid://shopify/Product/101",
+          variants: [{ id: "gid://shopify/ProductVariant/1011", price: "41" }],
+        });
+        expect(fetchMock).toHaveBeenCalledTimes(5);
+      } finally {
+        await liveClient.close();
+        fetchMock.mockRestore();
+      }
+    });
+
+    it("asks for confirmation before importing many changes", async () => {
+      context.confirmations = new ConfirmationStore({ confirmDeletes: true, itemThreshold: 1, ttl: 60_000 });
+      try {
+        const csv = importCsv([
+          ["linen-shirt", "Linen Shirt", "Size", "S", "SHIRT-S", "41.00", ""],
+          ["linen-shirt", "", "", "M", "SHIRT-M", "46.00", ""],
+          ["wool-scarf", "Scarf", "Size", "One Size", "SCARF", "25.00", ""],
+        ]);
+        const held = await callToolJson("import-products", { csv });
+        expect(held.confirmationRequired).toBe(true);
+        expect(held.changes.map(({ operation }: any) => operation)).toEqual([
+          "bulkVariantOperations",
+          "bulkVariantOperations",
+          "updateProduct",
+        ]);
+        expect(fake.calls.filter(({ method }) => method !== "loadProducts" && method !== "loadProductsByIds")).toEqual([]);
+
+        const result = await callToolJson("import-products", { csv, confirmationToken: held.confirmationToken });
+        expect(result.summary.rows).toEqual({ applied: 3 });
+      } finally {
+        context.confirmations = undefined;
+      }
+    });
+
+    it("only writes inside the export directory", async () => {
+      await expect(callToolJson("export-products", { fileName: "../catalog.csv" })).rejects.toThrow(
+        "Must be a file name without a directory"
+      );
+
+      context.exportDirectory = undefined;
+      const result = (await client.callTool({ name: "export-products", arguments: {} })) as ToolResult;
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("No export directory is configured");
+    });
+  });
+});
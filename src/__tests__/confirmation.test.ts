@@ -0,0 +1,160 @@
+import { jest } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FakeShopifyClient } from "../ShopifyClient/FakeShopifyClient.js";
+import { registerExtendedProductTools } from "../tools/extendedProductTools.js";
+import { registerWebhookTools } from "../tools/webhookTools.js";
+import { registerBlogTools } from "../tools/blogTools.js";
+import { ToolContext } from "../tools/toolContext.js";
+import { ConfirmationStore } from "../utils/confirmationStore.js";
+import { connectClient, createFixtures, createToolContext, ToolResult } from "./fixtures.js";
+
+describe("destructive tool confirmation", () => {
+  let client: Client;
+  let fake: FakeShopifyClient;
+  let context: ToolContext;
+  let now: number;
+
+  async function callTool(name: string, args: Record<string, unknown>): Promise<ToolResult> {
+    return (await client.callTool({ name, arguments: args })) as ToolResult;
+  }
+
+  // Calls a tool that needs confirmation and returns the token it issued
+  async function requestToken(name: string, args: Record<string, unknown>): Promise<string> {
+    const result = await callTool(name, args);
+    expect(result.isError).toBeFalsy();
+    const response = JSON.parse(result.content[0].text);
+    expect(response.confirmationRequired).toBe(true);
+    return response.confirmationToken;
+  }
+
+  function mutations(): string[] {
+    return fake.calls.map((call) => call.method).filter((method) => /^(delete|unsubscribe|bulkUpdate)/.test(method));
+  }
+
+  beforeAll(async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    context = createToolContext(() => fake);
+
+    const server = new McpServer({ name: "shopify-confirmation-test", version: "0.0.0" });
+    registerExtendedProductTools(server, context);
+    registerWebhookTools(server, context);
+    registerBlogTools(server, context);
+
+    client = await connectClient(server);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    fake = new FakeShopifyClient(createFixtures());
+    now = Date.parse("2024-06-01T00:00:00Z");
+    context.confirmations = new ConfirmationStore({ confirmDeletes: true, itemThreshold: 1, ttl: 60_000 }, () => now);
+  });
+
+  it("returns a plan and a token before deleting, and deletes with the token", async () => {
+    const pending = await callTool("delete_blog_article", { articleId: "601" });
+    const response = JSON.parse(pending.content[0].text);
+    expect(response).toMatchObject({
+      confirmationRequired: true,
+      expiresAt: "2024-06-01T00:01:00.000Z",
+      changes: [expect.objectContaining({ action: "delete", title: "Packing for summer" })],
+    });
+    expect(fake.blogArticles.has("601")).toBe(true);
+    expect(mutations()).toEqual([]);
+
+    const confirmed = await callTool("delete_blog_article", {
+      articleId: "601",
+      confirmationToken: response.confirmationToken,
+    });
+    expect(confirmed.isError).toBeFalsy();
+    expect(fake.blogArticles.has("601")).toBe(false);
+
+    // Tokens can be used once
+    const reused = await callTool("delete_blog_article", {
+      articleId: "601",
+      confirmationToken: response.confirmationToken,
+    });
+    expect(reused.isError).toBe(true);
+    expect(reused.content[0].text).toContain("confirmation token is invalid");
+  });
+
+  it("rejects tokens issued for other arguments or past their expiry", async () => {
+    const token = await requestToken("delete_blog_article", { articleId: "601" });
+    const other = await callTool("delete_blog_article", { articleId: "602", confirmationToken: token });
+    expect(other.isError).toBe(true);
+    // A mismatched token is used up as well
+    const original = await callTool("delete_blog_article", { articleId: "601", confirmationToken: token });
+    expect(original.isError).toBe(true);
+
+    const expiring = await requestToken("delete_blog_article", { articleId: "601" });
+    now += 60_001;
+    const expired = await callTool("delete_blog_article", { articleId: "601", confirmationToken: expiring });
+    expect(expired.isError).toBe(true);
+    expect(fake.blogArticles.size).toBe(2);
+    expect(mutations()).toEqual([]);
+  });
+
+  it("only asks for confirmation above the item threshold", async () => {
+    const single = await callTool("bulk-update-variant-prices", {
+      updates: [{ variantId: "gid://shopify/ProductVariant/1011", newPrice: 42 }],
+    });
+    expect(JSON.parse(single.content[0].text).updatedCount).toBe(1);
+
+    const updates = [
+      { variantId: "gid://shopify/ProductVariant/1012", newPrice: 46 },
+      { variantId: "gid://shopify/ProductVariant/1021", newPrice: 26 },
+    ];
+    const token = await requestToken("bulk-update-variant-prices", { updates });
+    expect(mutations()).toEqual(["bulkUpdateVariantPrices"]);
+
+    const confirmed = await callTool("bulk-update-variant-prices", { updates, confirmationToken: token });
+    expect(JSON.parse(confirmed.content[0].text).updatedCount).toBe(2);
+    expect(fake.products.get("gid://shopify/Product/102")!.variants.edges[0].node.price).toBe("26.00");
+  });
+
+  it("returns invalid plans without a token", async () => {
+    const result = await callTool("bulk-update-variant-prices", {
+      updates: [
+        { variantId: "gid://shopify/ProductVariant/1011", newPrice: 42 },
+        { variantId: "gid://shopify/ProductVariant/9999", newPrice: 10 },
+      ],
+    });
+    expect(result.isError).toBe(true);
+    const plan = JSON.parse(result.content[0].text);
+    expect(plan).toMatchObject({ dryRun: true, valid: false });
+    expect(plan.confirmationToken).toBeUndefined();
+    expect(mutations()).toEqual([]);
+  });
+
+  it("only asks to confirm unsubscribing webhooks", async () => {
+    const subscribed = await callTool("manage-webhook", {
+      action: "subscribe",
+      topic: "products/update",
+      callbackUrl: "https://hooks.example.com/products",
+    });
+    expect(subscribed.content[0].text).toContain("Successfully subscribed");
+
+    const args = { action: "unsubscribe", webhookId: "gid://shopify/WebhookSubscription/701" };
+    const token = await requestToken("manage-webhook", args);
+    expect(fake.webhooks.size).toBe(2);
+
+    const confirmed = await callTool("manage-webhook", { ...args, confirmationToken: token });
+    expect(confirmed.content[0].text).toContain("Successfully unsubscribed");
+    expect(fake.webhooks.size).toBe(1);
+  });
+
+  it("runs dry runs, and every call when deletes are not confirmed, without a token", async () => {
+    const dryRun = await callTool("delete_blog_article", { articleId: "601", dryRun: true });
+    expect(JSON.parse(dryRun.content[0].text)).toMatchObject({ dryRun: true, valid: true });
+
+    context.confirmations = new ConfirmationStore({ confirmDeletes: false, itemThreshold: 10, ttl: 60_000 });
+    const deleted = await callTool("delete_blog_article", { articleId: "601" });
+    expect(deleted.isError).toBeFalsy();
+    expect(fake.blogArticles.has("601")).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+import { jest } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FakeShopifyClient } from "../ShopifyClient/FakeShopifyClient.js";
+import { ShopifyClientPort } from "../ShopifyClient/ShopifyClientPort.js";
+import { registerExtendedProductTools } from "../tools/extendedProductTools.js";
+import { registerCustomerTools } from "../tools/customerTools.js";
+import { registerOrderTools } from "../tools/orderTools.js";
+import { registerDiscountTools } from "../tools/discountTools.js";
+import { registerWebhookTools } from "../tools/webhookTools.js";
+import { registerBlogTools } from "../tools/blogTools.js";
+import { connectClient, createFixtures, createToolContext, ToolResult } from "./fixtures.js";
+
+// Methods of the port that only read, which a dry run may call
+const READ_METHODS = new Set<keyof ShopifyClientPort>([
+  "loadProductsByIds",
+  "loadVariantsByIds",
+  "getCustomer",
+  "loadDraftOrders",
+  "getDiscount",
+  "loadDiscounts",
+  "getWebhook",
+  "findWebhookByTopicAndCallbackUrl",
+  "loadBlogArticle",
+]);
+
+describe("dry run", () => {
+  let client: Client;
+  let fake: FakeShopifyClient;
+
+  async function dryRun(name: string, args: Record<string, unknown>): Promise<{ result: ToolResult; plan: any }> {
+    const result = (await client.callTool({ name, arguments: { ...args, dryRun: true } })) as ToolResult;
+    return { result, plan: JSON.parse(result.content[0].text) };
+  }
+
+  function expectNoWrites(): void {
+    expect(fake.calls.filter((call) => !READ_METHODS.has(call.method)).map((call) => call.method)).toEqual([]);
+  }
+
+  beforeAll(async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const context = createToolContext(() => fake);
+
+    const server = new McpServer({ name: "shopify-dry-run-test", version: "0.0.0" });
+    registerExtendedProductTools(server, context);
+    registerCustomerTools(server, context);
+    registerOrderTools(server, context);
+    registerDiscountTools(server, context);
+    registerWebhookTools(server, context);
+    registerBlogTools(server, context);
+
+    client = await connectClient(server);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    fake = new FakeShopifyClient(createFixtures());
+  });
+
+  it("offers dryRun on every write tool", async () => {
+    const { tools } = await client.listTools();
+    const writeTools = tools.filter((tool) => !tool.annotations?.readOnlyHint);
+    expect(writeTools.length).toBeGreaterThan(0);
+    for (const tool of writeTools) {
+      expect([tool.name, tool.inputSchema.properties?.dryRun]).toEqual([tool.name, expect.anything()]);
+    }
+  });
+
+  it("bulk-update-variant-prices reports before and after prices without changing them", async () => {
+    const { result, plan } = await dryRun("bulk-update-variant-prices", {
+      updates: [
+        { variantId: "gid://shopify/ProductVariant/1011", newPrice: 42 },
+        { variantId: "gid://shopify/ProductVariant/1021", newPrice: 25 },
+      ],
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(plan).toMatchObject({ dryRun: true, valid: true });
+    expect(plan.changes).toEqual([
+      expect.objectContaining({
+        operation: "bulkUpdateVariantPrices",
+        id: "gid://shopify/ProductVariant/1011",
+        title: "Linen Shirt - S",
+        changes: [{ field: "price", before: "40.00", after: "42.00" }],
+        errors: [],
+      }),
+      // Unchanged prices are planned without field changes
+      expect.objectContaining({ id: "gid://shopify/ProductVariant/1021", changes: [] }),
+    ]);
+    expect(fake.products.get("gid://shopify/Product/101")!.variants.edges[0].node.price).toBe("40.00");
+    expectNoWrites();
+  });
+
+  it("bulk-update-products diffs product fields and reports missing products", async () => {
+    const { result, plan } = await dryRun("bulk-update-products", {
+      updates: [
+        { productId: "gid://shopify/Product/102", vendor: "Knitters", tags: ["winter"] },
+        { productId: "gid://shopify/Product/999", title: "Ghost" },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(plan.valid).toBe(false);
+    expect(plan.changes[0]).toMatchObject({
+      action: "update",
+      resource: "product",
+      title: "Wool Scarf",
+      changes: [
+        { field: "vendor", before: "Acme", after: "Knitters" },
+        { field: "tags", before: [], after: ["winter"] },
+      ],
+      errors: [],
+    });
+    expect(plan.changes[1].errors).toEqual([expect.stringContaining("not found")]);
+    expect(fake.products.get("gid://shopify/Product/102")?.vendor).toBe("Acme");
+    expectNoWrites();
+  });
+
+  it("create-product validates its input against Shopify's limits", async () => {
+    const { result, plan } = await dryRun("create-product", {
+      title: "x".repeat(300),
+      description: "Too long",
+      variants: [{ title: "One Size", price: 10, inventory: 1 }],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(plan.changes[0]).toMatchObject({ action: "create", id: null });
+    expect(plan.changes[0].errors).toEqual(["title: must be at most 255 characters (got 300)"]);
+    expect(fake.products.size).toBe(3);
+    expectNoWrites();
+  });
+
+  it("tag-customer shows the tags it would set", async () => {
+    const { plan } = await dryRun("tag-customer", { customerId: "301", tags: ["vip", "wholesale"] });
+
+    expect(plan.changes[0]).toMatchObject({
+      resource: "customer",
+      title: "Ada Lovelace",
+      changes: [{ field: "tags", before: "vip", after: "vip, wholesale" }],
+    });
+    expectNoWrites();
+  });
+
+  it("create-discount checks the schedule and plans the discount", async () => {
+    const { result, plan } = await dryRun("create-discount", {
+      title: "Spring",
+      code: "SPRING10",
+      valueType: "percentage",
+      value: 0.1,
+      startsAt: "2024-04-01T00:00:00Z",
+      endsAt: "2024-03-01T00:00:00Z",
+      appliesOncePerCustomer: false,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(plan.changes[0]).toMatchObject({ operation: "createBasicDiscountCode", resource: "discount", title: "Spring" });
+    expect(plan.changes[0].errors).toContain("endsAt: must be after startsAt");
+    expectNoWrites();
+  });
+
+  it("manage-webhook rejects endpoints Shopify would refuse", async () => {
+    const { result, plan } = await dryRun("manage-webhook", {
+      action: "subscribe",
+      topic: "orders/create",
+      callbackUrl: "http://hooks.example.com/orders",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(plan.changes[0].errors).toEqual(["callbackUrl: must use https"]);
+    expectNoWrites();
+  });
+
+  it("delete_blog_article plans the deletion of the existing article", async () => {
+    const { result, plan } = await dryRun("delete_blog_article", { articleId: "601" });
+
+    expect(result.isError).toBeFalsy();
+    expect(plan.changes[0]).toMatchObject({
+      action: "delete",
+      resource: "blogArticle",
+      title: "Packing for summer",
+      changes: [{ field: "title", before: "Packing for summer", after: null }],
+    });
+    expectNoWrites();
+  });
+});
@@ -0,0 +1,223 @@
+import { jest } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ShopRegistry } from "../config/shops.js";
+import { FakeProduct, FakeShopifyFixtures } from "../ShopifyClient/FakeShopifyClient.js";
+import { ShopifyClientPort, ShopifyWebhookTopic } from "../ShopifyClient/ShopifyClientPort.js";
+import { ToolContext } from "../tools/toolContext.js";
+import { Cache } from "../utils/cache.js";
+
+export type ToolResult = {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+};
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+}
+
+/**
+ * Answers the next fetch calls with the given GraphQL data, in order; the
+ * caller restores the returned spy
+ */
+export function mockGraphqlResponses(...responses: unknown[]) {
+  const fetchMock = jest.spyOn(globalThis, "fetch");
+  for (const data of responses) {
+    fetchMock.mockImplementationOnce(async () => jsonResponse({ data }));
+  }
+  // The GraphQL requests sent so far
+  const requests = () =>
+    fetchMock.mock.calls.map(([, init]) => JSON.parse(init!.body as string) as { query: string; variables: any });
+  return { fetchMock, requests };
+}
+
+/**
+ * A tool context for the single shop "main"; the client factory is usually a
+ * closure over the fake a test recreates before each case
+ */
+export function createToolContext(
+  createClient: () => ShopifyClientPort,
+  overrides: Partial<ToolContext> = {}
+): ToolContext {
+  return {
+    shopRegistry: new ShopRegistry({
+      defaultShop: "main",
+      shops: [{ name: "main", shopDomain: "main.myshopify.com", accessToken: "shpat_main", apiVersion: "2024-04" }],
+    }),
+    createClient,
+    responseCache: new Cache(),
+    ...overrides,
+  };
+}
+
+/**
+ * Connects a client to the server over an in-memory transport
+ */
+export async function connectClient(server: McpServer): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+function product(
+  id: number,
+  title: string,
+  variants: Array<{ id: number; title: string; price: string; sku: string }>
+): FakeProduct {
+  return {
+    id: `gid://shopify/Product/${id}`,
+    handle: title.toLowerCase().replace(/\s+/g, "-"),
+    title,
+    description: `${title} description`,
+    publishedAt: "2024-01-01T00:00:00Z",
+    updatedAt: "2024-01-01T00:00:00Z",
+    options: [{ id: `gid://shopify/ProductOption/${id}`, name: "Size", values: variants.map((v) => v.title) }],
+    images: { edges: [{ node: { src: `https://cdn.example.com/${id}.jpg`, height: 800, width: 800 } }] },
+    variants: {
+      edges: variants.map((variant) => ({
+        node: {
+          id: `gid://shopify/ProductVariant/${variant.id}`,
+          title: variant.title,
+          price: variant.price,
+          sku: variant.sku,
+          availableForSale: true,
+          image: null,
+          inventoryPolicy: "DENY" as const,
+          // Filled in from the inventory map below when products are read
+          inventoryQuantity: null,
+          selectedOptions: [{ name: "Size", value: variant.title }],
+        },
+      })),
+    },
+    status: "ACTIVE",
+    vendor: "Acme",
+    productType: "Apparel",
+    tags: [],
+  };
+}
+
+function lineItem(id: number, title: string, variantId: number, sku: string, quantity: number, price: string) {
+  const total = { amount: (Number(price) * quantity).toFixed(2), currencyCode: "USD" };
+  return {
+    id: `gid://shopify/LineItem/${id}`,
+    title,
+    quantity,
+    currentQuantity: quantity,
+    originalTotalSet: { shopMoney: total },
+    discountedTotalSet: { shopMoney: total },
+    // Variant IDs are their product ID followed by one digit
+    product: { id: `gid://shopify/Product/${Math.floor(variantId / 10)}` },
+    variant: { id: `gid://shopify/ProductVariant/${variantId}`, title: sku, sku, price },
+  };
+}
+
+function order(
+  id: number,
+  name: string,
+  email: string,
+  amount: string,
+  createdAt: string,
+  lineItems: ReturnType<typeof lineItem>[] = []
+) {
+  return {
+    id: `gid://shopify/Order/${id}`,
+    name,
+    createdAt,
+    displayFinancialStatus: "PAID",
+    email,
+    phone: null,
+    totalPriceSet: {
+      shopMoney: { amount, currencyCode: "USD" },
+      presentmentMoney: { amount, currencyCode: "USD" },
+    },
+    customer: null,
+    shippingAddress: { provinceCode: "CA", countryCode: "US" },
+    lineItems: { nodes: lineItems },
+  };
+}
+
+/**
+ * A small store used by the offline tool tests
+ */
+export function createFixtures(): FakeShopifyFixtures {
+  return {
+    products: [
+      product(101, "Linen Shirt", [
+        { id: 1011, title: "S", price: "40.00", sku: "SHIRT-S" },
+        { id: 1012, title: "M", price: "45.00", sku: "SHIRT-M" },
+      ]),
+      product(102, "Wool Scarf", [{ id: 1021, title: "One Size", price: "25.00", sku: "SCARF" }]),
+      product(103, "Canvas Tote", [{ id: 1031, title: "One Size", price: "15.00", sku: "TOTE" }]),
+    ],
+    inventory: {
+      "gid://shopify/ProductVariant/1011": 12,
+      "gid://shopify/ProductVariant/1012": 3,
+      "gid://shopify/ProductVariant/1021": 0,
+      "gid://shopify/ProductVariant/1031": 40,
+    },
+    collections: [
+      {
+        id: 501,
+        handle: "summer",
+        title: "Summer",
+        updated_at: "2024-01-01T00:00:00Z",
+        body_html: null,
+        published_at: "2024-01-01T00:00:00Z",
+        sort_order: "manual",
+        published_scope: "web",
+        productIds: ["gid://shopify/Product/101", "gid://shopify/Product/103"],
+      },
+      {
+        id: 502,
+        handle: "winter",
+        title: "Winter",
+        updated_at: "2024-01-01T00:00:00Z",
+        body_html: null,
+        published_at: "2024-01-01T00:00:00Z",
+        sort_order: "manual",
+        published_scope: "web",
+        productIds: ["gid://shopify/Product/102"],
+      },
+    ],
+    customers: [
+      { id: 301, email: "ada@example.com", first_name: "Ada", last_name: "Lovelace", orders_count: 2, tags: "vip" },
+      { id: 302, email: "alan@example.com", first_name: "Alan", last_name: "Turing", orders_count: 0, tags: "" },
+    ],
+    orders: [
+      order(401, "#1001", "ada@example.com", "85.00", "2024-02-01T10:00:00Z", [
+        lineItem(4011, "Linen Shirt", 1011, "SHIRT-S", 1, "40.00"),
+        lineItem(4012, "Linen Shirt", 1012, "SHIRT-M", 1, "45.00"),
+      ]),
+      order(402, "#1002", "ada@example.com", "15.00", "2024-02-03T10:00:00Z", [
+        lineItem(4021, "Canvas Tote", 1031, "TOTE", 1, "15.00"),
+      ]),
+    ],
+    blogArticles: [
+      {
+        id: "601",
+        title: "Packing for summer",
+        author: "Ada",
+        body_html: "<p>Linen all the way.</p>",
+        published_at: "2024-03-01T00:00:00Z",
+        tags: ["summer"],
+        status: "published",
+        blog: { id: "91", handle: "news" },
+      },
+      {
+        id: "602",
+        title: "Winter layering",
+        author: "Alan",
+        body_html: "<p>Draft</p>",
+        published_at: "2024-03-02T00:00:00Z",
+        tags: ["winter"],
+        status: "draft",
+        blog: { id: "91", handle: "news" },
+      },
+    ],
+    webhooks: [
+      { id: "gid://shopify/WebhookSubscription/701", topic: ShopifyWebhookTopic.ORDERS_UPDATED, callbackUrl: "https://hooks.example.com/orders" },
+    ],
+  };
+}
@@ -0,0 +1,184 @@
+import { jest } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { request, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { TransportConfig } from "../config/index.js";
+import { startHttpServer } from "../transport/httpServer.js";
+
+const AUTH_TOKEN = "secret-token";
+const INITIALIZE = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test-client", version: "0.0.0" } },
+});
+
+describe("HTTP transport", () => {
+  let httpServer: Server;
+  let baseUrl: string;
+  let serversCreated: number;
+
+  function createMcpServer(): McpServer {
+    serversCreated++;
+    const server = new McpServer({ name: "shopify-http-test", version: "0.0.0" });
+    server.tool("ping", "Replies pong", async () => ({ content: [{ type: "text", text: "pong" }] }));
+    return server;
+  }
+
+  async function health(): Promise<{ status: string; sessions: number }> {
+    return (await fetch(`${baseUrl}/health`)).json();
+  }
+
+  function post(path: string, body: string, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${AUTH_TOKEN}`,
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body,
+    });
+  }
+
+  function start(options: Partial<TransportConfig> = {}): Promise<Server> {
+    return startHttpServer(createMcpServer, {
+      type: "http",
+      port: 0,
+      host: "127.0.0.1",
+      authToken: AUTH_TOKEN,
+      allowedHosts: [],
+      sessionIdleTimeoutMs: 60_000,
+      ...options,
+    });
+  }
+
+  async function stop(server: Server): Promise<void> {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+
+  // fetch does not let callers choose the Host header
+  function postWithHost(server: Server, host: string, body: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const req = request(
+        {
+          port: (server.address() as AddressInfo).port,
+          host: "127.0.0.1",
+          path: "/mcp",
+          method: "POST",
+          headers: { Host: host, "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+        },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode!);
+        }
+      );
+      req.on("error", reject);
+      req.end(body);
+    });
+  }
+
+  beforeAll(async () => {
+    httpServer = await start();
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await stop(httpServer);
+  });
+
+  beforeEach(() => {
+    serversCreated = 0;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("requires the bearer token everywhere but /health", async () => {
+    expect(await health()).toEqual({ status: "ok", sessions: 0 });
+
+    const missing = await fetch(`${baseUrl}/mcp`, { method: "POST", body: "{}" });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toBe('Bearer realm="shopify-mcp"');
+
+    const wrong = await post("/mcp", "{}", { Authorization: "Bearer secret-tokem" });
+    expect(wrong.status).toBe(401);
+    expect(serversCreated).toBe(0);
+
+    // Authorized requests get past the check; this one is no initialize request
+    expect((await post("/mcp", "{}")).status).toBe(400);
+  });
+
+  it("opens a session per client and forgets it when the client ends it", async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${AUTH_TOKEN}` } },
+    });
+    const client = new Client({ name: "test-client", version: "0.0.0" });
+    await client.connect(transport);
+
+    expect(transport.sessionId).toBeDefined();
+    expect(serversCreated).toBe(1);
+    expect(await health()).toEqual({ status: "ok", sessions: 1 });
+    expect(await client.callTool({ name: "ping", arguments: {} })).toMatchObject({ content: [{ text: "pong" }] });
+
+    const sessionId = transport.sessionId!;
+    await transport.terminateSession();
+    await client.close();
+    expect(await health()).toEqual({ status: "ok", sessions: 0 });
+
+    const ended = await post("/mcp", JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }), {
+      "Mcp-Session-Id": sessionId,
+    });
+    expect(ended.status).toBe(404);
+  });
+
+  it("answers bodies over the size limit with 413", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const oversized = await post("/mcp", JSON.stringify({ padding: "x".repeat(4 * 1024 * 1024) }));
+    expect(oversized.status).toBe(413);
+    expect(await oversized.json()).toMatchObject({ error: { message: "Request body too large" } });
+    expect(console.error).not.toHaveBeenCalled();
+
+    const malformed = await post("/mcp", "{");
+    expect(malformed.status).toBe(400);
+  });
+
+  it("closes sessions whose client went away without ending them", async () => {
+    const idleServer = await start({ sessionIdleTimeoutMs: 100 });
+    const idleUrl = `http://127.0.0.1:${(idleServer.address() as AddressInfo).port}`;
+    try {
+      const transport = new StreamableHTTPClientTransport(new URL(`${idleUrl}/mcp`), {
+        requestInit: { headers: { Authorization: `Bearer ${AUTH_TOKEN}` } },
+      });
+      const client = new Client({ name: "test-client", version: "0.0.0" });
+      await client.connect(transport);
+      await client.close();
+      expect(await (await fetch(`${idleUrl}/health`)).json()).toMatchObject({ sessions: 1 });
+
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      expect(await (await fetch(`${idleUrl}/health`)).json()).toMatchObject({ sessions: 0 });
+    } finally {
+      await stop(idleServer);
+    }
+  });
+
+  it("only accepts its own host names when no token is configured", async () => {
+    const openServer = await start({ authToken: undefined, allowedHosts: ["mcp.internal:8080"] });
+    const port = (openServer.address() as AddressInfo).port;
+    try {
+      expect(await postWithHost(openServer, "attacker.example.com", INITIALIZE)).toBe(403);
+      expect(await postWithHost(openServer, `localhost:${port}`, INITIALIZE)).toBe(200);
+      expect(await postWithHost(openServer, "mcp.internal:8080", INITIALIZE)).toBe(200);
+
+      // With a token the bearer check guards the server instead
+      expect(await postWithHost(httpServer, "attacker.example.com", INITIALIZE)).toBe(401);
+    } finally {
+      await stop(openServer);
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FakeShopifyClient } from "../ShopifyClient/FakeShopifyClient.js";
+import { registerMerchantPrompts } from "../prompts/merchantPrompts.js";
+import { connectClient, createFixtures, createToolContext } from "./fixtures.js";
+
+describe("MCP prompts (offline)", () => {
+  let client: Client;
+  let fake: FakeShopifyClient;
+
+  // Returns the instructions and the parsed store data embedded in a prompt
+  async function getPrompt(name: string, args: Record<string, string> = {}): Promise<{ text: string; data: any }> {
+    const { messages } = await client.getPrompt({ name, arguments: args });
+    expect(messages).toHaveLength(1);
+    const text = messages[0].content.type === "text" ? messages[0].content.text : "";
+    const json = text.match(/```json\n([\s\S]*)\n```/);
+    return { text, data: JSON.parse(json![1]) };
+  }
+
+  beforeEach(async () => {
+    fake = new FakeShopifyClient(createFixtures());
+
+    const context = createToolContext(() => fake);
+
+    const server = new McpServer({ name: "shopify-prompts-test", version: "0.0.0" });
+    registerMerchantPrompts(server, context);
+
+    client = await connectClient(server);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("lists the prompts with their arguments", async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      "weekly-sales-summary",
+      "product-description",
+      "low-stock-audit",
+      "collection-blog-post",
+      "triage-unfulfilled-orders",
+    ]);
+
+    const description = prompts.find((prompt) => prompt.name === "product-description")!;
+    expect(description.arguments!.filter((argument) => argument.required).map((argument) => argument.name)).toEqual([
+      "productId",
+      "specs",
+    ]);
+  });
+
+  it("summarizes a week of sales against the previous week", async () => {
+    const { text, data } = await getPrompt("weekly-sales-summary", { weekEnding: "2024-02-07" });
+
+    expect(text).toContain("weekly sales summary");
+    expect(data.week).toMatchObject({ orderCount: 2, revenue: 100, averageOrderValue: 50, truncated: false });
+    expect(data.week.topProducts).toEqual([
+      { title: "Linen Shirt", quantity: 2, revenue: 85 },
+      { title: "Canvas Tote", quantity: 1, revenue: 15 },
+    ]);
+    expect(data.previousWeek.orderCount).toBe(0);
+
+    const { data: earlier } = await getPrompt("weekly-sales-summary", { weekEnding: "2024-02-02" });
+    expect(earlier.week).toMatchObject({ orderCount: 1, revenue: 85 });
+  });
+
+  it("embeds the product and specifications in the description prompt", async () => {
+    const { text, data } = await getPrompt("product-description", {
+      productId: "101",
+      specs: "100% European linen, relaxed fit",
+      tone: "playful",
+    });
+
+    expect(text).toContain("100% European linen, relaxed fit");
+    expect(text).toContain("playful");
+    expect(data.product.title).toBe("Linen Shirt");
+    expect(data.product.variants.map((variant: any) => variant.sku)).toEqual(["SHIRT-S", "SHIRT-M"]);
+
+    await expect(client.getPrompt({ name: "product-description", arguments: { productId: "999", specs: "x" } })).rejects.toThrow(
+      "Product 999 not found"
+    );
+  });
+
+  it("reports variants at or below the stock threshold", async () => {
+    const { data } = await getPrompt("low-stock-audit", { threshold: "3" });
+    expect(data.productsScanned).toBe(3);
+    expect(data.lowStock.map((variant: any) => [variant.sku, variant.inventoryQuantity])).toEqual([
+      ["SHIRT-M", 3],
+      ["SCARF", 0],
+    ]);
+
+    await expect(client.getPrompt({ name: "low-stock-audit", arguments: { threshold: "a few" } })).rejects.toThrow();
+  });
+
+  it("embeds the collection, its products and recent articles in the blog post prompt", async () => {
+    const { text, data } = await getPrompt("collection-blog-post", { collectionId: "501", angle: "beach holidays" });
+
+    expect(text).toContain("beach holidays");
+    expect(data.collection).toMatchObject({ title: "Summer", url: "https://main.myshopify.com/collections/summer" });
+    expect(data.products.map((product: any) => product.title)).toEqual(["Linen Shirt", "Canvas Tote"]);
+    expect(data.recentArticles.map((article: any) => article.title)).toEqual(["Packing for summer", "Winter layering"]);
+  });
+
+  it("lists unfulfilled orders oldest first for triage", async () => {
+    const { data } = await getPrompt("triage-unfulfilled-orders", { maxOrders: "1" });
+
+    expect(data.hasMoreOrders).toBe(true);
+    expect(data.orders).toHaveLength(1);
+    expect(data.orders[0]).toMatchObject({ name: "#1001", financialStatus: "PAID" });
+    expect(data.orders[0].lineItems).toEqual([
+      { title: "Linen Shirt", sku: "SHIRT-S", quantity: 1 },
+      { title: "Linen Shirt", sku: "SHIRT-M", quantity: 1 },
+    ]);
+    expect(fake.calls.filter((call) => call.method === "loadOrders").at(-1)!.args[0]).toMatchObject({
+      query: "fulfillment_status:unfulfilled status:open",
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { FakeShopifyClient } from "../ShopifyClient/FakeShopifyClient.js";
+import { registerStoreResources } from "../resources/storeResources.js";
+import { WebhookEvent, WebhookEventStore } from "../utils/webhookEventStore.js";
+import { connectClient, createFixtures, createToolContext } from "./fixtures.js";
+
+describe("MCP resources (offline)", () => {
+  let client: Client;
+  let fake: FakeShopifyClient;
+  let webhookEvents: WebhookEventStore;
+  let deliveries = 0;
+
+  function deliver(topic: string, payload: unknown, shopDomain = "main.myshopify.com"): Promise<boolean> {
+    const event: WebhookEvent = {
+      id: `delivery-${++deliveries}`,
+      topic,
+      shopDomain,
+      apiVersion: "2023-10",
+      eventId: null,
+      triggeredAt: null,
+      receivedAt: new Date().toISOString(),
+      payload,
+    };
+    return webhookEvents.add(event);
+  }
+
+  async function readJson(uri: string): Promise<any> {
+    const { contents } = await client.readResource({ uri });
+    return JSON.parse(contents[0].text as string);
+  }
+
+  beforeEach(async () => {
+    fake = new FakeShopifyClient(createFixtures());
+    webhookEvents = new WebhookEventStore();
+
+    const context = createToolContext(() => fake, { webhookEvents });
+
+    const server = new McpServer({ name: "shopify-resources-test", version: "0.0.0" });
+    registerStoreResources(server, context);
+
+    client = await connectClient(server);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("lists the shop and the resources of every template", async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((template) => template.uriTemplate).sort()).toEqual([
+      "shopify://blogs/{blog}/articles/{id}",
+      "shopify://collections/{id}",
+      "shopify://orders/{name}",
+      "shopify://products/{id}",
+    ]);
+
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      "shopify://shop",
+      "shopify://products/101",
+      "shopify://products/102",
+      "shopify://products/103",
+      "shopify://collections/501",
+      "shopify://collections/502",
+      "shopify://orders/1002",
+      "shopify://orders/1001",
+      "shopify://blogs/news/articles/601",
+      "shopify://blogs/news/articles/602",
+    ]);
+  });
+
+  it("reads the shop, products, collections, orders and articles", async () => {
+    expect((await readJson("shopify://shop")).myshopifyDomain).toBe("main.myshopify.com");
+    expect((await readJson("shopify://products/102")).title).toBe("Wool Scarf");
+    expect((await readJson("shopify://collections/502")).title).toBe("Winter");
+    expect((await readJson("shopify://orders/1002")).id).toBe("gid://shopify/Order/402");
+    expect((await readJson("shopify://orders/%231001")).id).toBe("gid://shopify/Order/401");
+    expect((await readJson("shopify://blogs/news/articles/601")).title).toBe("Packing for summer");
+  });
+
+  it("rejects unknown resources", async () => {
+    await expect(client.readResource({ uri: "shopify://products/999" })).rejects.toThrow("not found");
+    await expect(client.readResource({ uri: "shopify://blogs/recipes/articles/601" })).rejects.toThrow("not found");
+  });
+
+  it("notifies subscribers when a webhook for their resource arrives", async () => {
+    const updated: string[] = [];
+    let listChanged = 0;
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+    await client.subscribeResource({ uri: "shopify://orders/1001" });
+
+    await deliver("orders/updated", { id: 401, name: "#1001" });
+    await deliver("orders/updated", { id: 402, name: "#1002" });
+    await deliver("orders/updated", { id: 401, name: "#1001" }, "other.myshopify.com");
+    await deliver("products/create", { id: 104 });
+    // Notifications are delivered asynchronously over the in-memory transport
+    await client.ping();
+
+    expect(updated).toEqual(["shopify://orders/1001"]);
+    expect(listChanged).toBe(1);
+
+    await client.unsubscribeResource({ uri: "shopify://orders/1001" });
+    await deliver("orders/updated", { id: 401, name: "#1001" });
+    await client.ping();
+    expect(updated).toHaveLength(1);
+  });
+});
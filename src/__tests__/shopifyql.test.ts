@@ -0,0 +1,166 @@
+import { jest } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FakeShopifyClient } from "../ShopifyClient/FakeShopifyClient.js";
+import { QueryCostThrottler } from "../ShopifyClient/QueryCostThrottler.js";
+import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
+import { ShopifyqlTableResponse } from "../ShopifyClient/ShopifyClientPort.js";
+import { registerAnalyticsTools } from "../tools/analyticsTools.js";
+import { registerProductTools } from "../tools/productTools.js";
+import { buildSalesOverTimeQuery, buildTopProductsQuery, parseShopifyqlTable } from "../utils/shopifyql.js";
+import { connectClient, createFixtures, createToolContext, jsonResponse, ToolResult } from "./fixtures.js";
+
+const salesTable: ShopifyqlTableResponse = {
+  columns: [
+    { name: "day", dataType: "DAY_TIMESTAMP", displayName: "Day" },
+    { name: "total_sales", dataType: "MONEY", displayName: "Total sales" },
+    { name: "orders", dataType: "INTEGER", displayName: "Orders" },
+    { name: "conversion_rate", dataType: "PERCENT", displayName: "Conversion rate" },
+  ],
+  rowData: [
+    ["2024-02-01", "85.00", "1", "2.5%"],
+    ["2024-02-02", "", "0", "0"],
+  ],
+};
+
+describe("ShopifyQL", () => {
+  it("types the cells of numeric columns", () => {
+    expect(parseShopifyqlTable(salesTable).rows).toEqual([
+      { day: "2024-02-01", total_sales: 85, orders: 1, conversion_rate: 2.5 },
+      { day: "2024-02-02", total_sales: null, orders: 0, conversion_rate: 0 },
+    ]);
+  });
+
+  it("builds canned reports and rejects dates that are not ShopifyQL dates", () => {
+    expect(buildSalesOverTimeQuery({ since: "-7d" }, "week")).toBe(
+      "FROM sales SHOW total_sales, net_sales, gross_sales, orders GROUP BY week SINCE -7d UNTIL today ORDER BY week ASC"
+    );
+    expect(buildTopProductsQuery({ since: "2024-01-01", until: "2024-01-31" }, 5)).toContain(
+      "SINCE 2024-01-01 UNTIL 2024-01-31 ORDER BY net_sales DESC LIMIT 5"
+    );
+    expect(() => buildSalesOverTimeQuery({ since: "2024-01-01 UNTIL today; FROM" })).toThrow("Invalid ShopifyQL date");
+    expect(() => buildTopProductsQuery({ since: "-7d" }, 0)).toThrow("limit must be");
+  });
+
+  it("reads the table of the TableResponse and throws its parse errors", async () => {
+    const client = new ShopifyClient(new QueryCostThrottler());
+    jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(
+        jsonResponse({
+          data: {
+            shopifyqlQuery: {
+              __typename: "TableResponse",
+              parseErrors: [],
+              tableData: { columns: salesTable.columns, rowData: salesTable.rowData },
+            },
+          },
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          data: {
+            shopifyqlQuery: {
+              __typename: "TableResponse",
+              parseErrors: [{ code: "SYNTAX_ERROR", message: "Unexpected token SHOWW" }],
+              tableData: null,
+            },
+          },
+        })
+      );
+
+    await expect(client.runShopifyqlQuery("shpat_main", "main.myshopify.com", "FROM sales SHOW total_sales")).resolves.toEqual(
+      salesTable
+    );
+    await expect(client.runShopifyqlQuery("shpat_main", "main.myshopify.com", "FROM sales SHOWW")).rejects.toMatchObject({
+      innerError: [{ code: "SYNTAX_ERROR", message: "Unexpected token SHOWW" }],
+    });
+    jest.restoreAllMocks();
+  });
+
+  describe("tools", () => {
+    let client: Client;
+    let fake: FakeShopifyClient;
+
+    async function callTool(name: string, args: Record<string, unknown>): Promise<ToolResult> {
+      return (await client.callTool({ name, arguments: args })) as ToolResult;
+    }
+
+    beforeAll(async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      const context = createToolContext(() => fake);
+
+      const server = new McpServer({ name: "shopify-shopifyql-test", version: "0.0.0" });
+      registerAnalyticsTools(server, context);
+      registerProductTools(server, context);
+
+      client = await connectClient(server);
+    });
+
+    afterAll(async () => {
+      await client.close();
+      jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+      fake = new FakeShopifyClient({ ...createFixtures(), shopifyqlTables: { sales: salesTable } });
+    });
+
+    it("run-shopifyql returns typed rows and reports parse errors", async () => {
+      const result = await callTool("run-shopifyql", { query: "FROM sales SHOW total_sales GROUP BY day" });
+      expect(result.isError).toBeFalsy();
+      const table = JSON.parse(result.content[0].text);
+      expect(table.columns.map((column: { name: string }) => column.name)).toEqual([
+        "day",
+        "total_sales",
+        "orders",
+        "conversion_rate",
+      ]);
+      expect(table.rows[0]).toEqual({ day: "2024-02-01", total_sales: 85, orders: 1, conversion_rate: 2.5 });
+
+      const failed = await callTool("run-shopifyql", { query: "FROM nowhere SHOW x" });
+      expect(failed.isError).toBe(true);
+      expect(failed.content[0].text).toContain("Unknown dataset nowhere");
+    });
+
+    it("get-analytics-report runs the canned report for the date range", async () => {
+      const result = await callTool("get-analytics-report", {
+        report: "sales-over-time",
+        since: "2024-02-01",
+        until: "2024-02-02",
+      });
+      expect(result.isError).toBeFalsy();
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ report: "sales-over-time", rows: [{}, {}] });
+      expect(fake.calls.map((call) => call.args[0])).toEqual([
+        "FROM sales SHOW total_sales, net_sales, gross_sales, orders GROUP BY day SINCE 2024-02-01 UNTIL 2024-02-02 ORDER BY day ASC",
+      ]);
+
+      await expect(callTool("get-analytics-report", { report: "top-products", since: "last week" })).rejects.toThrow(
+        "Must be YYYY-MM-DD"
+      );
+      expect(fake.calls).toHaveLength(1);
+    });
+
+    it("get-product-analytics adds storefront sessions from ShopifyQL", async () => {
+      fake.shopifyqlTables.set("products", {
+        columns: [
+          { name: "view_sessions", dataType: "INTEGER", displayName: "View sessions" },
+          { name: "cart_sessions", dataType: "INTEGER", displayName: "Cart sessions" },
+        ],
+        rowData: [["40", "8"]],
+      });
+
+      const result = await callTool("get-product-analytics", {
+        productId: "gid://shopify/Product/101",
+        startDate: "2024-02-01",
+        endDate: "2024-02-03",
+      });
+      const analytics = JSON.parse(result.content[0].text);
+      expect(analytics.storefront).toEqual({ viewSessions: 40, addToCartSessions: 8, conversionRate: 0.025 });
+      expect(analytics.unavailable).toEqual({});
+      expect(fake.calls.find((call) => call.method === "runShopifyqlQuery")!.args[0]).toBe(
+        "FROM products SHOW view_sessions, cart_sessions WHERE product_id = 101 SINCE 2024-02-01 UNTIL 2024-02-03"
+      );
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ToolPolicyConfig } from "../config/index.js";
+import { FakeShopifyClient } from "../ShopifyClient/FakeShopifyClient.js";
+import { registerProductTools } from "../tools/productTools.js";
+import { registerExtendedProductTools } from "../tools/extendedProductTools.js";
+import { registerCustomerTools } from "../tools/customerTools.js";
+import { registerOrderTools } from "../tools/orderTools.js";
+import { registerShopTools } from "../tools/shopTools.js";
+import { registerDiscountTools } from "../tools/discountTools.js";
+import { registerWebhookTools } from "../tools/webhookTools.js";
+import { registerBlogTools } from "../tools/blogTools.js";
+import { registerCacheTools } from "../tools/cacheTools.js";
+import { registerBulkOperationTools } from "../tools/bulkOperationTools.js";
+import { registerCatalogTools } from "../tools/catalogTools.js";
+import { ToolCategory, applyToolPolicy, isToolAllowed } from "../tools/toolPolicy.js";
+import { connectClient, createFixtures, createToolContext } from "./fixtures.js";
+
+describe("tool policy", () => {
+  let client: Client | undefined;
+  let fake: FakeShopifyClient;
+
+  // Registers every tool module the way the server does and connects a client to it
+  async function connect(policy: Partial<ToolPolicyConfig>): Promise<Client> {
+    const context = createToolContext(() => fake);
+
+    const server = new McpServer({ name: "shopify-policy-test", version: "0.0.0" });
+    const tools = (category: ToolCategory) =>
+      applyToolPolicy(server, category, { readOnly: false, allow: [], deny: [], ...policy });
+    registerProductTools(tools("products"), context);
+    registerExtendedProductTools(tools("products"), context);
+    registerCustomerTools(tools("customers"), context);
+    registerOrderTools(tools("orders"), context);
+    registerShopTools(tools("shop"), context);
+    registerDiscountTools(tools("discounts"), context);
+    registerWebhookTools(tools("webhooks"), context);
+    registerBlogTools(tools("blog"), context);
+    registerCacheTools(tools("cache"), context);
+    registerBulkOperationTools(tools("bulk"), context);
+    registerCatalogTools(tools("catalog"), context);
+
+    client = await connectClient(server);
+    return client;
+  }
+
+  async function toolNames(policy: Partial<ToolPolicyConfig>): Promise<string[]> {
+    const { tools } = await (await connect(policy)).listTools();
+    return tools.map((tool) => tool.name).sort();
+  }
+
+  beforeEach(() => {
+    fake = new FakeShopifyClient(createFixtures());
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    client = undefined;
+  });
+
+  it("registers every tool by default", async () => {
+    const names = await toolNames({});
+    expect(names).toContain("delete_blog_article");
+    expect(names).toContain("complete-draft-order");
+    expect(names).toContain("get-orders");
+  });
+
+  it("only registers read-only tools in read-only mode", async () => {
+    const { tools } = await (await connect({ readOnly: true })).listTools();
+    const names = tools.map((tool) => tool.name);
+
+    expect(tools.every((tool) => tool.annotations?.readOnlyHint === true)).toBe(true);
+    expect(names).toEqual(expect.arrayContaining(["get-orders", "get-shop", "get_blog_article", "list-webhooks"]));
+    expect(names).toEqual(expect.arrayContaining(["cache-stats", "get-bulk-operation"]));
+    for (const mutating of [
+      "delete_blog_article",
+      "complete-draft-order",
+      "create-product",
+      "manage-webhook",
+      "tag-customer",
+      // These leave the shop untouched but start an operation, drop cached responses or write a file
+      "start-bulk-query",
+      "clear-cache",
+      "export-products",
+    ]) {
+      expect(names).not.toContain(mutating);
+    }
+
+    await expect(
+      client!.callTool({ name: "delete_blog_article", arguments: { articleId: "601" } })
+    ).rejects.toThrow("not found");
+    expect(fake.calls).toEqual([]);
+  });
+
+  it("matches allow and deny patterns against tool names and categories", async () => {
+    expect(await toolNames({ allow: ["blog"] })).toEqual([
+      "create_blog_article",
+      "delete_blog_article",
+      "get_blog_article",
+      "get_blog_articles",
+      "update_blog_article",
+    ]);
+    expect(await toolNames({ allow: ["blog", "get-shop*"], deny: ["delete*"] })).toEqual([
+      "create_blog_article",
+      "get-shop",
+      "get-shop-details",
+      "get_blog_article",
+      "get_blog_articles",
+      "update_blog_article",
+    ]);
+    expect(await toolNames({ readOnly: true, allow: ["orders"] })).toEqual([
+      "calculate-draft-order",
+      "get-draft-orders",
+      "get-order",
+      "get-orders",
+    ]);
+  });
+
+  it("matches whole names, case-insensitively", () => {
+    const policy = { readOnly: false, allow: [], deny: ["DELETE-*", "get-order"] };
+    expect(isToolAllowed(policy, "delete-discount", "discounts")).toBe(false);
+    expect(isToolAllowed(policy, "get-order", "orders")).toBe(false);
+    expect(isToolAllowed(policy, "get-orders", "orders")).toBe(true);
+    expect(isToolAllowed({ readOnly: false, allow: ["get-?hop"], deny: [] }, "get-shop", "shop")).toBe(true);
+    expect(isToolAllowed({ readOnly: true, allow: [], deny: [] }, "clear-cache", "cache")).toBe(false);
+    expect(isToolAllowed({ readOnly: true, allow: [], deny: [] }, "cache-stats", "cache", { readOnlyHint: true })).toBe(true);
+  });
+});
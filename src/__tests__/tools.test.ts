@@ -0,0 +1,1398 @@
+import { jest } from "@jest/globals";
+import { createHmac } from "node:crypto";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ShopRegistry } from "../config/shops.js";
+import { FakeShopifyClient } from "../ShopifyClient/FakeShopifyClient.js";
+import { QueryCostThrottler } from "../ShopifyClient/QueryCostThrottler.js";
+import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
+import {
+  GeneralShopifyClientError,
+  ShopifyWebhookTopic,
+  fromGraphqlWebhookTopic,
+  toGraphqlWebhookTopic,
+} from "../ShopifyClient/ShopifyClientPort.js";
+import { registerProductTools } from "../tools/productTools.js";
+import { registerExtendedProductTools } from "../tools/extendedProductTools.js";
+import { registerCustomerTools } from "../tools/customerTools.js";
+import { registerOrderTools } from "../tools/orderTools.js";
+import { registerShopTools } from "../tools/shopTools.js";
+import { registerDiscountTools } from "../tools/discountTools.js";
+import { registerWebhookTools } from "../tools/webhookTools.js";
+import { registerBlogTools } from "../tools/blogTools.js";
+import { registerCacheTools } from "../tools/cacheTools.js";
+import { ToolContext } from "../tools/toolContext.js";
+import { Cache } from "../utils/cache.js";
+import { WebhookEventStore } from "../utils/webhookEventStore.js";
+import { startWebhookReceiver } from "../transport/webhookReceiver.js";
+import { connectClient, createFixtures, jsonResponse, mockGraphqlResponses, ToolResult } from "./fixtures.js";
+
+describe("MCP tools (offline)", () => {
+  let client: Client;
+  let fake: FakeShopifyClient;
+  let context: ToolContext;
+  const calledTools = new Set<string>();
+
+  async function callTool(name: string, args: Record<string, unknown> = {}): Promise<ToolResult> {
+    calledTools.add(name);
+    return (await client.callTool({ name, arguments: args })) as ToolResult;
+  }
+
+  async function callToolJson(name: string, args: Record<string, unknown> = {}): Promise<any> {
+    const result = await callTool(name, args);
+    expect(result.isError).toBeFalsy();
+    return JSON.parse(result.content[0].text);
+  }
+
+  beforeAll(async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    context = {
+      shopRegistry: new ShopRegistry({
+        defaultShop: "main",
+        shops: [
+          { name: "main", shopDomain: "main.myshopify.com", accessToken: "shpat_main", apiVersion: "2024-04" },
+          { name: "outlet", shopDomain: "outlet.myshopify.com", accessToken: "shpat_outlet", apiVersion: "2024-04" },
+        ],
+      }),
+      createClient: () => fake,
+      responseCache: new Cache(),
+    };
+
+    const server = new McpServer({ name: "shopify-tools-test", version: "0.0.0" });
+    registerProductTools(server, context);
+    registerExtendedProductTools(server, context);
+    registerCustomerTools(server, context);
+    registerOrderTools(server, context);
+    registerShopTools(server, context);
+    registerDiscountTools(server, context);
+    registerWebhookTools(server, context);
+    registerBlogTools(server, context);
+    registerCacheTools(server, context);
+
+    client = await connectClient(server);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    fake = new FakeShopifyClient(createFixtures());
+  });
+
+  describe("shops", () => {
+    it("lists the configured shops without access tokens", async () => {
+      const result = await callToolJson("list-shops");
+      expect(result.defaultShop).toBe("main");
+      expect(result.shops.map((shop: any) => shop.name).sort()).toEqual(["main", "outlet"]);
+      expect(JSON.stringify(result)).not.toContain("shpat_");
+    });
+
+    it("runs against the default shop unless one is selected", async () => {
+      await callTool("get-shop");
+      await callTool("get-shop", { shop: "outlet" });
+      await callTool("get-shop", { shop: "outlet.myshopify.com" });
+      expect(fake.calls.map((call) => call.shop)).toEqual([
+        "main.myshopify.com",
+        "outlet.myshopify.com",
+        "outlet.myshopify.com",
+      ]);
+    });
+
+    it("sends requests to the API version of the shop", async () => {
+      const fetchMock = jest
+        .spyOn(globalThis, "fetch")
+        .mockImplementation(async () => new Response(JSON.stringify({ data: { node: null } }), { status: 200 }));
+      try {
+        const outlet = new ShopifyClient(new QueryCostThrottler(), undefined, "2025-01");
+        await outlet.getBulkOperation("shpat_outlet", "outlet.myshopify.com", { id: "1" });
+        await new ShopifyClient(new QueryCostThrottler()).getBulkOperation("shpat_main", "main.myshopify.com", { id: "1" });
+        expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+          "https://outlet.myshopify.com/admin/api/2025-01/graphql.json",
+          "https://main.myshopify.com/admin/api/2024-04/graphql.json",
+        ]);
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+
+    it("rejects unknown shops", async () => {
+      const result = await callTool("get-shop", { shop: "nope" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Unknown shop");
+      expect(fake.calls).toHaveLength(0);
+    });
+
+    it("get-shop-details returns the shop details", async () => {
+      const details = await callToolJson("get-shop-details");
+      expect(details.myshopifyDomain).toBe("main.myshopify.com");
+      expect(details.shippingCountries).toEqual([{ code: "US", name: "United States" }]);
+    });
+
+    it("get-collections filters by name", async () => {
+      const result = await callToolJson("get-collections", { name: "win" });
+      expect(result.collections.map((collection: any) => collection.title)).toEqual(["Winter"]);
+    });
+  });
+
+  describe("products", () => {
+    it("get-product-details returns variants and images", async () => {
+      const { product } = await callToolJson("get-product-details", { productId: "gid://shopify/Product/101" });
+      expect(product.title).toBe("Linen Shirt");
+      expect(product.variants.map((variant: any) => variant.sku)).toEqual(["SHIRT-S", "SHIRT-M"]);
+      expect(product.images[0].src).toBe("https://cdn.example.com/101.jpg");
+    });
+
+    it("get-product-details reports unknown products", async () => {
+      const result = await callTool("get-product-details", { productId: "gid://shopify/Product/999" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Product not found");
+    });
+
+    it("search-products searches by title, price range and collection", async () => {
+      const byTitle = await callToolJson("search-products", { title: "scarf" });
+      expect(byTitle.map((product: any) => product.title)).toEqual(["Wool Scarf"]);
+
+      const byPrice = await callToolJson("search-products", { minPrice: 20, maxPrice: 42 });
+      expect(byPrice.map((product: any) => product.title)).toEqual(["Linen Shirt", "Wool Scarf"]);
+
+      const byCollection = await callToolJson("search-products", { collection: "501" });
+      expect(byCollection.map((product: any) => product.title)).toEqual(["Linen Shirt", "Canvas Tote"]);
+    });
+
+    it("get-product-analytics computes sales from order line items", async () => {
+      // One of the two shirts of order #1001 was refunded
+      fake.orders.get("gid://shopify/Order/401")!.lineItems.nodes[1].currentQuantity = 0;
+
+      const analytics = await callToolJson("get-product-analytics", {
+        productId: "gid://shopify/Product/101",
+        startDate: "2024-02-01",
+        endDate: "2024-02-03",
+      });
+      expect(analytics).toMatchObject({
+        from: "2024-02-01T00:00:00.000Z",
+        to: "2024-02-04T00:00:00.000Z",
+        currencyCode: "USD",
+        unitsSold: 2,
+        unitsRefunded: 1,
+        revenue: 85,
+        orderCount: 1,
+        averageSellingPrice: 42.5,
+        refundRate: 0.5,
+        truncated: false,
+      });
+      expect(analytics.daily).toEqual([
+        { date: "2024-02-01", unitsSold: 2, revenue: 85, orderCount: 1 },
+        { date: "2024-02-02", unitsSold: 0, revenue: 0, orderCount: 0 },
+        { date: "2024-02-03", unitsSold: 0, revenue: 0, orderCount: 0 },
+      ]);
+      // The fake has no ShopifyQL data seeded
+      expect(analytics.storefront).toBeNull();
+      expect(Object.keys(analytics.unavailable).sort()).toEqual(["addToCartSessions", "conversionRate", "viewSessions"]);
+      // 5 orders of 25 line items keep each page under Shopify's 1000 point query cost limit
+      expect(fake.calls.find((call) => call.method === "loadOrders")!.args[0]).toMatchObject({
+        first: 5,
+        lineItemsFirst: 25,
+        query: "created_at:>=2024-02-01T00:00:00.000Z created_at:<2024-02-04T00:00:00.000Z",
+      });
+
+      const outside = await callToolJson("get-product-analytics", {
+        productId: "gid://shopify/Product/101",
+        startDate: "2024-02-02T00:00:00Z",
+        endDate: "2024-02-05T00:00:00Z",
+      });
+      expect(outside).toMatchObject({ unitsSold: 0, orderCount: 0, averageSellingPrice: null, refundRate: null });
+    });
+
+    it("get-product-analytics rejects empty time windows", async () => {
+      const result = await callTool("get-product-analytics", {
+        productId: "gid://shopify/Product/101",
+        startDate: "2024-02-03",
+        endDate: "2024-02-01",
+      });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("startDate must be before endDate");
+    });
+  });
+
+  describe("product writes", () => {
+    it("create-product creates a product with its variants and inventory", async () => {
+      const result = await callToolJson("create-product", {
+        title: "Rain Jacket",
+        description: "Waterproof",
+        tags: ["outerwear"],
+        variants: [
+          { title: "M", price: 120, sku: "JACKET-M", inventory: 5 },
+          { title: "L", price: 120, sku: "JACKET-L", inventory: 2 },
+        ],
+      });
+      const product = [...fake.products.values()].find((p) => p.title === "Rain Jacket")!;
+      expect(result.id).toBe(product.id);
+      expect(result.variants.edges.map(({ node }: any) => node.sku)).toEqual(["JACKET-M", "JACKET-L"]);
+      expect(fake.inventory.get(product.variants.edges[0].node.id)).toBe(5);
+    });
+
+    it("create-product validates its input", async () => {
+      const result = await client
+        .callTool({ name: "create-product", arguments: { title: "Empty", description: "", variants: [] } })
+        .catch((error: Error) => ({ isError: true, content: [{ type: "text", text: error.message }] }));
+      expect(result.isError).toBe(true);
+      expect(fake.calls).toHaveLength(0);
+    });
+
+    it("update-product and bulk-update-products change product fields", async () => {
+      const updated = await callToolJson("update-product", {
+        productId: "gid://shopify/Product/101",
+        status: "DRAFT",
+        tags: ["linen"],
+      });
+      expect(updated.updatedFields).toEqual(["status", "tags"]);
+      expect(updated.product.status).toBe("DRAFT");
+      expect(fake.products.get("gid://shopify/Product/101")).toMatchObject({ status: "DRAFT", tags: ["linen"] });
+
+      const empty = await callTool("update-product", { productId: "gid://shopify/Product/101" });
+      expect(empty.isError).toBe(true);
+
+      const bulk = await callToolJson("bulk-update-products", {
+        updates: [
+          { productId: "gid://shopify/Product/102", vendor: "Knitters" },
+          { productId: "gid://shopify/Product/103", title: "Canvas Tote Bag" },
+        ],
+      });
+      expect(bulk.updatedCount).toBe(2);
+      expect(fake.products.get("gid://shopify/Product/102")?.vendor).toBe("Knitters");
+      expect(fake.products.get("gid://shopify/Product/103")?.title).toBe("Canvas Tote Bag");
+    });
+
+    it("manage-product-inventory sets and adjusts quantities", async () => {
+      const adjusted = await callToolJson("manage-product-inventory", {
+        variantId: "gid://shopify/ProductVariant/1011",
+        action: "ADJUST",
+        quantity: -2,
+      });
+      expect(adjusted).toEqual({ variantId: "gid://shopify/ProductVariant/1011", previousQuantity: 12, newQuantity: 10 });
+
+      const negativeSet = await callTool("manage-product-inventory", {
+        variantId: "gid://shopify/ProductVariant/1011",
+        action: "SET",
+        quantity: -1,
+      });
+      expect(negativeSet.isError).toBe(true);
+      expect(fake.inventory.get("gid://shopify/ProductVariant/1011")).toBe(10);
+    });
+
+    it("bulk-variant-operations creates, updates and deletes variants", async () => {
+      const result = await callToolJson("bulk-variant-operations", {
+        operations: [
+          { action: "CREATE", productId: "gid://shopify/Product/101", variantData: { title: "L", price: 50, sku: "SHIRT-L" } },
+          { action: "UPDATE", productId: "gid://shopify/Product/101", variantData: { id: "gid://shopify/ProductVariant/1011", price: 39 } },
+          { action: "DELETE", productId: "gid://shopify/Product/101", variantData: { id: "gid://shopify/ProductVariant/1012" } },
+        ],
+      });
+      expect(result).toEqual({ appliedCount: 3, counts: { CREATE: 1, UPDATE: 1, DELETE: 1 } });
+      const variants = fake.products.get("gid://shopify/Product/101")!.variants.edges.map(({ node }) => [node.sku, node.price]);
+      expect(variants).toEqual([["SHIRT-S", "39.00"], ["SHIRT-L", "50.00"]]);
+    });
+
+    it("manage-product-metafields sets and deletes metafields", async () => {
+      await callTool("manage-product-metafields", {
+        productId: "gid://shopify/Product/101",
+        operations: [
+          { action: "SET", namespace: "care", key: "wash", value: "cold", type: "single_line_text_field" },
+          { action: "SET", namespace: "care", key: "dry", value: "flat", type: "single_line_text_field" },
+        ],
+      });
+      const result = await callToolJson("manage-product-metafields", {
+        productId: "gid://shopify/Product/101",
+        operations: [{ action: "DELETE", namespace: "care", key: "dry" }],
+      });
+      expect(result.operations).toEqual([{ action: "DELETE", namespace: "care", key: "dry" }]);
+      expect(fake.metafields.get("gid://shopify/Product/101")).toEqual([
+        { namespace: "care", key: "wash", value: "cold", type: "single_line_text_field" },
+      ]);
+    });
+
+    it("sets metafields in one metafieldsSet call and reports its user errors", async () => {
+      const userErrors = [{ field: ["metafields", "1", "value"], message: "Value is invalid" }];
+      const fetchMock = jest
+        .spyOn(globalThis, "fetch")
+        .mockImplementation(async () => jsonResponse({ data: { metafieldsSet: { metafields: [], userErrors } } }));
+      try {
+        const live = new ShopifyClient(new QueryCostThrottler());
+        const setting = live.manageProductMetafields("shpat_main", "main.myshopify.com", {
+          productId: "101",
+          operations: [
+            { action: "SET", namespace: "care", key: "wash", value: "cold", type: "single_line_text_field" },
+            { action: "SET", namespace: "care", key: "dry", value: "", type: "number_integer" },
+          ],
+        });
+        await expect(setting).rejects.toThrow(GeneralShopifyClientError);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+        expect(body.query).toContain("metafieldsSet(metafields: $metafields)");
+        expect(body.variables.metafields).toEqual([
+          { ownerId: "gid://shopify/Product/101", namespace: "care", key: "wash", value: "cold", type: "single_line_text_field" },
+          { ownerId: "gid://shopify/Product/101", namespace: "care", key: "dry", value: "", type: "number_integer" },
+        ]);
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+
+    it("splits variant operations into the bulk create, update and delete mutations of each product", async () => {
+      const { fetchMock, requests } = mockGraphqlResponses(
+        { location: { id: "gid://shopify/Location/1" } },
+        { product: { options: [{ name: "Size" }] } },
+        { productVariantsBulkCreate: { productVariants: [{ id: "gid://shopify/ProductVariant/1013" }], userErrors: [] } },
+        {
+          productVariantsBulkUpdate: {
+            productVariants: [{ id: "gid://shopify/ProductVariant/1011", inventoryItem: { id: "gid://shopify/InventoryItem/9" } }],
+            userErrors: [],
+          },
+        },
+        { inventorySetQuantities: { inventoryAdjustmentGroup: { changes: [] }, userErrors: [] } },
+        { productVariantsBulkDelete: { product: { id: "gid://shopify/Product/101" }, userErrors: [] } }
+      );
+      try {
+        const live = new ShopifyClient(new QueryCostThrottler());
+        await live.bulkVariantOperations("shpat_main", "main.myshopify.com", [
+          { action: "DELETE", productId: "101", variantData: { id: "1012" } },
+          {
+            action: "CREATE",
+            productId: "gid://shopify/Product/101",
+            variantData: { title: "XL", options: ["XL"], price: 12, sku: "SHIRT-XL", inventory: 5 },
+          },
+          { action: "UPDATE", productId: "101", variantData: { id: "gid://shopify/ProductVariant/1011", price: 15, inventory: 3 } },
+        ]);
+
+        const [location, options, create, update, setQuantities, remove] = requests();
+        expect(location.query).toContain("location {");
+        expect(options.variables).toEqual({ id: "gid://shopify/Product/101" });
+        expect(create.query).toContain("productVariantsBulkCreate(productId: $productId, variants: $variants)");
+        expect(create.variables).toEqual({
+          productId: "gid://shopify/Product/101",
+          variants: [
+            {
+              price: "12",
+              optionValues: [{ optionName: "Size", name: "XL" }],
+              inventoryItem: { sku: "SHIRT-XL" },
+              inventoryQuantities: [{ availableQuantity: 5, locationId: "gid://shopify/Location/1" }],
+            },
+          ],
+        });
+        expect(update.query).toContain("productVariantsBulkUpdate(productId: $productId, variants: $variants)");
+        expect(update.variables).toEqual({
+          productId: "gid://shopify/Product/101",
+          variants: [{ id: "gid://shopify/ProductVariant/1011", price: "15" }],
+        });
+        expect(setQuantities.variables.input).toEqual({
+          name: "available",
+          reason: "correction",
+          ignoreCompareQuantity: true,
+          quantities: [{ inventoryItemId: "gid://shopify/InventoryItem/9", locationId: "gid://shopify/Location/1", quantity: 3 }],
+        });
+        expect(remove.query).toContain("productVariantsBulkDelete(productId: $productId, variantsIds: $variantsIds)");
+        expect(remove.variables).toEqual({
+          productId: "gid://shopify/Product/101",
+          variantsIds: ["gid://shopify/ProductVariant/1012"],
+        });
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+
+    it("sets and adjusts the available quantity of the variant's inventory item", async () => {
+      const target = {
+        productVariant: { inventoryItem: { id: "gid://shopify/InventoryItem/9" } },
+        location: { id: "gid://shopify/Location/2" },
+      };
+      const { fetchMock, requests } = mockGraphqlResponses(
+        target,
+        {
+          inventoryAdjustQuantities: {
+            inventoryAdjustmentGroup: { changes: [{ name: "available", delta: -2, quantityAfterChange: 8 }] },
+            userErrors: [],
+          },
+        },
+        target,
+        {
+          inventorySetQuantities: {
+            inventoryAdjustmentGroup: { changes: [{ name: "available", delta: 4 }] },
+            userErrors: [],
+          },
+        }
+      );
+      try {
+        const live = new ShopifyClient(new QueryCostThrottler());
+        const adjusted = await live.manageInventory("shpat_main", "main.myshopify.com", {
+          variantId: "1011",
+          action: "ADJUST",
+          quantity: -2,
+          locationId: "2",
+          reason: "damaged",
+        });
+        expect(adjusted).toEqual({ newQuantity: 8, previousQuantity: 10 });
+        const set = await live.manageInventory("shpat_main", "main.myshopify.com", {
+          variantId: "gid://shopify/ProductVariant/1011",
+          action: "SET",
+          quantity: 12,
+        });
+        expect(set).toEqual({ newQuantity: 12, previousQuantity: 8 });
+
+        const [adjustTarget, adjust, setTarget, setQuantities] = requests();
+        expect(adjustTarget.variables).toEqual({
+          variantId: "gid://shopify/ProductVariant/1011",
+          locationId: "gid://shopify/Location/2",
+        });
+        expect(adjust.query).toContain("inventoryAdjustQuantities(input: $input)");
+        expect(adjust.variables.input).toEqual({
+          name: "available",
+          reason: "damaged",
+          changes: [{ delta: -2, inventoryItemId: "gid://shopify/InventoryItem/9", locationId: "gid://shopify/Location/2" }],
+        });
+        // No location ID asks for the primary location
+        expect(setTarget.variables).toEqual({ variantId: "gid://shopify/ProductVariant/1011" });
+        expect(setQuantities.query).toContain("inventorySetQuantities(input: $input)");
+        expect(setQuantities.variables.input.quantities).toEqual([
+          { inventoryItemId: "gid://shopify/InventoryItem/9", locationId: "gid://shopify/Location/2", quantity: 12 },
+        ]);
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+
+    it("adds, moves and removes product images as product media", async () => {
+      const { fetchMock, requests } = mockGraphqlResponses(
+        { productCreateMedia: { media: [{ id: "gid://shopify/MediaImage/7" }], mediaUserErrors: [] } },
+        { productReorderMedia: { job: { id: "gid://shopify/Job/1" }, mediaUserErrors: [] } },
+        { productDeleteMedia: { deletedMediaIds: ["gid://shopify/MediaImage/6"], mediaUserErrors: [] } }
+      );
+      try {
+        const live = new ShopifyClient(new QueryCostThrottler());
+        await live.manageProductImages("shpat_main", "main.myshopify.com", {
+          productId: "102",
+          action: "ADD",
+          images: [{ url: "https://cdn.example.com/scarf-2.jpg", altText: "Scarf detail", position: 1 }],
+        });
+        await live.manageProductImages("shpat_main", "main.myshopify.com", {
+          productId: "gid://shopify/Product/102",
+          action: "REMOVE",
+          images: [{ id: "6" }],
+        });
+
+        const [create, reorder, remove] = requests();
+        expect(create.query).toContain("productCreateMedia(productId: $productId, media: $media)");
+        expect(create.variables).toEqual({
+          productId: "gid://shopify/Product/102",
+          media: [{ originalSource: "https://cdn.example.com/scarf-2.jpg", alt: "Scarf detail", mediaContentType: "IMAGE" }],
+        });
+        expect(reorder.variables).toEqual({
+          id: "gid://shopify/Product/102",
+          moves: [{ id: "gid://shopify/MediaImage/7", newPosition: "0" }],
+        });
+        expect(remove.query).toContain("productDeleteMedia(productId: $productId, mediaIds: $mediaIds)");
+        expect(remove.variables).toEqual({ productId: "gid://shopify/Product/102", mediaIds: ["gid://shopify/MediaImage/6"] });
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+
+    it("updates variant prices with one productVariantsBulkUpdate per product", async () => {
+      const { fetchMock, requests } = mockGraphqlResponses(
+        {
+          nodes: [
+            { id: "gid://shopify/ProductVariant/1011", product: { id: "gid://shopify/Product/101" } },
+            { id: "gid://shopify/ProductVariant/1021", product: { id: "gid://shopify/Product/102" } },
+            { id: "gid://shopify/ProductVariant/1012", product: { id: "gid://shopify/Product/101" } },
+          ],
+        },
+        {
+          productVariantsBulkUpdate: {
+            productVariants: [
+              { id: "gid://shopify/ProductVariant/1011", price: "10.00" },
+              { id: "gid://shopify/ProductVariant/1012", price: "11.00" },
+            ],
+            userErrors: [],
+          },
+        },
+        {
+          productVariantsBulkUpdate: {
+            productVariants: [{ id: "gid://shopify/ProductVariant/1021", price: "20.00" }],
+            userErrors: [],
+          },
+        }
+      );
+      try {
+        const live = new ShopifyClient(new QueryCostThrottler());
+        const prices = await live.bulkUpdateVariantPrices("shpat_main", "main.myshopify.com", [
+          { variantId: "1011", newPrice: 10 },
+          { variantId: "gid://shopify/ProductVariant/1021", newPrice: 20 },
+          { variantId: "1012", newPrice: 11 },
+        ]);
+        expect(prices).toEqual([
+          { variantId: "1011", newPrice: 10 },
+          { variantId: "gid://shopify/ProductVariant/1021", newPrice: 20 },
+          { variantId: "1012", newPrice: 11 },
+        ]);
+
+        const [, first, second] = requests();
+        expect(first.query).toContain("productVariantsBulkUpdate(productId: $productId, variants: $variants)");
+        expect(first.variables).toEqual({
+          productId: "gid://shopify/Product/101",
+          variants: [
+            { id: "gid://shopify/ProductVariant/1011", price: "10" },
+            { id: "gid://shopify/ProductVariant/1012", price: "11" },
+          ],
+        });
+        expect(second.variables).toEqual({
+          productId: "gid://shopify/Product/102",
+          variants: [{ id: "gid://shopify/ProductVariant/1021", price: "20" }],
+        });
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+
+    it("bulk updates products with one productUpdate each", async () => {
+      const { fetchMock, requests } = mockGraphqlResponses(
+        { productUpdate: { product: { id: "gid://shopify/Product/101" }, userErrors: [] } },
+        { productUpdate: { product: { id: "gid://shopify/Product/102" }, userErrors: [] } }
+      );
+      try {
+        const live = new ShopifyClient(new QueryCostThrottler());
+        const products = await live.bulkUpdateProducts("shpat_main", "main.myshopify.com", [
+          { productId: "101", status: "DRAFT" },
+          { productId: "102", vendor: "Acme" },
+        ]);
+        expect(products.map(({ id }) => id)).toEqual(["gid://shopify/Product/101", "gid://shopify/Product/102"]);
+        expect(requests().map(({ query, variables }) => [query.includes("productUpdate(input: $input)"), variables.input])).toEqual([
+          [true, { id: "gid://shopify/Product/101", status: "DRAFT" }],
+          [true, { id: "gid://shopify/Product/102", vendor: "Acme" }],
+        ]);
+      } finally {
+        fetchMock.mockRestore();
+      }
+    });
+
+    it("manage-product-collections adds and removes products", async () => {
+      await callTool("manage-product-collections", {
+        action: "ADD",
+        productIds: ["gid://shopify/Product/102"],
+        collectionIds: ["501"],
+      });
+      const removed = await callToolJson("manage-product-collections", {
+        action: "REMOVE",
+        productIds: ["gid://shopify/Product/101"],
+        collectionIds: ["501"],
+      });
+      expect(removed).toEqual({ action: "REMOVE", productIds: ["gid://shopify/Product/101"], collectionIds: ["501"] });
+      expect(fake.collections.get("501")?.productIds).toEqual(["gid://shopify/Product/103", "gid://shopify/Product/102"]);
+    });
+
+    it("manage-product-images adds and removes images", async () => {
+      const added = await callToolJson("manage-product-images", {
+        productId: "gid://shopify/Product/102",
+        action: "ADD",
+        images: [{ url: "https://cdn.example.com/scarf-2.jpg", altText: "Scarf detail" }],
+      });
+      expect(added).toEqual({ productId: "gid://shopify/Product/102", action: "ADD", imageCount: 1 });
+
+      const missingId = await callTool("manage-product-images", {
+        productId: "gid://shopify/Product/102",
+        action: "REMOVE",
+        images: [{ url: "https://cdn.example.com/102.jpg" }],
+      });
+      expect(missingId.isError).toBe(true);
+      expect(fake.products.get("gid://shopify/Product/102")!.images.edges).toHaveLength(2);
+    });
+
+    it("rejects IDs that Shopify would not resolve", async () => {
+      await callToolJson("manage-product-images", {
+        productId: "102",
+        action: "ADD",
+        images: [{ url: "https://cdn.example.com/scarf-2.jpg" }],
+      });
+      const edges = fake.products.get("gid://shopify/Product/102")!.images.edges;
+      const mediaId = (edges[1].node as { id: string }).id;
+
+      const doubled = await callTool("manage-product-images", {
+        productId: "gid://shopify/Product/102",
+        action: "REMOVE",
+        images: [{ id: `gid://shopify/MediaImage/${mediaId}` }],
+      });
+      expect(doubled.isError).toBe(true);
+      const wrongType = await callTool("bulk-variant-operations", {
+        operations: [{ action: "UPDATE", productId: "gid://shopify/ProductVariant/1021", variantData: { id: "1021", price: 1 } }],
+      });
+      expect(wrongType.isError).toBe(true);
+      expect(fake.products.get("gid://shopify/Product/102")!.variants.edges[0].node.price).toBe("25.00");
+
+      await callToolJson("manage-product-images", {
+        productId: "gid://shopify/Product/102",
+        action: "REMOVE",
+        images: [{ id: mediaId }],
+      });
+      expect(fake.products.get("gid://shopify/Product/102")!.images.edges).toHaveLength(1);
+    });
+
+    it("bulk-update-variant-prices updates prices and reports user errors", async () => {
+      const result = await callToolJson("bulk-update-variant-prices", {
+        updates: [{ variantId: "gid://shopify/ProductVariant/1021", newPrice: 29.5 }],
+      });
+      expect(result.variants).toEqual([{ variantId: "gid://shopify/ProductVariant/1021", newPrice: 29.5 }]);
+      expect(fake.products.get("gid://shopify/Product/102")!.variants.edges[0].node.price).toBe("29.50");
+
+      const missing = await callTool("bulk-update-variant-prices", {
+        updates: [{ variantId: "gid://shopify/ProductVariant/999", newPrice: 1 }],
+      });
+      expect(missing.isError).toBe(true);
+      expect(missing.content[0].text).toContain("User errors:\n- Product variant not found");
+    });
+  });
+
+  describe("customers", () => {
+    it("get-customers pages through customers", async () => {
+      const first = await callToolJson("get-customers", { limit: 1 });
+      expect(first.customers.map((customer: any) => customer.email)).toEqual(["ada@example.com"]);
+
+      const second = await callToolJson("get-customers", { limit: 1, next: first.next });
+      expect(second.customers.map((customer: any) => customer.email)).toEqual(["alan@example.com"]);
+      expect(second.next).toBeUndefined();
+    });
+
+    it("tag-customer sets the customer's tags", async () => {
+      const result = await callTool("tag-customer", { customerId: "302", tags: ["wholesale", "newsletter"] });
+      expect(result.isError).toBeFalsy();
+      expect(fake.customers.get("302")?.tags).toBe("wholesale, newsletter");
+    });
+  });
+
+  describe("orders", () => {
+    it("get-orders sorts and limits orders", async () => {
+      const result = await callToolJson("get-orders", { first: 1, sortKey: "CREATED_AT", reverse: true });
+      expect(result.orders.map((order: any) => order.name)).toEqual(["#1002"]);
+      expect(result.pageInfo.hasNextPage).toBe(true);
+    });
+
+    it("get-order finds an order by ID", async () => {
+      const order = await callToolJson("get-order", { id: "401" });
+      expect(order.name).toBe("#1001");
+
+      const missing = await callTool("get-order", { id: "999" });
+      expect(missing.content[0].text).toBe("Order with ID 999 not found");
+    });
+
+    it("create-draft-order and complete-draft-order turn a draft into an order", async () => {
+      const created = await callTool("create-draft-order", {
+        email: "alan@example.com",
+        lineItems: [{ variantId: "gid://shopify/ProductVariant/1012", quantity: 2 }],
+        note: "Gift wrap",
+      });
+      expect(created.isError).toBeFalsy();
+      const [draftOrder] = fake.draftOrders.values();
+      expect(draftOrder.payload.note).toBe("Gift wrap");
+      expect(created.content[0].text).toContain(draftOrder.draftOrderId);
+
+      const completed = await callTool("complete-draft-order", { draftOrderId: draftOrder.draftOrderId });
+      expect(completed.isError).toBeFalsy();
+      expect(draftOrder.status).toBe("COMPLETED");
+      expect(fake.orders.get(draftOrder.orderId!)?.totalPriceSet.shopMoney.amount).toBe("90.00");
+    });
+
+    it("calculate-draft-order previews discounted totals without creating a draft", async () => {
+      const calculated = await callToolJson("calculate-draft-order", {
+        lineItems: [
+          {
+            variantId: "gid://shopify/ProductVariant/1011",
+            quantity: 2,
+            appliedDiscount: { title: "Bundle", value: 10, valueType: "PERCENTAGE" },
+          },
+          { variantId: "gid://shopify/ProductVariant/1031", quantity: 1 },
+        ],
+        appliedDiscount: { title: "Loyalty", value: 5, valueType: "FIXED_AMOUNT" },
+      });
+      expect(calculated.lineItems.map((lineItem: any) => lineItem.discountedTotal)).toEqual(["72.00", "15.00"]);
+      expect(calculated.totalPrice).toBe("82.00");
+      expect(calculated.availableShippingRates.length).toBeGreaterThan(0);
+      expect(fake.draftOrders.size).toBe(0);
+
+      const invalid = await client
+        .callTool({
+          name: "calculate-draft-order",
+          arguments: {
+            lineItems: [{ variantId: "1011", quantity: 1 }],
+            appliedDiscount: { title: "Too much", value: 150, valueType: "PERCENTAGE" },
+          },
+        })
+        .catch((error: Error) => ({ isError: true, content: [{ type: "text", text: error.message }] }));
+      expect(invalid.isError).toBe(true);
+    });
+
+    it("manages a draft order from update to invoice, listing and deletion", async () => {
+      await callTool("create-draft-order", {
+        email: "ada@example.com",
+        lineItems: [{ variantId: "1021", quantity: 1 }],
+      });
+      const [draftOrder] = fake.draftOrders.values();
+
+      const updated = await callTool("update-draft-order", {
+        draftOrderId: draftOrder.draftOrderId,
+        lineItems: [{ variantId: "1021", quantity: 3 }],
+        tags: ["wholesale"],
+        appliedDiscount: { title: "Wholesale", value: 20, valueType: "PERCENTAGE" },
+      });
+      expect(updated.isError).toBeFalsy();
+      expect(updated.content[0].text).toContain("Total: 60.00 USD");
+      expect(draftOrder.payload.tags).toBe("wholesale");
+
+      const empty = await callTool("update-draft-order", { draftOrderId: draftOrder.draftOrderId });
+      expect(empty.isError).toBe(true);
+
+      const invoiced = await callTool("send-draft-order-invoice", {
+        draftOrderId: draftOrder.draftOrderId,
+        customMessage: "Thanks for your order",
+      });
+      expect(invoiced.isError).toBeFalsy();
+      expect(invoiced.content[0].text).toContain("Status: INVOICE_SENT");
+
+      const listed = await callToolJson("get-draft-orders", { query: "status:invoice_sent" });
+      expect(listed.draftOrders.map((d: any) => d.id)).toEqual([draftOrder.draftOrderId]);
+      expect(listed.draftOrders[0].tags).toEqual(["wholesale"]);
+
+      const deleted = await callTool("delete-draft-order", { draftOrderId: draftOrder.draftOrderId });
+      expect(deleted.isError).toBeFalsy();
+      expect(fake.draftOrders.size).toBe(0);
+    });
+
+    it("complete-draft-order rejects drafts that were already completed", async () => {
+      await callTool("create-draft-order", {
+        email: "ada@example.com",
+        lineItems: [{ variantId: "1031", quantity: 1 }],
+      });
+      const [draftOrder] = fake.draftOrders.values();
+      await callTool("complete-draft-order", { draftOrderId: draftOrder.draftOrderId, paymentPending: true });
+      expect(fake.orders.get(draftOrder.orderId!)?.displayFinancialStatus).toBe("PENDING");
+
+      const again = await callTool("complete-draft-order", { draftOrderId: draftOrder.draftOrderId });
+      expect(again.isError).toBe(true);
+      expect(again.content[0].text).toContain("already been completed");
+    });
+
+    it("create-draft-order reports unknown variants", async () => {
+      const result = await callTool("create-draft-order", {
+        email: "alan@example.com",
+        lineItems: [{ variantId: "gid://shopify/ProductVariant/999", quantity: 1 }],
+      });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("SHOPIFY_CLIENT.PRODUCT_VARIANT_NOT_FOUND");
+    });
+  });
+
+  describe("discounts", () => {
+    it("create-discount creates a basic discount code", async () => {
+      const result = await callTool("create-discount", {
+        title: "Spring sale",
+        code: "SPRING10",
+        valueType: "percentage",
+        value: 0.1,
+        startsAt: "2024-03-01T00:00:00Z",
+        appliesOncePerCustomer: true,
+      });
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain("Code: SPRING10");
+      expect([...fake.discounts.values()][0].rule.oncePerCustomer).toBe(true);
+    });
+
+    it("create-discount targets collections, leaving out excluded ones", async () => {
+      const discountInput = {
+        title: "Not winter",
+        code: "NOTWINTER",
+        valueType: "fixed_amount",
+        value: 5,
+        startsAt: "2024-03-01T00:00:00Z",
+        appliesOncePerCustomer: false,
+        excludeCollectionIds: ["502"],
+      };
+      // A discount on all items cannot leave collections out
+      const excludeOnly = await callTool("create-discount", discountInput);
+      expect(excludeOnly.isError).toBe(true);
+      expect(excludeOnly.content[0].text).toContain("excludeCollectionIds: needs includeCollectionIds");
+      expect(fake.discounts.size).toBe(0);
+
+      const created = await callTool("create-discount", { ...discountInput, includeCollectionIds: ["501", "502"] });
+      expect(created.isError).toBeFalsy();
+      const [discount] = fake.discounts.values();
+      const details = await callToolJson("get-discount", { discountId: discount.id });
+      expect(details.codes).toEqual(["NOTWINTER"]);
+      expect(details.usageCount).toBe(0);
+      expect(details.rules.entitledCollectionIds).toEqual(["gid://shopify/Collection/501"]);
+
+      const mixed = await callTool("create-discount", {
+        title: "Mixed",
+        code: "MIXED",
+        valueType: "percentage",
+        value: 0.2,
+        startsAt: "2024-03-01T00:00:00Z",
+        appliesOncePerCustomer: false,
+        includeCollectionIds: ["501"],
+        includeProductIds: ["101"],
+      });
+      expect(mixed.isError).toBe(true);
+      expect(fake.discounts.size).toBe(1);
+    });
+
+    it("create-automatic-discount applies a minimum subtotal to selected products", async () => {
+      const result = await callTool("create-automatic-discount", {
+        title: "Shirts 15% off over $80",
+        startsAt: "2024-03-01T00:00:00Z",
+        valueType: "percentage",
+        value: 0.15,
+        minimumSubtotal: 80,
+        productIds: ["101"],
+      });
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain("Codes: none (automatic)");
+
+      const [discount] = fake.discounts.values();
+      expect(discount.method).toBe("AUTOMATIC");
+      expect(discount.rule.prerequisiteSubtotalRange).toEqual({ greaterThanOrEqualTo: "80.00" });
+      expect(discount.rule.entitledProductIds).toEqual(["gid://shopify/Product/101"]);
+
+      const both = await callTool("create-automatic-discount", {
+        title: "Ambiguous",
+        startsAt: "2024-03-01T00:00:00Z",
+        valueType: "fixed_amount",
+        value: 5,
+        minimumSubtotal: 50,
+        minimumQuantity: 2,
+      });
+      expect(both.isError).toBe(true);
+    });
+
+    it("creates automatic and code buy X get Y discounts", async () => {
+      const automatic = await callTool("create-automatic-bxgy-discount", {
+        title: "Buy 2 shirts get a tote",
+        startsAt: "2024-03-01T00:00:00Z",
+        buyQuantity: 2,
+        buyProductIds: ["101"],
+        getQuantity: 1,
+        getProductIds: ["103"],
+      });
+      expect(automatic.isError).toBeFalsy();
+
+      const code = await callTool("create-bxgy-discount-code", {
+        title: "Spend $50 on summer, scarf half off",
+        code: "SCARFHALF",
+        startsAt: "2024-03-01T00:00:00Z",
+        buySubtotal: 50,
+        buyCollectionIds: ["501"],
+        getQuantity: 1,
+        getPercentage: 0.5,
+        getVariantIds: ["1021"],
+        customerIds: ["301"],
+      });
+      expect(code.isError).toBeFalsy();
+      expect(code.content[0].text).toContain("Codes: SCARFHALF");
+
+      const [automaticDiscount, codeDiscount] = fake.discounts.values();
+      expect(automaticDiscount.type).toBe("DiscountAutomaticBxgy");
+      expect(automaticDiscount.rule.prerequisiteQuantityRange).toEqual({ greaterThanOrEqualTo: 2 });
+      expect(automaticDiscount.rule.value).toBe("1");
+      expect(codeDiscount.rule.prerequisiteCollectionIds).toEqual(["gid://shopify/Collection/501"]);
+      expect(codeDiscount.rule.entitledVariantIds).toEqual(["gid://shopify/ProductVariant/1021"]);
+      expect(codeDiscount.rule.prerequisiteCustomerIds).toEqual(["gid://shopify/Customer/301"]);
+
+      const missingItems = await callTool("create-automatic-bxgy-discount", {
+        title: "Nothing to get",
+        startsAt: "2024-03-01T00:00:00Z",
+        buyQuantity: 1,
+        buyProductIds: ["101"],
+        getQuantity: 1,
+      });
+      expect(missingItems.isError).toBe(true);
+    });
+
+    it("create-free-shipping-discount-code sets minimums, countries and a shipping price cap", async () => {
+      const result = await callTool("create-free-shipping-discount-code", {
+        title: "Free shipping over $60",
+        code: "SHIPFREE",
+        startsAt: "2024-03-01T00:00:00Z",
+        minimumSubtotal: 60,
+        countryCodes: ["US", "CA"],
+        maximumShippingPrice: 20,
+      });
+      expect(result.isError).toBeFalsy();
+
+      const details = await callToolJson("get-discount", { discountId: [...fake.discounts.keys()][0] });
+      expect(details.type).toBe("DiscountCodeFreeShipping");
+      expect(details.rules.targetType).toBe("SHIPPING_LINE");
+      expect(details.rules.prerequisiteSubtotalRange).toEqual({ greaterThanOrEqualTo: "60.00" });
+      expect(details.rules.prerequisiteShippingPriceRange).toEqual({ lessThanOrEqualTo: "20.00" });
+      expect(details.rules.entitledCountryIds).toEqual(["US", "CA"]);
+
+      const duplicate = await callTool("create-free-shipping-discount-code", {
+        title: "Again",
+        code: "SHIPFREE",
+        startsAt: "2024-03-01T00:00:00Z",
+      });
+      expect(duplicate.isError).toBe(true);
+    });
+
+    it("generate-discount-codes adds unique codes in batches and returns them as CSV", async () => {
+      const result = await callTool("generate-discount-codes", {
+        title: "Influencer campaign",
+        valueType: "percentage",
+        value: 0.2,
+        startsAt: "2024-03-01T00:00:00Z",
+        count: 300,
+        prefix: "INF-",
+        length: 6,
+      });
+      expect(result.isError).toBeFalsy();
+
+      const [discount] = fake.discounts.values();
+      expect(discount.codes).toHaveLength(300);
+      expect(new Set(discount.codes).size).toBe(300);
+      expect(discount.codes.every((code) => /^INF-[A-Z2-9]{6}$/.test(code))).toBe(true);
+      expect(discount.usageLimit).toBe(1);
+      expect(fake.calls.filter((call) => call.method === "addDiscountCodes")).toHaveLength(2);
+
+      const csvLines = result.content[0].text.split("\n\n")[1].trim().split("\n");
+      expect(csvLines[0]).toBe("code");
+      expect(csvLines.slice(1).sort()).toEqual([...discount.codes].sort());
+    });
+
+    it("generate-discount-codes replaces codes that collide with existing ones", async () => {
+      for (const code of ["VIP-AA", "VIP-AB"]) {
+        await callTool("create-discount", {
+          title: code,
+          code,
+          valueType: "fixed_amount",
+          value: 5,
+          startsAt: "2024-03-01T00:00:00Z",
+          appliesOncePerCustomer: false,
+        });
+      }
+      context.exportDirectory = await mkdtemp(join(tmpdir(), "shopify-export-"));
+
+      const result = await callTool("generate-discount-codes", {
+        title: "VIP",
+        valueType: "fixed_amount",
+        value: 10,
+        startsAt: "2024-03-01T00:00:00Z",
+        count: 2,
+        prefix: "VIP-",
+        length: 2,
+        alphabet: "AB",
+        fileName: "vip-codes.csv",
+      });
+      try {
+        expect(result.isError).toBeFalsy();
+        expect(result.content[0].text).toContain("2 of 2 codes");
+
+        const csv = await readFile(join(context.exportDirectory, "vip-codes.csv"), "utf8");
+        expect(csv.trim().split("\n").slice(1).sort()).toEqual(["VIP-BA", "VIP-BB"]);
+
+        // Paths outside the export directory are refused before anything is created
+        const discountCount = fake.discounts.size;
+        const outside = await client
+          .callTool({
+            name: "generate-discount-codes",
+            arguments: {
+              title: "VIP",
+              valueType: "fixed_amount",
+              value: 10,
+              startsAt: "2024-03-01T00:00:00Z",
+              count: 1,
+              fileName: "../codes.csv",
+            },
+          })
+          .catch((error: Error) => ({ isError: true, content: [{ type: "text", text: error.message }] }));
+        expect(outside.isError).toBe(true);
+        expect(fake.discounts.size).toBe(discountCount);
+      } finally {
+        await rm(context.exportDirectory, { recursive: true, force: true });
+        context.exportDirectory = undefined;
+      }
+    });
+
+    it("generate-discount-codes rejects options with too few distinct codes", async () => {
+      const result = await callTool("generate-discount-codes", {
+        title: "Tiny",
+        valueType: "fixed_amount",
+        value: 1,
+        startsAt: "2024-03-01T00:00:00Z",
+        count: 10,
+        length: 4,
+        alphabet: "AB",
+      });
+      expect(result.isError).toBe(true);
+      expect(fake.discounts.size).toBe(0);
+    });
+
+    it("lists, deactivates, reactivates, reschedules and deletes discounts", async () => {
+      for (const code of ["SUMMER5", "SUMMER10", "WELCOME"]) {
+        await callTool("create-discount", {
+          title: code,
+          code,
+          valueType: "percentage",
+          value: 0.05,
+          startsAt: "2024-03-01T00:00:00Z",
+          appliesOncePerCustomer: false,
+        });
+      }
+      const summer = await callToolJson("get-discounts", { query: "code:SUMMER*" });
+      expect(summer.discounts.map((discount: any) => discount.codes[0])).toEqual(["SUMMER5", "SUMMER10"]);
+      const discountId = summer.discounts[0].id;
+
+      const deactivated = await callTool("deactivate-discount", { discountId });
+      expect(deactivated.content[0].text).toContain("Status: EXPIRED");
+      const expired = await callToolJson("get-discounts", { query: "status:expired" });
+      expect(expired.discounts.map((discount: any) => discount.id)).toEqual([discountId]);
+
+      const activated = await callTool("activate-discount", { discountId });
+      expect(activated.content[0].text).toContain("Status: ACTIVE");
+      expect(activated.content[0].text).toContain("Ends: never");
+
+      const rescheduled = await callTool("update-discount-end-date", { discountId, endsAt: "2999-12-31T00:00:00Z" });
+      expect(rescheduled.content[0].text).toContain("Ends: 2999-12-31T00:00:00Z");
+
+      const deleted = await callTool("delete-discount", { discountId });
+      expect(deleted.isError).toBeFalsy();
+      expect(fake.discounts.size).toBe(2);
+    });
+  });
+
+  describe("webhooks", () => {
+    const callbackUrl = "https://hooks.example.com/new";
+
+    it("manage-webhook subscribes, finds and unsubscribes", async () => {
+      const subscribed = await callTool("manage-webhook", {
+        action: "subscribe",
+        callbackUrl,
+        topic: ShopifyWebhookTopic.ORDERS_UPDATED,
+      });
+      expect(subscribed.isError).toBeFalsy();
+      const [, webhook] = fake.webhooks.values();
+      expect(webhook.callbackUrl).toBe(callbackUrl);
+
+      const found = await callTool("manage-webhook", {
+        action: "find",
+        callbackUrl,
+        topic: ShopifyWebhookTopic.ORDERS_UPDATED,
+      });
+      expect(found.content[0].text).toContain(webhook.id);
+
+      const unsubscribed = await callTool("manage-webhook", {
+        action: "unsubscribe",
+        callbackUrl,
+        topic: ShopifyWebhookTopic.ORDERS_UPDATED,
+        webhookId: webhook.id.split("/").pop(),
+      });
+      expect(unsubscribed.isError).toBeFalsy();
+      expect(fake.webhooks.has(webhook.id)).toBe(false);
+    });
+
+    it("manage-webhook requires a webhook ID to unsubscribe", async () => {
+      const result = await callTool("manage-webhook", {
+        action: "unsubscribe",
+        callbackUrl,
+        topic: ShopifyWebhookTopic.ORDERS_UPDATED,
+      });
+      expect(result.isError).toBe(true);
+    });
+
+    it("manage-webhook subscribes EventBridge and Pub/Sub endpoints with payload filters", async () => {
+      const eventBridge = await callTool("manage-webhook", {
+        action: "subscribe",
+        topic: ShopifyWebhookTopic.PRODUCTS_UPDATE,
+        arn: "arn:aws:events:us-east-1::event-source/aws.partner/shopify.com/1/main",
+        includeFields: ["id", "updated_at"],
+        metafieldNamespaces: ["custom"],
+      });
+      expect(eventBridge.isError).toBeFalsy();
+      expect(eventBridge.content[0].text).toContain("Include fields: id, updated_at");
+
+      const pubSub = await callTool("manage-webhook", {
+        action: "subscribe",
+        topic: ShopifyWebhookTopic.INVENTORY_LEVELS_UPDATE,
+        pubSubProject: "acme",
+        pubSubTopic: "inventory",
+      });
+      expect(pubSub.isError).toBeFalsy();
+
+      const found = await callTool("manage-webhook", {
+        action: "find",
+        topic: ShopifyWebhookTopic.INVENTORY_LEVELS_UPDATE,
+        pubSubProject: "acme",
+        pubSubTopic: "inventory",
+      });
+      expect(found.content[0].text).toContain("Endpoint: PUB_SUB pubsub://acme:inventory");
+
+      const [, subscribed] = fake.webhooks.values();
+      expect(subscribed.endpoint.type).toBe("EVENT_BRIDGE");
+      expect(subscribed.metafieldNamespaces).toEqual(["custom"]);
+    });
+
+    it("manage-webhook rejects several endpoints or a half Pub/Sub endpoint", async () => {
+      const several = await callTool("manage-webhook", {
+        action: "subscribe",
+        topic: ShopifyWebhookTopic.ORDERS_CREATE,
+        callbackUrl,
+        arn: "arn:aws:events:us-east-1::event-source/aws.partner/shopify.com/1/main",
+      });
+      expect(several.isError).toBe(true);
+
+      const halfPubSub = await callTool("manage-webhook", {
+        action: "subscribe",
+        topic: ShopifyWebhookTopic.ORDERS_CREATE,
+        pubSubProject: "acme",
+      });
+      expect(halfPubSub.isError).toBe(true);
+      expect(fake.webhooks.size).toBe(1);
+    });
+
+    it("manage-webhook updates the endpoint and payload filters", async () => {
+      const updated = await callTool("manage-webhook", {
+        action: "update",
+        webhookId: "701",
+        callbackUrl,
+        includeFields: ["id"],
+      });
+      expect(updated.isError).toBeFalsy();
+      const webhook = fake.webhooks.get("gid://shopify/WebhookSubscription/701")!;
+      expect(webhook.callbackUrl).toBe(callbackUrl);
+      expect(webhook.includeFields).toEqual(["id"]);
+      expect(webhook.format).toBe("JSON");
+
+      const changedType = await callTool("manage-webhook", {
+        action: "update",
+        webhookId: "701",
+        arn: "arn:aws:events:us-east-1::event-source/aws.partner/shopify.com/1/main",
+      });
+      expect(changedType.isError).toBe(true);
+      expect(changedType.content[0].text).toContain("Cannot change a HTTP webhook to EVENT_BRIDGE");
+    });
+
+    it("list-webhooks filters by topic and pages through the results", async () => {
+      for (const topic of [ShopifyWebhookTopic.ORDERS_CREATE, ShopifyWebhookTopic.ORDERS_PAID]) {
+        await fake.subscribeWebhook("token", "main.myshopify.com", callbackUrl, topic);
+      }
+
+      const firstPage = await callToolJson("list-webhooks", { first: 2 });
+      expect(firstPage.webhooks).toHaveLength(2);
+      expect(firstPage.pageInfo.hasNextPage).toBe(true);
+      const secondPage = await callToolJson("list-webhooks", { first: 2, after: firstPage.pageInfo.endCursor });
+      expect(secondPage.webhooks).toHaveLength(1);
+
+      const paid = await callToolJson("list-webhooks", { topics: [ShopifyWebhookTopic.ORDERS_PAID] });
+      expect(paid.webhooks.map((webhook: any) => webhook.topic)).toEqual(["orders/paid"]);
+    });
+
+    it("maps topics to and from their GraphQL names", () => {
+      expect(toGraphqlWebhookTopic(ShopifyWebhookTopic.APP_SUBSCRIPTIONS_UPDATE)).toBe("APP_SUBSCRIPTIONS_UPDATE");
+      expect(fromGraphqlWebhookTopic("FULFILLMENT_ORDERS_PLACED_ON_HOLD")).toBe("fulfillment_orders/placed_on_hold");
+    });
+  });
+
+  describe("webhook events", () => {
+    const secret = "app-secret";
+    let receiver: Server;
+    let receiverUrl: string;
+
+    function deliver(id: string, topic: string, payload: unknown, signingSecret = secret) {
+      const body = JSON.stringify(payload);
+      return fetch(receiverUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Shopify-Hmac-Sha256": createHmac("sha256", signingSecret).update(body).digest("base64"),
+          "X-Shopify-Webhook-Id": id,
+          "X-Shopify-Topic": topic,
+          "X-Shopify-Shop-Domain": "main.myshopify.com",
+          "X-Shopify-Triggered-At": "2024-05-01T10:00:00Z",
+        },
+        body,
+      });
+    }
+
+    beforeEach(async () => {
+      context.webhookEvents = new WebhookEventStore();
+      receiver = await startWebhookReceiver(context.webhookEvents, {
+        port: 0,
+        host: "127.0.0.1",
+        path: "/webhooks",
+        secrets: ["old-secret", secret],
+      });
+      receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/webhooks`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => receiver.close(resolve));
+      context.webhookEvents = undefined;
+    });
+
+    it("stores verified deliveries once and rejects bad signatures", async () => {
+      expect((await deliver("delivery-1", "orders/updated", { id: 401 })).status).toBe(200);
+      expect((await deliver("delivery-1", "orders/updated", { id: 401 })).status).toBe(200);
+      expect((await deliver("delivery-2", "orders/updated", { id: 402 }, "wrong")).status).toBe(401);
+      expect(context.webhookEvents!.size).toBe(1);
+
+      const oversized = await deliver("delivery-3", "orders/updated", { padding: "x".repeat(4 * 1024 * 1024) });
+      expect(oversized.status).toBe(413);
+      expect(await oversized.text()).toBe("Request body too large");
+      expect(console.error).not.toHaveBeenCalledWith("Error handling webhook delivery:", expect.anything());
+    });
+
+    it("list-webhook-events filters deliveries and get-webhook-event returns the payload", async () => {
+      await deliver("delivery-1", "orders/updated", { id: 401 });
+      await deliver("delivery-2", "products/update", { id: 101 });
+      await deliver("delivery-3", "orders/updated", { id: 402 });
+
+      const orders = await callToolJson("list-webhook-events", { topic: "orders/updated", shop: "main" });
+      expect(orders.events.map((event: any) => event.id)).toEqual(["delivery-3", "delivery-1"]);
+      expect(orders.events[0].payload).toBeUndefined();
+      expect(orders.events[0].triggeredAt).toBe("2024-05-01T10:00:00Z");
+
+      const outlet = await callToolJson("list-webhook-events", { shop: "outlet" });
+      expect(outlet.events).toEqual([]);
+
+      const event = await callToolJson("get-webhook-event", { eventId: "delivery-2" });
+      expect(event).toMatchObject({ topic: "products/update", shopDomain: "main.myshopify.com", payload: { id: 101 } });
+
+      const missing = await callTool("get-webhook-event", { eventId: "nope" });
+      expect(missing.isError).toBe(true);
+    });
+
+    it("persists events and remembers their IDs across restarts", async () => {
+      const path = join(tmpdir(), `webhook-events-${process.pid}.jsonl`);
+      const event = {
+        id: "delivery-1",
+        topic: "orders/updated",
+        shopDomain: "main.myshopify.com",
+        apiVersion: "2023-10",
+        eventId: null,
+        triggeredAt: null,
+        receivedAt: new Date().toISOString(),
+        payload: { id: 401 },
+      };
+      try {
+        const store = new WebhookEventStore({ path, maxEvents: 2 });
+        expect(await store.add(event)).toBe(true);
+        expect(await store.add({ ...event, id: "delivery-2" })).toBe(true);
+        expect(await store.add({ ...event, id: "delivery-3" })).toBe(true);
+
+        const reloaded = new WebhookEventStore({ path, maxEvents: 2 });
+        await reloaded.load();
+        expect(reloaded.list().events.map((e) => e.id)).toEqual(["delivery-3", "delivery-2"]);
+        expect(await reloaded.add({ ...event, id: "delivery-3" })).toBe(false);
+      } finally {
+        await rm(path, { force: true });
+      }
+    });
+
+    it("stores a retried delivery whose first write failed", async () => {
+      // A file where the events directory should be makes the write fail
+      const blocker = join(tmpdir(), `webhook-blocker-${process.pid}`);
+      await writeFile(blocker, "");
+      const event = {
+        id: "delivery-1",
+        topic: "orders/updated",
+        shopDomain: "main.myshopify.com",
+        apiVersion: "2024-04",
+        eventId: null,
+        triggeredAt: null,
+        receivedAt: new Date().toISOString(),
+        payload: { id: 401 },
+      };
+      try {
+        const store = new WebhookEventStore({ path: join(blocker, "events.jsonl") });
+        await expect(store.add(event)).rejects.toThrow();
+        expect(store.has("delivery-1")).toBe(false);
+
+        await rm(blocker);
+        expect(await store.add(event)).toBe(true);
+        expect(store.has("delivery-1")).toBe(true);
+        expect(await store.add(event)).toBe(false);
+      } finally {
+        await rm(blocker, { recursive: true, force: true });
+      }
+    });
+
+    it("reports the receiver as disabled without a store", async () => {
+      context.webhookEvents = undefined;
+      const result = await callTool("list-webhook-events");
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("SHOPIFY_WEBHOOK_SECRET");
+    });
+  });
+
+  describe("blog", () => {
+    it("get_blog_articles filters by status and tag", async () => {
+      const drafts = await callToolJson("get_blog_articles", { status: "draft" });
+      expect(drafts.map((article: any) => article.id)).toEqual(["602"]);
+
+      const summer = await callToolJson("get_blog_articles", { tag: "summer" });
+      expect(summer.map((article: any) => article.id)).toEqual(["601"]);
+    });
+
+    it("get_blog_article returns a single article", async () => {
+      const article = await callToolJson("get_blog_article", { articleId: "601" });
+      expect(article.title).toBe("Packing for summer");
+
+      const missing = await callTool("get_blog_article", { articleId: "999" });
+      expect(missing.isError).toBe(true);
+    });
+
+    it("create_blog_article, update_blog_article and delete_blog_article manage an article", async () => {
+      const created = await callToolJson("create_blog_article", {
+        title: "New arrivals",
+        author: "Ada",
+        body_html: "<p>Hello</p>",
+        tags: ["news"],
+      });
+      expect(created.status).toBe("draft");
+
+      const updated = await callToolJson("update_blog_article", {
+        articleId: created.id,
+        updates: { title: "New arrivals for spring", status: "published" },
+      });
+      expect(updated).toEqual({ id: created.id, title: "New arrivals for spring", status: "published" });
+
+      expect(await callToolJson("delete_blog_article", { articleId: created.id })).toBe(true);
+      expect(fake.blogArticles.has(created.id)).toBe(false);
+    });
+  });
+
+  describe("cache", () => {
+    it("clear-cache and cache-stats report on the response cache", async () => {
+      expect(await callToolJson("clear-cache")).toEqual({ cleared: 0 });
+      expect(await callToolJson("clear-cache", { shop: "outlet", group: "products" })).toEqual({ cleared: 0 });
+
+      const stats = await callToolJson("cache-stats");
+      expect(stats.size).toBe(0);
+      expect(stats.ttlsMs.products).toBeGreaterThan(0);
+    });
+  });
+
+  it("surfaces client errors as tool errors", async () => {
+    fake.failNext("loadCustomers", new Error("boom"));
+    const result = await callTool("get-customers");
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Failed to retrieve customers: boom");
+  });
+
+  // Keep this last: it checks that the cases above exercised every registered tool
+  it("covers every registered tool", async () => {
+    const { tools } = await client.listTools();
+    const untested = tools.map((tool) => tool.name).filter((name) => !calledTools.has(name));
+    expect(untested).toEqual([]);
+  });
+});
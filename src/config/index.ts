@@ -4,11 +4,17 @@
  */
 
 import 'dotenv/config';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { ShopRegistry, loadShopRegistryConfig } from './shops.js';
+
+export { ShopRegistry } from './shops.js';
+export type { ShopConfig } from './shops.js';
 
 // No need to import process as it's a global in Node.js
 
 // Default Shopify API version - can be overridden with environment variable
-const DEFAULT_API_VERSION = '2023-10';
+const DEFAULT_API_VERSION = '2024-04';
 
 export interface ShopifyConfig {
   accessToken: string;
@@ -17,30 +23,299 @@ export interface ShopifyConfig {
 }
 
 /**
- * Validates and loads configuration from environment variables
+ * Validates and loads the shop registry from the environment
+ * Shops come from SHOPIFY_SHOPS_FILE, SHOPIFY_SHOP_<NAME>_* variables and
+ * the legacy SHOPIFY_ACCESS_TOKEN/MYSHOPIFY_DOMAIN pair
+ * @returns Registry of all configured shops
+ * @throws Error if no shop is configured or the registry is inconsistent
+ */
+export function loadShopRegistry(): ShopRegistry {
+  // Allow API version to be configurable via environment variable
+  const apiVersion = process.env.SHOPIFY_API_VERSION || DEFAULT_API_VERSION;
+
+  return new ShopRegistry(loadShopRegistryConfig(process.env, apiVersion));
+}
+
+/**
+ * Loads the configuration of the default shop
  * @returns Validated configuration object
- * @throws Error if required environment variables are missing
+ * @throws Error if no shop is configured
  */
 export function loadConfig(): ShopifyConfig {
-  const accessToken = process.env.SHOPIFY_ACCESS_TOKEN;
-  if (!accessToken) {
-    throw new Error("SHOPIFY_ACCESS_TOKEN environment variable is required");
+  const { accessToken, shopDomain, apiVersion } = loadShopRegistry().resolve();
+
+  return {
+    accessToken,
+    shopDomain,
+    apiVersion,
+  };
+}
+
+// Export singleton instances of the shop registry and the default shop config
+export const shopRegistry = loadShopRegistry();
+export const config: ShopifyConfig = shopRegistry.resolve();
+
+// Default HTTP transport settings - only used when MCP_TRANSPORT=http
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS = 30 * 60;
+
+export type TransportType = 'stdio' | 'http';
+
+export interface TransportConfig {
+  type: TransportType;
+  port: number;
+  host: string;
+  authToken?: string;
+  // Host headers accepted without an auth token besides the bind address and loopback names
+  allowedHosts: string[];
+  // Streamable HTTP sessions without any request for this long are closed
+  sessionIdleTimeoutMs: number;
+}
+
+/**
+ * Loads the transport configuration from environment variables
+ * @returns Validated transport configuration, defaulting to stdio
+ * @throws Error if the transport type, port or session idle timeout is invalid
+ */
+export function loadTransportConfig(): TransportConfig {
+  const type = (process.env.MCP_TRANSPORT || 'stdio').toLowerCase();
+  if (type !== 'stdio' && type !== 'http') {
+    throw new Error(`MCP_TRANSPORT must be "stdio" or "http", got "${type}"`);
   }
 
-  const shopDomain = process.env.MYSHOPIFY_DOMAIN;
-  if (!shopDomain) {
-    throw new Error("MYSHOPIFY_DOMAIN environment variable is required");
+  const port = process.env.MCP_HTTP_PORT ? Number(process.env.MCP_HTTP_PORT) : DEFAULT_HTTP_PORT;
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`MCP_HTTP_PORT must be a valid port number, got "${process.env.MCP_HTTP_PORT}"`);
   }
 
-  // Allow API version to be configurable via environment variable
-  const apiVersion = process.env.SHOPIFY_API_VERSION || DEFAULT_API_VERSION;
+  const idleTimeout = process.env.MCP_SESSION_IDLE_TIMEOUT
+    ? Number(process.env.MCP_SESSION_IDLE_TIMEOUT)
+    : DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS;
+  if (!Number.isInteger(idleTimeout) || idleTimeout <= 0) {
+    throw new Error(`MCP_SESSION_IDLE_TIMEOUT must be a positive number of seconds, got "${process.env.MCP_SESSION_IDLE_TIMEOUT}"`);
+  }
 
   return {
-    accessToken,
-    shopDomain,
-    apiVersion,
+    type,
+    port,
+    host: process.env.MCP_HTTP_HOST || DEFAULT_HTTP_HOST,
+    authToken: process.env.MCP_AUTH_TOKEN || undefined,
+    allowedHosts: parseList('MCP_ALLOWED_HOSTS'),
+    sessionIdleTimeoutMs: idleTimeout * 1000,
+  };
+}
+
+// Default response cache settings
+const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+export interface CacheConfig {
+  enabled: boolean;
+  maxEntries: number;
+}
+
+/**
+ * Loads the response cache configuration from environment variables
+ * @returns Validated cache configuration, enabled by default
+ * @throws Error if the maximum number of entries is invalid
+ */
+export function loadCacheConfig(): CacheConfig {
+  const maxEntries = process.env.SHOPIFY_CACHE_MAX_ENTRIES
+    ? Number(process.env.SHOPIFY_CACHE_MAX_ENTRIES)
+    : DEFAULT_CACHE_MAX_ENTRIES;
+  if (!Number.isInteger(maxEntries) || maxEntries <= 0) {
+    throw new Error(`SHOPIFY_CACHE_MAX_ENTRIES must be a positive integer, got "${process.env.SHOPIFY_CACHE_MAX_ENTRIES}"`);
+  }
+
+  return {
+    enabled: process.env.SHOPIFY_CACHE_ENABLED !== 'false',
+    maxEntries,
+  };
+}
+
+// Default webhook receiver settings - only used when SHOPIFY_WEBHOOK_SECRET is set
+const DEFAULT_WEBHOOK_PORT = 3001;
+const DEFAULT_WEBHOOK_HOST = '127.0.0.1';
+const DEFAULT_WEBHOOK_PATH = '/webhooks';
+const DEFAULT_WEBHOOK_MAX_EVENTS = 1000;
+
+export interface WebhookReceiverConfig {
+  port: number;
+  host: string;
+  path: string;
+  // App secrets deliveries may be signed with; several allow secret rotation or several apps
+  secrets: string[];
+  // JSONL file the received events are persisted to
+  storePath: string;
+  maxEvents: number;
+}
+
+/**
+ * Loads the webhook receiver configuration from environment variables
+ * @returns Validated receiver configuration, or null if SHOPIFY_WEBHOOK_SECRET is not set
+ * @throws Error if the port or the number of retained events is invalid
+ */
+export function loadWebhookReceiverConfig(): WebhookReceiverConfig | null {
+  const secrets = (process.env.SHOPIFY_WEBHOOK_SECRET || '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+  if (secrets.length === 0) {
+    return null;
+  }
+
+  const port = process.env.SHOPIFY_WEBHOOK_PORT ? Number(process.env.SHOPIFY_WEBHOOK_PORT) : DEFAULT_WEBHOOK_PORT;
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`SHOPIFY_WEBHOOK_PORT must be a valid port number, got "${process.env.SHOPIFY_WEBHOOK_PORT}"`);
+  }
+
+  const maxEvents = process.env.SHOPIFY_WEBHOOK_MAX_EVENTS
+    ? Number(process.env.SHOPIFY_WEBHOOK_MAX_EVENTS)
+    : DEFAULT_WEBHOOK_MAX_EVENTS;
+  if (!Number.isInteger(maxEvents) || maxEvents <= 0) {
+    throw new Error(`SHOPIFY_WEBHOOK_MAX_EVENTS must be a positive integer, got "${process.env.SHOPIFY_WEBHOOK_MAX_EVENTS}"`);
+  }
+
+  return {
+    port,
+    host: process.env.SHOPIFY_WEBHOOK_HOST || DEFAULT_WEBHOOK_HOST,
+    path: process.env.SHOPIFY_WEBHOOK_PATH || DEFAULT_WEBHOOK_PATH,
+    secrets,
+    storePath: process.env.SHOPIFY_WEBHOOK_STORE || join(homedir(), '.shopify-mcp-server', 'webhook-events.jsonl'),
+    maxEvents,
   };
 }
 
-// Export a singleton instance of the config
-export const config = loadConfig(); 
\ No newline at end of file
+export interface ToolPolicyConfig {
+  // Only register tools annotated as read-only
+  readOnly: boolean;
+  // Glob patterns on tool names and categories; when set, only matching tools are registered
+  allow: string[];
+  // Glob patterns on tool names and categories; matching tools are never registered
+  deny: string[];
+}
+
+function parseBoolean(name: string, defaultValue = false): boolean {
+  const value = (process.env[name] || '').trim().toLowerCase();
+  if (value === '') {
+    return defaultValue;
+  }
+  if (['false', '0', 'no'].includes(value)) {
+    return false;
+  }
+  if (['true', '1', 'yes'].includes(value)) {
+    return true;
+  }
+  throw new Error(`${name} must be "true" or "false", got "${process.env[name]}"`);
+}
+
+function parseList(name: string): string[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Loads the tool policy from environment variables
+ * @returns Tool policy, registering every tool by default
+ * @throws Error if READ_ONLY is not a boolean
+ */
+export function loadToolPolicyConfig(): ToolPolicyConfig {
+  return {
+    readOnly: parseBoolean('READ_ONLY'),
+    allow: parseList('ALLOWED_TOOLS'),
+    deny: parseList('DENIED_TOOLS'),
+  };
+}
+
+// Default confirmation settings for destructive tools
+const DEFAULT_CONFIRMATION_ITEM_THRESHOLD = 10;
+const DEFAULT_CONFIRMATION_TTL_SECONDS = 300;
+
+export interface ConfirmationConfig {
+  // Calls that delete or remove anything need a confirmation token
+  confirmDeletes: boolean;
+  // Calls changing more than this many items need a confirmation token
+  itemThreshold: number;
+  // How long an issued token can be used
+  ttlSeconds: number;
+}
+
+function parseNonNegativeInteger(name: string, defaultValue: number): number {
+  const value = process.env[name] ? Number(process.env[name]) : defaultValue;
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${process.env[name]}"`);
+  }
+  return value;
+}
+
+/**
+ * Loads the confirmation settings of destructive tools from environment variables
+ * @returns Confirmation settings, or null if CONFIRM_DESTRUCTIVE_TOOLS=false
+ * @throws Error if a flag is not a boolean or a number is invalid
+ */
+export function loadConfirmationConfig(): ConfirmationConfig | null {
+  if (!parseBoolean('CONFIRM_DESTRUCTIVE_TOOLS', true)) {
+    return null;
+  }
+
+  const ttlSeconds = parseNonNegativeInteger('CONFIRMATION_TTL_SECONDS', DEFAULT_CONFIRMATION_TTL_SECONDS);
+  if (ttlSeconds === 0) {
+    throw new Error('CONFIRMATION_TTL_SECONDS must be a positive integer, got "0"');
+  }
+
+  return {
+    confirmDeletes: parseBoolean('CONFIRM_DELETES', true),
+    itemThreshold: parseNonNegativeInteger('CONFIRM_ITEM_THRESHOLD', DEFAULT_CONFIRMATION_ITEM_THRESHOLD),
+    ttlSeconds,
+  };
+}
+
+// Default audit log settings
+const DEFAULT_AUDIT_LOG_MAX_ENTRIES = 10000;
+
+export interface AuditLogConfig {
+  // JSONL file every mutation is appended to
+  path: string;
+  // Most recent entries kept in memory for get-audit-log
+  maxEntries: number;
+}
+
+/**
+ * Loads the audit log configuration from environment variables
+ * @returns Audit log configuration, or null if SHOPIFY_AUDIT_LOG=false
+ * @throws Error if SHOPIFY_AUDIT_LOG is not a boolean or the number of entries is invalid
+ */
+export function loadAuditLogConfig(): AuditLogConfig | null {
+  if (!parseBoolean('SHOPIFY_AUDIT_LOG', true)) {
+    return null;
+  }
+
+  const maxEntries = process.env.SHOPIFY_AUDIT_LOG_MAX_ENTRIES
+    ? Number(process.env.SHOPIFY_AUDIT_LOG_MAX_ENTRIES)
+    : DEFAULT_AUDIT_LOG_MAX_ENTRIES;
+  if (!Number.isInteger(maxEntries) || maxEntries <= 0) {
+    throw new Error(`SHOPIFY_AUDIT_LOG_MAX_ENTRIES must be a positive integer, got "${process.env.SHOPIFY_AUDIT_LOG_MAX_ENTRIES}"`);
+  }
+
+  return {
+    path: process.env.SHOPIFY_AUDIT_LOG_PATH || join(homedir(), '.shopify-mcp-server', 'audit-log.jsonl'),
+    maxEntries,
+  };
+}
+
+export interface ExportConfig {
+  // Directory export-products writes its files to
+  directory: string;
+}
+
+/**
+ * Loads the catalog export configuration from environment variables
+ * @returns Export configuration, writing to ~/.shopify-mcp-server/exports by default
+ */
+export function loadExportConfig(): ExportConfig {
+  return {
+    directory: process.env.SHOPIFY_EXPORT_DIR || join(homedir(), '.shopify-mcp-server', 'exports'),
+  };
+}
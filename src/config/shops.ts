@@ -0,0 +1,216 @@
+/**
+ * Shop registry for the Shopify MCP Server
+ * Lets a single server process talk to several stores, selected per tool call
+ */
+
+import { readFileSync } from 'fs';
+
+// Environment prefix for shops declared as SHOPIFY_SHOP_<NAME>_DOMAIN / _ACCESS_TOKEN / _API_VERSION
+const SHOP_ENV_PREFIX = 'SHOPIFY_SHOP_';
+const SHOP_ENV_PATTERN = new RegExp(`^${SHOP_ENV_PREFIX}(.+)_(DOMAIN|ACCESS_TOKEN|API_VERSION)$`);
+
+// Name given to the shop declared through the legacy MYSHOPIFY_DOMAIN/SHOPIFY_ACCESS_TOKEN pair
+export const LEGACY_SHOP_NAME = 'default';
+
+export interface ShopConfig {
+  name: string;
+  accessToken: string;
+  shopDomain: string;
+  apiVersion: string;
+}
+
+export interface ShopRegistryConfig {
+  defaultShop: string;
+  shops: ShopConfig[];
+}
+
+/**
+ * Shape of the JSON file pointed to by SHOPIFY_SHOPS_FILE
+ */
+interface ShopsFile {
+  defaultShop?: string;
+  shops: Record<string, {
+    shopDomain: string;
+    accessToken: string;
+    apiVersion?: string;
+  }>;
+}
+
+function normalizeShopName(name: string): string {
+  return name.trim().toLowerCase().replace(/_/g, '-');
+}
+
+/**
+ * Reads shops from a JSON registry file
+ * @throws Error if the file cannot be read or an entry is incomplete
+ */
+function loadShopsFromFile(path: string, defaultApiVersion: string): { shops: ShopConfig[]; defaultShop?: string } {
+  let parsed: ShopsFile;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Unable to read shop registry file ${path}: ${(error as Error).message}`);
+  }
+
+  if (!parsed || typeof parsed.shops !== 'object') {
+    throw new Error(`Shop registry file ${path} must contain a "shops" object`);
+  }
+
+  const shops = Object.entries(parsed.shops).map(([name, entry]) => {
+    if (!entry?.shopDomain || !entry?.accessToken) {
+      throw new Error(`Shop "${name}" in ${path} requires both shopDomain and accessToken`);
+    }
+    return {
+      name: normalizeShopName(name),
+      shopDomain: entry.shopDomain,
+      accessToken: entry.accessToken,
+      apiVersion: entry.apiVersion || defaultApiVersion,
+    };
+  });
+
+  return {
+    shops,
+    defaultShop: parsed.defaultShop ? normalizeShopName(parsed.defaultShop) : undefined,
+  };
+}
+
+/**
+ * Reads shops declared with the SHOPIFY_SHOP_<NAME>_* environment variables
+ * @throws Error if a shop declares a domain without a token or vice versa
+ */
+function loadShopsFromEnv(env: NodeJS.ProcessEnv, defaultApiVersion: string): ShopConfig[] {
+  const names = new Set<string>();
+  for (const key of Object.keys(env)) {
+    const match = SHOP_ENV_PATTERN.exec(key);
+    if (match) {
+      names.add(match[1]);
+    }
+  }
+
+  return [...names].map((rawName) => {
+    const shopDomain = env[`${SHOP_ENV_PREFIX}${rawName}_DOMAIN`];
+    const accessToken = env[`${SHOP_ENV_PREFIX}${rawName}_ACCESS_TOKEN`];
+    if (!shopDomain || !accessToken) {
+      throw new Error(
+        `${SHOP_ENV_PREFIX}${rawName}_DOMAIN and ${SHOP_ENV_PREFIX}${rawName}_ACCESS_TOKEN must both be set`
+      );
+    }
+    return {
+      name: normalizeShopName(rawName),
+      shopDomain,
+      accessToken,
+      apiVersion: env[`${SHOP_ENV_PREFIX}${rawName}_API_VERSION`] || defaultApiVersion,
+    };
+  });
+}
+
+/**
+ * Builds the shop registry configuration from the registry file, prefixed
+ * environment variables and the legacy single-shop variables
+ * @throws Error if no shop is configured, names collide, or the default shop is unknown
+ */
+export function loadShopRegistryConfig(
+  env: NodeJS.ProcessEnv,
+  defaultApiVersion: string
+): ShopRegistryConfig {
+  const shops: ShopConfig[] = [];
+  let fileDefault: string | undefined;
+
+  if (env.SHOPIFY_SHOPS_FILE) {
+    const fromFile = loadShopsFromFile(env.SHOPIFY_SHOPS_FILE, defaultApiVersion);
+    shops.push(...fromFile.shops);
+    fileDefault = fromFile.defaultShop;
+  }
+
+  shops.push(...loadShopsFromEnv(env, defaultApiVersion));
+
+  if (env.SHOPIFY_ACCESS_TOKEN && env.MYSHOPIFY_DOMAIN) {
+    shops.push({
+      name: LEGACY_SHOP_NAME,
+      shopDomain: env.MYSHOPIFY_DOMAIN,
+      accessToken: env.SHOPIFY_ACCESS_TOKEN,
+      apiVersion: defaultApiVersion,
+    });
+  }
+
+  if (shops.length === 0) {
+    throw new Error(
+      'No Shopify shop configured. Set SHOPIFY_ACCESS_TOKEN and MYSHOPIFY_DOMAIN, ' +
+      `${SHOP_ENV_PREFIX}<NAME>_DOMAIN and ${SHOP_ENV_PREFIX}<NAME>_ACCESS_TOKEN, or SHOPIFY_SHOPS_FILE`
+    );
+  }
+
+  const seen = new Set<string>();
+  for (const shop of shops) {
+    if (seen.has(shop.name)) {
+      throw new Error(`Shop "${shop.name}" is configured more than once`);
+    }
+    seen.add(shop.name);
+  }
+
+  const requestedDefault = env.SHOPIFY_DEFAULT_SHOP ? normalizeShopName(env.SHOPIFY_DEFAULT_SHOP) : fileDefault;
+  const defaultShop = requestedDefault
+    ?? (seen.has(LEGACY_SHOP_NAME) ? LEGACY_SHOP_NAME : shops[0].name);
+
+  if (!seen.has(defaultShop)) {
+    throw new Error(`Default shop "${defaultShop}" is not a configured shop`);
+  }
+
+  return { defaultShop, shops };
+}
+
+/**
+ * Resolves shop names (or myshopify domains) to their credentials
+ */
+export class ShopRegistry {
+  private readonly shops = new Map<string, ShopConfig>();
+  readonly defaultShop: string;
+
+  constructor(registryConfig: ShopRegistryConfig) {
+    for (const shop of registryConfig.shops) {
+      this.shops.set(shop.name, shop);
+    }
+    this.defaultShop = registryConfig.defaultShop;
+  }
+
+  /**
+   * Looks up a shop by name or myshopify domain
+   * @param shop Shop name or domain; the default shop when omitted
+   * @throws Error if the shop is not configured
+   */
+  resolve(shop?: string): ShopConfig {
+    if (!shop) {
+      return this.shops.get(this.defaultShop)!;
+    }
+
+    const byName = this.shops.get(normalizeShopName(shop));
+    if (byName) {
+      return byName;
+    }
+
+    const domain = shop.trim().toLowerCase();
+    for (const candidate of this.shops.values()) {
+      if (candidate.shopDomain.toLowerCase() === domain) {
+        return candidate;
+      }
+    }
+
+    throw new Error(`Unknown shop "${shop}". Available shops: ${this.names().join(', ')}`);
+  }
+
+  names(): string[] {
+    return [...this.shops.keys()];
+  }
+
+  /**
+   * Lists the configured shops without their access tokens
+   */
+  list(): Array<{ name: string; shopDomain: string; apiVersion: string; isDefault: boolean }> {
+    return [...this.shops.values()].map((shop) => ({
+      name: shop.name,
+      shopDomain: shop.shopDomain,
+      apiVersion: shop.apiVersion,
+      isDefault: shop.name === this.defaultShop,
+    }));
+  }
+}
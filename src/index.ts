@@ -2,27 +2,98 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { config } from "./config/index.js";
+import { Server } from "node:http";
+import {
+  ToolPolicyConfig,
+  loadAuditLogConfig,
+  loadConfirmationConfig,
+  loadExportConfig,
+  loadToolPolicyConfig,
+  loadTransportConfig,
+  loadWebhookReceiverConfig,
+} from "./config/index.js";
+import { startHttpServer } from "./transport/httpServer.js";
+import { startWebhookReceiver } from "./transport/webhookReceiver.js";
+import { WebhookEventStore } from "./utils/webhookEventStore.js";
+import { ConfirmationStore } from "./utils/confirmationStore.js";
+import { AuditLog } from "./utils/auditLog.js";
 import { registerProductTools } from "./tools/productTools.js";
+import { registerExtendedProductTools } from "./tools/extendedProductTools.js";
 import { registerCustomerTools } from "./tools/customerTools.js";
 import { registerOrderTools } from "./tools/orderTools.js";
 import { registerShopTools } from "./tools/shopTools.js";
 import { registerDiscountTools } from "./tools/discountTools.js";
 import { registerWebhookTools } from "./tools/webhookTools.js";
 import { registerBlogTools } from "./tools/blogTools.js";
+import { registerCacheTools } from "./tools/cacheTools.js";
+import { auditToolCalls, registerAuditTools } from "./tools/auditTools.js";
+import { registerAnalyticsTools } from "./tools/analyticsTools.js";
+import { registerBulkOperationTools } from "./tools/bulkOperationTools.js";
+import { registerCatalogTools } from "./tools/catalogTools.js";
+import { registerStoreResources } from "./resources/storeResources.js";
+import { registerMerchantPrompts } from "./prompts/merchantPrompts.js";
+import { ToolContext } from "./tools/toolContext.js";
+import { ToolCategory, applyToolPolicy } from "./tools/toolPolicy.js";
+import { createDefaultToolContext } from "./ShopifyClient/defaultClient.js";
+
+/**
+ * Creates an MCP server with all tools, resources and prompts registered
+ * The HTTP transport calls this once per client session
+ * @param context Shop registry and client factory shared by the tools
+ * @param toolPolicy Read-only mode and allow/deny lists deciding which tools are registered
+ */
+function createServer(context: ToolContext, toolPolicy: ToolPolicyConfig): McpServer {
+  const server = new McpServer({
+    name: "shopify-tools",
+    version: "1.0.1",
+    description: "Shopify API integration tools for MCP"
+  });
+
+  // Register the tools the policy allows, auditing the mutations they send
+  const tools = (category: ToolCategory) => auditToolCalls(applyToolPolicy(server, category, toolPolicy));
+  registerProductTools(tools("products"), context);
+  registerExtendedProductTools(tools("products"), context);
+  registerCustomerTools(tools("customers"), context);
+  registerOrderTools(tools("orders"), context);
+  registerShopTools(tools("shop"), context);
+  registerDiscountTools(tools("discounts"), context);
+  registerWebhookTools(tools("webhooks"), context);
+  registerBlogTools(tools("blog"), context);
+  registerCacheTools(tools("cache"), context);
+  registerAuditTools(tools("audit"), context);
+  registerAnalyticsTools(tools("analytics"), context);
+  registerBulkOperationTools(tools("bulk"), context);
+  registerCatalogTools(tools("catalog"), context);
+
+  registerStoreResources(server, context);
+  registerMerchantPrompts(server, context);
+
+  return server;
+}
 
 /**
  * Main entry point for the Shopify MCP Server
- * Initializes the server and registers all tools
+ * Initializes the server and connects it to the configured transport
  */
 async function main() {
   let server: McpServer | null = null;
+  let httpServer: Server | null = null;
+  let webhookServer: Server | null = null;
 
   async function shutdown(signal: string) {
     console.error(`Received ${signal}. Shutting down gracefully...`);
-    if (server) {
+    if (server || httpServer || webhookServer) {
       try {
-        // The server will automatically disconnect when the process exits
+        if (webhookServer) {
+          await new Promise<void>((resolve) => webhookServer!.close(() => resolve()));
+        }
+        if (httpServer) {
+          const closed = new Promise<void>((resolve) => httpServer!.close(() => resolve()));
+          // Long-lived SSE streams would otherwise keep close() pending forever
+          httpServer.closeAllConnections();
+          await closed;
+        }
+        // The stdio server will automatically disconnect when the process exits
         console.error("Server shutdown complete");
       } catch (error) {
         console.error('Error during shutdown:', error);
@@ -36,33 +107,79 @@ async function main() {
   process.on('SIGINT', () => shutdown('SIGINT'));
   
   try {
-    // Validate required environment variables
-    if (!process.env.SHOPIFY_ACCESS_TOKEN || !process.env.MYSHOPIFY_DOMAIN) {
-      throw new Error('Missing required environment variables. Please check README.md for setup instructions.');
+    // Swap the client factory here to run the tools against another ShopifyClientPort
+    const toolContext = createDefaultToolContext();
+
+    // Shop credentials are validated when the shop registry is loaded
+    const connectedShops = toolContext.shopRegistry
+      .list()
+      .map((shop) => `${shop.name} (${shop.shopDomain})${shop.isDefault ? " [default]" : ""}`)
+      .join(", ");
+
+    const transportConfig = loadTransportConfig();
+    const webhookConfig = loadWebhookReceiverConfig();
+    const toolPolicy = loadToolPolicyConfig();
+    if (toolPolicy.readOnly || toolPolicy.allow.length > 0 || toolPolicy.deny.length > 0) {
+      console.error(
+        `Tool policy: ${toolPolicy.readOnly ? "read-only" : "read-write"}` +
+          (toolPolicy.allow.length > 0 ? `, allowed: ${toolPolicy.allow.join(", ")}` : "") +
+          (toolPolicy.deny.length > 0 ? `, denied: ${toolPolicy.deny.join(", ")}` : "")
+      );
+    }
+
+    const auditLogConfig = loadAuditLogConfig();
+    if (auditLogConfig) {
+      const auditLog = new AuditLog({ path: auditLogConfig.path, maxEntries: auditLogConfig.maxEntries });
+      await auditLog.load();
+      toolContext.auditLog = auditLog;
+      console.error(`Recording mutations to ${auditLogConfig.path}`);
+    }
+
+    toolContext.exportDirectory = loadExportConfig().directory;
+
+    const confirmationConfig = loadConfirmationConfig();
+    if (confirmationConfig) {
+      toolContext.confirmations = new ConfirmationStore({
+        confirmDeletes: confirmationConfig.confirmDeletes,
+        itemThreshold: confirmationConfig.itemThreshold,
+        ttl: confirmationConfig.ttlSeconds * 1000,
+      });
+    } else {
+      console.error("Warning: CONFIRM_DESTRUCTIVE_TOOLS=false, destructive tools run without confirmation");
+    }
+
+    if (webhookConfig) {
+      const webhookEvents = new WebhookEventStore({
+        path: webhookConfig.storePath,
+        maxEvents: webhookConfig.maxEvents,
+      });
+      await webhookEvents.load();
+      toolContext.webhookEvents = webhookEvents;
+      webhookServer = await startWebhookReceiver(webhookEvents, webhookConfig);
+      console.error(
+        `Webhook receiver listening on http://${webhookConfig.host}:${webhookConfig.port}${webhookConfig.path}, storing events in ${webhookConfig.storePath}`
+      );
+    }
+
+    if (transportConfig.type === "http") {
+      httpServer = await startHttpServer(() => createServer(toolContext, toolPolicy), transportConfig);
+
+      console.error(`Shopify MCP Server listening on http://${transportConfig.host}:${transportConfig.port}`);
+      console.error("Streamable HTTP endpoint: /mcp, SSE endpoint: /sse");
+      if (!transportConfig.authToken) {
+        console.error("Warning: MCP_AUTH_TOKEN is not set, the HTTP endpoint is unauthenticated");
+      }
+      console.error(`Connected to shops: ${connectedShops}`);
+      return;
     }
 
-    // Create the MCP server
-    server = new McpServer({
-      name: "shopify-tools",
-      version: "1.0.1",
-      description: "Shopify API integration tools for MCP"
-    });
-
-    // Register all tools
-    registerProductTools(server);
-    registerCustomerTools(server);
-    registerOrderTools(server);
-    registerShopTools(server);
-    registerDiscountTools(server);
-    registerWebhookTools(server);
-    registerBlogTools(server);
-
-    // Connect to the transport
+    // Connect to the stdio transport
+    server = createServer(toolContext, toolPolicy);
     const transport = new StdioServerTransport();
     await server.connect(transport);
     
     console.error("Shopify MCP Server running on stdio");
-    console.error(`Connected to shop: ${process.env.MYSHOPIFY_DOMAIN}`);
+    console.error(`Connected to shops: ${connectedShops}`);
     
     // Keep the process running
     process.stdin.resume();
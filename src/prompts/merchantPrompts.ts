@@ -0,0 +1,386 @@
+/**
+ * Prompt templates for the Shopify MCP Server
+ * Each prompt fetches the store data its workflow needs and embeds it in the
+ * prompt message, so the agent starts from current figures rather than
+ * having to call the read tools first
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, GetPromptResult, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ShopifyClientPort, ShopifyOrderGraphql, maxOrdersPerPage } from "../ShopifyClient/ShopifyClientPort.js";
+import { ToolContext, resolveShopClient } from "../tools/toolContext.js";
+import { shopArgument } from "../tools/shopArgument.js";
+
+// Upper bounds on what a prompt fetches, so large stores still get a prompt of reasonable size
+const MAX_ORDERS = 250;
+const MAX_PRODUCTS = 250;
+const PAGE_SIZE = 50;
+// Orders are read with the 10 line items loadOrders returns by default
+const ORDERS_PER_PAGE = maxOrdersPerPage(10);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Prompt arguments are always strings, numbers are validated here and parsed by the prompts
+function countArgument(description: string) {
+  return z
+    .string()
+    .regex(/^\d+$/, "Must be a whole number")
+    .optional()
+    .describe(description);
+}
+
+const dateArgument = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a date in YYYY-MM-DD format");
+
+function promptNotFound(type: string, id: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, `${type} ${id} not found`);
+}
+
+/**
+ * Builds a single user message with the instructions followed by the store data as JSON
+ */
+function promptWithContext(description: string, instructions: string, storeContext: unknown): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: `${instructions}\n\nStore data (fetched ${new Date().toISOString()}):\n\`\`\`json\n${JSON.stringify(storeContext, null, 2)}\n\`\`\``,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Loads the orders created in [start, end), oldest first
+ */
+async function loadOrdersBetween(
+  client: ShopifyClientPort,
+  accessToken: string,
+  shopDomain: string,
+  start: Date,
+  end: Date
+): Promise<{ orders: ShopifyOrderGraphql[]; truncated: boolean }> {
+  const orders: ShopifyOrderGraphql[] = [];
+  let after: string | undefined;
+  let hasNextPage = true;
+
+  while (hasNextPage && orders.length < MAX_ORDERS) {
+    const page = await client.loadOrders(accessToken, shopDomain, {
+      first: Math.min(ORDERS_PER_PAGE, MAX_ORDERS - orders.length),
+      after,
+      query: `created_at:>=${start.toISOString()} created_at:<${end.toISOString()}`,
+      sortKey: "CREATED_AT",
+    });
+    orders.push(...page.orders);
+    hasNextPage = page.pageInfo.hasNextPage;
+    after = page.pageInfo.endCursor ?? undefined;
+  }
+
+  // The search query already filters by date, this keeps the window exact regardless
+  const inWindow = orders.filter((order) => {
+    const createdAt = Date.parse(order.createdAt);
+    return createdAt >= start.getTime() && createdAt < end.getTime();
+  });
+  return { orders: inWindow, truncated: hasNextPage };
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+function summarizeOrders(orders: ShopifyOrderGraphql[], start: Date, end: Date) {
+  const revenue = orders.reduce((sum, order) => sum + Number(order.totalPriceSet.shopMoney.amount), 0);
+  const financialStatuses: Record<string, number> = {};
+  const products = new Map<string, { title: string; quantity: number; revenue: number }>();
+
+  for (const order of orders) {
+    financialStatuses[order.displayFinancialStatus] = (financialStatuses[order.displayFinancialStatus] ?? 0) + 1;
+    for (const item of order.lineItems.nodes) {
+      const product = products.get(item.title) ?? { title: item.title, quantity: 0, revenue: 0 };
+      product.quantity += item.quantity;
+      product.revenue += Number(item.originalTotalSet.shopMoney.amount);
+      products.set(item.title, product);
+    }
+  }
+
+  return {
+    from: start.toISOString(),
+    to: end.toISOString(),
+    orderCount: orders.length,
+    revenue: round(revenue),
+    averageOrderValue: orders.length ? round(revenue / orders.length) : 0,
+    financialStatuses,
+    topProducts: [...products.values()]
+      .sort((a, b) => b.revenue - a.revenue)
+      .slice(0, 10)
+      .map((product) => ({ ...product, revenue: round(product.revenue) })),
+  };
+}
+
+/**
+ * Registers the merchant workflow prompts with the MCP server
+ * @param server The MCP server instance
+ * @param context Shop registry and client factory used to fetch the prompt data
+ */
+export function registerMerchantPrompts(server: McpServer, context: ToolContext): void {
+  server.prompt(
+    "weekly-sales-summary",
+    "Summarize a week of sales against the week before it",
+    {
+      weekEnding: dateArgument.optional().describe("Last day of the week to summarize, YYYY-MM-DD (defaults to today)"),
+      shop: shopArgument,
+    },
+    async ({ weekEnding, shop }) => {
+      const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+      const end = weekEnding ? new Date(Date.parse(`${weekEnding}T00:00:00Z`) + DAY_MS) : new Date();
+      const start = new Date(end.getTime() - 7 * DAY_MS);
+      const previousStart = new Date(start.getTime() - 7 * DAY_MS);
+
+      const shopDetails = await client.loadShopDetails(accessToken, shopDomain);
+      const week = await loadOrdersBetween(client, accessToken, shopDomain, start, end);
+      const previousWeek = await loadOrdersBetween(client, accessToken, shopDomain, previousStart, start);
+
+      return promptWithContext(
+        `Weekly sales summary for ${shopDetails.name}`,
+        [
+          `Write a weekly sales summary for ${shopDetails.name} (amounts in ${shopDetails.currencyCode}).`,
+          "Open with the headline numbers (orders, revenue, average order value) and how they changed against the previous week, in absolute and percentage terms.",
+          "Then cover the best selling products, any notable shift in payment statuses (pending, refunded, voided orders), and end with two or three concrete suggestions for next week.",
+          "Base every figure on the data below. If a period is marked as truncated, say that its figures only cover the orders fetched.",
+        ].join("\n"),
+        {
+          shop: { name: shopDetails.name, currencyCode: shopDetails.currencyCode, timezone: shopDetails.ianaTimezone },
+          week: { ...summarizeOrders(week.orders, start, end), truncated: week.truncated },
+          previousWeek: {
+            ...summarizeOrders(previousWeek.orders, previousStart, start),
+            truncated: previousWeek.truncated,
+          },
+        }
+      );
+    }
+  );
+
+  server.prompt(
+    "product-description",
+    "Draft a product description from specifications",
+    {
+      productId: z.string().describe("ID of the product to describe"),
+      specs: z.string().describe("Specifications, materials, dimensions and any selling points to work from"),
+      tone: z.string().optional().describe("Tone of voice, e.g. playful, technical or premium (defaults to the shop's usual voice)"),
+      shop: shopArgument,
+    },
+    async ({ productId, specs, tone, shop }) => {
+      const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+      const id = productId.split("/").pop()!;
+      const { products, currencyCode } = await client.loadProducts(accessToken, shopDomain, `id:${id}`, 1);
+      const product = products.find((p) => p.id.split("/").pop() === id);
+      if (!product) {
+        throw promptNotFound("Product", productId);
+      }
+      const shopDetails = await client.loadShopDetails(accessToken, shopDomain);
+
+      return promptWithContext(
+        `Product description for ${product.title}`,
+        [
+          `Draft a product description for "${product.title}" sold by ${shopDetails.name}.`,
+          `Use ${tone ? `a ${tone}` : "the same"} tone${tone ? "" : " as the current description, if there is one"}.`,
+          "Lead with the main benefit, follow with a short paragraph on materials and use, then a bullet list of the key specifications. Only state facts found in the specifications or the product data.",
+          "Return the description as HTML suitable for the Shopify product description field. Once it is approved, save it with the update-product tool using the product ID below.",
+          "",
+          "Specifications:",
+          specs,
+        ].join("\n"),
+        {
+          product: {
+            id: product.id,
+            title: product.title,
+            handle: product.handle,
+            currentDescription: product.description,
+            options: product.options.map((option) => ({ name: option.name, values: option.values })),
+            variants: product.variants.edges.map(({ node }) => ({
+              title: node.title,
+              price: node.price,
+              sku: node.sku,
+            })),
+            currencyCode,
+          },
+        }
+      );
+    }
+  );
+
+  server.prompt(
+    "low-stock-audit",
+    "Audit variants that are low on or out of stock",
+    {
+      threshold: countArgument("Variants with this many units or fewer are reported (defaults to 5)"),
+      salesDays: countArgument("Number of days of sales used to estimate demand (defaults to 30)"),
+      shop: shopArgument,
+    },
+    async ({ threshold, salesDays, shop }) => {
+      const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+      const maxQuantity = threshold ? Number(threshold) : 5;
+      const days = salesDays ? Number(salesDays) : 30;
+
+      const products = [];
+      let next: string | undefined;
+      do {
+        const page = await client.loadProducts(accessToken, shopDomain, null, PAGE_SIZE, next);
+        products.push(...page.products);
+        next = page.next;
+      } while (next && products.length < MAX_PRODUCTS);
+
+      const end = new Date();
+      const { orders, truncated } = await loadOrdersBetween(
+        client,
+        accessToken,
+        shopDomain,
+        new Date(end.getTime() - days * DAY_MS),
+        end
+      );
+      const unitsSold = new Map<string, number>();
+      for (const item of orders.flatMap((order) => order.lineItems.nodes)) {
+        if (item.variant) {
+          unitsSold.set(item.variant.id, (unitsSold.get(item.variant.id) ?? 0) + item.quantity);
+        }
+      }
+
+      const lowStock = products.flatMap((product) =>
+        product.variants.edges
+          .map(({ node }) => node)
+          // Variants without tracked inventory never run out
+          .filter((variant) => variant.inventoryQuantity !== null && variant.inventoryQuantity <= maxQuantity)
+          .map((variant) => ({
+            productId: product.id,
+            productTitle: product.title,
+            variantId: variant.id,
+            variantTitle: variant.title,
+            sku: variant.sku,
+            inventoryQuantity: variant.inventoryQuantity,
+            // CONTINUE keeps selling when out of stock, DENY stops sales at zero
+            inventoryPolicy: variant.inventoryPolicy,
+            unitsSold: unitsSold.get(variant.id) ?? 0,
+          }))
+      );
+
+      return promptWithContext(
+        "Low stock audit",
+        [
+          `Audit the variants below, which have ${maxQuantity} units or fewer in stock.`,
+          `Estimate how many days of stock each has left from its sales over the last ${days} days, and sort them into: reorder now, reorder soon, and leave as is (slow sellers).`,
+          "Flag out of stock variants that are still selling (inventory policy CONTINUE), as those orders cannot be fulfilled from stock.",
+          "Present the result as a table, then suggest reorder quantities. Do not change inventory without confirmation; the manage-product-inventory tool adjusts quantities once restocked.",
+        ].join("\n"),
+        {
+          threshold: maxQuantity,
+          salesDays: days,
+          productsScanned: products.length,
+          productsTruncated: next !== undefined,
+          ordersTruncated: truncated,
+          lowStock,
+        }
+      );
+    }
+  );
+
+  server.prompt(
+    "collection-blog-post",
+    "Write a blog post featuring a collection",
+    {
+      collectionId: z.string().describe("ID of the collection to feature"),
+      angle: z.string().optional().describe("Angle or occasion for the post, e.g. a season, gift guide or launch"),
+      shop: shopArgument,
+    },
+    async ({ collectionId, angle, shop }) => {
+      const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+      const id = collectionId.split("/").pop()!;
+      const { collections } = await client.loadCollections(accessToken, shopDomain, { query: `id:${id}`, limit: 1 });
+      const collection = collections.find((c) => String(c.id) === id);
+      if (!collection) {
+        throw promptNotFound("Collection", collectionId);
+      }
+
+      const shopDetails = await client.loadShopDetails(accessToken, shopDomain);
+      const { products } = await client.loadProductsByCollectionId(accessToken, shopDomain, id, 10);
+      const { articles } = await client.loadBlogArticles(accessToken, shopDomain, { limit: 10 });
+      const storeUrl = shopDetails.primaryDomain.url;
+
+      return promptWithContext(
+        `Blog post about the ${collection.title} collection`,
+        [
+          `Write a blog post for ${shopDetails.name} featuring the "${collection.title}" collection${angle ? `, with this angle: ${angle}` : ""}.`,
+          "Feature three to five of the products below, linking each to its product URL, and close with a link to the collection.",
+          "Keep it between 500 and 800 words, with a title and subheadings. Avoid repeating the topics of the recent articles listed below.",
+          "Return the post as HTML. Once it is approved, save it as a draft with the create_blog_article tool.",
+        ].join("\n"),
+        {
+          collection: {
+            id: collection.id,
+            title: collection.title,
+            description: collection.body_html,
+            url: `${storeUrl}/collections/${collection.handle}`,
+          },
+          products: products.map((product) => ({
+            title: product.title,
+            description: product.description,
+            prices: [...new Set(product.variants.edges.map(({ node }) => node.price))],
+            url: `${storeUrl}/products/${product.handle}`,
+          })),
+          recentArticles: articles.map((article) => ({
+            title: article.title,
+            tags: article.tags,
+            publishedAt: article.published_at,
+          })),
+        }
+      );
+    }
+  );
+
+  server.prompt(
+    "triage-unfulfilled-orders",
+    "Prioritize open orders that have not been fulfilled yet",
+    {
+      maxOrders: countArgument("Maximum number of orders to triage, oldest first (defaults to 25)"),
+      shop: shopArgument,
+    },
+    async ({ maxOrders, shop }) => {
+      const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+      const first = Math.min(maxOrders ? Number(maxOrders) : 25, MAX_ORDERS);
+      const { orders, pageInfo } = await client.loadOrders(accessToken, shopDomain, {
+        first,
+        query: "fulfillment_status:unfulfilled status:open",
+        sortKey: "CREATED_AT",
+      });
+      const now = Date.now();
+
+      return promptWithContext(
+        "Unfulfilled order triage",
+        [
+          "Triage the unfulfilled orders below.",
+          "Group them into: ship today, blocked (payment pending, authorized but not captured, or missing shipping address) and can wait, and explain each blocked order in one line.",
+          "Orders unfulfilled for more than three days should be called out with a suggested customer message.",
+          "End with a short list of next actions. Look up an order with the get-order tool before acting on it.",
+        ].join("\n"),
+        {
+          hasMoreOrders: pageInfo.hasNextPage,
+          orders: orders.map((order) => ({
+            id: order.id,
+            name: order.name,
+            createdAt: order.createdAt,
+            ageInDays: Math.floor((now - Date.parse(order.createdAt)) / DAY_MS),
+            financialStatus: order.displayFinancialStatus,
+            total: order.totalPriceSet.shopMoney,
+            email: order.email,
+            shippingCountry: order.shippingAddress?.countryCode ?? null,
+            lineItems: order.lineItems.nodes.map((item) => ({
+              title: item.title,
+              sku: item.variant?.sku ?? null,
+              quantity: item.quantity,
+            })),
+          })),
+        }
+      );
+    }
+  );
+}
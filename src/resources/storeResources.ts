@@ -0,0 +1,245 @@
+/**
+ * Store resources for the Shopify MCP Server
+ * Exposes the default shop's details, products, collections, orders and blog
+ * articles as MCP resources
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { CacheGroup, CachingShopifyClient } from "../ShopifyClient/CachingShopifyClient.js";
+import { ToolContext, resolveShopClient } from "../tools/toolContext.js";
+import { WebhookEvent } from "../utils/webhookEventStore.js";
+
+// Number of resources listed per template
+const MAX_LISTED_RESOURCES = 50;
+
+const SHOP_URI = "shopify://shop";
+
+// Trailing numeric part of a GID, so URIs carry the same IDs as webhook payloads
+function legacyId(id: string | number): string {
+  const parts = String(id).split("/");
+  return parts[parts.length - 1];
+}
+
+const productUri = (id: string | number) => `shopify://products/${legacyId(id)}`;
+const collectionUri = (id: string | number) => `shopify://collections/${legacyId(id)}`;
+// Order names start with "#", which URIs cannot carry unescaped
+const orderUri = (name: string) => `shopify://orders/${name.replace(/^#/, "")}`;
+const articleUri = (blog: string, id: string) => `shopify://blogs/${blog}/articles/${legacyId(id)}`;
+
+type WebhookPayload = { id?: number | string; name?: string };
+
+const payloadProduct = (p: WebhookPayload) => (p.id ? productUri(p.id) : undefined);
+const payloadCollection = (p: WebhookPayload) => (p.id ? collectionUri(p.id) : undefined);
+const payloadOrder = (p: WebhookPayload) => (p.name ? orderUri(p.name) : undefined);
+
+/**
+ * Resources affected by each webhook topic. `uri` returns undefined when the
+ * payload does not identify one; `listChanged` marks topics that add or remove resources.
+ */
+const TOPIC_RESOURCES: Record<
+  string,
+  { group: CacheGroup; uri: (payload: WebhookPayload) => string | undefined; listChanged?: boolean }
+> = {
+  "shop/update": { group: "shop", uri: () => SHOP_URI },
+  "products/create": { group: "products", uri: payloadProduct, listChanged: true },
+  "products/update": { group: "products", uri: payloadProduct },
+  "products/delete": { group: "products", uri: payloadProduct, listChanged: true },
+  "collections/create": { group: "collections", uri: payloadCollection, listChanged: true },
+  "collections/update": { group: "collections", uri: payloadCollection },
+  "collections/delete": { group: "collections", uri: payloadCollection, listChanged: true },
+  "orders/create": { group: "orders", uri: payloadOrder, listChanged: true },
+  "orders/updated": { group: "orders", uri: payloadOrder },
+  "orders/paid": { group: "orders", uri: payloadOrder },
+  "orders/cancelled": { group: "orders", uri: payloadOrder },
+  "orders/fulfilled": { group: "orders", uri: payloadOrder },
+  "orders/partially_fulfilled": { group: "orders", uri: payloadOrder },
+  // Deletion payloads only carry the order ID
+  "orders/delete": { group: "orders", uri: () => undefined, listChanged: true },
+};
+
+function jsonResource(uri: URL, data: unknown): ReadResourceResult {
+  return {
+    contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+function resourceNotFound(uri: URL): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Resource ${uri.href} not found`);
+}
+
+/**
+ * Registers store resources with the MCP server. When the webhook receiver is
+ * enabled, clients can subscribe to resources and are notified as deliveries
+ * for their topics arrive.
+ * @param server The MCP server instance
+ * @param context Shop registry, client factory and webhook events used by the resources
+ */
+export function registerStoreResources(server: McpServer, context: ToolContext): void {
+  server.resource(
+    "shop",
+    SHOP_URI,
+    { description: "Details of the default shop", mimeType: "application/json" },
+    async (uri) => {
+      const { client, accessToken, shopDomain } = resolveShopClient(context);
+      return jsonResource(uri, await client.loadShopDetails(accessToken, shopDomain));
+    }
+  );
+
+  server.resource(
+    "product",
+    new ResourceTemplate("shopify://products/{id}", {
+      list: async () => {
+        const { client, accessToken, shopDomain } = resolveShopClient(context);
+        const { products } = await client.loadProducts(accessToken, shopDomain, null, MAX_LISTED_RESOURCES);
+        return {
+          resources: products.map((product) => ({ uri: productUri(product.id), name: product.title })),
+        };
+      },
+    }),
+    { description: "A product with its variants, options and images", mimeType: "application/json" },
+    async (uri, variables) => {
+      const { client, accessToken, shopDomain } = resolveShopClient(context);
+      const id = legacyId(variable(variables, "id"));
+      const { products, currencyCode } = await client.loadProducts(accessToken, shopDomain, `id:${id}`, 1);
+      const product = products.find((p) => legacyId(p.id) === id);
+      if (!product) {
+        throw resourceNotFound(uri);
+      }
+      return jsonResource(uri, { ...product, currencyCode });
+    }
+  );
+
+  server.resource(
+    "collection",
+    new ResourceTemplate("shopify://collections/{id}", {
+      list: async () => {
+        const { client, accessToken, shopDomain } = resolveShopClient(context);
+        const { collections } = await client.loadCollections(accessToken, shopDomain, {
+          query: undefined,
+          limit: MAX_LISTED_RESOURCES,
+        });
+        return {
+          resources: collections.map((collection) => ({ uri: collectionUri(collection.id), name: collection.title })),
+        };
+      },
+    }),
+    { description: "A collection", mimeType: "application/json" },
+    async (uri, variables) => {
+      const { client, accessToken, shopDomain } = resolveShopClient(context);
+      const id = legacyId(variable(variables, "id"));
+      const { collections } = await client.loadCollections(accessToken, shopDomain, { query: `id:${id}`, limit: 1 });
+      const collection = collections.find((c) => legacyId(c.id) === id);
+      if (!collection) {
+        throw resourceNotFound(uri);
+      }
+      return jsonResource(uri, collection);
+    }
+  );
+
+  server.resource(
+    "order",
+    new ResourceTemplate("shopify://orders/{name}", {
+      list: async () => {
+        const { client, accessToken, shopDomain } = resolveShopClient(context);
+        const { orders } = await client.loadOrders(accessToken, shopDomain, {
+          first: MAX_LISTED_RESOURCES,
+          sortKey: "CREATED_AT",
+          reverse: true,
+        });
+        return {
+          resources: orders.map((order) => ({ uri: orderUri(order.name), name: `Order ${order.name}` })),
+        };
+      },
+    }),
+    { description: "An order by name, e.g. shopify://orders/1001 for order #1001", mimeType: "application/json" },
+    async (uri, variables) => {
+      const { client, accessToken, shopDomain } = resolveShopClient(context);
+      const name = `#${variable(variables, "name").replace(/^#/, "")}`;
+      const { orders } = await client.loadOrders(accessToken, shopDomain, { first: 1, query: `name:${name}` });
+      const order = orders.find((o) => o.name === name);
+      if (!order) {
+        throw resourceNotFound(uri);
+      }
+      return jsonResource(uri, order);
+    }
+  );
+
+  server.resource(
+    "blog-article",
+    new ResourceTemplate("shopify://blogs/{blog}/articles/{id}", {
+      list: async () => {
+        const { client, accessToken, shopDomain } = resolveShopClient(context);
+        const { articles } = await client.loadBlogArticles(accessToken, shopDomain, { limit: MAX_LISTED_RESOURCES });
+        return {
+          resources: articles
+            .filter((article) => article.blog)
+            .map((article) => ({ uri: articleUri(article.blog!.handle, article.id), name: article.title })),
+        };
+      },
+    }),
+    { description: "A blog article, addressed by blog handle or ID", mimeType: "application/json" },
+    async (uri, variables) => {
+      const { client, accessToken, shopDomain } = resolveShopClient(context);
+      const blog = variable(variables, "blog");
+      const { article } = await client.loadBlogArticle(accessToken, shopDomain, legacyId(variable(variables, "id")));
+      if (article.blog && article.blog.handle !== blog && article.blog.id !== legacyId(blog)) {
+        throw resourceNotFound(uri);
+      }
+      return jsonResource(uri, article);
+    }
+  );
+
+  const webhookEvents = context.webhookEvents;
+  if (!webhookEvents) {
+    return;
+  }
+
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const removeListener = webhookEvents.onEvent((event: WebhookEvent) => {
+    const change = TOPIC_RESOURCES[event.topic];
+    const { shopDomain } = context.shopRegistry.resolve();
+    if (!change || event.shopDomain !== shopDomain) {
+      return;
+    }
+
+    // Drop cached responses so clients re-reading the resource see the change
+    context.responseCache.deleteByPrefix(CachingShopifyClient.keyPrefix(shopDomain, change.group));
+
+    const uri = change.uri((event.payload ?? {}) as WebhookPayload);
+    if (uri && subscriptions.has(uri)) {
+      server.server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }
+    if (change.listChanged) {
+      server.sendResourceListChanged();
+    }
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    removeListener();
+    onclose?.();
+  };
+}
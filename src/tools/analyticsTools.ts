@@ -0,0 +1,118 @@
+/**
+ * ShopifyQL analytics tools for the Shopify MCP Server
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ToolContext, resolveShopClient } from "./toolContext.js";
+import { shopArgument } from "./shopArgument.js";
+import { handleError, formatSuccess } from "../utils/errorHandler.js";
+import {
+  SHOPIFYQL_DATE,
+  ShopifyqlDateRange,
+  buildSalesOverTimeQuery,
+  buildSessionsByReferrerQuery,
+  buildTopProductsQuery,
+  parseShopifyqlTable,
+} from "../utils/shopifyql.js";
+
+// Define input types for better type safety
+interface RunShopifyqlInput {
+  query: string;
+  shop?: string;
+}
+
+type AnalyticsReport = "sales-over-time" | "top-products" | "sessions-by-referrer";
+
+interface GetAnalyticsReportInput {
+  report: AnalyticsReport;
+  since: string;
+  until: string;
+  groupBy: "day" | "week" | "month";
+  limit: number;
+  shop?: string;
+}
+
+const shopifyqlDate = z
+  .string()
+  .regex(SHOPIFYQL_DATE, "Must be YYYY-MM-DD, an offset such as -30d, today or yesterday");
+
+/**
+ * Builds the ShopifyQL query of a canned report
+ */
+function buildReportQuery(
+  { report, groupBy, limit }: Pick<GetAnalyticsReportInput, "report" | "groupBy" | "limit">,
+  range: ShopifyqlDateRange
+): string {
+  switch (report) {
+    case "sales-over-time":
+      return buildSalesOverTimeQuery(range, groupBy);
+    case "top-products":
+      return buildTopProductsQuery(range, limit);
+    case "sessions-by-referrer":
+      return buildSessionsByReferrerQuery(range, limit);
+  }
+}
+
+/**
+ * Registers ShopifyQL analytics tools with the MCP server
+ * @param server The MCP server instance
+ * @param context Shop registry and client factory used by the tools
+ */
+export function registerAnalyticsTools(server: McpServer, context: ToolContext): void {
+  // Run ShopifyQL Tool
+  server.tool(
+    "run-shopifyql",
+    "Run a ShopifyQL query for sales, sessions, conversion and traffic metrics the Admin API has no fields for, e.g. 'FROM sales SHOW total_sales GROUP BY month SINCE -3m UNTIL today'. Needs the read_reports scope",
+    {
+      query: z.string().min(1).describe("The ShopifyQL query"),
+      shop: shopArgument,
+    },
+    { readOnlyHint: true },
+    async ({ query, shop }: RunShopifyqlInput) => {
+      try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+        const table = await client.runShopifyqlQuery(accessToken, shopDomain, query);
+        return formatSuccess({ query, ...parseShopifyqlTable(table) });
+      } catch (error) {
+        return handleError("Failed to run the ShopifyQL query", error);
+      }
+    }
+  );
+
+  // Get Analytics Report Tool
+  server.tool(
+    "get-analytics-report",
+    "Run a canned ShopifyQL report: sales over time, top products by net sales or online store sessions by referrer. Needs the read_reports scope",
+    {
+      report: z
+        .enum(["sales-over-time", "top-products", "sessions-by-referrer"])
+        .describe("Report to run"),
+      since: shopifyqlDate.default("-30d").describe("First day of the report: YYYY-MM-DD, an offset such as -30d, today or yesterday"),
+      until: shopifyqlDate.default("today").describe("Last day of the report, included"),
+      groupBy: z
+        .enum(["day", "week", "month"])
+        .default("day")
+        .describe("Period of each row of the sales-over-time report"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(1000)
+        .default(10)
+        .describe("Rows returned by the top-products and sessions-by-referrer reports"),
+      shop: shopArgument,
+    },
+    { readOnlyHint: true },
+    async ({ report, since, until, groupBy, limit, shop }: GetAnalyticsReportInput) => {
+      try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+        const query = buildReportQuery({ report, groupBy, limit }, { since, until });
+        const table = await client.runShopifyqlQuery(accessToken, shopDomain, query);
+        return formatSuccess({ report, query, ...parseShopifyqlTable(table) });
+      } catch (error) {
+        return handleError(`Failed to run the ${report} report`, error);
+      }
+    }
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * Audit log tools for the Shopify MCP Server
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { handleError, formatSuccess } from "../utils/errorHandler.js";
+import { runInToolCall } from "../utils/auditLog.js";
+import { ToolContext } from "./toolContext.js";
+
+// Define input types for better type safety
+interface GetAuditLogInput {
+  since?: string;
+  until?: string;
+  tool?: string;
+  resourceId?: string;
+  shop?: string;
+  first: number;
+  after?: string;
+}
+
+/**
+ * Wraps a server so the handlers of the tools registered through it run as
+ * tool calls, and the mutations they send are audited with the tool name
+ * @param server The MCP server instance
+ * @returns A server to pass to a register*Tools function
+ */
+export function auditToolCalls(server: McpServer): McpServer {
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property !== "tool") {
+        return Reflect.get(target, property, receiver);
+      }
+      return (...args: unknown[]) => {
+        // The handler is always the last argument of server.tool()
+        const name = args[0] as string;
+        const handler = args[args.length - 1] as (...handlerArgs: unknown[]) => unknown;
+        const audited = (...handlerArgs: unknown[]) => runInToolCall(name, () => handler(...handlerArgs));
+        return (target.tool as (...toolArgs: unknown[]) => unknown).apply(target, [...args.slice(0, -1), audited]);
+      };
+    },
+  });
+}
+
+/**
+ * Registers audit log tools with the MCP server
+ * @param server The MCP server instance
+ * @param context Shop registry and audit log used by the tools
+ */
+export function registerAuditTools(server: McpServer, context: ToolContext): void {
+  // Get Audit Log Tool
+  server.tool(
+    "get-audit-log",
+    "List the mutations this server sent to Shopify, newest first, with the tool that sent them, their arguments, resulting IDs and user errors",
+    {
+      since: z
+        .string()
+        .datetime({ offset: true })
+        .optional()
+        .describe("Only return mutations sent at or after this ISO 8601 date"),
+      until: z
+        .string()
+        .datetime({ offset: true })
+        .optional()
+        .describe("Only return mutations sent at or before this ISO 8601 date"),
+      tool: z.string().optional().describe("Only return mutations sent by this tool, e.g. 'update-product'"),
+      resourceId: z
+        .string()
+        .optional()
+        .describe("Only return mutations that returned or were passed this ID, e.g. 'gid://shopify/Product/123'"),
+      shop: z
+        .string()
+        .optional()
+        .describe("Only return mutations sent to this shop name or myshopify domain (defaults to all shops)"),
+      first: z
+        .number()
+        .int()
+        .min(1)
+        .max(250)
+        .default(50)
+        .describe("Number of entries to return (max 250)"),
+      after: z
+        .string()
+        .optional()
+        .describe("Cursor from a previous page's pageInfo.endCursor"),
+    },
+    { readOnlyHint: true },
+    async ({ shop, ...query }: GetAuditLogInput) => {
+      try {
+        if (!context.auditLog) {
+          throw new Error("The audit log is disabled, unset SHOPIFY_AUDIT_LOG=false to enable it");
+        }
+        const shopDomain = shop ? context.shopRegistry.resolve(shop).shopDomain : undefined;
+        return formatSuccess(context.auditLog.list({ ...query, shopDomain }));
+      } catch (error) {
+        return handleError("Failed to get the audit log", error);
+      }
+    }
+  );
+}
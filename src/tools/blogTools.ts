@@ -1,7 +1,9 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
-import { config } from "../config/index.js";
+import { ToolContext, resolveShopClient } from "./toolContext.js";
+import { shopArgument } from "./shopArgument.js";
+import { dryRunArgument, formatPlannedChanges } from "./dryRun.js";
+import { confirmationTokenArgument, requireConfirmation } from "./confirmation.js";
 import { handleError, formatSuccess } from "../utils/errorHandler.js";
 import { ShopifyClientPort } from "../ShopifyClient/ShopifyClientPort.js";
 
@@ -148,27 +150,37 @@ export async function deleteBlogArticle(
   }
 }
 
-export function registerBlogTools(server: McpServer): void {
+export function registerBlogTools(server: McpServer, context: ToolContext): void {
   // Define parameter types for handlers
   type GetBlogArticlesParams = {
     limit?: number;
     status?: "draft" | "published";
     tag?: string;
+    shop?: string;
   };
 
   type GetBlogArticleParams = {
     articleId: string;
+    shop?: string;
   };
 
-  type CreateBlogArticleParams = z.infer<typeof BlogArticleSchema>;
+  type CreateBlogArticleParams = z.infer<typeof BlogArticleSchema> & {
+    shop?: string;
+    dryRun?: boolean;
+  };
 
   type UpdateBlogArticleParams = {
     articleId: string;
     updates: Partial<z.infer<typeof BlogArticleSchema>>;
+    shop?: string;
+    dryRun?: boolean;
   };
 
   type DeleteBlogArticleParams = {
     articleId: string;
+    shop?: string;
+    dryRun?: boolean;
+    confirmationToken?: string;
   };
 
   // Register tools with proper type definitions
@@ -178,15 +190,17 @@ export function registerBlogTools(server: McpServer): void {
     {
       limit: z.number().optional(),
       status: z.enum(["draft", "published"]).optional(),
-      tag: z.string().optional()
+      tag: z.string().optional(),
+      shop: shopArgument,
     },
-    async ({ limit, status, tag }: GetBlogArticlesParams) => {
-      const client = new ShopifyClient();
+    { readOnlyHint: true },
+    async ({ limit, status, tag, shop }: GetBlogArticlesParams) => {
       try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
         const articles = await getBlogArticles(
           client,
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           { limit, status, tag }
         );
         return formatSuccess(articles);
@@ -200,15 +214,17 @@ export function registerBlogTools(server: McpServer): void {
     "get_blog_article",
     "Get details of a specific blog article",
     {
-      articleId: z.string()
+      articleId: z.string(),
+      shop: shopArgument,
     },
-    async ({ articleId }: GetBlogArticleParams) => {
-      const client = new ShopifyClient();
+    { readOnlyHint: true },
+    async ({ articleId, shop }: GetBlogArticleParams) => {
       try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
         const article = await getBlogArticle(
           client,
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           articleId
         );
         return formatSuccess(article);
@@ -221,16 +237,23 @@ export function registerBlogTools(server: McpServer): void {
   server.tool(
     "create_blog_article",
     "Create a new blog article",
-    BlogArticleSchema.shape,
-    async (article: CreateBlogArticleParams) => {
-      const client = new ShopifyClient();
+    {
+      ...BlogArticleSchema.shape,
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+    },
+    async ({ shop, dryRun, ...article }: CreateBlogArticleParams) => {
       try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
         const result = await createBlogArticle(
           client,
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           article
         );
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
         return formatSuccess(result);
       } catch (error) {
         return handleError("Failed to create blog article", error);
@@ -243,18 +266,23 @@ export function registerBlogTools(server: McpServer): void {
     "Update an existing blog article",
     {
       articleId: z.string(),
-      updates: BlogArticleSchema.partial()
+      updates: BlogArticleSchema.partial(),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
     },
-    async ({ articleId, updates }: UpdateBlogArticleParams) => {
-      const client = new ShopifyClient();
+    async ({ articleId, updates, shop, dryRun }: UpdateBlogArticleParams) => {
       try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
         const result = await updateBlogArticle(
           client,
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           articleId,
           updates
         );
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
         return formatSuccess(result);
       } catch (error) {
         return handleError("Failed to update blog article", error);
@@ -266,17 +294,31 @@ export function registerBlogTools(server: McpServer): void {
     "delete_blog_article",
     "Delete a blog article",
     {
-      articleId: z.string()
+      articleId: z.string(),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
     },
-    async ({ articleId }: DeleteBlogArticleParams) => {
-      const client = new ShopifyClient();
+    async (input: DeleteBlogArticleParams) => {
+      const { articleId, shop, dryRun } = input;
       try {
+        const confirmation = await requireConfirmation(context, "delete_blog_article", input, (planned) =>
+          deleteBlogArticle(planned.client, planned.accessToken, planned.shopDomain, articleId)
+        );
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
         const result = await deleteBlogArticle(
           client,
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           articleId
         );
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
         return formatSuccess(result);
       } catch (error) {
         return handleError("Failed to delete blog article", error);
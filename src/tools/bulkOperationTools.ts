@@ -0,0 +1,186 @@
+/**
+ * Bulk operation tools for the Shopify MCP Server
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ShopClient, ToolContext, resolveShopClient } from "./toolContext.js";
+import { shopArgument } from "./shopArgument.js";
+import { dryRunArgument, formatPlannedChanges } from "./dryRun.js";
+import { confirmationTokenArgument, requireConfirmation } from "./confirmation.js";
+import { handleError, formatSuccess } from "../utils/errorHandler.js";
+import { readBulkOperationObjects, waitForBulkOperation } from "../ShopifyClient/bulkOperations.js";
+import { BulkOperation, BulkOperationType } from "../ShopifyClient/ShopifyClientPort.js";
+
+// Define input types for better type safety
+interface StartBulkQueryInput {
+  query: string;
+  shop?: string;
+}
+
+interface StartBulkMutationInput {
+  mutation: string;
+  inputs: Array<Record<string, unknown>>;
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+interface GetBulkOperationInput {
+  bulkOperationId?: string;
+  type: BulkOperationType;
+  wait: boolean;
+  timeoutSeconds: number;
+  includeResults: boolean;
+  limit: number;
+  shop?: string;
+}
+
+interface CancelBulkOperationInput {
+  bulkOperationId: string;
+  shop?: string;
+  dryRun?: boolean;
+}
+
+const bulkOperationIdArgument = z.string().describe("Bulk operation ID, e.g. 'gid://shopify/BulkOperation/123'");
+
+/**
+ * Registers bulk operation tools with the MCP server
+ * @param server The MCP server instance
+ * @param context Shop registry, client factory and webhook events used by the tools
+ */
+export function registerBulkOperationTools(server: McpServer, context: ToolContext): void {
+  // Start Bulk Query Tool
+  server.tool(
+    "start-bulk-query",
+    "Start a bulk query exporting every object a query matches, without pagination or rate limits, e.g. '{ products { edges { node { id title variants { edges { node { id sku } } } } } } }'. One bulk query runs per shop at a time; follow it with get-bulk-operation",
+    {
+      query: z.string().min(1).describe("GraphQL query with connections but no pagination arguments"),
+      shop: shopArgument,
+    },
+    async ({ query, shop }: StartBulkQueryInput) => {
+      try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+        const operation = await client.runBulkQuery(accessToken, shopDomain, query);
+        return formatSuccess(operation);
+      } catch (error) {
+        return handleError("Failed to start the bulk query", error);
+      }
+    }
+  );
+
+  // Start Bulk Mutation Tool
+  server.tool(
+    "start-bulk-mutation",
+    "Upload one line of variables per input and start a bulk mutation running the mutation once per line, e.g. 'mutation call($input: ProductInput!) { productUpdate(input: $input) { product { id } userErrors { message field } } }'. One bulk mutation runs per shop at a time; follow it with get-bulk-operation to read each line's result",
+    {
+      mutation: z.string().min(1).describe("GraphQL mutation taking the variables of each input line"),
+      inputs: z
+        .array(z.record(z.unknown()))
+        .min(1)
+        .describe("Variables of each run of the mutation, e.g. [{ input: { id: 'gid://shopify/Product/1', title: 'New' } }]"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async (input: StartBulkMutationInput) => {
+      try {
+        const start = ({ client, accessToken, shopDomain }: ShopClient) =>
+          client.runBulkMutation(accessToken, shopDomain, input.mutation, input.inputs);
+        const confirmation = await requireConfirmation(context, "start-bulk-mutation", input, start);
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const shopClient = resolveShopClient(context, input.shop, { dryRun: input.dryRun });
+        const operation = await start(shopClient);
+        if (shopClient.plannedChanges) {
+          return formatPlannedChanges(shopClient.plannedChanges);
+        }
+        return formatSuccess(operation);
+      } catch (error) {
+        return handleError("Failed to start the bulk mutation", error);
+      }
+    }
+  );
+
+  // Get Bulk Operation Tool
+  server.tool(
+    "get-bulk-operation",
+    "Check a bulk operation, optionally waiting for it to finish, and read its results with nested objects rebuilt from __parentId",
+    {
+      bulkOperationId: bulkOperationIdArgument.optional().describe("Bulk operation ID (defaults to the shop's most recent operation of the type)"),
+      type: z.enum(["QUERY", "MUTATION"]).default("QUERY").describe("Type of the most recent operation to check when no ID is given"),
+      wait: z.boolean().default(false).describe("Wait for the operation to finish before returning"),
+      timeoutSeconds: z
+        .number()
+        .int()
+        .min(1)
+        .max(300)
+        .default(60)
+        .describe("How long to wait for the operation to finish"),
+      includeResults: z.boolean().default(false).describe("Download and return the results of a finished operation"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(250)
+        .default(50)
+        .describe("Top level objects (or mutation lines) of the results to return"),
+      shop: shopArgument,
+    },
+    { readOnlyHint: true },
+    async ({ bulkOperationId, type, wait, timeoutSeconds, includeResults, limit, shop }: GetBulkOperationInput) => {
+      try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+        let operation: BulkOperation | null = await client.getBulkOperation(
+          accessToken,
+          shopDomain,
+          bulkOperationId ? { id: bulkOperationId } : { type }
+        );
+        if (!operation) {
+          throw new Error(bulkOperationId ? `Bulk operation ${bulkOperationId} not found` : `The shop has no bulk ${type.toLowerCase()} operation`);
+        }
+        if (wait) {
+          operation = await waitForBulkOperation(client, accessToken, shopDomain, operation.id, {
+            timeoutMs: timeoutSeconds * 1000,
+            finishEvents: context.webhookEvents,
+          });
+        }
+
+        // Failed operations keep the objects processed before the failure
+        const resultUrl = operation.url ?? operation.partialDataUrl;
+        if (!includeResults || !resultUrl) {
+          return formatSuccess({ operation });
+        }
+        const results = await readBulkOperationObjects(client.streamBulkOperationResult(resultUrl), { limit });
+        return formatSuccess({ operation, partial: !operation.url, ...results });
+      } catch (error) {
+        return handleError("Failed to get the bulk operation", error);
+      }
+    }
+  );
+
+  // Cancel Bulk Operation Tool
+  server.tool(
+    "cancel-bulk-operation",
+    "Cancel a running bulk operation; a bulk mutation keeps the changes of the lines it already ran",
+    {
+      bulkOperationId: bulkOperationIdArgument,
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+    },
+    async ({ bulkOperationId, shop, dryRun }: CancelBulkOperationInput) => {
+      try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
+        const operation = await client.cancelBulkOperation(accessToken, shopDomain, bulkOperationId);
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return formatSuccess(operation);
+      } catch (error) {
+        return handleError("Failed to cancel the bulk operation", error);
+      }
+    }
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * Response cache tools for the Shopify MCP Server
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { CacheGroup, CachingShopifyClient, DEFAULT_CACHE_TTLS } from "../ShopifyClient/CachingShopifyClient.js";
+import { handleError, formatSuccess } from "../utils/errorHandler.js";
+import { ToolContext } from "./toolContext.js";
+
+// Define input types for better type safety
+interface ClearCacheInput {
+  shop?: string;
+  group?: CacheGroup;
+}
+
+/**
+ * Registers response cache tools with the MCP server
+ * @param server The MCP server instance
+ * @param context Shop registry and response cache used by the tools
+ */
+export function registerCacheTools(server: McpServer, context: ToolContext): void {
+  // Clear Cache Tool
+  server.tool(
+    "clear-cache",
+    "Clear cached Shopify responses, optionally for a single shop and/or data group",
+    {
+      shop: z
+        .string()
+        .optional()
+        .describe("Shop name or myshopify domain to clear (defaults to all shops)"),
+      group: z
+        .enum(Object.keys(DEFAULT_CACHE_TTLS) as [CacheGroup, ...CacheGroup[]])
+        .optional()
+        .describe("Data group to clear (defaults to all groups)"),
+    },
+    async ({ shop, group }: ClearCacheInput) => {
+      try {
+        if (!shop && !group) {
+          const { size } = context.responseCache.getStats();
+          context.responseCache.clear();
+          return formatSuccess({ cleared: size });
+        }
+
+        const shopDomains = shop
+          ? [context.shopRegistry.resolve(shop).shopDomain]
+          : context.shopRegistry.list().map((entry) => entry.shopDomain);
+
+        const cleared = shopDomains.reduce(
+          (total, shopDomain) => total + context.responseCache.deleteByPrefix(CachingShopifyClient.keyPrefix(shopDomain, group)),
+          0
+        );
+        return formatSuccess({ cleared });
+      } catch (error) {
+        return handleError("Failed to clear cache", error);
+      }
+    }
+  );
+
+  // Cache Stats Tool
+  server.tool(
+    "cache-stats",
+    "Get response cache statistics (size, hits, misses, evictions) and per-group TTLs",
+    {},
+    { readOnlyHint: true },
+    async () => {
+      try {
+        return formatSuccess({
+          ...context.responseCache.getStats(),
+          ttlsMs: DEFAULT_CACHE_TTLS,
+        });
+      } catch (error) {
+        return handleError("Failed to retrieve cache statistics", error);
+      }
+    }
+  );
+}
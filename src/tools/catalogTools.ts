@@ -0,0 +1,538 @@
+/**
+ * Catalog export and import tools for the Shopify MCP Server
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { open, readFile, rename, rm } from "node:fs/promises";
+import { z } from "zod";
+import { ShopClient, ToolContext, resolveShopClient } from "./toolContext.js";
+import { shopArgument } from "./shopArgument.js";
+import { dryRunArgument } from "./dryRun.js";
+import { confirmationTokenArgument, requireConfirmation } from "./confirmation.js";
+import { exportFileNameArgument, resolveExportPath } from "./exportFile.js";
+import { handleError, formatSuccess } from "../utils/errorHandler.js";
+import { escapeCsvField } from "../utils/csv.js";
+import {
+  PRODUCT_CSV_COLUMNS,
+  ProductCsvError,
+  ProductCsvProduct,
+  flattenProduct,
+  parseProductCsv,
+  toProductCsvRows,
+} from "../utils/productCsv.js";
+import { LoadProductsResponse, ProductNode, ProductVariant, ShopifyClientPort } from "../ShopifyClient/ShopifyClientPort.js";
+import { FieldChange } from "../ShopifyClient/DryRunShopifyClient.js";
+
+// Define input types for better type safety
+type ProductStatus = ProductNode["status"];
+
+interface ProductExportFilters {
+  status?: ProductStatus[];
+  vendor?: string;
+  collectionId?: string;
+  updatedSince?: string;
+}
+
+interface ExportProductsInput extends ProductExportFilters {
+  format: "csv" | "jsonl";
+  fileName?: string;
+  shop?: string;
+}
+
+interface ImportProductsInput {
+  fileName?: string;
+  csv?: string;
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+type ImportAction = "create" | "update" | "skip" | "invalid";
+
+type VariantOperation = Parameters<ShopifyClientPort["bulkVariantOperations"]>[2][number];
+
+// What the import does with one product of the file
+interface ProductImportPlan {
+  product: ProductCsvProduct;
+  action: ImportAction;
+  // The product the rows update
+  productId?: string;
+  matchedBy?: "handle" | "sku";
+  productChanges: FieldChange[];
+  variantOperations: VariantOperation[];
+  // Action, variant and changes of each variant row
+  variants: Map<number, { action: ImportAction; variantId?: string; changes: FieldChange[] }>;
+  errors: ProductCsvError[];
+}
+
+// What applying a product's changes did
+interface ProductImportOutcome {
+  created?: ProductNode;
+  error?: string;
+}
+
+interface ImportRowResult {
+  row: number;
+  handle: string;
+  action: ImportAction;
+  // Planned in dry runs; invalid and unchanged rows are skipped
+  status: "planned" | "applied" | "failed" | "skipped";
+  productId?: string;
+  variantId?: string;
+  matchedBy?: "handle" | "sku";
+  changes?: FieldChange[];
+  errors?: string[];
+}
+
+// Products per page; each one comes with up to 250 variants
+const PRODUCT_PAGE_SIZE = 50;
+
+/**
+ * Pages through every product matching a search query
+ */
+async function* productPages(
+  client: ShopifyClientPort,
+  accessToken: string,
+  shop: string,
+  query: string | null
+): AsyncGenerator<LoadProductsResponse> {
+  let next: string | undefined;
+  do {
+    const page = await client.loadProducts(accessToken, shop, query, PRODUCT_PAGE_SIZE, next);
+    yield page;
+    next = page.next;
+  } while (next);
+}
+
+// Quotes a search value unless it is a single word
+function searchValue(value: string): string {
+  return /^[\w.@-]+$/.test(value) ? value : `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Builds the products search query of the export filters
+ * @returns The query, or null when no filter is set
+ */
+function buildProductSearchQuery(filters: ProductExportFilters): string | null {
+  const terms: string[] = [];
+  if (filters.status?.length) {
+    terms.push(`status:${filters.status.map((status) => status.toLowerCase()).join(",")}`);
+  }
+  if (filters.vendor) {
+    terms.push(`vendor:${searchValue(filters.vendor)}`);
+  }
+  if (filters.collectionId) {
+    // The search syntax takes the numeric ID
+    terms.push(`collection_id:${filters.collectionId.split("/").pop()}`);
+  }
+  if (filters.updatedSince) {
+    terms.push(`updated_at:>=${new Date(filters.updatedSince).toISOString()}`);
+  }
+  return terms.length > 0 ? terms.join(" ") : null;
+}
+
+// Existing products by handle and variants by SKU, for matching the rows of an import
+interface CatalogIndex {
+  byHandle: Map<string, ProductNode>;
+  bySku: Map<string, { product: ProductNode; variant: ProductVariant }>;
+}
+
+function indexCatalog(products: ProductNode[]): CatalogIndex {
+  const index: CatalogIndex = { byHandle: new Map(), bySku: new Map() };
+  for (const product of products) {
+    index.byHandle.set(product.handle, product);
+    for (const { node: variant } of product.variants.edges) {
+      if (variant.sku) {
+        index.bySku.set(variant.sku, { product, variant });
+      }
+    }
+  }
+  return index;
+}
+
+// Tags are compared as sets; Shopify does not keep their order
+function sameFieldValue(before: unknown, after: unknown): boolean {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return [...before].sort().join("\u0000") === [...after].sort().join("\u0000");
+  }
+  return before === after;
+}
+
+function fieldChanges(before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  return Object.entries(after)
+    .filter(([field, value]) => value !== undefined && !sameFieldValue(before[field], value))
+    .map(([field, value]) => (field in before ? { field, before: before[field], after: value } : { field, after: value }));
+}
+
+/**
+ * Matches a product of the file with the catalog and works out its changes:
+ * the product is found by handle, then by the SKUs of its variants, and each
+ * variant by SKU, then by option values. Variants missing from the file are
+ * left alone.
+ */
+function planProductImport(product: ProductCsvProduct, catalog: CatalogIndex): ProductImportPlan {
+  const plan: ProductImportPlan = {
+    product,
+    action: "invalid",
+    productChanges: [],
+    variantOperations: [],
+    variants: new Map(),
+    errors: [...product.errors],
+  };
+  const firstRow = product.rows[0];
+
+  let existing = catalog.byHandle.get(product.handle);
+  if (existing) {
+    plan.matchedBy = "handle";
+  } else {
+    const owners = new Map(
+      product.variants.flatMap(({ sku }) => {
+        const match = sku ? catalog.bySku.get(sku) : undefined;
+        return match ? [[match.product.id, match.product] as const] : [];
+      })
+    );
+    if (owners.size > 1) {
+      const handles = [...owners.values()].map(({ handle }) => handle).join(", ");
+      plan.errors.push({ row: firstRow, message: `the SKUs of the rows belong to several products (${handles})` });
+    }
+    [existing] = owners.values();
+    plan.matchedBy = existing && "sku";
+  }
+
+  if (!existing) {
+    if (product.variants.length === 0) {
+      plan.errors.push({ row: firstRow, message: "a new product needs at least one variant" });
+    }
+    for (const variant of product.variants) {
+      if (variant.price === undefined) {
+        plan.errors.push({ row: variant.row, message: "Variant Price is required for new variants" });
+      }
+      plan.variants.set(variant.row, {
+        action: "create",
+        changes: fieldChanges({}, { options: variant.options, sku: variant.sku, price: variant.price, inventory: variant.inventory }),
+      });
+    }
+    plan.productChanges = fieldChanges({}, { ...product.fields, options: product.options });
+    plan.action = plan.errors.length > 0 ? "invalid" : "create";
+    return plan;
+  }
+
+  plan.productId = existing.id;
+  const optionNames = existing.options.map(({ name }) => name);
+  if (product.options.length > 0 && product.options.join("\u0000") !== optionNames.join("\u0000")) {
+    plan.errors.push({
+      row: firstRow,
+      message: `option names (${product.options.join(", ")}) differ from those of ${existing.handle} (${optionNames.join(", ")}); an import cannot rename options`,
+    });
+  }
+  plan.productChanges = fieldChanges(
+    {
+      title: existing.title,
+      description: existing.description,
+      vendor: existing.vendor,
+      productType: existing.productType,
+      tags: existing.tags,
+      status: existing.status,
+    },
+    product.fields
+  );
+
+  const variants = existing.variants.edges.map(({ node }) => node);
+  const matchedRows = new Map<string, number>();
+  for (const row of product.variants) {
+    const owner = row.sku ? catalog.bySku.get(row.sku) : undefined;
+    if (owner && owner.product.id !== existing.id) {
+      plan.errors.push({ row: row.row, message: `Variant SKU "${row.sku}" belongs to product ${owner.product.handle}` });
+      continue;
+    }
+    const variant =
+      owner?.variant ??
+      (product.options.length > 0
+        ? variants.find((candidate) =>
+            product.options.every(
+              (name, position) => candidate.selectedOptions.find((option) => option.name === name)?.value === row.options[position]
+            )
+          )
+        : variants.length === 1 && product.variants.length === 1
+          ? variants[0]
+          : undefined);
+
+    if (!variant) {
+      if (product.options.length === 0) {
+        plan.errors.push({ row: row.row, message: "matches no variant; give option values to add one" });
+      } else if (row.price === undefined) {
+        plan.errors.push({ row: row.row, message: "Variant Price is required for new variants" });
+      }
+      plan.variantOperations.push({
+        action: "CREATE",
+        productId: existing.id,
+        variantData: { title: row.options.join(" / "), options: row.options, price: row.price, sku: row.sku, inventory: row.inventory },
+      });
+      plan.variants.set(row.row, {
+        action: "create",
+        changes: fieldChanges({}, { options: row.options, sku: row.sku, price: row.price, inventory: row.inventory }),
+      });
+      continue;
+    }
+
+    const matchedRow = matchedRows.get(variant.id);
+    if (matchedRow !== undefined) {
+      plan.errors.push({ row: row.row, message: `matches the same variant as row ${matchedRow}` });
+      continue;
+    }
+    matchedRows.set(variant.id, row.row);
+    const changes = fieldChanges(
+      { sku: variant.sku, price: Number(variant.price), inventory: variant.inventoryQuantity },
+      { sku: row.sku, price: row.price, inventory: row.inventory }
+    );
+    if (changes.length > 0) {
+      const variantData = Object.fromEntries(changes.map(({ field, after }) => [field, after]));
+      plan.variantOperations.push({ action: "UPDATE", productId: existing.id, variantData: { id: variant.id, ...variantData } });
+    }
+    plan.variants.set(row.row, { action: changes.length > 0 ? "update" : "skip", variantId: variant.id, changes });
+  }
+
+  if (plan.errors.length > 0) {
+    plan.action = "invalid";
+  } else {
+    plan.action = plan.productChanges.length > 0 || plan.variantOperations.length > 0 ? "update" : "skip";
+  }
+  return plan;
+}
+
+/**
+ * Makes the changes of the planned products through the client, one product
+ * at a time, so a rejected product does not stop the others
+ * @returns What was done for each product, by handle
+ */
+async function applyProductImport(
+  plans: ProductImportPlan[],
+  { client, accessToken, shopDomain }: ShopClient
+): Promise<Map<string, ProductImportOutcome>> {
+  const outcomes = new Map<string, ProductImportOutcome>();
+  for (const plan of plans) {
+    const { product } = plan;
+    try {
+      if (plan.action === "create") {
+        const created = await client.createProduct(accessToken, shopDomain, {
+          ...product.fields,
+          title: product.fields.title ?? "",
+          description: product.fields.description ?? "",
+          handle: product.handle,
+          options: product.options.length > 0 ? product.options : undefined,
+          variants: product.variants.map((variant) => ({
+            title: variant.options.join(" / ") || "Default Title",
+            price: variant.price ?? 0,
+            sku: variant.sku,
+            inventory: variant.inventory ?? 0,
+            options: variant.options.length > 0 ? variant.options : undefined,
+          })),
+        });
+        outcomes.set(product.handle, { created });
+      } else if (plan.action === "update") {
+        if (plan.productChanges.length > 0) {
+          const updateData = Object.fromEntries(plan.productChanges.map(({ field, after }) => [field, after]));
+          await client.updateProduct(accessToken, shopDomain, plan.productId!, updateData);
+        }
+        if (plan.variantOperations.length > 0) {
+          await client.bulkVariantOperations(accessToken, shopDomain, plan.variantOperations);
+        }
+      }
+    } catch (error) {
+      outcomes.set(product.handle, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Reports the outcome of every row of a planned product
+ * @param outcomes What applying the changes did, by handle; the changes were only planned when omitted
+ */
+function importRowResults(plan: ProductImportPlan, outcomes?: Map<string, ProductImportOutcome>): ImportRowResult[] {
+  const { product } = plan;
+  const { created, error: failure } = outcomes?.get(product.handle) ?? {};
+  const productId = plan.productId ?? created?.id;
+  return product.rows.map((row, index) => {
+    const variant = plan.variants.get(row);
+    // Created variants are returned in the order they were given
+    const variantId =
+      variant?.variantId ?? created?.variants.edges[product.variants.findIndex((csvVariant) => csvVariant.row === row)]?.node.id;
+    const changes = [...(index === 0 ? plan.productChanges : []), ...(variant?.changes ?? [])];
+    const errors = plan.errors.filter((error) => error.row === row).map(({ message }) => message);
+
+    let action: ImportAction = plan.action;
+    if (plan.action === "update") {
+      action = index === 0 && plan.productChanges.length > 0 ? "update" : variant?.action ?? "skip";
+    }
+    let status: ImportRowResult["status"] = "skipped";
+    if (action !== "skip" && action !== "invalid") {
+      status = !outcomes ? "planned" : failure ? "failed" : "applied";
+    }
+
+    return {
+      row,
+      handle: product.handle,
+      action,
+      status,
+      ...(productId && { productId }),
+      ...(variantId && { variantId }),
+      ...(index === 0 && plan.matchedBy && { matchedBy: plan.matchedBy }),
+      ...(changes.length > 0 && { changes }),
+      ...(errors.length > 0 && { errors }),
+      ...(status === "failed" && { errors: [failure!] }),
+    };
+  });
+}
+
+function countBy<T extends string>(values: T[]): Partial<Record<T, number>> {
+  const counts: Partial<Record<T, number>> = {};
+  for (const value of values) {
+    counts[value] = (counts[value] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Registers catalog export and import tools with the MCP server
+ * @param server The MCP server instance
+ * @param context Shop registry, client factory and export directory used by the tools
+ */
+export function registerCatalogTools(server: McpServer, context: ToolContext): void {
+  // Export Products Tool
+  server.tool(
+    "export-products",
+    "Export every product matching the filters, with its options, variants and images, to a file in the export directory: Shopify's product CSV (one row per variant or image, the product fields on the first row) or JSONL (one product per line). Returns the file path and counts, not the products",
+    {
+      format: z.enum(["csv", "jsonl"]).default("csv").describe("File format"),
+      status: z
+        .array(z.enum(["ACTIVE", "DRAFT", "ARCHIVED"]))
+        .min(1)
+        .optional()
+        .describe("Only export products with one of these statuses"),
+      vendor: z.string().min(1).optional().describe("Only export products of this vendor"),
+      collectionId: z.string().min(1).optional().describe("Only export products in this collection, e.g. 'gid://shopify/Collection/123'"),
+      updatedSince: z
+        .string()
+        .refine((value) => !Number.isNaN(Date.parse(value)), "Must be a date such as 2024-01-01 or 2024-01-01T00:00:00Z")
+        .optional()
+        .describe("Only export products updated at or after this date"),
+      fileName: exportFileNameArgument
+        .optional()
+        .describe("Name of the file in the export directory (defaults to products-<shop>-<timestamp>.<format>); an existing file is replaced"),
+      shop: shopArgument,
+    },
+    async ({ format, fileName, shop, ...filters }: ExportProductsInput) => {
+      try {
+        const { client, accessToken, shopDomain, name } = resolveShopClient(context, shop);
+        const query = buildProductSearchQuery(filters);
+
+        const path = await resolveExportPath(
+          context,
+          fileName ?? `products-${name}-${new Date().toISOString().replace(/[:.]/g, "-")}.${format}`,
+          { create: true }
+        );
+        // Written next to the target and renamed once complete, so a failed export leaves no truncated file
+        const partialPath = `${path}.partial`;
+        const file = await open(partialPath, "w");
+
+        let productCount = 0;
+        let variantCount = 0;
+        let rowCount = 0;
+        try {
+          if (format === "csv") {
+            await file.write(PRODUCT_CSV_COLUMNS.join(",") + "\n");
+          }
+          for await (const page of productPages(client, accessToken, shopDomain, query)) {
+            const lines = page.products.flatMap((product) => {
+              productCount++;
+              variantCount += product.variants.edges.length;
+              if (format === "jsonl") {
+                return [JSON.stringify(flattenProduct(product))];
+              }
+              return toProductCsvRows(product).map((row) =>
+                PRODUCT_CSV_COLUMNS.map((column) => escapeCsvField(row[column])).join(",")
+              );
+            });
+            rowCount += lines.length;
+            if (lines.length > 0) {
+              await file.write(lines.join("\n") + "\n");
+            }
+          }
+        } catch (error) {
+          await file.close();
+          await rm(partialPath, { force: true });
+          throw error;
+        }
+        await file.close();
+        await rename(partialPath, path);
+
+        return formatSuccess({ path, format, query, productCount, variantCount, rowCount });
+      } catch (error) {
+        return handleError("Failed to export products", error);
+      }
+    }
+  );
+
+  // Import Products Tool
+  server.tool(
+    "import-products",
+    "Import a product CSV in Shopify's format, e.g. one written by export-products: validates the rows, matches products by handle then SKU and variants by SKU then option values, and creates the new products, updates the changed ones and skips the rest. Variants missing from the file are kept, image columns are not imported. Returns the outcome of every row; use dryRun to see the plan first",
+    {
+      fileName: exportFileNameArgument.optional().describe("CSV file in the export directory"),
+      csv: z.string().min(1).optional().describe("CSV text, when no file is given"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async (input: ImportProductsInput) => {
+      try {
+        if ((input.fileName === undefined) === (input.csv === undefined)) {
+          throw new Error("Pass either fileName or csv");
+        }
+        let text = input.csv;
+        if (input.fileName !== undefined) {
+          text = await readFile(await resolveExportPath(context, input.fileName), "utf8");
+        }
+        const parsed = parseProductCsv(text!);
+
+        const shopClient = resolveShopClient(context, input.shop);
+        const existing: ProductNode[] = [];
+        for await (const page of productPages(shopClient.client, shopClient.accessToken, shopClient.shopDomain, null)) {
+          existing.push(...page.products);
+        }
+        const catalog = indexCatalog(existing);
+        const plans = parsed.products.map((product) => planProductImport(product, catalog));
+
+        const report = (outcomes?: Map<string, ProductImportOutcome>) => {
+          const rows = plans.flatMap((plan) => importRowResults(plan, outcomes));
+          return {
+            summary: {
+              products: countBy(plans.map(({ action }) => action)),
+              rows: countBy(rows.map(({ status }) => status)),
+            },
+            ignoredColumns: parsed.ignoredColumns,
+            errors: parsed.errors,
+            rows,
+          };
+        };
+
+        if (input.dryRun) {
+          const valid = parsed.errors.length === 0 && plans.every(({ action }) => action !== "invalid");
+          return formatSuccess({ dryRun: true, valid, ...report() });
+        }
+        const confirmation = await requireConfirmation(context, "import-products", input, (planned) =>
+          applyProductImport(plans, planned)
+        );
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const outcomes = await applyProductImport(plans, shopClient);
+        return formatSuccess(report(outcomes));
+      } catch (error) {
+        return handleError("Failed to import products", error);
+      }
+    }
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Two-phase confirmation of destructive tool calls for the Shopify MCP Server
+ */
+
+import { z } from "zod";
+import { ShopClient, ToolContext, resolveShopClient } from "./toolContext.js";
+import { formatPlannedChanges } from "./dryRun.js";
+
+/**
+ * Optional `confirmationToken` argument accepted by the destructive tools
+ */
+export const confirmationTokenArgument = z
+  .string()
+  .optional()
+  .describe(
+    "Token returned by an earlier call with the same arguments; required to make changes that need confirmation"
+  );
+
+/**
+ * Holds a destructive tool call back until it is confirmed. Without a token
+ * the call is planned with a dry-run client first; when the plan needs
+ * confirmation it is returned with a token instead of making the changes.
+ * @param context The tool context
+ * @param tool Name of the tool, part of what the token confirms
+ * @param input Tool arguments; the token confirms the same arguments only
+ * @param run Makes the changes through the given client
+ * @returns The response to return instead of making the changes, or null to make them
+ * @throws Error if the token is unknown, expired or was issued for another call
+ */
+export async function requireConfirmation<T extends { shop?: string; dryRun?: boolean; confirmationToken?: string }>(
+  context: ToolContext,
+  tool: string,
+  input: T,
+  run: (shopClient: ShopClient) => Promise<unknown>
+): Promise<{ content: { type: "text"; text: string }[]; isError?: boolean } | null> {
+  const { shop, dryRun, confirmationToken, ...args } = input;
+  if (!context.confirmations || dryRun) {
+    return null;
+  }
+
+  const call = { tool, shopDomain: context.shopRegistry.resolve(shop).shopDomain, args };
+  if (confirmationToken !== undefined) {
+    if (!context.confirmations.consume(confirmationToken, call)) {
+      throw new Error(
+        "The confirmation token is invalid, expired, already used or was issued for other arguments; call the tool again without it for a new plan"
+      );
+    }
+    return null;
+  }
+
+  const planned = resolveShopClient(context, shop, { dryRun: true });
+  await run(planned);
+  const plannedChanges = planned.plannedChanges ?? [];
+  if (plannedChanges.some((change) => change.errors.length > 0)) {
+    return formatPlannedChanges(plannedChanges);
+  }
+  if (!context.confirmations.requiresConfirmation(plannedChanges)) {
+    return null;
+  }
+
+  const { token, expiresAt } = context.confirmations.issue(call);
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            confirmationRequired: true,
+            message: `Nothing has been changed yet. Call ${tool} again with the same arguments and confirmationToken "${token}" to make these changes.`,
+            confirmationToken: token,
+            expiresAt,
+            changes: plannedChanges,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
@@ -4,26 +4,31 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
-import { config } from "../config/index.js";
+import { ToolContext, resolveShopClient } from "./toolContext.js";
+import { shopArgument } from "./shopArgument.js";
+import { dryRunArgument, formatPlannedChanges } from "./dryRun.js";
 import { handleError, formatSuccess } from "../utils/errorHandler.js";
 
 // Define input types for better type safety
 interface GetCustomersInput {
   limit?: number;
   next?: string;
+  shop?: string;
 }
 
 interface TagCustomerInput {
   customerId: string;
   tags: string[];
+  shop?: string;
+  dryRun?: boolean;
 }
 
 /**
  * Registers customer-related tools with the MCP server
  * @param server The MCP server instance
+ * @param context Shop registry and client factory used by the tools
  */
-export function registerCustomerTools(server: McpServer): void {
+export function registerCustomerTools(server: McpServer, context: ToolContext): void {
   // Get Customers Tool
   server.tool(
     "get-customers",
@@ -31,13 +36,15 @@ export function registerCustomerTools(server: McpServer): void {
     {
       limit: z.number().optional().describe("Maximum number of customers to return"),
       next: z.string().optional().describe("Next page cursor"),
+      shop: shopArgument,
     },
-    async ({ limit, next }: GetCustomersInput) => {
-      const client = new ShopifyClient();
+    { readOnlyHint: true },
+    async ({ limit, next, shop }: GetCustomersInput) => {
       try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
         const customers = await client.loadCustomers(
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           limit,
           next
         );
@@ -55,16 +62,21 @@ export function registerCustomerTools(server: McpServer): void {
     {
       customerId: z.string().describe("Customer ID to tag"),
       tags: z.array(z.string()).describe("Tags to add to the customer"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
     },
-    async ({ customerId, tags }: TagCustomerInput) => {
-      const client = new ShopifyClient();
+    async ({ customerId, tags, shop, dryRun }: TagCustomerInput) => {
       try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
         await client.tagCustomer(
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           customerId,
           tags
         );
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
         
         return {
           content: [
@@ -3,11 +3,28 @@
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { writeFile } from "node:fs/promises";
+import { setTimeout as sleep } from "node:timers/promises";
 import { z } from "zod";
-import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
-import { config } from "../config/index.js";
+import { ToolContext, resolveShopClient } from "./toolContext.js";
+import { shopArgument } from "./shopArgument.js";
+import { dryRunArgument, formatPlannedChanges } from "./dryRun.js";
+import { confirmationTokenArgument, requireConfirmation } from "./confirmation.js";
+import { exportFileNameArgument, resolveExportPath } from "./exportFile.js";
 import { handleError } from "../utils/errorHandler.js";
-import { CreateBasicDiscountCodeInput } from "../ShopifyClient/ShopifyClientPort.js";
+import { formatCsv } from "../utils/csv.js";
+import { DiscountCodeOptions, discountCodeSpace, generateDiscountCodes } from "../utils/discountCodes.js";
+import {
+  BxgyDiscountInput,
+  CreateBasicDiscountCodeInput,
+  CustomError,
+  DiscountCodeBulkJob,
+  DiscountCombinesWith,
+  DiscountMinimumRequirementInput,
+  MAX_DISCOUNT_CODES_PER_BULK_ADD,
+  ShopifyClientPort,
+  ShopifyDiscount,
+} from "../ShopifyClient/ShopifyClientPort.js";
 
 // Define input types for better type safety
 interface CreateDiscountInput {
@@ -18,13 +35,268 @@ interface CreateDiscountInput {
   startsAt: string;
   endsAt?: string;
   appliesOncePerCustomer: boolean;
+  usageLimit?: number;
+  includeCollectionIds?: string[];
+  excludeCollectionIds?: string[];
+  includeProductIds?: string[];
+  shop?: string;
+  dryRun?: boolean;
+}
+
+interface GetDiscountsInput {
+  first?: number;
+  after?: string;
+  query?: string;
+  reverse?: boolean;
+  shop?: string;
+}
+
+interface DiscountIdInput {
+  discountId: string;
+  shop?: string;
+  dryRun?: boolean;
+}
+
+interface DeleteDiscountInput extends DiscountIdInput {
+  confirmationToken?: string;
+}
+
+interface UpdateDiscountEndDateInput {
+  discountId: string;
+  endsAt: string | null;
+  shop?: string;
+  dryRun?: boolean;
+}
+
+interface MinimumRequirementInput {
+  minimumSubtotal?: number;
+  minimumQuantity?: number;
+}
+
+interface DiscountScheduleInput {
+  title: string;
+  startsAt: string;
+  endsAt?: string;
+  combinesWith?: DiscountCombinesWith;
+  shop?: string;
+  dryRun?: boolean;
+}
+
+interface DiscountCodeOptionsInput {
+  code: string;
+  usageLimit?: number;
+  appliesOncePerCustomer?: boolean;
+  customerIds?: string[];
+}
+
+interface CreateAutomaticDiscountInput extends DiscountScheduleInput, MinimumRequirementInput {
+  valueType: "percentage" | "fixed_amount";
+  value: number;
+  productIds?: string[];
+  variantIds?: string[];
+  collectionIds?: string[];
+}
+
+interface CreateBxgyInput extends DiscountScheduleInput {
+  buyQuantity?: number;
+  buySubtotal?: number;
+  buyProductIds?: string[];
+  buyVariantIds?: string[];
+  buyCollectionIds?: string[];
+  getQuantity: number;
+  getPercentage: number;
+  getProductIds?: string[];
+  getVariantIds?: string[];
+  getCollectionIds?: string[];
+  usesPerOrderLimit?: number;
+}
+
+interface CreateBxgyCodeInput extends CreateBxgyInput, DiscountCodeOptionsInput {}
+
+interface CreateFreeShippingCodeInput extends DiscountScheduleInput, DiscountCodeOptionsInput, MinimumRequirementInput {
+  countryCodes?: string[];
+  maximumShippingPrice?: number;
+}
+
+interface GenerateDiscountCodesInput {
+  title: string;
+  valueType: "percentage" | "fixed_amount";
+  value: number;
+  startsAt: string;
+  endsAt?: string;
+  usageLimit: number;
+  appliesOncePerCustomer: boolean;
+  includeCollectionIds?: string[];
+  excludeCollectionIds?: string[];
+  includeProductIds?: string[];
+  count: number;
+  prefix?: string;
+  length: number;
+  alphabet?: string;
+  fileName?: string;
+  shop?: string;
+  dryRun?: boolean;
+}
+
+const MAX_GENERATED_CODES = 20000;
+const DISCOUNT_CODE_JOB_POLL_INTERVAL_MS = 1000;
+const DISCOUNT_CODE_JOB_TIMEOUT_MS = 5 * 60 * 1000;
+// Rounds of replacing codes that were rejected, usually because another discount already uses them
+const MAX_CODE_COLLISION_ROUNDS = 5;
+
+const DEFAULT_COMBINES_WITH: DiscountCombinesWith = {
+  productDiscounts: true,
+  orderDiscounts: true,
+  shippingDiscounts: true,
+};
+
+const discountScheduleShape = {
+  title: z.string().describe("Title of the discount"),
+  startsAt: z.string().describe("Start date in ISO format"),
+  endsAt: z.string().optional().describe("Optional end date in ISO format"),
+  combinesWith: z
+    .object({
+      productDiscounts: z.boolean(),
+      orderDiscounts: z.boolean(),
+      shippingDiscounts: z.boolean(),
+    })
+    .optional()
+    .describe("Discount classes this discount combines with; all of them when omitted"),
+  shop: shopArgument,
+  dryRun: dryRunArgument,
+};
+
+const minimumRequirementShape = {
+  minimumSubtotal: z.number().positive().optional().describe("Minimum order subtotal"),
+  minimumQuantity: z.number().int().positive().optional().describe("Minimum number of items in the order"),
+};
+
+const discountCodeOptionsShape = {
+  code: z.string().describe("Discount code that customers will enter"),
+  usageLimit: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Maximum number of times the code can be used in total"),
+  appliesOncePerCustomer: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Whether each customer can use the code only once"),
+  customerIds: z
+    .array(z.string())
+    .optional()
+    .describe("Only these customers can use the code; everyone when omitted"),
+};
+
+const idList = (description: string) => z.array(z.string()).optional().describe(description);
+
+const bxgyShape = {
+  ...discountScheduleShape,
+  buyQuantity: z.number().int().positive().optional().describe("Number of qualifying items to buy"),
+  buySubtotal: z.number().positive().optional().describe("Amount to spend on qualifying items, instead of buyQuantity"),
+  buyProductIds: idList("Products that qualify for the purchase"),
+  buyVariantIds: idList("Variants that qualify for the purchase"),
+  buyCollectionIds: idList("Collections whose products qualify for the purchase"),
+  getQuantity: z.number().int().positive().describe("Number of discounted items the customer gets"),
+  getPercentage: z
+    .number()
+    .positive()
+    .max(1)
+    .optional()
+    .default(1)
+    .describe("Discount on the items the customer gets, as a decimal (1 makes them free)"),
+  getProductIds: idList("Products the customer gets"),
+  getVariantIds: idList("Variants the customer gets"),
+  getCollectionIds: idList("Collections whose products the customer gets"),
+  usesPerOrderLimit: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("How many times the discount can apply in one order"),
+};
+
+function toMinimumRequirement({ minimumSubtotal, minimumQuantity }: MinimumRequirementInput): DiscountMinimumRequirementInput {
+  if (minimumSubtotal !== undefined && minimumQuantity !== undefined) {
+    throw new Error("Set either minimumSubtotal or minimumQuantity, not both");
+  }
+  return {
+    prerequisiteSubtotalRange:
+      minimumSubtotal !== undefined ? { greaterThanOrEqualTo: minimumSubtotal.toFixed(2) } : undefined,
+    prerequisiteQuantityRange:
+      minimumQuantity !== undefined ? { greaterThanOrEqualTo: minimumQuantity } : undefined,
+  };
+}
+
+function toBxgyInput(input: CreateBxgyInput): BxgyDiscountInput {
+  if ((input.buyQuantity === undefined) === (input.buySubtotal === undefined)) {
+    throw new Error("Set exactly one of buyQuantity or buySubtotal");
+  }
+  return {
+    title: input.title,
+    startsAt: input.startsAt,
+    endsAt: input.endsAt,
+    combinesWith: input.combinesWith ?? DEFAULT_COMBINES_WITH,
+    ...toMinimumRequirement({ minimumSubtotal: input.buySubtotal, minimumQuantity: input.buyQuantity }),
+    prerequisiteProductIds: input.buyProductIds,
+    prerequisiteVariantIds: input.buyVariantIds,
+    prerequisiteCollectionIds: input.buyCollectionIds,
+    getQuantity: input.getQuantity,
+    getPercentage: input.getPercentage,
+    entitledProductIds: input.getProductIds,
+    entitledVariantIds: input.getVariantIds,
+    entitledCollectionIds: input.getCollectionIds,
+    usesPerOrderLimit: input.usesPerOrderLimit,
+  };
+}
+
+// True for a userError on the code field, which Shopify returns when the code is taken
+function isCodeTakenError(error: unknown): boolean {
+  return (
+    error instanceof CustomError &&
+    Array.isArray(error.innerError) &&
+    error.innerError.some((userError: { field?: string[] }) => userError.field?.includes("code"))
+  );
+}
+
+async function waitForDiscountCodeJob(
+  client: ShopifyClientPort,
+  accessToken: string,
+  shopDomain: string,
+  jobId: string
+): Promise<DiscountCodeBulkJob> {
+  const deadline = Date.now() + DISCOUNT_CODE_JOB_TIMEOUT_MS;
+  for (;;) {
+    const job = await client.getDiscountCodeBulkJob(accessToken, shopDomain, jobId);
+    if (job.done) {
+      return job;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for discount code job ${jobId}`);
+    }
+    await sleep(DISCOUNT_CODE_JOB_POLL_INTERVAL_MS);
+  }
+}
+
+function describeDiscount(discount: ShopifyDiscount): string {
+  return [
+    `ID: ${discount.id}`,
+    `Title: ${discount.title}`,
+    `Status: ${discount.status}`,
+    `Codes: ${discount.codes.join(", ") || "none (automatic)"}`,
+    `Ends: ${discount.endsAt ?? "never"}`,
+    `Used: ${discount.usageCount}${discount.usageLimit !== null ? ` of ${discount.usageLimit}` : ""}`,
+  ].join("\n");
 }
 
 /**
  * Registers discount-related tools with the MCP server
  * @param server The MCP server instance
+ * @param context Shop registry and client factory used by the tools
  */
-export function registerDiscountTools(server: McpServer): void {
+export function registerDiscountTools(server: McpServer, context: ToolContext): void {
   // Create Discount Tool
   server.tool(
     "create-discount",
@@ -41,10 +313,49 @@ export function registerDiscountTools(server: McpServer): void {
       appliesOncePerCustomer: z
         .boolean()
         .describe("Whether discount can be used only once per customer"),
+      usageLimit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Maximum number of times the discount can be used in total"),
+      includeCollectionIds: z
+        .array(z.string())
+        .optional()
+        .describe("Only discount products in these collections"),
+      excludeCollectionIds: z
+        .array(z.string())
+        .optional()
+        .describe("Collections removed from includeCollectionIds; Shopify cannot leave collections out of a discount on all items"),
+      includeProductIds: z
+        .array(z.string())
+        .optional()
+        .describe("Only discount these products; cannot be combined with includeCollectionIds"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
     },
-    async ({ title, code, valueType, value, startsAt, endsAt, appliesOncePerCustomer }: CreateDiscountInput) => {
-      const client = new ShopifyClient();
+    async ({
+      title,
+      code,
+      valueType,
+      value,
+      startsAt,
+      endsAt,
+      appliesOncePerCustomer,
+      usageLimit,
+      includeCollectionIds = [],
+      excludeCollectionIds = [],
+      includeProductIds = [],
+      shop,
+      dryRun,
+    }: CreateDiscountInput) => {
       try {
+        if (includeProductIds.length > 0 && (includeCollectionIds.length > 0 || excludeCollectionIds.length > 0)) {
+          throw new Error("Target either products or collections, not both");
+        }
+
+
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
         const discountInput: CreateBasicDiscountCodeInput = {
           title,
           code,
@@ -53,8 +364,10 @@ export function registerDiscountTools(server: McpServer): void {
           startsAt,
           endsAt,
           appliesOncePerCustomer,
-          includeCollectionIds: [],
-          excludeCollectionIds: [],
+          usageLimit,
+          includeCollectionIds,
+          excludeCollectionIds,
+          includeProductIds,
           combinesWith: {
             productDiscounts: true,
             orderDiscounts: true,
@@ -63,10 +376,13 @@ export function registerDiscountTools(server: McpServer): void {
         };
 
         const discount = await client.createBasicDiscountCode(
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           discountInput
         );
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
 
         return {
           content: [
@@ -81,4 +397,540 @@ export function registerDiscountTools(server: McpServer): void {
       }
     }
   );
-} 
\ No newline at end of file
+
+  // Get Discounts Tool
+  server.tool(
+    "get-discounts",
+    "List and search code and automatic discounts",
+    {
+      first: z
+        .number()
+        .optional()
+        .default(10)
+        .describe("Maximum number of discounts to return"),
+      after: z
+        .string()
+        .optional()
+        .describe("Cursor for pagination"),
+      query: z
+        .string()
+        .optional()
+        .describe("Search query, e.g. status:active, method:automatic or code:SUMMER*"),
+      reverse: z
+        .boolean()
+        .optional()
+        .describe("Whether to reverse the order"),
+      shop: shopArgument,
+    },
+    { readOnlyHint: true },
+    async ({ first, after, query, reverse, shop }: GetDiscountsInput) => {
+      try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+        const discounts = await client.loadDiscounts(accessToken, shopDomain, { first, after, query, reverse });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(discounts, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError("Failed to retrieve discounts", error);
+      }
+    }
+  );
+
+  // Get Discount Tool
+  server.tool(
+    "get-discount",
+    "Get a discount with its usage count and rules (value, targeted items, prerequisites)",
+    {
+      discountId: z.string().describe("ID of the discount"),
+      shop: shopArgument,
+    },
+    { readOnlyHint: true },
+    async ({ discountId, shop }: DiscountIdInput) => {
+      try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+        const discount = await client.getDiscount(accessToken, shopDomain, discountId);
+        const { priceRule } = await client.getPriceRule(accessToken, shopDomain, { id: discount.id });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ ...discount, rules: priceRule }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError(`Failed to retrieve discount ${discountId}`, error);
+      }
+    }
+  );
+
+  // Activate Discount Tool
+  server.tool(
+    "activate-discount",
+    "Reactivate an expired or deactivated discount, removing its end date",
+    {
+      discountId: z.string().describe("ID of the discount"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+    },
+    async ({ discountId, shop, dryRun }: DiscountIdInput) => {
+      try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
+        const discount = await client.activateDiscount(accessToken, shopDomain, discountId);
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully activated discount:\n${describeDiscount(discount)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError(`Failed to activate discount ${discountId}`, error);
+      }
+    }
+  );
+
+  // Deactivate Discount Tool
+  server.tool(
+    "deactivate-discount",
+    "Deactivate a discount by ending it now; it can be reactivated later",
+    {
+      discountId: z.string().describe("ID of the discount"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+    },
+    async ({ discountId, shop, dryRun }: DiscountIdInput) => {
+      try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
+        const discount = await client.deactivateDiscount(accessToken, shopDomain, discountId);
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully deactivated discount:\n${describeDiscount(discount)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError(`Failed to deactivate discount ${discountId}`, error);
+      }
+    }
+  );
+
+  // Update Discount End Date Tool
+  server.tool(
+    "update-discount-end-date",
+    "Change when a discount ends",
+    {
+      discountId: z.string().describe("ID of the discount"),
+      endsAt: z
+        .string()
+        .datetime({ offset: true })
+        .nullable()
+        .describe("New end date in ISO format, or null to run the discount indefinitely"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+    },
+    async ({ discountId, endsAt, shop, dryRun }: UpdateDiscountEndDateInput) => {
+      try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
+        const discount = await client.updateDiscountEndDate(accessToken, shopDomain, discountId, endsAt);
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully updated discount end date:\n${describeDiscount(discount)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError(`Failed to update end date of discount ${discountId}`, error);
+      }
+    }
+  );
+
+  // Delete Discount Tool
+  server.tool(
+    "delete-discount",
+    "Permanently delete a discount and its codes",
+    {
+      discountId: z.string().describe("ID of the discount"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async (input: DeleteDiscountInput) => {
+      const { discountId, shop, dryRun } = input;
+      try {
+        const confirmation = await requireConfirmation(context, "delete-discount", input, (planned) =>
+          planned.client.deleteDiscount(planned.accessToken, planned.shopDomain, discountId)
+        );
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
+        await client.deleteDiscount(accessToken, shopDomain, discountId);
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully deleted discount ${discountId}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError(`Failed to delete discount ${discountId}`, error);
+      }
+    }
+  );
+
+  // Create Automatic Discount Tool
+  server.tool(
+    "create-automatic-discount",
+    "Create an automatic percentage or fixed amount discount, applied at checkout without a code",
+    {
+      ...discountScheduleShape,
+      valueType: z
+        .enum(["percentage", "fixed_amount"])
+        .describe("Type of discount ('percentage' or 'fixed_amount')"),
+      value: z.number().positive().describe("Discount value (percentage as decimal or fixed amount)"),
+      ...minimumRequirementShape,
+      productIds: idList("Only discount these products"),
+      variantIds: idList("Only discount these variants"),
+      collectionIds: idList("Only discount products in these collections; cannot be combined with products or variants"),
+    },
+    async (input: CreateAutomaticDiscountInput) => {
+      try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, input.shop, {
+          dryRun: input.dryRun,
+        });
+        const discount = await client.createAutomaticBasicDiscount(accessToken, shopDomain, {
+          title: input.title,
+          startsAt: input.startsAt,
+          endsAt: input.endsAt,
+          combinesWith: input.combinesWith ?? DEFAULT_COMBINES_WITH,
+          valueType: input.valueType,
+          value: input.value,
+          ...toMinimumRequirement(input),
+          entitledProductIds: input.productIds,
+          entitledVariantIds: input.variantIds,
+          entitledCollectionIds: input.collectionIds,
+        });
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully created automatic discount:\n${describeDiscount(discount)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError("Failed to create automatic discount", error);
+      }
+    }
+  );
+
+  // Create Automatic Buy X Get Y Discount Tool
+  server.tool(
+    "create-automatic-bxgy-discount",
+    "Create an automatic buy X get Y discount",
+    bxgyShape,
+    async (input: CreateBxgyInput) => {
+      try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, input.shop, {
+          dryRun: input.dryRun,
+        });
+        const discount = await client.createAutomaticBxgyDiscount(accessToken, shopDomain, toBxgyInput(input));
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully created automatic buy X get Y discount:\n${describeDiscount(discount)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError("Failed to create automatic buy X get Y discount", error);
+      }
+    }
+  );
+
+  // Create Buy X Get Y Discount Code Tool
+  server.tool(
+    "create-bxgy-discount-code",
+    "Create a buy X get Y discount code",
+    {
+      ...bxgyShape,
+      ...discountCodeOptionsShape,
+    },
+    async (input: CreateBxgyCodeInput) => {
+      try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, input.shop, {
+          dryRun: input.dryRun,
+        });
+        const discount = await client.createBxgyDiscountCode(accessToken, shopDomain, {
+          ...toBxgyInput(input),
+          code: input.code,
+          usageLimit: input.usageLimit,
+          appliesOncePerCustomer: input.appliesOncePerCustomer ?? false,
+          prerequisiteCustomerIds: input.customerIds,
+        });
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully created buy X get Y discount code:\n${describeDiscount(discount)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError("Failed to create buy X get Y discount code", error);
+      }
+    }
+  );
+
+  // Create Free Shipping Discount Code Tool
+  server.tool(
+    "create-free-shipping-discount-code",
+    "Create a free shipping discount code, optionally with a minimum subtotal or quantity",
+    {
+      ...discountScheduleShape,
+      ...discountCodeOptionsShape,
+      ...minimumRequirementShape,
+      countryCodes: idList("ISO country codes the code ships free to; all countries when omitted"),
+      maximumShippingPrice: z
+        .number()
+        .positive()
+        .optional()
+        .describe("Shipping rates above this price are not discounted"),
+    },
+    async (input: CreateFreeShippingCodeInput) => {
+      try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, input.shop, {
+          dryRun: input.dryRun,
+        });
+        const discount = await client.createFreeShippingDiscountCode(accessToken, shopDomain, {
+          title: input.title,
+          code: input.code,
+          startsAt: input.startsAt,
+          endsAt: input.endsAt,
+          combinesWith: input.combinesWith ?? DEFAULT_COMBINES_WITH,
+          usageLimit: input.usageLimit,
+          appliesOncePerCustomer: input.appliesOncePerCustomer ?? false,
+          prerequisiteCustomerIds: input.customerIds,
+          ...toMinimumRequirement(input),
+          prerequisiteShippingPriceRange:
+            input.maximumShippingPrice !== undefined
+              ? { lessThanOrEqualTo: input.maximumShippingPrice.toFixed(2) }
+              : undefined,
+          countryCodes: input.countryCodes,
+        });
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully created free shipping discount code:\n${describeDiscount(discount)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError("Failed to create free shipping discount code", error);
+      }
+    }
+  );
+
+  // Generate Discount Codes Tool
+  server.tool(
+    "generate-discount-codes",
+    "Create a basic discount with many generated unique codes (e.g. single-use codes for a campaign) and return them as CSV",
+    {
+      title: z.string().describe("Title of the discount"),
+      valueType: z
+        .enum(["percentage", "fixed_amount"])
+        .describe("Type of discount ('percentage' or 'fixed_amount')"),
+      value: z.number().positive().describe("Discount value (percentage as decimal or fixed amount)"),
+      startsAt: z.string().describe("Start date in ISO format"),
+      endsAt: z.string().optional().describe("Optional end date in ISO format"),
+      usageLimit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(1)
+        .describe("Number of times each code can be used (1 for single-use codes)"),
+      appliesOncePerCustomer: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Whether each customer can use the discount only once"),
+      includeCollectionIds: idList("Only discount products in these collections"),
+      excludeCollectionIds: idList("Collections removed from includeCollectionIds"),
+      includeProductIds: idList("Only discount these products"),
+      count: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_GENERATED_CODES)
+        .describe("Number of codes to generate"),
+      prefix: z
+        .string()
+        .regex(/^[A-Za-z0-9_-]*$/)
+        .optional()
+        .describe("Text every code starts with, e.g. SPRING-"),
+      length: z
+        .number()
+        .int()
+        .min(1)
+        .max(32)
+        .optional()
+        .default(8)
+        .describe("Number of random characters after the prefix"),
+      alphabet: z
+        .string()
+        .regex(/^[A-Za-z0-9]+$/)
+        .min(2)
+        .optional()
+        .describe("Characters to draw from; uppercase letters and digits without look-alikes by default"),
+      fileName: exportFileNameArgument
+        .optional()
+        .describe("Write the CSV to this file of the export directory instead of returning it; an existing file is replaced"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+    },
+    async (input: GenerateDiscountCodesInput) => {
+      try {
+        const codeOptions: DiscountCodeOptions = {
+          prefix: input.prefix,
+          length: input.length,
+          alphabet: input.alphabet,
+        };
+        // Leave room so collisions stay rare and random generation stays fast
+        if (discountCodeSpace(codeOptions) < input.count * 2) {
+          throw new Error(
+            `A length of ${input.length} with this alphabet gives too few distinct codes for ${input.count} codes`
+          );
+        }
+
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, input.shop, {
+          dryRun: input.dryRun,
+        });
+        const taken = new Set<string>();
+        const discountInput: Omit<CreateBasicDiscountCodeInput, "code"> = {
+          title: input.title,
+          valueType: input.valueType,
+          value: input.value,
+          startsAt: input.startsAt,
+          endsAt: input.endsAt,
+          usageLimit: input.usageLimit,
+          appliesOncePerCustomer: input.appliesOncePerCustomer,
+          includeCollectionIds: input.includeCollectionIds ?? [],
+          excludeCollectionIds: input.excludeCollectionIds ?? [],
+          includeProductIds: input.includeProductIds,
+          combinesWith: DEFAULT_COMBINES_WITH,
+        };
+
+        // The discount is created with the first code, the rest are added in bulk
+        let discountId: string | undefined;
+        const codes: string[] = [];
+        for (let attempt = 1; !discountId; attempt++) {
+          const [code] = generateDiscountCodes(1, codeOptions, taken);
+          try {
+            const discount = await client.createBasicDiscountCode(accessToken, shopDomain, { ...discountInput, code });
+            discountId = discount.id;
+            codes.push(code);
+          } catch (error) {
+            if (!isCodeTakenError(error) || attempt >= MAX_CODE_COLLISION_ROUNDS) {
+              throw error;
+            }
+          }
+        }
+
+        let pending = generateDiscountCodes(input.count - 1, codeOptions, taken);
+        let rejected: DiscountCodeBulkJob["failedCodes"] = [];
+        for (let round = 1; pending.length > 0; round++) {
+          rejected = [];
+          for (let start = 0; start < pending.length; start += MAX_DISCOUNT_CODES_PER_BULK_ADD) {
+            const batch = pending.slice(start, start + MAX_DISCOUNT_CODES_PER_BULK_ADD);
+            const started = await client.addDiscountCodes(accessToken, shopDomain, discountId, batch);
+            const job = await waitForDiscountCodeJob(client, accessToken, shopDomain, started.id);
+            const failed = new Set(job.failedCodes.map((failedCode) => failedCode.code));
+            codes.push(...batch.filter((code) => !failed.has(code)));
+            rejected.push(...job.failedCodes);
+          }
+          if (round >= MAX_CODE_COLLISION_ROUNDS) {
+            break;
+          }
+          pending = generateDiscountCodes(rejected.length, codeOptions, taken);
+        }
+
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+
+        const csv = formatCsv(["code"], codes.map((code) => [code]));
+        const lines = [
+          `Successfully created discount with ${codes.length} of ${input.count} codes:`,
+          `ID: ${discountId}`,
+        ];
+        if (rejected.length > 0) {
+          lines.push(
+            `${rejected.length} codes were still rejected after ${MAX_CODE_COLLISION_ROUNDS} rounds, e.g. ${rejected[0].code}: ${rejected[0].message}`
+          );
+        }
+        if (input.fileName) {
+          const path = await resolveExportPath(context, input.fileName, { create: true });
+          await writeFile(path, csv, "utf8");
+          lines.push(`CSV written to ${path}`);
+        } else {
+          lines.push("", csv);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: lines.join("\n"),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError("Failed to generate discount codes", error);
+      }
+    }
+  );
+}
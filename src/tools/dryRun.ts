@@ -0,0 +1,32 @@
+/**
+ * Shared dry-run argument and response for the Shopify MCP Server write tools
+ */
+
+import { z } from "zod";
+import { PlannedChange } from "../ShopifyClient/DryRunShopifyClient.js";
+
+/**
+ * Optional `dryRun` argument accepted by every write tool
+ */
+export const dryRunArgument = z
+  .boolean()
+  .optional()
+  .describe(
+    "Validate the input and return the planned changes with before/after values instead of changing anything in the store"
+  );
+
+/**
+ * Formats the changes a dry run planned; the response is an error when any
+ * of them would be rejected
+ * @param plannedChanges Changes recorded by the dry-run client
+ */
+export function formatPlannedChanges(plannedChanges: PlannedChange[]): {
+  content: { type: "text"; text: string }[];
+  isError?: boolean;
+} {
+  const valid = plannedChanges.every((change) => change.errors.length === 0);
+  return {
+    content: [{ type: "text", text: JSON.stringify({ dryRun: true, valid, changes: plannedChanges }, null, 2) }],
+    ...(!valid && { isError: true }),
+  };
+}
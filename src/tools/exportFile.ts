@@ -0,0 +1,35 @@
+/**
+ * Shared export file argument for the Shopify MCP Server tools
+ */
+
+import { z } from "zod";
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { ToolContext } from "./toolContext.js";
+
+/**
+ * File name argument of the tools reading or writing the export directory; a
+ * bare name keeps callers from reaching files outside of it
+ */
+export const exportFileNameArgument = z.string().regex(/^\w[\w.-]*$/, "Must be a file name without a directory");
+
+/**
+ * Resolves a file of the export directory
+ * @param context The tool context
+ * @param fileName Bare file name, validated by exportFileNameArgument
+ * @param options.create Create the directory when it is missing, for files about to be written
+ * @throws Error if no export directory is configured
+ */
+export async function resolveExportPath(
+  context: ToolContext,
+  fileName: string,
+  options: { create?: boolean } = {}
+): Promise<string> {
+  if (!context.exportDirectory) {
+    throw new Error("No export directory is configured");
+  }
+  if (options.create) {
+    await mkdir(context.exportDirectory, { recursive: true });
+  }
+  return join(context.exportDirectory, fileName);
+}
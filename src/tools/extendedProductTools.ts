@@ -1,3 +1,10 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ShopClient, ToolContext, resolveShopClient } from "./toolContext.js";
+import { shopArgument } from "./shopArgument.js";
+import { dryRunArgument, formatPlannedChanges } from "./dryRun.js";
+import { confirmationTokenArgument, requireConfirmation } from "./confirmation.js";
+import { handleError, formatSuccess } from "../utils/errorHandler.js";
 import { ShopifyClientPort, ProductNode, ProductVariant } from "../ShopifyClient/ShopifyClientPort.js";
 
 export async function getProductRecommendations(
@@ -178,3 +185,601 @@ export async function bulkUpdateProducts(
 ): Promise<ProductNode[]> {
   return client.bulkUpdateProducts(accessToken, shop, updates);
 }
+
+// Define input types for better type safety
+type ProductStatus = "ACTIVE" | "ARCHIVED" | "DRAFT";
+
+interface ProductFieldsInput {
+  title?: string;
+  description?: string;
+  status?: ProductStatus;
+  vendor?: string;
+  productType?: string;
+  tags?: string[];
+}
+
+interface CreateProductInput {
+  title: string;
+  description: string;
+  vendor?: string;
+  productType?: string;
+  tags?: string[];
+  variants: Array<{
+    title: string;
+    price: number;
+    sku?: string;
+    inventory: number;
+    requiresShipping?: boolean;
+    taxable?: boolean;
+  }>;
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+interface UpdateProductInput extends ProductFieldsInput {
+  productId: string;
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+interface BulkUpdateProductsInput {
+  updates: Array<ProductFieldsInput & { productId: string }>;
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+interface ManageProductInventoryInput {
+  variantId: string;
+  action: "SET" | "ADJUST";
+  quantity: number;
+  locationId?: string;
+  reason?: string;
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+interface BulkVariantOperationsInput {
+  operations: Parameters<typeof bulkVariantOperations>[3];
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+interface ManageProductMetafieldsInput {
+  productId: string;
+  operations: Array<{
+    action: "SET" | "DELETE";
+    key: string;
+    namespace: string;
+    value?: string;
+    type?: string;
+  }>;
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+interface ManageProductCollectionsInput {
+  action: "ADD" | "REMOVE";
+  productIds: string[];
+  collectionIds: string[];
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+interface ManageProductImagesInput {
+  productId: string;
+  action: "ADD" | "UPDATE" | "REMOVE";
+  images: Array<{
+    id?: string;
+    url?: string;
+    altText?: string;
+    position?: number;
+  }>;
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+interface BulkUpdateVariantPricesInput {
+  updates: Array<{
+    variantId: string;
+    newPrice: number;
+  }>;
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+// Product fields shared by update-product and bulk-update-products
+const productFieldsSchema = {
+  title: z.string().min(1).optional().describe("New product title"),
+  description: z.string().optional().describe("New product description (HTML allowed)"),
+  status: z.enum(["ACTIVE", "ARCHIVED", "DRAFT"]).optional().describe("New product status"),
+  vendor: z.string().optional().describe("New vendor"),
+  productType: z.string().optional().describe("New product type"),
+  tags: z.array(z.string()).optional().describe("Tags to set, replacing the existing tags"),
+};
+
+function hasProductChanges(fields: ProductFieldsInput): boolean {
+  return Object.values(fields).some((value) => value !== undefined);
+}
+
+/**
+ * Registers product write tools with the MCP server
+ * @param server The MCP server instance
+ * @param context Shop registry and client factory used by the tools
+ */
+export function registerExtendedProductTools(server: McpServer, context: ToolContext): void {
+  // Create Product Tool
+  server.tool(
+    "create-product",
+    "Create a product with one or more variants",
+    {
+      title: z.string().min(1).describe("Product title"),
+      description: z.string().describe("Product description (HTML allowed)"),
+      vendor: z.string().optional().describe("Product vendor"),
+      productType: z.string().optional().describe("Product type"),
+      tags: z.array(z.string()).optional().describe("Product tags"),
+      variants: z
+        .array(
+          z.object({
+            title: z.string().min(1).describe("Variant title"),
+            price: z.number().nonnegative().describe("Variant price"),
+            sku: z.string().optional().describe("Variant SKU"),
+            inventory: z.number().int().nonnegative().describe("Initial inventory quantity"),
+            requiresShipping: z.boolean().optional().describe("Whether the variant requires shipping"),
+            taxable: z.boolean().optional().describe("Whether the variant is taxable"),
+          })
+        )
+        .min(1)
+        .describe("Product variants"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async ({ shop, dryRun, confirmationToken, ...productData }: CreateProductInput) => {
+      try {
+        const create = ({ client, accessToken, shopDomain }: ShopClient) =>
+          createProduct(client, accessToken, shopDomain, productData);
+        const confirmation = await requireConfirmation(
+          context,
+          "create-product",
+          { shop, dryRun, confirmationToken, ...productData },
+          create
+        );
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const shopClient = resolveShopClient(context, shop, { dryRun });
+        const product = await create(shopClient);
+        const { plannedChanges } = shopClient;
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return formatSuccess(product);
+      } catch (error) {
+        return handleError("Failed to create product", error);
+      }
+    }
+  );
+
+  // Update Product Tool
+  server.tool(
+    "update-product",
+    "Update a product's title, description, status, vendor, type or tags",
+    {
+      productId: z.string().describe("ID of the product to update"),
+      ...productFieldsSchema,
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async ({ productId, shop, dryRun, confirmationToken, ...updateData }: UpdateProductInput) => {
+      try {
+        const changedFields = Object.entries(updateData)
+          .filter(([, value]) => value !== undefined)
+          .map(([field]) => field);
+        if (changedFields.length === 0) {
+          throw new Error("No product fields to update were given");
+        }
+
+        const update = ({ client, accessToken, shopDomain }: ShopClient) =>
+          updateProduct(client, accessToken, shopDomain, productId, updateData);
+        const confirmation = await requireConfirmation(
+          context,
+          "update-product",
+          { productId, shop, dryRun, confirmationToken, ...updateData },
+          update
+        );
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const shopClient = resolveShopClient(context, shop, { dryRun });
+        const product = await update(shopClient);
+        const { plannedChanges } = shopClient;
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return formatSuccess({ product, updatedFields: changedFields });
+      } catch (error) {
+        return handleError(`Failed to update product ${productId}`, error);
+      }
+    }
+  );
+
+  // Bulk Update Products Tool
+  server.tool(
+    "bulk-update-products",
+    "Update several products in one request",
+    {
+      updates: z
+        .array(
+          z
+            .object({
+              productId: z.string().describe("ID of the product to update"),
+              ...productFieldsSchema,
+            })
+            .refine(({ productId, ...fields }) => hasProductChanges(fields), {
+              message: "Each update needs at least one field to change",
+            })
+        )
+        .min(1)
+        .describe("Product updates"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async (input: BulkUpdateProductsInput) => {
+      try {
+        const update = ({ client, accessToken, shopDomain }: ShopClient) =>
+          bulkUpdateProducts(client, accessToken, shopDomain, input.updates);
+        const confirmation = await requireConfirmation(context, "bulk-update-products", input, update);
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const shopClient = resolveShopClient(context, input.shop, { dryRun: input.dryRun });
+        const products = await update(shopClient);
+        const { plannedChanges } = shopClient;
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return formatSuccess({ updatedCount: products.length, products });
+      } catch (error) {
+        return handleError("Failed to bulk update products", error);
+      }
+    }
+  );
+
+  // Manage Product Inventory Tool
+  server.tool(
+    "manage-product-inventory",
+    "Set or adjust the inventory quantity of a product variant",
+    {
+      variantId: z.string().describe("ID of the variant"),
+      action: z
+        .enum(["SET", "ADJUST"])
+        .describe("'SET' to set an absolute quantity, 'ADJUST' to add a (possibly negative) delta"),
+      quantity: z.number().int().describe("Quantity to set, or delta to apply"),
+      locationId: z.string().optional().describe("Location ID (defaults to the shop's primary location)"),
+      reason: z
+        .enum([
+          "correction",
+          "cycle_count_available",
+          "damaged",
+          "other",
+          "promotion",
+          "quality_control",
+          "received",
+          "restock",
+          "safety_stock",
+          "shrinkage",
+        ])
+        .optional()
+        .describe("Reason for the change (defaults to 'correction')"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async ({ shop, dryRun, confirmationToken, ...data }: ManageProductInventoryInput) => {
+      try {
+        if (data.action === "SET" && data.quantity < 0) {
+          throw new Error("Quantity must not be negative when setting inventory");
+        }
+
+        const manage = ({ client, accessToken, shopDomain }: ShopClient) =>
+          manageProductInventory(client, accessToken, shopDomain, data);
+        const confirmation = await requireConfirmation(
+          context,
+          "manage-product-inventory",
+          { shop, dryRun, confirmationToken, ...data },
+          manage
+        );
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const shopClient = resolveShopClient(context, shop, { dryRun });
+        const result = await manage(shopClient);
+        const { plannedChanges } = shopClient;
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return formatSuccess({ variantId: data.variantId, ...result });
+      } catch (error) {
+        return handleError(`Failed to update inventory for variant ${data.variantId}`, error);
+      }
+    }
+  );
+
+  // Bulk Variant Operations Tool
+  server.tool(
+    "bulk-variant-operations",
+    "Create, update or delete product variants in one request",
+    {
+      operations: z
+        .array(
+          z
+            .object({
+              action: z.enum(["CREATE", "UPDATE", "DELETE"]).describe("Operation to perform"),
+              productId: z.string().describe("ID of the product the variant belongs to"),
+              variantData: z
+                .object({
+                  id: z.string().optional().describe("Variant ID (required for UPDATE and DELETE)"),
+                  title: z.string().optional().describe("Variant title"),
+                  price: z.number().nonnegative().optional().describe("Variant price"),
+                  sku: z.string().optional().describe("Variant SKU"),
+                  inventory: z.number().int().nonnegative().optional().describe("Inventory quantity"),
+                  requiresShipping: z.boolean().optional().describe("Whether the variant requires shipping"),
+                  taxable: z.boolean().optional().describe("Whether the variant is taxable"),
+                  barcode: z.string().optional().describe("Variant barcode"),
+                  weight: z.number().nonnegative().optional().describe("Variant weight"),
+                  weightUnit: z
+                    .enum(["KILOGRAMS", "GRAMS", "POUNDS", "OUNCES"])
+                    .optional()
+                    .describe("Unit of the variant weight"),
+                })
+                .describe("Variant fields"),
+            })
+            .refine(({ action, variantData }) => action === "CREATE" || !!variantData.id, {
+              message: "variantData.id is required for UPDATE and DELETE operations",
+            })
+        )
+        .min(1)
+        .describe("Variant operations"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async (input: BulkVariantOperationsInput) => {
+      const { operations } = input;
+      try {
+        const apply = ({ client, accessToken, shopDomain }: ShopClient) =>
+          bulkVariantOperations(client, accessToken, shopDomain, operations);
+        const confirmation = await requireConfirmation(context, "bulk-variant-operations", input, apply);
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const shopClient = resolveShopClient(context, input.shop, { dryRun: input.dryRun });
+        await apply(shopClient);
+        const { plannedChanges } = shopClient;
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+
+        const counts = Object.fromEntries(
+          (["CREATE", "UPDATE", "DELETE"] as const)
+            .map((action) => [action, operations.filter((op) => op.action === action).length] as const)
+            .filter(([, count]) => count > 0)
+        );
+        return formatSuccess({ appliedCount: operations.length, counts });
+      } catch (error) {
+        return handleError("Failed to apply variant operations", error);
+      }
+    }
+  );
+
+  // Manage Product Metafields Tool
+  server.tool(
+    "manage-product-metafields",
+    "Set or delete metafields on a product",
+    {
+      productId: z.string().describe("ID of the product"),
+      operations: z
+        .array(
+          z
+            .object({
+              action: z.enum(["SET", "DELETE"]).describe("Operation to perform"),
+              namespace: z.string().min(1).describe("Metafield namespace"),
+              key: z.string().min(1).describe("Metafield key"),
+              value: z.string().optional().describe("Metafield value (required for SET)"),
+              type: z
+                .string()
+                .optional()
+                .describe("Metafield type, e.g. 'single_line_text_field' (required for SET)"),
+            })
+            .refine(({ action, value, type }) => action === "DELETE" || (value !== undefined && !!type), {
+              message: "value and type are required for SET operations",
+            })
+        )
+        .min(1)
+        .max(25)
+        .describe("Metafield operations, at most 25; the metafields set are applied all together or not at all"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async ({ shop, dryRun, confirmationToken, ...params }: ManageProductMetafieldsInput) => {
+      try {
+        const manage = ({ client, accessToken, shopDomain }: ShopClient) =>
+          manageProductMetafields(client, accessToken, shopDomain, params);
+        const confirmation = await requireConfirmation(
+          context,
+          "manage-product-metafields",
+          { shop, dryRun, confirmationToken, ...params },
+          manage
+        );
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const shopClient = resolveShopClient(context, shop, { dryRun });
+        await manage(shopClient);
+        const { plannedChanges } = shopClient;
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return formatSuccess({
+          productId: params.productId,
+          operations: params.operations.map(({ action, namespace, key }) => ({ action, namespace, key })),
+        });
+      } catch (error) {
+        return handleError(`Failed to update metafields on product ${params.productId}`, error);
+      }
+    }
+  );
+
+  // Manage Product Collections Tool
+  server.tool(
+    "manage-product-collections",
+    "Add products to or remove products from collections",
+    {
+      action: z.enum(["ADD", "REMOVE"]).describe("Whether to add or remove the products"),
+      productIds: z.array(z.string()).min(1).describe("IDs of the products"),
+      collectionIds: z.array(z.string()).min(1).describe("IDs of the collections"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async ({ shop, dryRun, confirmationToken, ...params }: ManageProductCollectionsInput) => {
+      try {
+        const manage = ({ client, accessToken, shopDomain }: ShopClient) =>
+          manageProductCollections(client, accessToken, shopDomain, params);
+        const confirmation = await requireConfirmation(
+          context,
+          "manage-product-collections",
+          { shop, dryRun, confirmationToken, ...params },
+          manage
+        );
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const shopClient = resolveShopClient(context, shop, { dryRun });
+        await manage(shopClient);
+        const { plannedChanges } = shopClient;
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return formatSuccess(params);
+      } catch (error) {
+        return handleError("Failed to update product collections", error);
+      }
+    }
+  );
+
+  // Manage Product Images Tool
+  server.tool(
+    "manage-product-images",
+    "Add, update or remove product images",
+    {
+      productId: z.string().describe("ID of the product"),
+      action: z.enum(["ADD", "UPDATE", "REMOVE"]).describe("Operation to perform on every image"),
+      images: z
+        .array(
+          z.object({
+            id: z.string().optional().describe("Media image ID (required for UPDATE and REMOVE)"),
+            url: z.string().url().optional().describe("Image URL (required for ADD)"),
+            altText: z.string().optional().describe("Image alt text"),
+            position: z.number().int().positive().optional().describe("1-based image position"),
+          })
+        )
+        .min(1)
+        .describe("Images to process"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async ({ shop, dryRun, confirmationToken, ...params }: ManageProductImagesInput) => {
+      try {
+        const missing = params.images.filter((image) => (params.action === "ADD" ? !image.url : !image.id));
+        if (missing.length > 0) {
+          throw new Error(
+            params.action === "ADD" ? "Every image needs a url to be added" : `Every image needs an id for ${params.action}`
+          );
+        }
+
+        const manage = ({ client, accessToken, shopDomain }: ShopClient) =>
+          manageProductImages(client, accessToken, shopDomain, params);
+        const confirmation = await requireConfirmation(
+          context,
+          "manage-product-images",
+          { shop, dryRun, confirmationToken, ...params },
+          manage
+        );
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const shopClient = resolveShopClient(context, shop, { dryRun });
+        await manage(shopClient);
+        const { plannedChanges } = shopClient;
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return formatSuccess({ productId: params.productId, action: params.action, imageCount: params.images.length });
+      } catch (error) {
+        return handleError(`Failed to update images on product ${params.productId}`, error);
+      }
+    }
+  );
+
+  // Bulk Update Variant Prices Tool
+  server.tool(
+    "bulk-update-variant-prices",
+    "Update the prices of several variants",
+    {
+      updates: z
+        .array(
+          z.object({
+            variantId: z.string().describe("ID of the variant"),
+            newPrice: z.number().nonnegative().describe("New price"),
+          })
+        )
+        .min(1)
+        .describe("Price updates"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async (input: BulkUpdateVariantPricesInput) => {
+      try {
+        const update = ({ client, accessToken, shopDomain }: ShopClient) =>
+          bulkUpdateVariantPrices(client, accessToken, shopDomain, input.updates);
+        const confirmation = await requireConfirmation(context, "bulk-update-variant-prices", input, update);
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const shopClient = resolveShopClient(context, input.shop, { dryRun: input.dryRun });
+        const results = await update(shopClient);
+        const { plannedChanges } = shopClient;
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+        return formatSuccess({ updatedCount: results.length, variants: results });
+      } catch (error) {
+        return handleError("Failed to update variant prices", error);
+      }
+    }
+  );
+}
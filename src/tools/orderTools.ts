@@ -4,11 +4,20 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
-import { config } from "../config/index.js";
+import { ToolContext, resolveShopClient } from "./toolContext.js";
+import { shopArgument } from "./shopArgument.js";
+import { dryRunArgument, formatPlannedChanges } from "./dryRun.js";
+import { confirmationTokenArgument, requireConfirmation } from "./confirmation.js";
 import { handleError } from "../utils/errorHandler.js";
 import { formatOrder } from "../utils/formatters.js";
-import { CreateDraftOrderPayload, DraftOrderResponse } from "../ShopifyClient/ShopifyClientPort.js";
+import {
+  CreateDraftOrderPayload,
+  DraftOrderAddress,
+  DraftOrderAppliedDiscount,
+  DraftOrderInput,
+  DraftOrderResponse,
+  ShopifyDraftOrder,
+} from "../ShopifyClient/ShopifyClientPort.js";
 
 // Define input types for better type safety
 interface GetOrdersInput {
@@ -17,42 +26,155 @@ interface GetOrdersInput {
   query?: string;
   sortKey?: "PROCESSED_AT" | "TOTAL_PRICE" | "ID" | "CREATED_AT" | "UPDATED_AT" | "ORDER_NUMBER";
   reverse?: boolean;
+  shop?: string;
 }
 
 interface GetOrderInput {
   id: string;
+  shop?: string;
+}
+
+interface ShippingAddressInput {
+  address1: string;
+  address2?: string;
+  city: string;
+  province: string;
+  country: string;
+  zip: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+}
+
+interface DraftOrderLineItemToolInput {
+  variantId: string;
+  quantity: number;
+  appliedDiscount?: DraftOrderAppliedDiscount;
 }
 
 interface CreateDraftOrderInput {
   email: string;
-  lineItems: Array<{
-    variantId: string;
-    quantity: number;
-  }>;
-  shippingAddress?: {
-    address1: string;
-    address2?: string;
-    city: string;
-    province: string;
-    country: string;
-    zip: string;
-    firstName: string;
-    lastName: string;
-    phone?: string;
-  };
+  lineItems: DraftOrderLineItemToolInput[];
+  shippingAddress?: ShippingAddressInput;
   note?: string;
+  appliedDiscount?: DraftOrderAppliedDiscount;
+  shop?: string;
+  dryRun?: boolean;
 }
 
 interface CompleteDraftOrderInput {
   draftOrderId: string;
-  variantId: string;
+  paymentPending?: boolean;
+  shop?: string;
+  dryRun?: boolean;
+}
+
+interface UpdateDraftOrderInput {
+  draftOrderId: string;
+  email?: string;
+  lineItems?: DraftOrderLineItemToolInput[];
+  shippingAddress?: ShippingAddressInput;
+  note?: string;
+  tags?: string[];
+  appliedDiscount?: DraftOrderAppliedDiscount;
+  shop?: string;
+  dryRun?: boolean;
+}
+
+interface CalculateDraftOrderInput {
+  email?: string;
+  lineItems: DraftOrderLineItemToolInput[];
+  shippingAddress?: ShippingAddressInput;
+  appliedDiscount?: DraftOrderAppliedDiscount;
+  shop?: string;
+}
+
+interface SendDraftOrderInvoiceInput {
+  draftOrderId: string;
+  to?: string;
+  subject?: string;
+  customMessage?: string;
+  shop?: string;
+  dryRun?: boolean;
+}
+
+interface GetDraftOrdersInput {
+  first?: number;
+  after?: string;
+  query?: string;
+  reverse?: boolean;
+  shop?: string;
+}
+
+interface DeleteDraftOrderInput {
+  draftOrderId: string;
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+const appliedDiscountSchema = z
+  .object({
+    title: z.string().describe("Discount title shown to the customer"),
+    value: z.number().positive().describe("Percentage or fixed amount, depending on valueType"),
+    valueType: z.enum(["FIXED_AMOUNT", "PERCENTAGE"]).describe("How value is applied"),
+    description: z.string().optional().describe("Reason for the discount"),
+  })
+  .refine((discount) => discount.valueType !== "PERCENTAGE" || discount.value <= 100, {
+    message: "A percentage discount cannot exceed 100",
+  });
+
+const lineItemsSchema = z.array(
+  z.object({
+    variantId: z.string().describe("Product variant ID"),
+    quantity: z.number().min(1).describe("Quantity of items"),
+    appliedDiscount: appliedDiscountSchema.optional().describe("Discount on this line item"),
+  })
+);
+
+const shippingAddressSchema = z.object({
+  address1: z.string().describe("Street address"),
+  address2: z.string().optional().describe("Apartment, suite, etc."),
+  city: z.string().describe("City"),
+  province: z.string().describe("State/Province"),
+  country: z.string().describe("Country"),
+  zip: z.string().describe("ZIP/Postal code"),
+  firstName: z.string().describe("First name"),
+  lastName: z.string().describe("Last name"),
+  phone: z.string().optional().describe("Phone number"),
+});
+
+// The tools take the shipping address once and use it for billing as well
+function toDraftOrderAddresses(
+  shippingAddress?: ShippingAddressInput
+): Pick<DraftOrderInput, "shippingAddress" | "billingAddress"> {
+  if (!shippingAddress) {
+    return {};
+  }
+  const address: DraftOrderAddress = {
+    ...shippingAddress,
+    countryCode: shippingAddress.country,
+    provinceCode: shippingAddress.province,
+  };
+  return { shippingAddress: address, billingAddress: address };
+}
+
+function describeDraftOrder(draftOrder: ShopifyDraftOrder): string {
+  return [
+    `ID: ${draftOrder.id}`,
+    `Name: ${draftOrder.name}`,
+    `Status: ${draftOrder.status}`,
+    `Total: ${draftOrder.totalPrice} ${draftOrder.currencyCode}`,
+    `Invoice URL: ${draftOrder.invoiceUrl ?? "none"}`,
+  ].join("\n");
 }
 
 /**
  * Registers order-related tools with the MCP server
  * @param server The MCP server instance
+ * @param context Shop registry and client factory used by the tools
  */
-export function registerOrderTools(server: McpServer): void {
+export function registerOrderTools(server: McpServer, context: ToolContext): void {
   // Get Orders Tool
   server.tool(
     "get-orders",
@@ -79,13 +201,15 @@ export function registerOrderTools(server: McpServer): void {
         .boolean()
         .optional()
         .describe("Whether to sort in reverse order"),
+      shop: shopArgument,
     },
-    async ({ first, after, query, sortKey, reverse }: GetOrdersInput) => {
-      const client = new ShopifyClient();
+    { readOnlyHint: true },
+    async ({ first, after, query, sortKey, reverse, shop }: GetOrdersInput) => {
       try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
         const orders = await client.loadOrders(
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           { first, after, query, sortKey, reverse }
         );
         return {
@@ -108,13 +232,15 @@ export function registerOrderTools(server: McpServer): void {
     "Get a specific order by ID",
     {
       id: z.string().describe("Order ID"),
+      shop: shopArgument,
     },
-    async ({ id }: GetOrderInput) => {
-      const client = new ShopifyClient();
+    { readOnlyHint: true },
+    async ({ id, shop }: GetOrderInput) => {
       try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
         const order = await client.loadOrders(
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           { query: `id:${id}` }
         );
         
@@ -149,74 +275,36 @@ export function registerOrderTools(server: McpServer): void {
     "Create a draft order",
     {
       email: z.string().email().describe("Customer email"),
-      lineItems: z
-        .array(
-          z.object({
-            variantId: z.string().describe("Product variant ID"),
-            quantity: z.number().min(1).describe("Quantity of items"),
-          })
-        )
-        .describe("Order line items"),
-      shippingAddress: z
-        .object({
-          address1: z.string().describe("Street address"),
-          address2: z.string().optional().describe("Apartment, suite, etc."),
-          city: z.string().describe("City"),
-          province: z.string().describe("State/Province"),
-          country: z.string().describe("Country"),
-          zip: z.string().describe("ZIP/Postal code"),
-          firstName: z.string().describe("First name"),
-          lastName: z.string().describe("Last name"),
-          phone: z.string().optional().describe("Phone number"),
-        })
-        .optional()
-        .describe("Shipping address"),
+      lineItems: lineItemsSchema.describe("Order line items"),
+      shippingAddress: shippingAddressSchema.optional().describe("Shipping address"),
       note: z.string().optional().describe("Order note"),
+      appliedDiscount: appliedDiscountSchema
+        .optional()
+        .describe("Discount on the whole order, applied after line item discounts"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
     },
-    async ({ email, lineItems, shippingAddress, note }: CreateDraftOrderInput) => {
-      const client = new ShopifyClient();
+    async ({ email, lineItems, shippingAddress, note, appliedDiscount, shop, dryRun }: CreateDraftOrderInput) => {
       try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
         const draftOrderData: CreateDraftOrderPayload = {
           email,
           lineItems,
-          shippingAddress: shippingAddress ? {
-            ...shippingAddress,
-            countryCode: shippingAddress.country,
-            provinceCode: shippingAddress.province,
-          } : {
-            address1: "",
-            city: "",
-            province: "",
-            country: "",
-            zip: "",
-            firstName: "",
-            lastName: "",
-            countryCode: "",
-          },
-          billingAddress: shippingAddress ? {
-            ...shippingAddress,
-            countryCode: shippingAddress.country,
-            provinceCode: shippingAddress.province,
-          } : {
-            address1: "",
-            city: "",
-            province: "",
-            country: "",
-            zip: "",
-            firstName: "",
-            lastName: "",
-            countryCode: "",
-          },
+          ...toDraftOrderAddresses(shippingAddress),
           tags: "",
           note: note || "",
+          appliedDiscount,
         };
 
         const draftOrder = await client.createDraftOrder(
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           draftOrderData,
           `draft_order_${Date.now()}` // Generate a unique idempotency key
         );
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
 
         return {
           content: [
@@ -232,23 +320,251 @@ export function registerOrderTools(server: McpServer): void {
     }
   );
 
+  // Update Draft Order Tool
+  server.tool(
+    "update-draft-order",
+    "Update an open draft order. Line items, when given, replace the existing ones",
+    {
+      draftOrderId: z.string().describe("ID of the draft order to update"),
+      email: z.string().email().optional().describe("Customer email"),
+      lineItems: lineItemsSchema.optional().describe("New line items"),
+      shippingAddress: shippingAddressSchema.optional().describe("Shipping address"),
+      note: z.string().optional().describe("Order note"),
+      tags: z.array(z.string()).optional().describe("Tags, replacing the existing ones"),
+      appliedDiscount: appliedDiscountSchema.optional().describe("Discount on the whole order"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+    },
+    async ({
+      draftOrderId,
+      email,
+      lineItems,
+      shippingAddress,
+      note,
+      tags,
+      appliedDiscount,
+      shop,
+      dryRun,
+    }: UpdateDraftOrderInput) => {
+      try {
+        const input: DraftOrderInput = {
+          email,
+          lineItems,
+          ...toDraftOrderAddresses(shippingAddress),
+          note,
+          tags: tags?.join(","),
+          appliedDiscount,
+        };
+        if (Object.values(input).every((value) => value === undefined)) {
+          throw new Error("Provide at least one field to update");
+        }
+
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
+        const draftOrder = await client.updateDraftOrder(accessToken, shopDomain, draftOrderId, input);
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully updated draft order:\n${describeDraftOrder(draftOrder)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError(`Failed to update draft order ${draftOrderId}`, error);
+      }
+    }
+  );
+
+  // Calculate Draft Order Tool
+  server.tool(
+    "calculate-draft-order",
+    "Preview the totals, taxes, discounts and available shipping rates of a draft order without creating it",
+    {
+      email: z.string().email().optional().describe("Customer email"),
+      lineItems: lineItemsSchema.describe("Order line items"),
+      shippingAddress: shippingAddressSchema
+        .optional()
+        .describe("Shipping address, needed for taxes and shipping rates"),
+      appliedDiscount: appliedDiscountSchema.optional().describe("Discount on the whole order"),
+      shop: shopArgument,
+    },
+    { readOnlyHint: true },
+    async ({ email, lineItems, shippingAddress, appliedDiscount, shop }: CalculateDraftOrderInput) => {
+      try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+        const calculated = await client.calculateDraftOrder(accessToken, shopDomain, {
+          email,
+          lineItems,
+          ...toDraftOrderAddresses(shippingAddress),
+          appliedDiscount,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(calculated, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError("Failed to calculate draft order", error);
+      }
+    }
+  );
+
+  // Send Draft Order Invoice Tool
+  server.tool(
+    "send-draft-order-invoice",
+    "Email the invoice of a draft order to the customer",
+    {
+      draftOrderId: z.string().describe("ID of the draft order"),
+      to: z.string().email().optional().describe("Recipient, defaults to the draft order email"),
+      subject: z.string().optional().describe("Email subject"),
+      customMessage: z.string().optional().describe("Message added to the invoice email"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+    },
+    async ({ draftOrderId, to, subject, customMessage, shop, dryRun }: SendDraftOrderInvoiceInput) => {
+      try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
+        const email = to || subject || customMessage ? { to, subject, customMessage } : undefined;
+        const draftOrder = await client.sendDraftOrderInvoice(accessToken, shopDomain, draftOrderId, email);
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully sent invoice for draft order:\n${describeDraftOrder(draftOrder)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError(`Failed to send invoice for draft order ${draftOrderId}`, error);
+      }
+    }
+  );
+
+  // Get Draft Orders Tool
+  server.tool(
+    "get-draft-orders",
+    "List draft orders",
+    {
+      first: z
+        .number()
+        .optional()
+        .default(10)
+        .describe("Maximum number of draft orders to return"),
+      after: z
+        .string()
+        .optional()
+        .describe("Cursor for pagination"),
+      query: z
+        .string()
+        .optional()
+        .describe("Search query, e.g. status:open or email:customer@example.com"),
+      reverse: z
+        .boolean()
+        .optional()
+        .describe("Whether to return the newest draft orders first"),
+      shop: shopArgument,
+    },
+    { readOnlyHint: true },
+    async ({ first, after, query, reverse, shop }: GetDraftOrdersInput) => {
+      try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+        const draftOrders = await client.loadDraftOrders(accessToken, shopDomain, {
+          first,
+          after,
+          query,
+          reverse,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(draftOrders, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError("Failed to retrieve draft orders", error);
+      }
+    }
+  );
+
+  // Delete Draft Order Tool
+  server.tool(
+    "delete-draft-order",
+    "Delete a draft order",
+    {
+      draftOrderId: z.string().describe("ID of the draft order to delete"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
+    },
+    async (input: DeleteDraftOrderInput) => {
+      const { draftOrderId, shop, dryRun } = input;
+      try {
+        const confirmation = await requireConfirmation(context, "delete-draft-order", input, (planned) =>
+          planned.client.deleteDraftOrder(planned.accessToken, planned.shopDomain, draftOrderId)
+        );
+        if (confirmation) {
+          return confirmation;
+        }
+
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
+        await client.deleteDraftOrder(accessToken, shopDomain, draftOrderId);
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Successfully deleted draft order ${draftOrderId}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return handleError(`Failed to delete draft order ${draftOrderId}`, error);
+      }
+    }
+  );
+
   // Complete Draft Order Tool
   server.tool(
     "complete-draft-order",
-    "Complete a draft order",
+    "Complete a draft order, turning it into an order",
     {
       draftOrderId: z.string().describe("ID of the draft order to complete"),
-      variantId: z.string().describe("ID of the variant in the draft order"),
+      paymentPending: z
+        .boolean()
+        .optional()
+        .describe("Mark the order as payment pending instead of paid"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
     },
-    async ({ draftOrderId, variantId }: CompleteDraftOrderInput) => {
-      const client = new ShopifyClient();
+    async ({ draftOrderId, paymentPending, shop, dryRun }: CompleteDraftOrderInput) => {
       try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
         const completedOrder = await client.completeDraftOrder(
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           draftOrderId,
-          variantId
+          { paymentPending }
         );
+        if (plannedChanges) {
+          return formatPlannedChanges(plannedChanges);
+        }
         
         return {
           content: [
@@ -263,4 +579,4 @@ export function registerOrderTools(server: McpServer): void {
       }
     }
   );
-} 
\ No newline at end of file
+}
@@ -1,9 +1,25 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
-import { config } from "../config/index.js";
+import { ToolContext, resolveShopClient } from "./toolContext.js";
+import { shopArgument } from "./shopArgument.js";
 import { handleError, formatSuccess } from "../utils/errorHandler.js";
-import { ProductVariant, ShopifyClientPort, ProductNode } from "../ShopifyClient/ShopifyClientPort.js";
+import {
+  ProductAnalytics,
+  ProductSalesDay,
+  ProductVariant,
+  ShopifyClientPort,
+  ShopifyOrderGraphql,
+  ProductNode,
+  maxOrdersPerPage,
+} from "../ShopifyClient/ShopifyClientPort.js";
+import { buildProductSessionsQuery, parseShopifyqlTable } from "../utils/shopifyql.js";
+
+// Orders scanned per analytics request, and line items read per order
+const MAX_ANALYTICS_ORDERS = 2500;
+const LINE_ITEMS_PER_ORDER = 25;
+const ORDERS_PER_PAGE = maxOrdersPerPage(LINE_ITEMS_PER_ORDER);
+const MAX_ANALYTICS_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export async function getVariantPrice(
   client: ShopifyClientPort,
@@ -128,6 +144,112 @@ export async function searchProductsByAttributes(
   }));
 }
 
+/**
+ * Loads the orders created in a time window, oldest first
+ * @returns The orders and whether orders past MAX_ANALYTICS_ORDERS were left out
+ */
+async function loadOrdersBetween(
+  client: ShopifyClientPort,
+  accessToken: string,
+  myshopifyDomain: string,
+  timeframe: { start: Date; end: Date }
+): Promise<{ orders: ShopifyOrderGraphql[]; truncated: boolean }> {
+  const orders: ShopifyOrderGraphql[] = [];
+  let after: string | undefined;
+  let hasNextPage = true;
+
+  while (hasNextPage && orders.length < MAX_ANALYTICS_ORDERS) {
+    const page = await client.loadOrders(accessToken, myshopifyDomain, {
+      first: Math.min(ORDERS_PER_PAGE, MAX_ANALYTICS_ORDERS - orders.length),
+      after,
+      query: `created_at:>=${timeframe.start.toISOString()} created_at:<${timeframe.end.toISOString()}`,
+      sortKey: "CREATED_AT",
+      lineItemsFirst: LINE_ITEMS_PER_ORDER,
+    });
+    orders.push(...page.orders);
+    hasNextPage = page.pageInfo.hasNextPage;
+    after = page.pageInfo.endCursor ?? undefined;
+  }
+
+  // The search query already filters by date, this keeps the window exact regardless
+  const inWindow = orders.filter((order) => {
+    const createdAt = Date.parse(order.createdAt);
+    return createdAt >= timeframe.start.getTime() && createdAt < timeframe.end.getTime();
+  });
+  return { orders: inWindow, truncated: hasNextPage };
+}
+
+const round = (amount: number, decimals = 2) => Math.round(amount * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Sums the line items of a product across orders into daily and total sales
+ * @param orders Orders created in the time window
+ * @param productId Product to sum the line items of
+ * @param timeframe The time window, the daily series covers each UTC day of it
+ */
+function summarizeProductSales(
+  orders: ShopifyOrderGraphql[],
+  productId: string,
+  timeframe: { start: Date; end: Date }
+) {
+  const days = new Map<string, ProductSalesDay>();
+  for (let day = timeframe.start.getTime(); day < timeframe.end.getTime(); day += DAY_MS) {
+    const date = new Date(day).toISOString().slice(0, 10);
+    days.set(date, { date, unitsSold: 0, revenue: 0, orderCount: 0 });
+  }
+
+  let unitsSold = 0;
+  let unitsRefunded = 0;
+  let revenue = 0;
+  let orderCount = 0;
+  let currencyCode: string | null = null;
+
+  for (const order of orders) {
+    const lineItems = order.lineItems.nodes.filter((item) => item.product && sameProduct(item.product.id, productId));
+    if (lineItems.length === 0) {
+      continue;
+    }
+
+    const day = days.get(order.createdAt.slice(0, 10));
+    orderCount++;
+    if (day) {
+      day.orderCount++;
+    }
+    for (const item of lineItems) {
+      const amount = Number(item.discountedTotalSet.shopMoney.amount);
+      currencyCode = item.discountedTotalSet.shopMoney.currencyCode;
+      unitsSold += item.quantity;
+      unitsRefunded += item.quantity - item.currentQuantity;
+      revenue += amount;
+      if (day) {
+        day.unitsSold += item.quantity;
+        day.revenue += amount;
+      }
+    }
+  }
+
+  return {
+    currencyCode,
+    unitsSold,
+    unitsRefunded,
+    revenue: round(revenue),
+    orderCount,
+    averageSellingPrice: unitsSold ? round(revenue / unitsSold) : null,
+    refundRate: unitsSold ? round(unitsRefunded / unitsSold, 4) : null,
+    daily: [...days.values()].map((day) => ({ ...day, revenue: round(day.revenue) })),
+  };
+}
+
+function sameProduct(a: string, b: string): boolean {
+  return a.split("/").pop() === b.split("/").pop();
+}
+
+/**
+ * Computes the sales of a product from the line items of the orders created
+ * in the time window
+ * @param timeframe Defaults to the last 30 days
+ * @throws Error if the time window is empty or longer than MAX_ANALYTICS_DAYS
+ */
 export async function getProductAnalytics(
   client: ShopifyClientPort,
   accessToken: string,
@@ -137,24 +259,90 @@ export async function getProductAnalytics(
     start: Date;
     end: Date;
   }
-): Promise<{
-  views: number;
-  addToCart: number;
-  purchases: number;
-  revenue: number;
-  conversionRate: number;
-}> {
-  // This is a mock implementation since Shopify's Admin API doesn't directly provide analytics
-  // In a real implementation, you would integrate with Shopify Analytics API or a third-party analytics service
+): Promise<ProductAnalytics> {
+  const window = timeframe ?? defaultTimeframe();
+  validateTimeframe(window);
+
+  const { orders, truncated } = await loadOrdersBetween(client, accessToken, myshopifyDomain, window);
+  const sales = summarizeProductSales(orders, productId, window);
+  const storefront = await loadStorefrontSessions(client, accessToken, myshopifyDomain, productId, window);
+
+  let unavailable: Record<string, string> = {};
+  if ("error" in storefront) {
+    const reason = `Not available from the Admin API order data, and ShopifyQL failed: ${storefront.error}`;
+    unavailable = { viewSessions: reason, addToCartSessions: reason, conversionRate: reason };
+  }
+
   return {
-    views: 1000,
-    addToCart: 100,
-    purchases: 50,
-    revenue: 2500,
-    conversionRate: 5
+    productId,
+    from: window.start.toISOString(),
+    to: window.end.toISOString(),
+    ...sales,
+    storefront:
+      "error" in storefront
+        ? null
+        : {
+            ...storefront,
+            conversionRate: storefront.viewSessions ? round(sales.orderCount / storefront.viewSessions, 4) : null,
+          },
+    unavailable,
+    notes: [
+      "revenue is the line item total after line item discounts, before order level discounts, taxes, shipping and refunds",
+      "unitsRefunded counts units removed from orders by refunds or order edits; refundRate is unitsRefunded / unitsSold",
+      "storefront sessions come from ShopifyQL over whole days in the shop's timezone; conversionRate is orderCount / viewSessions",
+      `Only the first ${LINE_ITEMS_PER_ORDER} line items of each order are counted`,
+      "Days are UTC days, not the shop's timezone",
+      ...(truncated ? [`Only the first ${MAX_ANALYTICS_ORDERS} orders of the time window were scanned`] : []),
+    ],
+    truncated,
   };
 }
 
+/**
+ * Loads the online store sessions of a product with ShopifyQL, which needs
+ * the read_reports scope
+ * @returns The sessions, or the reason they could not be loaded
+ */
+async function loadStorefrontSessions(
+  client: ShopifyClientPort,
+  accessToken: string,
+  myshopifyDomain: string,
+  productId: string,
+  timeframe: { start: Date; end: Date }
+): Promise<{ viewSessions: number | null; addToCartSessions: number | null } | { error: string }> {
+  try {
+    // UNTIL includes its day, the time window excludes its end
+    const query = buildProductSessionsQuery(productId, {
+      since: timeframe.start.toISOString().slice(0, 10),
+      until: new Date(timeframe.end.getTime() - 1).toISOString().slice(0, 10),
+    });
+    const { rows } = parseShopifyqlTable(await client.runShopifyqlQuery(accessToken, myshopifyDomain, query));
+    const toNumber = (value: unknown) => (typeof value === "number" ? value : null);
+    return { viewSessions: toNumber(rows[0]?.view_sessions), addToCartSessions: toNumber(rows[0]?.cart_sessions) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const details = (error as { innerError?: unknown }).innerError;
+    return { error: Array.isArray(details) && details[0]?.message ? `${message}: ${details[0].message}` : message };
+  }
+}
+
+function defaultTimeframe(): { start: Date; end: Date } {
+  const end = new Date();
+  return { start: new Date(end.getTime() - 30 * DAY_MS), end };
+}
+
+function validateTimeframe({ start, end }: { start: Date; end: Date }): void {
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    throw new Error("startDate and endDate must be valid ISO dates");
+  }
+  if (start >= end) {
+    throw new Error("startDate must be before endDate");
+  }
+  if (end.getTime() - start.getTime() > MAX_ANALYTICS_DAYS * DAY_MS) {
+    throw new Error(`The time window can be at most ${MAX_ANALYTICS_DAYS} days`);
+  }
+}
+
 export async function bulkUpdateProducts(
   client: ShopifyClientPort,
   accessToken: string,
@@ -189,6 +377,8 @@ export async function generateProductReport(
     includeInventory?: boolean;
     includePricing?: boolean;
     includeAnalytics?: boolean;
+    // Time window of the analytics, defaults to the last 30 days
+    timeframe?: { start: Date; end: Date };
   } = {}
 ): Promise<{
   generatedAt: string;
@@ -199,12 +389,13 @@ export async function generateProductReport(
       id: string;
       title: string;
       price: string;
-      inventory?: number;
+      // Null when inventory is not tracked
+      inventory?: number | null;
     }>;
     analytics?: {
-      views: number;
-      purchases: number;
+      unitsSold: number;
       revenue: number;
+      orderCount: number;
     };
   }>;
 }> {
@@ -214,6 +405,17 @@ export async function generateProductReport(
     null
   );
 
+  let analyticsFor: ((productId: string) => { unitsSold: number; revenue: number; orderCount: number }) | undefined;
+  if (options.includeAnalytics) {
+    const window = options.timeframe ?? defaultTimeframe();
+    validateTimeframe(window);
+    const { orders } = await loadOrdersBetween(client, accessToken, myshopifyDomain, window);
+    analyticsFor = (productId) => {
+      const { unitsSold, revenue, orderCount } = summarizeProductSales(orders, productId, window);
+      return { unitsSold, revenue, orderCount };
+    };
+  }
+
   return {
     generatedAt: new Date().toISOString(),
     products: response.products.map((product: ProductNode) => ({
@@ -224,16 +426,10 @@ export async function generateProductReport(
           id: v.node.id,
           title: v.node.title,
           price: v.node.price,
-          inventory: 100 // Mock inventory data
+          ...(options.includeInventory && { inventory: v.node.inventoryQuantity }),
         }))
       }),
-      ...(options.includeAnalytics && {
-        analytics: {
-          views: 1000,
-          purchases: 50,
-          revenue: 2500
-        }
-      })
+      ...(analyticsFor && { analytics: analyticsFor(product.id) })
     }))
   };
 }
@@ -241,22 +437,25 @@ export async function generateProductReport(
 /**
  * Registers product-related tools with the MCP server
  * @param server The MCP server instance
+ * @param context Shop registry and client factory used by the tools
  */
-export function registerProductTools(server: McpServer): void {
+export function registerProductTools(server: McpServer, context: ToolContext): void {
   // Get Product Details Tool
   server.tool(
     "get-product-details",
     "Get detailed information about a product",
     {
       productId: z.string().describe("ID of the product to retrieve"),
+      shop: shopArgument,
     },
-    async ({ productId }) => {
-      const client = new ShopifyClient();
+    { readOnlyHint: true },
+    async ({ productId, shop }) => {
       try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
         const details = await getProductFullDetails(
           client,
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           productId
         );
         return formatSuccess(details);
@@ -275,14 +474,16 @@ export function registerProductTools(server: McpServer): void {
       minPrice: z.number().optional().describe("Minimum price"),
       maxPrice: z.number().optional().describe("Maximum price"),
       collection: z.string().optional().describe("Collection ID to search in"),
+      shop: shopArgument,
     },
-    async ({ title, minPrice, maxPrice, collection }) => {
-      const client = new ShopifyClient();
+    { readOnlyHint: true },
+    async ({ title, minPrice, maxPrice, collection, shop }) => {
       try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
         const products = await searchProductsByAttributes(
           client,
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           {
             title,
             priceRange: minPrice && maxPrice ? { min: minPrice, max: maxPrice } : undefined,
@@ -299,26 +500,31 @@ export function registerProductTools(server: McpServer): void {
   // Get Product Analytics Tool
   server.tool(
     "get-product-analytics",
-    "Get analytics data for a product",
+    "Get the sales of a product computed from its order line items: units sold, revenue, order count, average selling price, refund rate and a daily series, plus storefront view and add to cart sessions from ShopifyQL when the token has the read_reports scope",
     {
       productId: z.string().describe("ID of the product to get analytics for"),
-      startDate: z.string().optional().describe("Start date for analytics (ISO format)"),
-      endDate: z.string().optional().describe("End date for analytics (ISO format)"),
+      startDate: z
+        .string()
+        .optional()
+        .describe("Start of the time window, an ISO date or YYYY-MM-DD (defaults to 30 days before endDate)"),
+      endDate: z
+        .string()
+        .optional()
+        .describe("End of the time window, an ISO date or YYYY-MM-DD which includes that whole day (defaults to now)"),
+      shop: shopArgument,
     },
-    async ({ productId, startDate, endDate }) => {
-      const client = new ShopifyClient();
+    { readOnlyHint: true },
+    async ({ productId, startDate, endDate, shop }) => {
       try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+        const end = endDate ? parseWindowDate(endDate, true) : new Date();
+        const start = startDate ? parseWindowDate(startDate) : new Date(end.getTime() - 30 * DAY_MS);
         const analytics = await getProductAnalytics(
           client,
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           productId,
-          startDate && endDate
-            ? {
-                start: new Date(startDate),
-                end: new Date(endDate),
-              }
-            : undefined
+          { start, end }
         );
         return formatSuccess(analytics);
       } catch (error) {
@@ -327,3 +533,12 @@ export function registerProductTools(server: McpServer): void {
     }
   );
 }
+
+// A YYYY-MM-DD end date includes that whole UTC day
+function parseWindowDate(value: string, end = false): Date {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(value);
+  }
+  const day = Date.parse(`${value}T00:00:00Z`);
+  return new Date(end ? day + DAY_MS : day);
+}
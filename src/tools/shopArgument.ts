@@ -0,0 +1,13 @@
+/**
+ * Shared shop selection argument for the Shopify MCP Server tools
+ */
+
+import { z } from "zod";
+
+/**
+ * Optional `shop` argument accepted by every tool, resolved through the shop registry
+ */
+export const shopArgument = z
+  .string()
+  .optional()
+  .describe("Shop name or myshopify domain to run against (defaults to the default shop, see list-shops)");
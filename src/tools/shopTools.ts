@@ -4,21 +4,41 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
-import { config } from "../config/index.js";
+import { ToolContext, resolveShopClient } from "./toolContext.js";
+import { shopArgument } from "./shopArgument.js";
 import { handleError, formatSuccess } from "../utils/errorHandler.js";
 
 // Define input types for better type safety
 interface GetCollectionsInput {
   limit?: number;
   name?: string;
+  shop?: string;
 }
 
 /**
  * Registers shop and collection related tools with the MCP server
  * @param server The MCP server instance
+ * @param context Shop registry and client factory used by the tools
  */
-export function registerShopTools(server: McpServer): void {
+export function registerShopTools(server: McpServer, context: ToolContext): void {
+  // List Shops Tool
+  server.tool(
+    "list-shops",
+    "List the shops this server can act on and which one is the default",
+    {},
+    { readOnlyHint: true },
+    async () => {
+      try {
+        return formatSuccess({
+          defaultShop: context.shopRegistry.defaultShop,
+          shops: context.shopRegistry.list(),
+        });
+      } catch (error) {
+        return handleError("Failed to list shops", error);
+      }
+    }
+  );
+
   // Get Collections Tool
   server.tool(
     "get-collections",
@@ -30,13 +50,15 @@ export function registerShopTools(server: McpServer): void {
         .default(10)
         .describe("Maximum number of collections to return"),
       name: z.string().optional().describe("Filter collections by name"),
+      shop: shopArgument,
     },
-    async ({ limit = 10, name }: GetCollectionsInput) => {
-      const client = new ShopifyClient();
+    { readOnlyHint: true },
+    async ({ limit = 10, name, shop }: GetCollectionsInput) => {
       try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
         const collections = await client.loadCollections(
-          config.accessToken,
-          config.shopDomain,
+          accessToken,
+          shopDomain,
           { limit, query: name }
         );
         return formatSuccess(collections);
@@ -50,15 +72,18 @@ export function registerShopTools(server: McpServer): void {
   server.tool(
     "get-shop",
     "Get shop details",
-    {},
-    async () => {
-      const client = new ShopifyClient();
+    {
+      shop: shopArgument,
+    },
+    { readOnlyHint: true },
+    async ({ shop }) => {
       try {
-        const shop = await client.loadShopDetails(
-          config.accessToken,
-          config.shopDomain
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+        const shopDetails = await client.loadShopDetails(
+          accessToken,
+          shopDomain
         );
-        return formatSuccess(shop);
+        return formatSuccess(shopDetails);
       } catch (error) {
         return handleError("Failed to retrieve shop details", error);
       }
@@ -69,13 +94,16 @@ export function registerShopTools(server: McpServer): void {
   server.tool(
     "get-shop-details",
     "Get extended shop details including shipping countries",
-    {},
-    async () => {
-      const client = new ShopifyClient();
+    {
+      shop: shopArgument,
+    },
+    { readOnlyHint: true },
+    async ({ shop }) => {
       try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
         const shopDetails = await client.loadShopDetails(
-          config.accessToken,
-          config.shopDomain
+          accessToken,
+          shopDomain
         );
         return formatSuccess(shopDetails);
       } catch (error) {
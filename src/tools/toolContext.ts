@@ -0,0 +1,62 @@
+/**
+ * Dependencies shared by the tool handlers
+ */
+
+import { ShopConfig, ShopRegistry } from "../config/shops.js";
+import { DryRunShopifyClient, PlannedChange } from "../ShopifyClient/DryRunShopifyClient.js";
+import { ShopifyClientPort } from "../ShopifyClient/ShopifyClientPort.js";
+import { Cache } from "../utils/cache.js";
+import { ConfirmationStore } from "../utils/confirmationStore.js";
+import { AuditLog } from "../utils/auditLog.js";
+import { WebhookEventStore } from "../utils/webhookEventStore.js";
+
+/**
+ * Creates the client a tool call runs against, for the shop the call selected
+ */
+export type ShopifyClientFactory = (shop: ShopConfig) => ShopifyClientPort;
+
+/**
+ * Passed to every register*Tools function so the client implementation
+ * (live, cached, recording, fake) is chosen by the caller rather than the tools
+ */
+export interface ToolContext {
+  shopRegistry: ShopRegistry;
+  createClient: ShopifyClientFactory;
+  // Cache read and cleared by the cache tools
+  responseCache: Cache;
+  // Deliveries received by the webhook receiver; unset when the receiver is disabled
+  webhookEvents?: WebhookEventStore;
+  // Tokens confirming destructive tool calls; those calls run right away when unset
+  confirmations?: ConfirmationStore;
+  // Mutations recorded by the live client; unset when the audit log is disabled
+  auditLog?: AuditLog;
+  // Directory catalog exports are written to; export-products fails when unset
+  exportDirectory?: string;
+}
+
+/**
+ * A resolved shop with the client a tool call uses for it
+ */
+export type ShopClient = ShopConfig & { client: ShopifyClientPort; plannedChanges?: PlannedChange[] };
+
+/**
+ * Resolves the shop selected by a tool call and creates a client for it
+ * @param context The tool context
+ * @param shop Shop name or myshopify domain; the default shop when omitted
+ * @param options.dryRun Wrap the client so mutations are planned instead of sent;
+ * the plan is returned as `plannedChanges`
+ * @throws Error if the shop is not configured
+ */
+export function resolveShopClient(
+  context: ToolContext,
+  shop?: string,
+  options: { dryRun?: boolean } = {}
+): ShopClient {
+  const shopConfig = context.shopRegistry.resolve(shop);
+  const client = context.createClient(shopConfig);
+  if (!options.dryRun) {
+    return { ...shopConfig, client };
+  }
+  const dryRunClient = new DryRunShopifyClient(client);
+  return { ...shopConfig, client: dryRunClient, plannedChanges: dryRunClient.plannedChanges };
+}
@@ -0,0 +1,91 @@
+/**
+ * Tool policy for the Shopify MCP Server
+ * Decides which tools are registered from the read-only mode and the
+ * allow and deny lists, independently of the scopes of the access token
+ */
+
+import { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { ToolPolicyConfig } from "../config/index.js";
+
+/**
+ * Categories tools are registered under, one per register*Tools module
+ * (both product modules share "products")
+ */
+export type ToolCategory =
+  | "products"
+  | "customers"
+  | "orders"
+  | "shop"
+  | "discounts"
+  | "webhooks"
+  | "blog"
+  | "cache"
+  | "audit"
+  | "analytics"
+  | "bulk"
+  | "catalog";
+
+// Matches the whole name, `*` standing for any characters and `?` for a single one
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function matchesAny(patterns: string[], name: string, category: ToolCategory): boolean {
+  return patterns.some((pattern) => {
+    const regExp = globToRegExp(pattern);
+    return regExp.test(name) || regExp.test(category);
+  });
+}
+
+/**
+ * Checks whether a tool may be registered. Tools that are not annotated with
+ * `readOnlyHint: true` are treated as mutating, and the deny list wins over the allow list.
+ * @param policy The tool policy
+ * @param name Tool name
+ * @param category Category the tool is registered under
+ * @param annotations Annotations the tool was registered with
+ */
+export function isToolAllowed(
+  policy: ToolPolicyConfig,
+  name: string,
+  category: ToolCategory,
+  annotations?: ToolAnnotations
+): boolean {
+  if (policy.readOnly && annotations?.readOnlyHint !== true) {
+    return false;
+  }
+  if (matchesAny(policy.deny, name, category)) {
+    return false;
+  }
+  return policy.allow.length === 0 || matchesAny(policy.allow, name, category);
+}
+
+/**
+ * Wraps a server so the tools registered through it are checked against the
+ * policy; refused tools are removed again before any client can list or call them.
+ * @param server The MCP server instance
+ * @param category Category of the tools registered through the returned server
+ * @param policy The tool policy
+ * @returns A server to pass to a register*Tools function
+ */
+export function applyToolPolicy(server: McpServer, category: ToolCategory, policy: ToolPolicyConfig): McpServer {
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property !== "tool") {
+        return Reflect.get(target, property, receiver);
+      }
+      return (...args: unknown[]): RegisteredTool => {
+        const tool = (target.tool as (...toolArgs: unknown[]) => RegisteredTool).apply(target, args);
+        if (!isToolAllowed(policy, args[0] as string, category, tool.annotations)) {
+          tool.remove();
+        }
+        return tool;
+      };
+    },
+  });
+}
@@ -4,17 +4,58 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ShopifyClient } from "../ShopifyClient/ShopifyClient.js";
-import { config } from "../config/index.js";
+import { ToolContext, resolveShopClient } from "./toolContext.js";
+import { shopArgument } from "./shopArgument.js";
+import { dryRunArgument, formatPlannedChanges } from "./dryRun.js";
+import { confirmationTokenArgument, requireConfirmation } from "./confirmation.js";
 import { handleError } from "../utils/errorHandler.js";
-import { ShopifyWebhookTopic } from "../ShopifyClient/ShopifyClientPort.js";
+import {
+  ShopifyWebhook,
+  ShopifyWebhookTopic,
+  WebhookEndpoint,
+  WebhookSubscriptionFormat,
+  WebhookSubscriptionOptions,
+  webhookEndpointAddress,
+} from "../ShopifyClient/ShopifyClientPort.js";
+import { WebhookEventStore } from "../utils/webhookEventStore.js";
 
 // Define input types for better type safety
 interface ManageWebhookInput {
-  action: "subscribe" | "find" | "unsubscribe";
-  callbackUrl: string;
-  topic: ShopifyWebhookTopic;
+  action: "subscribe" | "find" | "update" | "unsubscribe";
+  topic?: ShopifyWebhookTopic;
+  callbackUrl?: string;
+  arn?: string;
+  pubSubProject?: string;
+  pubSubTopic?: string;
+  format?: WebhookSubscriptionFormat;
+  includeFields?: string[];
+  metafieldNamespaces?: string[];
   webhookId?: string;
+  shop?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+interface ListWebhooksInput {
+  first: number;
+  after?: string;
+  topics?: ShopifyWebhookTopic[];
+  callbackUrl?: string;
+  format?: WebhookSubscriptionFormat;
+  shop?: string;
+}
+
+interface ListWebhookEventsInput {
+  topic?: string;
+  shop?: string;
+  since?: string;
+  first: number;
+  after?: string;
+  includePayload: boolean;
+}
+
+interface GetWebhookEventInput {
+  eventId: string;
 }
 
 interface ToolResponse {
@@ -27,60 +68,178 @@ interface ToolResponse {
   [key: string]: unknown;
 }
 
+const webhookTopic = z.enum(
+  Object.values(ShopifyWebhookTopic) as [ShopifyWebhookTopic, ...ShopifyWebhookTopic[]]
+);
+
+const webhookFormat = z.enum(["JSON", "XML"]);
+
+function invalidRequest(text: string): ToolResponse {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+// Endpoints named by the callbackUrl, arn and pubSub* arguments
+function toEndpoints({ callbackUrl, arn, pubSubProject, pubSubTopic }: ManageWebhookInput): WebhookEndpoint[] {
+  const endpoints: WebhookEndpoint[] = [];
+  if (callbackUrl) {
+    endpoints.push({ type: "HTTP", callbackUrl });
+  }
+  if (arn) {
+    endpoints.push({ type: "EVENT_BRIDGE", arn });
+  }
+  if (pubSubProject && pubSubTopic) {
+    endpoints.push({ type: "PUB_SUB", pubSubProject, pubSubTopic });
+  }
+  return endpoints;
+}
+
+function describeWebhook(webhook: ShopifyWebhook): string {
+  const lines = [
+    `ID: ${webhook.id}`,
+    `Topic: ${webhook.topic}`,
+    `Endpoint: ${webhook.endpoint.type} ${webhook.callbackUrl}`,
+    `Format: ${webhook.format}`,
+  ];
+  if (webhook.includeFields.length > 0) {
+    lines.push(`Include fields: ${webhook.includeFields.join(", ")}`);
+  }
+  if (webhook.metafieldNamespaces.length > 0) {
+    lines.push(`Metafield namespaces: ${webhook.metafieldNamespaces.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+function requireWebhookEvents(context: ToolContext): WebhookEventStore {
+  if (!context.webhookEvents) {
+    throw new Error("The webhook receiver is not enabled, set SHOPIFY_WEBHOOK_SECRET to start it");
+  }
+  return context.webhookEvents;
+}
+
 /**
  * Registers webhook-related tools with the MCP server
  * @param server The MCP server instance
+ * @param context Shop registry and client factory used by the tools
  */
-export function registerWebhookTools(server: McpServer): void {
+export function registerWebhookTools(server: McpServer, context: ToolContext): void {
   // Manage Webhook Tool
   server.tool(
     "manage-webhook",
-    "Subscribe, find, or unsubscribe webhooks",
+    "Subscribe, find, update or unsubscribe webhooks. Events are delivered to an HTTPS callback URL, an Amazon EventBridge ARN or a Google Pub/Sub topic",
     {
       action: z
-        .enum(["subscribe", "find", "unsubscribe"])
-        .describe("Action to perform ('subscribe', 'find', 'unsubscribe')"),
-      callbackUrl: z.string().describe("Webhook callback URL"),
-      topic: z
-        .enum(Object.values(ShopifyWebhookTopic) as [ShopifyWebhookTopic, ...ShopifyWebhookTopic[]])
-        .describe("Webhook topic to subscribe to"),
+        .enum(["subscribe", "find", "update", "unsubscribe"])
+        .describe("Action to perform ('subscribe', 'find', 'update', 'unsubscribe')"),
+      topic: webhookTopic
+        .optional()
+        .describe("Webhook topic (required for subscribe and find)"),
+      callbackUrl: z
+        .string()
+        .optional()
+        .describe("HTTPS callback URL of an HTTP endpoint"),
+      arn: z
+        .string()
+        .optional()
+        .describe("ARN of an Amazon EventBridge partner event source"),
+      pubSubProject: z
+        .string()
+        .optional()
+        .describe("Google Cloud project of a Pub/Sub endpoint, given with pubSubTopic"),
+      pubSubTopic: z
+        .string()
+        .optional()
+        .describe("Pub/Sub topic ID, given with pubSubProject"),
+      format: webhookFormat
+        .optional()
+        .describe("Payload format, JSON by default"),
+      includeFields: z
+        .array(z.string().min(1))
+        .optional()
+        .describe("Payload fields to deliver, e.g. ['id', 'updated_at']; the whole payload when omitted"),
+      metafieldNamespaces: z
+        .array(z.string().min(1))
+        .optional()
+        .describe("Namespaces of the metafields to add to the payload"),
       webhookId: z
         .string()
         .optional()
-        .describe("Webhook ID (required for unsubscribe)"),
+        .describe("Webhook ID (required for update and unsubscribe)"),
+      shop: shopArgument,
+      dryRun: dryRunArgument,
+      confirmationToken: confirmationTokenArgument,
     },
-    async ({ action, callbackUrl, topic, webhookId }: ManageWebhookInput): Promise<ToolResponse> => {
-      const client = new ShopifyClient();
+    async (input: ManageWebhookInput): Promise<ToolResponse> => {
+      const { action, topic, webhookId, shop, dryRun } = input;
+      const options: WebhookSubscriptionOptions = {
+        format: input.format,
+        includeFields: input.includeFields,
+        metafieldNamespaces: input.metafieldNamespaces,
+      };
+      const endpoints = toEndpoints(input);
+      if (Boolean(input.pubSubProject) !== Boolean(input.pubSubTopic)) {
+        return invalidRequest("pubSubProject and pubSubTopic must be given together");
+      }
+      if (endpoints.length > 1) {
+        return invalidRequest("Give only one of callbackUrl, arn or pubSubProject and pubSubTopic");
+      }
+      const [endpoint] = endpoints;
+
       try {
+        const { client, accessToken, shopDomain, plannedChanges } = resolveShopClient(context, shop, { dryRun });
         if (action === "subscribe") {
-          const webhook = await client.subscribeWebhook(
-            config.accessToken,
-            config.shopDomain,
-            callbackUrl,
-            topic
-          );
+          if (!topic || !endpoint) {
+            return invalidRequest(
+              "A topic and one of callbackUrl, arn or pubSubProject and pubSubTopic are required for subscribe action"
+            );
+          }
+
+          let webhook: ShopifyWebhook;
+          if (endpoint.type === "EVENT_BRIDGE") {
+            webhook = await client.subscribeEventBridgeWebhook(accessToken, shopDomain, endpoint.arn, topic, options);
+          } else if (endpoint.type === "PUB_SUB") {
+            webhook = await client.subscribePubSubWebhook(
+              accessToken,
+              shopDomain,
+              endpoint.pubSubProject,
+              endpoint.pubSubTopic,
+              topic,
+              options
+            );
+          } else {
+            webhook = await client.subscribeWebhook(accessToken, shopDomain, endpoint.callbackUrl, topic, options);
+          }
+          if (plannedChanges) {
+            return formatPlannedChanges(plannedChanges);
+          }
           return {
             content: [
               {
                 type: "text",
-                text: `Successfully subscribed to webhook:\nID: ${webhook.id}\nTopic: ${webhook.topic}\nCallback URL: ${webhook.callbackUrl}`,
+                text: `Successfully subscribed to webhook:\n${describeWebhook(webhook)}`,
               },
             ],
           };
         } else if (action === "find") {
+          if (!topic || !endpoint) {
+            return invalidRequest(
+              "A topic and one of callbackUrl, arn or pubSubProject and pubSubTopic are required for find action"
+            );
+          }
+
+          const address = webhookEndpointAddress(endpoint);
           const webhook = await client.findWebhookByTopicAndCallbackUrl(
-            config.accessToken,
-            config.shopDomain,
-            callbackUrl,
+            accessToken,
+            shopDomain,
+            address,
             topic
           );
-          
+
           if (webhook) {
             return {
               content: [
                 {
                   type: "text",
-                  text: `Found webhook:\nID: ${webhook.id}\nTopic: ${webhook.topic}\nCallback URL: ${webhook.callbackUrl}`,
+                  text: `Found webhook:\n${describeWebhook(webhook)}`,
                 },
               ],
             };
@@ -89,30 +248,54 @@ export function registerWebhookTools(server: McpServer): void {
               content: [
                 {
                   type: "text",
-                  text: `No webhook found for topic ${topic} and callback URL ${callbackUrl}`,
+                  text: `No webhook found for topic ${topic} and endpoint ${address}`,
                 },
               ],
             };
           }
+        } else if (action === "update") {
+          if (!webhookId) {
+            return invalidRequest("Webhook ID is required for update action");
+          }
+          if (!endpoint && Object.values(options).every((value) => value === undefined)) {
+            return invalidRequest("Give a new endpoint, format, includeFields or metafieldNamespaces to update");
+          }
+
+          const webhook = await client.updateWebhook(accessToken, shopDomain, webhookId, {
+            ...options,
+            endpoint,
+          });
+          if (plannedChanges) {
+            return formatPlannedChanges(plannedChanges);
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully updated webhook:\n${describeWebhook(webhook)}`,
+              },
+            ],
+          };
         } else if (action === "unsubscribe") {
           if (!webhookId) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: "Webhook ID is required for unsubscribe action",
-                },
-              ],
-              isError: true,
-            };
+            return invalidRequest("Webhook ID is required for unsubscribe action");
+          }
+          const confirmation = await requireConfirmation(context, "manage-webhook", input, (planned) =>
+            planned.client.unsubscribeWebhook(planned.accessToken, planned.shopDomain, webhookId)
+          );
+          if (confirmation) {
+            return confirmation;
           }
-          
+
           await client.unsubscribeWebhook(
-            config.accessToken,
-            config.shopDomain,
+            accessToken,
+            shopDomain,
             webhookId
           );
-          
+          if (plannedChanges) {
+            return formatPlannedChanges(plannedChanges);
+          }
+
           return {
             content: [
               {
@@ -122,20 +305,146 @@ export function registerWebhookTools(server: McpServer): void {
             ],
           };
         }
-        
+
         // This should never happen due to the enum validation
+        return invalidRequest(`Invalid action: ${action}`);
+      } catch (error) {
+        return handleError(`Failed to ${action} webhook`, error);
+      }
+    }
+  );
+
+  // List Webhooks Tool
+  server.tool(
+    "list-webhooks",
+    "List webhook subscriptions with their endpoints, formats and payload filters",
+    {
+      first: z
+        .number()
+        .int()
+        .min(1)
+        .max(250)
+        .default(50)
+        .describe("Number of webhooks to return (max 250)"),
+      after: z
+        .string()
+        .optional()
+        .describe("Cursor from a previous page's pageInfo.endCursor"),
+      topics: z
+        .array(webhookTopic)
+        .optional()
+        .describe("Only return webhooks for these topics"),
+      callbackUrl: z
+        .string()
+        .optional()
+        .describe("Only return webhooks delivering to this address (callback URL, ARN or pubsub://project:topic)"),
+      format: webhookFormat
+        .optional()
+        .describe("Only return webhooks with this payload format"),
+      shop: shopArgument,
+    },
+    { readOnlyHint: true },
+    async ({ first, after, topics, callbackUrl, format, shop }: ListWebhooksInput): Promise<ToolResponse> => {
+      try {
+        const { client, accessToken, shopDomain } = resolveShopClient(context, shop);
+        const response = await client.loadWebhooks(accessToken, shopDomain, {
+          first,
+          after,
+          topics,
+          callbackUrl,
+          format,
+        });
+        return {
+          content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+        };
+      } catch (error) {
+        return handleError("Failed to list webhooks", error);
+      }
+    }
+  );
+
+  // List Webhook Events Tool
+  server.tool(
+    "list-webhook-events",
+    "List webhook deliveries received by the local webhook receiver, newest first",
+    {
+      topic: z
+        .string()
+        .optional()
+        .describe("Only return events for this topic, e.g. 'orders/updated'"),
+      shop: z
+        .string()
+        .optional()
+        .describe("Only return events from this shop name or myshopify domain (defaults to all shops)"),
+      since: z
+        .string()
+        .datetime({ offset: true })
+        .optional()
+        .describe("Only return events received at or after this ISO 8601 date"),
+      first: z
+        .number()
+        .int()
+        .min(1)
+        .max(250)
+        .default(50)
+        .describe("Number of events to return (max 250)"),
+      after: z
+        .string()
+        .optional()
+        .describe("Cursor from a previous page's pageInfo.endCursor"),
+      includePayload: z
+        .boolean()
+        .default(false)
+        .describe("Include each event's payload instead of only its headers"),
+    },
+    { readOnlyHint: true },
+    async ({ topic, shop, since, first, after, includePayload }: ListWebhookEventsInput): Promise<ToolResponse> => {
+      try {
+        const store = requireWebhookEvents(context);
+        // Deliveries can come from shops that are not configured, so only resolve when filtering
+        const shopDomain = shop ? context.shopRegistry.resolve(shop).shopDomain : undefined;
+        const { events, pageInfo } = store.list({ topic, shopDomain, since, first, after });
         return {
           content: [
             {
               type: "text",
-              text: `Invalid action: ${action}`,
+              text: JSON.stringify(
+                {
+                  events: includePayload ? events : events.map(({ payload, ...summary }) => summary),
+                  pageInfo,
+                },
+                null,
+                2
+              ),
             },
           ],
-          isError: true,
         };
       } catch (error) {
-        return handleError(`Failed to ${action} webhook`, error);
+        return handleError("Failed to list webhook events", error);
+      }
+    }
+  );
+
+  // Get Webhook Event Tool
+  server.tool(
+    "get-webhook-event",
+    "Get a webhook delivery received by the local webhook receiver, with its payload",
+    {
+      eventId: z.string().describe("Webhook ID of the delivery (X-Shopify-Webhook-Id)"),
+    },
+    { readOnlyHint: true },
+    async ({ eventId }: GetWebhookEventInput): Promise<ToolResponse> => {
+      try {
+        const event = requireWebhookEvents(context).get(eventId);
+        if (!event) {
+          return invalidRequest(`No webhook event found with ID ${eventId}`);
+        }
+        return {
+          content: [{ type: "text", text: JSON.stringify(event, null, 2) }],
+        };
+      } catch (error) {
+        return handleError("Failed to get webhook event", error);
       }
     }
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,240 @@
+/**
+ * HTTP transport for the Shopify MCP Server
+ * Serves streamable HTTP on /mcp and the legacy SSE transport on /sse + /messages
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { TransportConfig } from "../config/index.js";
+import { PayloadTooLargeError, readRawBody } from "./requestBody.js";
+
+interface HttpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  // Requests of the session still being answered, including open event streams
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Reads and parses a JSON request body
+ * @param req The incoming request
+ * @returns The parsed body, or undefined for an empty body
+ * @throws PayloadTooLargeError if the body is too large
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const raw = (await readRawBody(req)).toString("utf8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Writes a JSON-RPC error response
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code, message },
+      id: null,
+    })
+  );
+}
+
+/**
+ * Checks the bearer token on a request in constant time
+ * @returns True if no token is configured or the request carries the configured token
+ */
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const header = req.headers.authorization || "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+
+  const expected = Buffer.from(authToken);
+  const provided = Buffer.from(match[1].trim());
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+/**
+ * Host headers a browser page can only send to this server when it really
+ * addresses it, checked against DNS rebinding when there is no auth token
+ */
+function getAllowedHosts(options: TransportConfig, port: number): string[] {
+  const names = [options.host, "localhost", "127.0.0.1", "[::1]"];
+  return [...names.map((name) => `${name}:${port}`), ...options.allowedHosts];
+}
+
+/**
+ * Starts an HTTP server exposing the MCP server over streamable HTTP and SSE.
+ * Each client session gets its own McpServer instance from the factory.
+ * Streamable HTTP sessions are closed once idle for options.sessionIdleTimeoutMs.
+ * @param createMcpServer Factory returning a fully registered McpServer
+ * @param options Transport configuration (port, host, bearer token, allowed hosts, idle timeout)
+ * @returns The listening HTTP server
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: TransportConfig
+): Promise<Server> {
+  const sessions = new Map<string, HttpSession>();
+  // Without a token, anything able to reach the port could otherwise call the tools
+  let dnsRebindingProtection: { enableDnsRebindingProtection: boolean; allowedHosts?: string[] } = {
+    enableDnsRebindingProtection: false,
+  };
+
+  // Holds off the idle timeout while the response is open, and restarts it once it is done
+  function trackRequest(session: HttpSession, res: ServerResponse): void {
+    session.openRequests++;
+    clearTimeout(session.idleTimer);
+    res.once("close", () => {
+      session.openRequests--;
+      const id = session.transport.sessionId;
+      if (session.openRequests === 0 && id && sessions.get(id) === session) {
+        session.idleTimer = setTimeout(() => {
+          session.server.close().catch(() => undefined);
+        }, options.sessionIdleTimeoutMs);
+        session.idleTimer.unref();
+      }
+    });
+  }
+
+  async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      trackRequest(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, session);
+      },
+      ...dnsRebindingProtection,
+    });
+    const session: HttpSession = { server, transport, openRequests: 0 };
+    transport.onclose = () => {
+      clearTimeout(session.idleTimer);
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    trackRequest(session, res);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseConnect(res: ServerResponse): Promise<void> {
+    const server = createMcpServer();
+    const transport = new SSEServerTransport("/messages", res, dnsRebindingProtection);
+    sessions.set(transport.sessionId, { server, transport, openRequests: 0 });
+    res.on("close", () => {
+      sessions.delete(transport.sessionId);
+    });
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get("sessionId") || "";
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+    try {
+      if (url.pathname === "/health" && req.method === "GET") {
+        res.writeHead(200, { "Content-Type": "application/json" }).end(
+          JSON.stringify({ status: "ok", sessions: sessions.size })
+        );
+        return;
+      }
+
+      if (!isAuthorized(req, options.authToken)) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="shopify-mcp"');
+        sendJsonRpcError(res, 401, -32001, "Unauthorized");
+        return;
+      }
+
+      if (url.pathname === "/mcp" && ["GET", "POST", "DELETE"].includes(req.method || "")) {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSseConnect(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJsonRpcError(res, 404, -32601, "Not found");
+      }
+    } catch (error) {
+      if (error instanceof SyntaxError && !res.headersSent) {
+        sendJsonRpcError(res, 400, -32700, "Parse error");
+        return;
+      }
+      if (error instanceof PayloadTooLargeError && !res.headersSent) {
+        // The rest of the body is not read, so the connection cannot be reused
+        res.setHeader("Connection", "close");
+        sendJsonRpcError(res, 413, -32600, error.message);
+        return;
+      }
+      console.error("Error handling HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  httpServer.on("close", () => {
+    for (const session of sessions.values()) {
+      clearTimeout(session.idleTimer);
+      session.transport.close().catch(() => undefined);
+    }
+    sessions.clear();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  if (!options.authToken) {
+    dnsRebindingProtection = {
+      enableDnsRebindingProtection: true,
+      allowedHosts: getAllowedHosts(options, (httpServer.address() as AddressInfo).port),
+    };
+  }
+
+  return httpServer;
+}
@@ -0,0 +1,41 @@
+/**
+ * Request body reading shared by the HTTP transport and the webhook receiver
+ */
+
+import { IncomingMessage } from "node:http";
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Thrown when a request body exceeds MAX_BODY_BYTES, answered with 413
+ */
+export class PayloadTooLargeError extends Error {
+  constructor() {
+    super("Request body too large");
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+/**
+ * Reads a request body as raw bytes
+ * @param req The incoming request
+ * @throws PayloadTooLargeError if the body is larger than MAX_BODY_BYTES
+ */
+export async function readRawBody(req: IncomingMessage): Promise<Buffer> {
+  if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) {
+    throw new PayloadTooLargeError();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new PayloadTooLargeError();
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,129 @@
+/**
+ * Webhook receiver for the Shopify MCP Server
+ * Accepts Shopify webhook deliveries on a single path, verifies their HMAC
+ * signature and stores them for the webhook event tools
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { WebhookReceiverConfig } from "../config/index.js";
+import { WebhookEventStore } from "../utils/webhookEventStore.js";
+import { PayloadTooLargeError, readRawBody } from "./requestBody.js";
+
+/**
+ * Checks the X-Shopify-Hmac-Sha256 header against the raw request body in constant time
+ * @param body The raw request body, before any parsing
+ * @param hmacHeader Base64 HMAC-SHA256 digest sent by Shopify
+ * @param secrets App secrets the delivery may be signed with
+ * @returns True if the digest matches one of the secrets
+ */
+export function verifyShopifyHmac(body: Buffer, hmacHeader: string | undefined, secrets: string[]): boolean {
+  if (!hmacHeader) {
+    return false;
+  }
+
+  const provided = Buffer.from(hmacHeader, "base64");
+  return secrets.some((secret) => {
+    const expected = createHmac("sha256", secret).update(body).digest();
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  });
+}
+
+function header(req: IncomingMessage, name: string): string | null {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value) || null;
+}
+
+function sendText(res: ServerResponse, status: number, text: string): void {
+  res.writeHead(status, { "Content-Type": "text/plain" }).end(text);
+}
+
+/**
+ * Starts an HTTP server receiving Shopify webhooks into the event store.
+ * Deliveries already in the store (Shopify retries until it gets a 2xx) are
+ * acknowledged without being stored again.
+ * @param store Event store the deliveries are added to
+ * @param options Receiver configuration (port, host, path, app secrets)
+ * @returns The listening HTTP server
+ */
+export async function startWebhookReceiver(
+  store: WebhookEventStore,
+  options: Pick<WebhookReceiverConfig, "port" | "host" | "path" | "secrets">
+): Promise<Server> {
+  async function handleDelivery(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    // Raw bytes, as the HMAC is computed over them
+    const body = await readRawBody(req);
+    if (!verifyShopifyHmac(body, header(req, "x-shopify-hmac-sha256") ?? undefined, options.secrets)) {
+      sendText(res, 401, "Invalid HMAC signature");
+      return;
+    }
+
+    const id = header(req, "x-shopify-webhook-id");
+    const topic = header(req, "x-shopify-topic");
+    const shopDomain = header(req, "x-shopify-shop-domain");
+    if (!id || !topic || !shopDomain) {
+      sendText(res, 400, "Missing X-Shopify-Webhook-Id, X-Shopify-Topic or X-Shopify-Shop-Domain header");
+      return;
+    }
+
+    if (store.has(id)) {
+      sendText(res, 200, "Duplicate delivery");
+      return;
+    }
+
+    const raw = body.toString("utf8");
+    const isJson = (header(req, "content-type") || "").includes("json");
+    await store.add({
+      id,
+      topic,
+      shopDomain,
+      apiVersion: header(req, "x-shopify-api-version"),
+      eventId: header(req, "x-shopify-event-id"),
+      triggeredAt: header(req, "x-shopify-triggered-at"),
+      receivedAt: new Date().toISOString(),
+      payload: isJson && raw ? JSON.parse(raw) : raw,
+    });
+    sendText(res, 200, "OK");
+  }
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+    try {
+      if (url.pathname === "/health" && req.method === "GET") {
+        res.writeHead(200, { "Content-Type": "application/json" }).end(
+          JSON.stringify({ status: "ok", events: store.size })
+        );
+      } else if (url.pathname === options.path && req.method === "POST") {
+        await handleDelivery(req, res);
+      } else {
+        sendText(res, 404, "Not found");
+      }
+    } catch (error) {
+      if (error instanceof SyntaxError && !res.headersSent) {
+        sendText(res, 400, "Invalid JSON payload");
+        return;
+      }
+      if (error instanceof PayloadTooLargeError && !res.headersSent) {
+        // The rest of the body is not read, so the connection cannot be reused
+        res.setHeader("Connection", "close");
+        sendText(res, 413, error.message);
+        return;
+      }
+      console.error("Error handling webhook delivery:", error);
+      if (!res.headersSent) {
+        sendText(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
@@ -0,0 +1,268 @@
+/**
+ * Append-only audit log of the mutations sent to the Shopify Admin API
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  // MCP tool the mutation was sent for; null outside of tool calls
+  tool: string | null;
+  shopDomain: string;
+  // Root fields of the mutation, e.g. ["productUpdate"]
+  operations: string[];
+  // GraphQL variables with secrets redacted
+  arguments: unknown;
+  // Shopify IDs returned by the mutation
+  resourceIds: string[];
+  userErrors: Array<{ field?: string[] | null; message: string }>;
+  durationMs: number;
+  // Message of the error the request failed with
+  error: string | null;
+}
+
+export interface AuditLogQuery {
+  // ISO dates, both inclusive
+  since?: string;
+  until?: string;
+  tool?: string;
+  shopDomain?: string;
+  // Matches IDs returned by the mutation or passed in its arguments
+  resourceId?: string;
+  first?: number;
+  after?: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditEntry[];
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+}
+
+interface AuditLogOptions {
+  // JSONL file the entries are appended to; entries are only kept in memory when omitted
+  path?: string;
+  // Entries kept in memory for queries; the file keeps all of them
+  maxEntries?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 10000;
+const REDACTED = "[REDACTED]";
+const SECRET_KEY = /token|secret|password|authorization|api[-_]?key/i;
+const ACCESS_TOKEN = /shp(at|ca|pa|ss)_[A-Za-z0-9]+/g;
+const SHOPIFY_ID = /^gid:\/\/shopify\/[A-Za-z]+\/[^\s"]+$/;
+
+const toolCalls = new AsyncLocalStorage<string>();
+
+/**
+ * Runs a tool handler so the mutations it sends are logged with the tool name
+ * @param tool Name of the tool
+ * @param handler The handler
+ */
+export function runInToolCall<T>(tool: string, handler: () => T): T {
+  return toolCalls.run(tool, handler);
+}
+
+/**
+ * Replaces the values of secret-looking keys and Shopify access tokens
+ * @param value Value to redact
+ * @returns A redacted copy
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.replace(ACCESS_TOKEN, REDACTED);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, SECRET_KEY.test(key) ? REDACTED : redactSecrets(entry)])
+    );
+  }
+  return value;
+}
+
+function collectResponse(
+  value: unknown,
+  found: { resourceIds: Set<string>; userErrors: AuditEntry["userErrors"] }
+): void {
+  if (typeof value === "string") {
+    if (SHOPIFY_ID.test(value)) {
+      found.resourceIds.add(value);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((entry) => collectResponse(entry, found));
+  } else if (value !== null && typeof value === "object") {
+    for (const [key, entry] of Object.entries(value)) {
+      if (key === "userErrors" && Array.isArray(entry)) {
+        found.userErrors.push(...entry.map(({ field, message }) => ({ field, message })));
+      } else {
+        collectResponse(entry, found);
+      }
+    }
+  }
+}
+
+// Root fields of the selection set, skipping aliases
+function rootFields(query: string): string[] {
+  const start = query.indexOf("{");
+  if (start === -1) {
+    return [];
+  }
+  const fields: string[] = [];
+  let depth = 0;
+  let parentheses = 0;
+  const tokens = query.slice(start + 1).matchAll(/[{}()]|(\w+)\s*(:)?/g);
+  for (const [token, name, alias] of tokens) {
+    if (token === "(") parentheses++;
+    else if (token === ")") parentheses--;
+    else if (token === "{") depth++;
+    else if (token === "}") depth--;
+    else if (depth === 0 && parentheses === 0 && name && !alias) fields.push(name);
+    if (depth < 0) break;
+  }
+  return [...new Set(fields)];
+}
+
+/**
+ * Builds the audit entry of a mutation request
+ * @param request The mutation, the shop it was sent to, how long it took and its response or error
+ */
+export function createAuditEntry(request: {
+  shopDomain: string;
+  query: string;
+  variables?: unknown;
+  durationMs: number;
+  response?: { data?: unknown };
+  error?: unknown;
+}): AuditEntry {
+  const found = { resourceIds: new Set<string>(), userErrors: [] as AuditEntry["userErrors"] };
+  collectResponse(request.response?.data, found);
+  return {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    tool: toolCalls.getStore() ?? null,
+    shopDomain: request.shopDomain,
+    operations: rootFields(request.query),
+    arguments: redactSecrets(request.variables ?? {}),
+    resourceIds: [...found.resourceIds],
+    userErrors: found.userErrors,
+    durationMs: request.durationMs,
+    error:
+      request.error === undefined
+        ? null
+        : (redactSecrets(request.error instanceof Error ? request.error.message : String(request.error)) as string),
+  };
+}
+
+/**
+ * Keeps the audit entries, oldest first, in a JSONL file that is only ever
+ * appended to, and the most recent ones in memory for queries
+ */
+export class AuditLog {
+  private entries: AuditEntry[] = [];
+  private readonly path?: string;
+  private readonly maxEntries: number;
+  // Serializes appends so entries are written in order
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: AuditLogOptions = {}) {
+    this.path = options.path;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  /**
+   * Loads the entries written by previous runs, skipping unreadable lines
+   */
+  async load(): Promise<void> {
+    if (!this.path) {
+      return;
+    }
+
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+
+    for (const line of raw.split("\n").filter((line) => line.trim())) {
+      try {
+        this.remember(JSON.parse(line) as AuditEntry);
+      } catch {
+        console.error(`Skipping unreadable audit entry in ${this.path}`);
+      }
+    }
+  }
+
+  /**
+   * Records an entry and appends it to the file
+   */
+  async add(entry: AuditEntry): Promise<void> {
+    this.remember(entry);
+    if (!this.path) {
+      return;
+    }
+
+    const path = this.path;
+    const write = this.writes.then(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, `${JSON.stringify(entry)}\n`);
+    });
+    // A failed write must not block the ones queued after it
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+
+  /**
+   * Lists matching entries, newest first
+   */
+  list(query: AuditLogQuery = {}): AuditLogPage {
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const until = query.until ? Date.parse(query.until) : undefined;
+    const resourceId = query.resourceId;
+    const matching = this.entries
+      .filter((entry) => {
+        const timestamp = Date.parse(entry.timestamp);
+        return (
+          (since === undefined || timestamp >= since) &&
+          (until === undefined || timestamp <= until) &&
+          (!query.tool || entry.tool === query.tool) &&
+          (!query.shopDomain || entry.shopDomain === query.shopDomain) &&
+          (!resourceId || entry.resourceIds.includes(resourceId) || JSON.stringify(entry.arguments).includes(`"${resourceId}"`))
+        );
+      })
+      .reverse();
+
+    const start = query.after ? Number(query.after) : 0;
+    const end = start + (query.first ?? 50);
+    return {
+      entries: matching.slice(start, end),
+      pageInfo: {
+        hasNextPage: end < matching.length,
+        endCursor: end < matching.length ? String(end) : null,
+      },
+    };
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  private remember(entry: AuditEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+    }
+  }
+}
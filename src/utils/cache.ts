@@ -6,36 +6,75 @@ interface CacheOptions {
   ttl: number;  // Time to live in milliseconds
 }
 
+interface CacheConstructorOptions {
+  defaultTTL?: number;
+  maxEntries?: number;  // Least recently used entries are evicted beyond this size
+}
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
 }
 
+export interface CacheStats {
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+}
+
 export class Cache {
   private cache: Map<string, CacheEntry<any>> = new Map();
   private defaultTTL: number = 5 * 60 * 1000; // 5 minutes default TTL
+  private maxEntries: number = Infinity;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  // Bumped by every deletion, so a load that started before one is not cached
+  private generation = 0;
+
+  constructor(options: CacheConstructorOptions = {}) {
+    this.defaultTTL = options.defaultTTL ?? this.defaultTTL;
+    this.maxEntries = options.maxEntries ?? this.maxEntries;
+  }
 
   set<T>(key: string, value: T, options: Partial<CacheOptions> = {}): void {
     const ttl = options.ttl || this.defaultTTL;
+    // Re-inserting moves the key to the most recently used position
+    this.cache.delete(key);
     this.cache.set(key, {
       data: value,
       timestamp: Date.now() + ttl
     });
+
+    while (this.cache.size > this.maxEntries) {
+      const oldestKey = this.cache.keys().next().value as string;
+      this.cache.delete(oldestKey);
+      this.evictions++;
+    }
   }
 
   get<T>(key: string): T | null {
     const entry = this.cache.get(key);
-    
+
     if (!entry) {
+      this.misses++;
       return null;
     }
 
     // Check if entry has expired
     if (Date.now() > entry.timestamp) {
       this.cache.delete(key);
+      this.misses++;
       return null;
     }
 
+    // Map iteration order doubles as the LRU order
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    this.hits++;
     return entry.data;
   }
 
@@ -49,16 +88,35 @@ export class Cache {
       return cached;
     }
 
+    // The value may predate an invalidation made while it was loading
+    const generation = this.generation;
     const value = await getter();
-    this.set(key, value, options);
+    if (generation === this.generation) {
+      this.set(key, value, options);
+    }
     return value;
   }
 
   delete(key: string): void {
+    this.generation++;
     this.cache.delete(key);
   }
 
+  // Remove every entry whose key starts with the given prefix
+  deleteByPrefix(prefix: string): number {
+    this.generation++;
+    let deleted = 0;
+    for (const key of [...this.cache.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.cache.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
   clear(): void {
+    this.generation++;
     this.cache.clear();
   }
 
@@ -71,4 +129,16 @@ export class Cache {
       }
     }
   }
-}
\ No newline at end of file
+
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.cache.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Short-lived tokens confirming destructive tool calls
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { PlannedChange } from "../ShopifyClient/DryRunShopifyClient.js";
+
+export interface ConfirmationPolicy {
+  // Calls that delete or remove anything need a token
+  confirmDeletes: boolean;
+  // Calls changing more than this many items need a token
+  itemThreshold: number;
+  // How long an issued token can be used, in milliseconds
+  ttl: number;
+}
+
+/**
+ * The tool call a token is issued for; the token only confirms the same call
+ */
+export interface ConfirmableCall {
+  tool: string;
+  shopDomain: string;
+  // Tool arguments without the shop, dryRun and confirmationToken
+  args: Record<string, unknown>;
+}
+
+interface PendingConfirmation {
+  callKey: string;
+  expiresAt: number;
+}
+
+// A deletion, or a change clearing a field such as a removed image or metafield
+function removesData(change: PlannedChange): boolean {
+  return change.action === "delete" || change.changes.some((fieldChange) => fieldChange.after === null);
+}
+
+// JSON with sorted object keys, so equal arguments hash the same whatever their order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function callKey(call: ConfirmableCall): string {
+  return createHash("sha256").update(canonicalJson(call)).digest("hex");
+}
+
+/**
+ * Decides which planned changes need confirmation and keeps the tokens issued
+ * for them. A token confirms one call with the same tool, shop and arguments,
+ * can be used once and expires after the policy TTL.
+ */
+export class ConfirmationStore {
+  private readonly pending = new Map<string, PendingConfirmation>();
+
+  constructor(
+    readonly policy: ConfirmationPolicy,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Whether the changes a call planned need a token before they are made
+   * @param plannedChanges Changes recorded by a dry run of the call
+   */
+  requiresConfirmation(plannedChanges: PlannedChange[]): boolean {
+    if (this.policy.confirmDeletes && plannedChanges.some(removesData)) {
+      return true;
+    }
+    return plannedChanges.length > this.policy.itemThreshold;
+  }
+
+  /**
+   * Issues a token confirming a call
+   * @param call The call to confirm
+   * @returns The token and its expiry as an ISO date
+   */
+  issue(call: ConfirmableCall): { token: string; expiresAt: string } {
+    this.prune();
+    const token = randomBytes(12).toString("hex");
+    const expiresAt = this.now() + this.policy.ttl;
+    this.pending.set(token, { callKey: callKey(call), expiresAt });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Uses up a token; it cannot be used again, even when it does not match
+   * @param token The token passed by the tool call
+   * @param call The call being made
+   * @returns True if the token was issued for this call and has not expired
+   */
+  consume(token: string, call: ConfirmableCall): boolean {
+    this.prune();
+    const pending = this.pending.get(token);
+    this.pending.delete(token);
+    return pending !== undefined && pending.callKey === callKey(call);
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
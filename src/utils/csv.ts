@@ -0,0 +1,80 @@
+/**
+ * CSV utilities for the Shopify MCP Server
+ */
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break
+ * @param value The field value
+ * @returns The escaped field
+ */
+export function escapeCsvField(value: string | number | boolean | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats rows as CSV with a header line
+ * @param header Column names
+ * @param rows Row values, in header order
+ * @returns CSV text ending with a line break
+ */
+export function formatCsv(
+  header: string[],
+  rows: Array<Array<string | number | boolean | null | undefined>>
+): string {
+  return [header, ...rows].map((row) => row.map(escapeCsvField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Parses CSV text into records of fields. Quoted fields may contain
+ * delimiters, doubled quotes and line breaks; a leading byte order mark and
+ * the final line break are ignored.
+ * @param text The CSV text
+ * @returns The records, header included, in file order
+ * @throws Error if a quoted field is never closed
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unclosed quoted field in record ${records.length + 1}`);
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
@@ -0,0 +1,63 @@
+/**
+ * Discount code generation for the Shopify MCP Server
+ */
+
+import { randomInt } from "node:crypto";
+
+// Uppercase letters and digits without the easily confused 0/O and 1/I/L
+export const DEFAULT_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+export interface DiscountCodeOptions {
+  prefix?: string;
+  // Number of random characters after the prefix
+  length: number;
+  alphabet?: string;
+}
+
+/**
+ * Number of distinct codes the options can produce
+ * @param options Code options
+ */
+export function discountCodeSpace({ length, alphabet = DEFAULT_CODE_ALPHABET }: DiscountCodeOptions): number {
+  return new Set(alphabet).size ** length;
+}
+
+/**
+ * Generates random codes that are unique among themselves and not in `taken`.
+ * Generated codes are added to `taken` so later calls never repeat them.
+ * @param count Number of codes to generate
+ * @param options Prefix, length and alphabet of the codes
+ * @param taken Codes already used or tried
+ * @param random Returns an integer in [0, max); crypto.randomInt by default
+ * @throws Error if the options cannot produce enough new codes
+ */
+export function generateDiscountCodes(
+  count: number,
+  options: DiscountCodeOptions,
+  taken: Set<string> = new Set(),
+  random: (max: number) => number = randomInt
+): string[] {
+  const alphabet = [...new Set(options.alphabet ?? DEFAULT_CODE_ALPHABET)];
+  const prefix = options.prefix ?? "";
+  const codes: string[] = [];
+  // Give up on sparse spaces instead of looping forever once most codes are taken
+  let attemptsLeft = count * 100;
+
+  while (codes.length < count) {
+    if (attemptsLeft-- <= 0) {
+      throw new Error(
+        `Could not generate ${count} unique codes; use a longer length or a larger alphabet`
+      );
+    }
+    let code = prefix;
+    for (let i = 0; i < options.length; i++) {
+      code += alphabet[random(alphabet.length)];
+    }
+    if (!taken.has(code)) {
+      taken.add(code);
+      codes.push(code);
+    }
+  }
+
+  return codes;
+}
@@ -17,6 +17,29 @@ export interface ErrorResponse {
   [key: string]: unknown;
 }
 
+/**
+ * Shape of the `userErrors` returned by Shopify mutations
+ */
+interface UserError {
+  field?: string[] | null;
+  message: string;
+}
+
+function isUserErrorList(value: unknown): value is UserError[] {
+  return Array.isArray(value)
+    && value.length > 0
+    && value.every((entry) => typeof entry?.message === "string");
+}
+
+/**
+ * Formats mutation user errors as one "- field: message" line each
+ */
+function formatUserErrors(userErrors: UserError[]): string {
+  return userErrors
+    .map(({ field, message }) => (Array.isArray(field) && field.length ? `- ${field.join(".")}: ${message}` : `- ${message}`))
+    .join("\n");
+}
+
 /**
  * Handles errors in a consistent way across all MCP tools
  * @param defaultMessage Default error message if specific error details are not available
@@ -43,7 +66,9 @@ export function handleError(
       errorMessage += `\nContext: ${JSON.stringify(error.contextData, null, 2)}`;
     }
     
-    if (error.innerError) {
+    if (isUserErrorList(error.innerError)) {
+      errorMessage += `\nUser errors:\n${formatUserErrors(error.innerError)}`;
+    } else if (error.innerError) {
       errorMessage += `\nInner Error: ${JSON.stringify(error.innerError, null, 2)}`;
     }
 
@@ -0,0 +1,369 @@
+/**
+ * Shopify product CSV utilities for the Shopify MCP Server
+ */
+
+import { ProductImage, ProductNode, ProductOption, ProductVariant } from "../ShopifyClient/ShopifyClientPort.js";
+import { parseCsv } from "./csv.js";
+import { checkPrice, checkProductFields, checkVariantCount, checkVariantFields } from "./shopifyConstraints.js";
+
+/**
+ * Columns of Shopify's product CSV that can be filled from a ProductNode, in
+ * the order of Shopify's own export. The product admin imports files with a
+ * subset of the columns.
+ */
+export const PRODUCT_CSV_COLUMNS = [
+  "Handle",
+  "Title",
+  "Body (HTML)",
+  "Vendor",
+  "Type",
+  "Tags",
+  "Published",
+  "Option1 Name",
+  "Option1 Value",
+  "Option2 Name",
+  "Option2 Value",
+  "Option3 Name",
+  "Option3 Value",
+  "Variant SKU",
+  "Variant Inventory Tracker",
+  "Variant Inventory Qty",
+  "Variant Inventory Policy",
+  "Variant Price",
+  "Image Src",
+  "Image Position",
+  "Variant Image",
+  "Status",
+] as const;
+
+export type ProductCsvColumn = (typeof PRODUCT_CSV_COLUMNS)[number];
+
+export type ProductCsvRow = Partial<Record<ProductCsvColumn, string>>;
+
+// Shopify products have at most three options
+const MAX_OPTIONS = 3;
+
+/**
+ * A product with its connections replaced by plain arrays, as written to JSONL exports
+ */
+export type FlatProduct = Omit<ProductNode, "images" | "variants"> & {
+  images: ProductImage[];
+  variants: ProductVariant[];
+};
+
+/**
+ * Replaces the edges of a product's images and variants with plain arrays
+ */
+export function flattenProduct(product: ProductNode): FlatProduct {
+  return {
+    ...product,
+    images: product.images.edges.map(({ node }) => node),
+    variants: product.variants.edges.map(({ node }) => node),
+  };
+}
+
+function optionValue(variant: ProductVariant, option: ProductOption | undefined): string | undefined {
+  return option && variant.selectedOptions.find(({ name }) => name === option.name)?.value;
+}
+
+/**
+ * Flattens a product into the rows of Shopify's product CSV: the first row
+ * carries the product fields, and row n the n-th variant and the n-th image,
+ * all rows sharing the product's handle.
+ */
+export function toProductCsvRows(product: ProductNode): ProductCsvRow[] {
+  const { images, variants, options } = flattenProduct(product);
+  const rowCount = Math.max(variants.length, images.length, 1);
+
+  const rows: ProductCsvRow[] = [];
+  for (let index = 0; index < rowCount; index++) {
+    const row: ProductCsvRow = { Handle: product.handle };
+    if (index === 0) {
+      row.Title = product.title;
+      row["Body (HTML)"] = product.description;
+      row.Vendor = product.vendor;
+      row.Type = product.productType;
+      row.Tags = product.tags.join(", ");
+      row.Published = product.publishedAt ? "TRUE" : "FALSE";
+      row.Status = product.status.toLowerCase();
+      options.slice(0, MAX_OPTIONS).forEach((option, position) => {
+        row[`Option${position + 1} Name` as ProductCsvColumn] = option.name;
+      });
+    }
+
+    const variant = variants[index];
+    if (variant) {
+      for (let position = 0; position < MAX_OPTIONS; position++) {
+        const value = optionValue(variant, options[position]);
+        if (value !== undefined) {
+          row[`Option${position + 1} Value` as ProductCsvColumn] = value;
+        }
+      }
+      row["Variant SKU"] = variant.sku;
+      // Untracked variants have no quantity and no tracker
+      row["Variant Inventory Tracker"] = variant.inventoryQuantity === null ? "" : "shopify";
+      row["Variant Inventory Qty"] = variant.inventoryQuantity === null ? "" : String(variant.inventoryQuantity);
+      row["Variant Inventory Policy"] = variant.inventoryPolicy.toLowerCase();
+      row["Variant Price"] = variant.price;
+      row["Variant Image"] = variant.image?.src ?? "";
+    }
+
+    const image = images[index];
+    if (image) {
+      row["Image Src"] = image.src;
+      row["Image Position"] = String(index + 1);
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Columns read by parseProductCsv; the others are reported as ignored
+const IMPORTED_COLUMNS: ReadonlySet<string> = new Set<ProductCsvColumn>([
+  "Handle",
+  "Title",
+  "Body (HTML)",
+  "Vendor",
+  "Type",
+  "Tags",
+  "Status",
+  "Option1 Name",
+  "Option1 Value",
+  "Option2 Name",
+  "Option2 Value",
+  "Option3 Name",
+  "Option3 Value",
+  "Variant SKU",
+  "Variant Inventory Qty",
+  "Variant Price",
+]);
+
+const REQUIRED_COLUMNS: ProductCsvColumn[] = ["Handle", "Title"];
+
+const PRODUCT_STATUSES: ReadonlySet<string> = new Set(["ACTIVE", "DRAFT", "ARCHIVED"]);
+
+export type ProductCsvError = {
+  // Row of the problem in the file, the header being row 1
+  row: number;
+  message: string;
+};
+
+export type ProductCsvVariant = {
+  // Row of the variant in the file, the header being row 1
+  row: number;
+  // Values of the product's options, in option order
+  options: string[];
+  // Undefined when the cell is blank, leaving the variant's value unchanged
+  sku?: string;
+  price?: number;
+  inventory?: number;
+};
+
+export type ProductCsvProduct = {
+  handle: string;
+  rows: number[];
+  // Fields of the columns present in the file, read from the first row
+  fields: {
+    title?: string;
+    description?: string;
+    vendor?: string;
+    productType?: string;
+    tags?: string[];
+    status?: ProductNode["status"];
+  };
+  // Option names, read from the first row
+  options: string[];
+  variants: ProductCsvVariant[];
+  // Problems found in the product's rows
+  errors: ProductCsvError[];
+};
+
+export type ParsedProductCsv = {
+  products: ProductCsvProduct[];
+  // Problems of rows that belong to no product
+  errors: ProductCsvError[];
+  // Columns of the file that are not imported
+  ignoredColumns: string[];
+};
+
+/**
+ * Parses and validates a product CSV in Shopify's format. Rows sharing a
+ * handle make up one product and must be consecutive; the product fields and
+ * option names are read from its first row, and every row with option values,
+ * a SKU, a price or a quantity is a variant.
+ * @param text The CSV text
+ * @returns The products with the problems of their rows
+ * @throws Error if the file has no header, lacks a required column or repeats one
+ */
+export function parseProductCsv(text: string): ParsedProductCsv {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    throw new Error("The CSV file is empty");
+  }
+  const columns = header.map((name) => name.trim());
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`The CSV file lacks the required columns: ${missing.join(", ")}`);
+  }
+  const repeated = columns.filter((column, index) => columns.indexOf(column) !== index);
+  if (repeated.length > 0) {
+    throw new Error(`The CSV file repeats the columns: ${[...new Set(repeated)].join(", ")}`);
+  }
+  const has = (column: ProductCsvColumn) => columns.includes(column);
+
+  const products: ProductCsvProduct[] = [];
+  const errors: ProductCsvError[] = [];
+  const byHandle = new Map<string, ProductCsvProduct>();
+  // Row of the first variant using each SKU
+  const skuRows = new Map<string, number>();
+  let current: ProductCsvProduct | undefined;
+
+  records.forEach((record, index) => {
+    const row = index + 2;
+    if (record.every((value) => value.trim() === "")) {
+      return;
+    }
+    const cell = (column: ProductCsvColumn) => {
+      const position = columns.indexOf(column);
+      return position < 0 ? "" : (record[position] ?? "").trim();
+    };
+
+    if (record.length > columns.length) {
+      errors.push({ row, message: `has ${record.length} fields but the header has ${columns.length}` });
+      return;
+    }
+    const handle = cell("Handle");
+    if (!handle) {
+      errors.push({ row, message: "Handle is blank" });
+      return;
+    }
+
+    let product = current?.handle === handle ? current : undefined;
+    if (!product) {
+      const earlier = byHandle.get(handle);
+      if (earlier) {
+        earlier.errors.push({
+          row,
+          message: `handle "${handle}" is also used by row ${earlier.rows[0]}; the rows of a product must be consecutive`,
+        });
+        current = undefined;
+        return;
+      }
+      product = readProduct(handle, row, cell, has);
+      byHandle.set(handle, product);
+      products.push(product);
+      current = product;
+    }
+    product.rows.push(row);
+
+    const optionValues = [1, 2, 3].map((position) => cell(`Option${position} Value` as ProductCsvColumn));
+    const [sku, price, inventory] = [cell("Variant SKU"), cell("Variant Price"), cell("Variant Inventory Qty")];
+    if (!optionValues.some(Boolean) && !sku && !price && !inventory) {
+      return;
+    }
+
+    const variant: ProductCsvVariant = { row, options: optionValues.slice(0, product.options.length) };
+    const rowErrors: string[] = [];
+    product.options.forEach((name, position) => {
+      if (!optionValues[position]) {
+        rowErrors.push(`Option${position + 1} Value is required for option "${name}"`);
+      }
+    });
+    for (let position = product.options.length; position < optionValues.length; position++) {
+      if (optionValues[position]) {
+        rowErrors.push(`Option${position + 1} Value is set but the product has no Option${position + 1} Name`);
+      }
+    }
+    const sameOptions = product.variants.find((other) =>
+      product!.options.length === 0 ? true : other.options.join("\u0000") === variant.options.join("\u0000")
+    );
+    if (sameOptions) {
+      rowErrors.push(
+        product.options.length === 0
+          ? "a product with several variants needs option names"
+          : `has the same option values as row ${sameOptions.row}`
+      );
+    }
+
+    if (sku) {
+      variant.sku = sku;
+      const skuRow = skuRows.get(sku);
+      if (skuRow !== undefined) {
+        rowErrors.push(`Variant SKU "${sku}" is also used by row ${skuRow}`);
+      } else {
+        skuRows.set(sku, row);
+      }
+    }
+    if (price) {
+      variant.price = Number(price);
+      rowErrors.push(
+        ...(/^\d+(\.\d+)?$/.test(price) ? checkPrice("Variant Price", variant.price) : [`Variant Price "${price}" is not an amount`])
+      );
+    }
+    if (inventory) {
+      variant.inventory = Number(inventory);
+      if (!/^-?\d+$/.test(inventory)) {
+        rowErrors.push(`Variant Inventory Qty "${inventory}" is not a whole number`);
+      }
+    }
+    rowErrors.push(...checkVariantFields({ sku: variant.sku }));
+
+    product.errors.push(...rowErrors.map((message) => ({ row, message })));
+    product.variants.push(variant);
+  });
+
+  for (const product of products) {
+    product.errors.push(...checkVariantCount(product.variants.length).map((message) => ({ row: product.rows[0], message })));
+  }
+
+  return {
+    products,
+    errors,
+    ignoredColumns: columns.filter((column) => !IMPORTED_COLUMNS.has(column)),
+  };
+}
+
+// Reads the product fields and option names of a product's first row
+function readProduct(
+  handle: string,
+  row: number,
+  cell: (column: ProductCsvColumn) => string,
+  has: (column: ProductCsvColumn) => boolean
+): ProductCsvProduct {
+  const product: ProductCsvProduct = { handle, rows: [], fields: {}, options: [], variants: [], errors: [] };
+  const { fields } = product;
+  fields.title = cell("Title");
+  if (has("Body (HTML)")) fields.description = cell("Body (HTML)");
+  if (has("Vendor")) fields.vendor = cell("Vendor");
+  if (has("Type")) fields.productType = cell("Type");
+  if (has("Tags")) {
+    fields.tags = cell("Tags")
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+
+  const errors = checkProductFields(fields);
+  const status = cell("Status").toUpperCase();
+  if (status && !PRODUCT_STATUSES.has(status)) {
+    errors.push(`Status "${cell("Status")}" must be active, draft or archived`);
+  } else if (status) {
+    fields.status = status as ProductNode["status"];
+  }
+
+  const names = [1, 2, 3].map((position) => cell(`Option${position} Name` as ProductCsvColumn));
+  let count = names.length;
+  while (count > 0 && !names[count - 1]) {
+    count--;
+  }
+  names.slice(0, count).forEach((name, position) => {
+    if (!name) {
+      errors.push(`Option${position + 1} Name is blank but Option${count} Name is set`);
+    } else if (names.indexOf(name) !== position) {
+      errors.push(`Option${position + 1} Name "${name}" repeats Option${names.indexOf(name) + 1} Name`);
+    }
+  });
+  product.options = names.slice(0, count);
+  product.errors.push(...errors.map((message) => ({ row, message })));
+  return product;
+}
@@ -2,15 +2,26 @@
  * Retry utilities for API requests
  */
 
-interface RetryOptions {
+import { CustomError } from "../ShopifyClient/ShopifyClientPort.js";
+
+export interface RetryOptions {
   maxRetries?: number;
   initialDelay?: number;
   maxDelay?: number;
   backoffFactor?: number;
   retryableErrors?: Array<string | RegExp>;
+  /**
+   * Decides whether an error is retryable; replaces the `retryableErrors` message match when set
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /**
+   * Overrides the backoff delay for an error (e.g. from a Retry-After header)
+   * Return undefined to fall back to exponential backoff
+   */
+  getRetryDelay?: (error: unknown, attempt: number) => number | undefined;
 }
 
-const defaultOptions: Required<RetryOptions> = {
+const defaultOptions: Required<Omit<RetryOptions, 'shouldRetry' | 'getRetryDelay'>> = {
   maxRetries: 3,
   initialDelay: 1000,
   maxDelay: 10000,
@@ -26,47 +37,79 @@ const defaultOptions: Required<RetryOptions> = {
   ]
 };
 
+function matchesRetryableErrors(error: unknown, patterns: Array<string | RegExp>): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return patterns.some(pattern =>
+    pattern instanceof RegExp
+      ? pattern.test(message)
+      : message.includes(pattern)
+  );
+}
+
+/**
+ * Records how many retries were spent on an error before it was thrown
+ */
+function annotateRetryCount(error: unknown, retryCount: number): void {
+  if (!(error instanceof CustomError)) {
+    return;
+  }
+
+  const isPlainObject = typeof error.contextData === 'object'
+    && error.contextData !== null
+    && !Array.isArray(error.contextData);
+
+  error.contextData = isPlainObject
+    ? { ...error.contextData, retryCount }
+    : { ...(error.contextData !== undefined && { context: error.contextData }), retryCount };
+}
+
 /**
  * Implements an exponential backoff retry mechanism
+ * The operation runs at most `maxRetries + 1` times
  */
 export async function withRetry<T>(
   operation: () => Promise<T>,
   options: RetryOptions = {}
 ): Promise<T> {
   const opts = { ...defaultOptions, ...options };
-  let lastError: Error;
+  let lastError: unknown;
   let delay = opts.initialDelay;
 
-  for (let attempt = 1; attempt <= opts.maxRetries; attempt++) {
+  const maxAttempts = opts.maxRetries + 1;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
       return await operation();
     } catch (error) {
-      lastError = error as Error;
-      
+      lastError = error;
+
       // Check if error is retryable
-      const shouldRetry = opts.retryableErrors.some(pattern => 
-        pattern instanceof RegExp 
-          ? pattern.test(lastError.message) 
-          : lastError.message.includes(pattern)
-      );
+      const shouldRetry = opts.shouldRetry
+        ? opts.shouldRetry(error, attempt)
+        : matchesRetryableErrors(error, opts.retryableErrors);
 
-      if (!shouldRetry || attempt === opts.maxRetries) {
+      if (!shouldRetry || attempt === maxAttempts) {
+        annotateRetryCount(error, attempt - 1);
         throw error;
       }
 
+      const waitFor = opts.getRetryDelay?.(error, attempt) ?? delay;
+
       // Log retry attempt
       console.error(
-        `Operation failed (attempt ${attempt}/${opts.maxRetries}), retrying in ${delay}ms:`,
+        `Operation failed (attempt ${attempt}/${maxAttempts}), retrying in ${waitFor}ms:`,
         error
       );
 
       // Wait before retrying
-      await new Promise(resolve => setTimeout(resolve, delay));
-      
+      if (waitFor > 0) {
+        await new Promise(resolve => setTimeout(resolve, waitFor));
+      }
+
       // Increase delay for next attempt, but don't exceed maxDelay
       delay = Math.min(delay * opts.backoffFactor, opts.maxDelay);
     }
   }
 
-  throw lastError!;
-}
\ No newline at end of file
+  throw lastError;
+}
@@ -0,0 +1,251 @@
+/**
+ * Input limits of the Shopify Admin API, checked before a mutation is sent
+ *
+ * Every check returns the problems it found as "field: message" strings, empty
+ * when the input is valid, so callers can report all of them at once.
+ */
+
+import { WebhookEndpoint } from "../ShopifyClient/ShopifyClientPort.js";
+
+export const MAX_TITLE_LENGTH = 255;
+export const MAX_TAG_LENGTH = 255;
+export const MAX_TAGS = 250;
+export const MAX_SKU_LENGTH = 255;
+export const MAX_VARIANTS_PER_PRODUCT = 100;
+export const MAX_DISCOUNT_CODE_LENGTH = 255;
+
+const METAFIELD_NAME = /^[A-Za-z0-9_-]+$/;
+// Partner event sources Shopify can deliver to, e.g.
+// arn:aws:events:us-east-1::event-source/aws.partner/shopify.com/123/my-source
+const EVENT_BRIDGE_ARN = /^arn:aws:events:[a-z0-9-]+::event-source\/aws\.partner\/shopify\.com(\.test)?\/\d+\/.+$/;
+
+function checkLength(field: string, value: string | undefined, max: number, required = false): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (required && value.trim() === "") {
+    return [`${field}: must not be blank`];
+  }
+  return value.length > max ? [`${field}: must be at most ${max} characters (got ${value.length})`] : [];
+}
+
+function isDate(value: string): boolean {
+  return !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Checks a tag list against the number and length limits
+ * @param field Name of the field in the messages
+ * @param tags Tags to check
+ */
+export function checkTags(field: string, tags: string[] | undefined): string[] {
+  if (!tags) {
+    return [];
+  }
+  const errors = tags.length > MAX_TAGS ? [`${field}: at most ${MAX_TAGS} tags are allowed (got ${tags.length})`] : [];
+  for (const tag of tags) {
+    errors.push(...checkLength(`${field} "${tag.slice(0, 20)}"`, tag, MAX_TAG_LENGTH));
+  }
+  return errors;
+}
+
+/**
+ * Checks a price or amount: finite and not negative
+ * @param field Name of the field in the messages
+ * @param price Price to check
+ */
+export function checkPrice(field: string, price: number | undefined): string[] {
+  if (price === undefined) {
+    return [];
+  }
+  return Number.isFinite(price) && price >= 0 ? [] : [`${field}: must be a non-negative amount (got ${price})`];
+}
+
+/**
+ * Checks the product fields accepted by productCreate and productUpdate
+ * @param fields Fields to check; omitted fields are not checked
+ */
+export function checkProductFields(fields: {
+  title?: string;
+  vendor?: string;
+  productType?: string;
+  tags?: string[];
+}): string[] {
+  return [
+    ...checkLength("title", fields.title, MAX_TITLE_LENGTH, true),
+    ...checkLength("vendor", fields.vendor, MAX_TITLE_LENGTH),
+    ...checkLength("productType", fields.productType, MAX_TITLE_LENGTH),
+    ...checkTags("tags", fields.tags),
+  ];
+}
+
+/**
+ * Checks the variant fields the tools can set
+ * @param fields Fields to check; omitted fields are not checked
+ * @param prefix Prefix of the field names, e.g. "variants[2]."
+ */
+export function checkVariantFields(
+  fields: { title?: string; sku?: string; price?: number; weight?: number },
+  prefix = ""
+): string[] {
+  const errors = [
+    ...checkLength(`${prefix}title`, fields.title, MAX_TITLE_LENGTH, true),
+    ...checkLength(`${prefix}sku`, fields.sku, MAX_SKU_LENGTH),
+    ...checkPrice(`${prefix}price`, fields.price),
+  ];
+  if (fields.weight !== undefined && !(Number.isFinite(fields.weight) && fields.weight >= 0)) {
+    errors.push(`${prefix}weight: must not be negative (got ${fields.weight})`);
+  }
+  return errors;
+}
+
+/**
+ * Checks the variant count of a product after a change
+ * @param count Number of variants the product would have
+ */
+export function checkVariantCount(count: number): string[] {
+  return count > MAX_VARIANTS_PER_PRODUCT
+    ? [`variants: a product can have at most ${MAX_VARIANTS_PER_PRODUCT} variants (would have ${count})`]
+    : [];
+}
+
+/**
+ * Checks a metafield namespace and key: 3 to 255 and 2 to 64 characters
+ * from letters, digits, hyphens and underscores
+ */
+export function checkMetafieldIdentifier(namespace: string, key: string): string[] {
+  const errors: string[] = [];
+  if (namespace.length < 3 || namespace.length > 255 || !METAFIELD_NAME.test(namespace)) {
+    errors.push(`namespace "${namespace}": must be 3 to 255 letters, digits, hyphens or underscores`);
+  }
+  if (key.length < 2 || key.length > 64 || !METAFIELD_NAME.test(key)) {
+    errors.push(`key "${key}": must be 2 to 64 letters, digits, hyphens or underscores`);
+  }
+  return errors;
+}
+
+/**
+ * Checks the schedule of a discount: valid dates, ending after it starts
+ * @param startsAt Start date
+ * @param endsAt End date, null or omitted for no end
+ */
+export function checkDiscountSchedule(startsAt: string | undefined, endsAt: string | null | undefined): string[] {
+  const errors: string[] = [];
+  if (startsAt !== undefined && !isDate(startsAt)) {
+    errors.push(`startsAt: "${startsAt}" is not a valid date`);
+  }
+  if (endsAt !== undefined && endsAt !== null) {
+    if (!isDate(endsAt)) {
+      errors.push(`endsAt: "${endsAt}" is not a valid date`);
+    } else if (startsAt !== undefined && isDate(startsAt) && Date.parse(endsAt) <= Date.parse(startsAt)) {
+      errors.push("endsAt: must be after startsAt");
+    }
+  }
+  return errors;
+}
+
+/**
+ * Checks a discount value: a percentage as a decimal up to 1, or a positive amount
+ * @param valueType "percentage" or "fixed_amount"
+ * @param value The value
+ */
+export function checkDiscountValue(valueType: string, value: number): string[] {
+  if (!Number.isFinite(value) || value <= 0) {
+    return [`value: must be positive (got ${value})`];
+  }
+  if (valueType === "percentage" && value > 1) {
+    return [`value: percentages are decimals between 0 and 1, e.g. 0.15 for 15% (got ${value})`];
+  }
+  return [];
+}
+
+/**
+ * Checks the collections a discount targets. Shopify cannot leave collections
+ * out of a discount on all items, so excluded collections only narrow the
+ * included ones.
+ * @param includeCollectionIds Collections the discount applies to
+ * @param excludeCollectionIds Collections removed from the included ones
+ */
+export function checkDiscountCollections(includeCollectionIds: string[], excludeCollectionIds: string[]): string[] {
+  if (excludeCollectionIds.length === 0) {
+    return [];
+  }
+  if (includeCollectionIds.length === 0) {
+    return ["excludeCollectionIds: needs includeCollectionIds; a discount on all items cannot leave collections out"];
+  }
+  const excluded = new Set(excludeCollectionIds.map((id) => id.split("/").pop()));
+  return includeCollectionIds.every((id) => excluded.has(id.split("/").pop()))
+    ? ["excludeCollectionIds: leaves no collections for the discount to apply to"]
+    : [];
+}
+
+/**
+ * Checks a discount code: not blank, at most 255 characters and on one line
+ * @param code The code
+ */
+export function checkDiscountCode(code: string): string[] {
+  if (/[\r\n]/.test(code)) {
+    return [`code "${code}": must not contain line breaks`];
+  }
+  return checkLength(`code "${code}"`, code, MAX_DISCOUNT_CODE_LENGTH, true);
+}
+
+/**
+ * Checks a webhook endpoint: an HTTPS URL, a Shopify partner event source ARN
+ * or a Pub/Sub project and topic
+ * @param endpoint The endpoint
+ */
+export function checkWebhookEndpoint(endpoint: WebhookEndpoint): string[] {
+  switch (endpoint.type) {
+    case "HTTP": {
+      let url: URL;
+      try {
+        url = new URL(endpoint.callbackUrl);
+      } catch {
+        return [`callbackUrl: "${endpoint.callbackUrl}" is not a valid URL`];
+      }
+      return url.protocol === "https:" ? [] : ["callbackUrl: must use https"];
+    }
+    case "EVENT_BRIDGE":
+      return EVENT_BRIDGE_ARN.test(endpoint.arn)
+        ? []
+        : [`arn: "${endpoint.arn}" is not an EventBridge partner event source ARN for Shopify`];
+    case "PUB_SUB":
+      return [
+        ...(endpoint.pubSubProject.trim() ? [] : ["pubSubProject: must not be blank"]),
+        ...(endpoint.pubSubTopic.trim() ? [] : ["pubSubTopic: must not be blank"]),
+      ];
+  }
+}
+
+/**
+ * Checks draft order line items: whole quantities of at least 1 and valid discounts
+ * @param lineItems The line items
+ */
+export function checkDraftOrderLineItems(
+  lineItems: Array<{ quantity: number; appliedDiscount?: { value: number; valueType: string } }> | undefined
+): string[] {
+  const errors: string[] = [];
+  (lineItems ?? []).forEach((lineItem, index) => {
+    if (!Number.isInteger(lineItem.quantity) || lineItem.quantity < 1) {
+      errors.push(`lineItems[${index}].quantity: must be a whole number of at least 1 (got ${lineItem.quantity})`);
+    }
+    const discount = lineItem.appliedDiscount;
+    if (discount && discount.valueType === "PERCENTAGE" && discount.value > 100) {
+      errors.push(`lineItems[${index}].appliedDiscount: a percentage cannot exceed 100`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Checks the blog article fields: a title and an author that are not blank
+ * @param fields Fields to check; omitted fields are not checked
+ */
+export function checkBlogArticleFields(fields: { title?: string; author?: string; tags?: string[] }): string[] {
+  return [
+    ...checkLength("title", fields.title, MAX_TITLE_LENGTH, true),
+    ...checkLength("author", fields.author, MAX_TITLE_LENGTH, true),
+    ...checkTags("tags", fields.tags),
+  ];
+}
@@ -0,0 +1,104 @@
+/**
+ * ShopifyQL utilities for the Shopify MCP Server
+ */
+
+import { ShopifyqlColumn, ShopifyqlTableResponse } from "../ShopifyClient/ShopifyClientPort.js";
+
+export type ShopifyqlValue = string | number | null;
+
+export interface ShopifyqlTable {
+  columns: ShopifyqlColumn[];
+  // One object per row, keyed by column name
+  rows: Array<Record<string, ShopifyqlValue>>;
+}
+
+export interface ShopifyqlDateRange {
+  // YYYY-MM-DD, or a relative date such as -30d, today or yesterday
+  since: string;
+  until?: string;
+}
+
+// Data types whose cells are numbers
+const NUMERIC_TYPES = new Set(["INTEGER", "FLOAT", "DECIMAL", "NUMBER", "MONEY", "PRICE", "PERCENT"]);
+
+/**
+ * Dates accepted in SINCE and UNTIL: YYYY-MM-DD, an offset from today
+ * such as -7d or -3m, today and yesterday
+ */
+export const SHOPIFYQL_DATE = /^(\d{4}-\d{2}-\d{2}|-\d{1,4}[dwmqy]|today|yesterday)$/;
+
+/**
+ * Converts the cells of a ShopifyQL table to numbers where the column is numeric
+ * @param table The table returned by the Admin API
+ * @returns The columns and one object per row
+ */
+export function parseShopifyqlTable(table: ShopifyqlTableResponse): ShopifyqlTable {
+  return {
+    columns: table.columns,
+    rows: table.rowData.map((cells) =>
+      Object.fromEntries(
+        table.columns.map((column, index) => [column.name, parseShopifyqlValue(column, cells[index])])
+      )
+    ),
+  };
+}
+
+function parseShopifyqlValue(column: ShopifyqlColumn, cell: string | null | undefined): ShopifyqlValue {
+  if (cell === null || cell === undefined || cell === "") {
+    return null;
+  }
+  if (!NUMERIC_TYPES.has(column.dataType.toUpperCase())) {
+    return cell;
+  }
+  const value = Number(cell.replace(/[%,]/g, ""));
+  return Number.isNaN(value) ? cell : value;
+}
+
+function dateRange({ since, until = "today" }: ShopifyqlDateRange): string {
+  for (const date of [since, until]) {
+    if (!SHOPIFYQL_DATE.test(date)) {
+      throw new Error(`Invalid ShopifyQL date ${date}, use YYYY-MM-DD, an offset such as -30d, today or yesterday`);
+    }
+  }
+  return `SINCE ${since} UNTIL ${until}`;
+}
+
+function limit(value: number): number {
+  if (!Number.isInteger(value) || value < 1 || value > 1000) {
+    throw new Error("limit must be an integer between 1 and 1000");
+  }
+  return value;
+}
+
+/**
+ * Total, net and gross sales and orders per day, week or month
+ */
+export function buildSalesOverTimeQuery(range: ShopifyqlDateRange, groupBy: "day" | "week" | "month" = "day"): string {
+  return `FROM sales SHOW total_sales, net_sales, gross_sales, orders GROUP BY ${groupBy} ${dateRange(range)} ORDER BY ${groupBy} ASC`;
+}
+
+/**
+ * Products with the highest net sales
+ */
+export function buildTopProductsQuery(range: ShopifyqlDateRange, count = 10): string {
+  return `FROM sales SHOW net_sales, net_quantity, orders GROUP BY product_title ${dateRange(range)} ORDER BY net_sales DESC LIMIT ${limit(count)}`;
+}
+
+/**
+ * Online store sessions and conversion rate per referrer source
+ */
+export function buildSessionsByReferrerQuery(range: ShopifyqlDateRange, count = 10): string {
+  return `FROM sessions SHOW sessions, conversion_rate GROUP BY referrer_source ${dateRange(range)} ORDER BY sessions DESC LIMIT ${limit(count)}`;
+}
+
+/**
+ * Online store sessions that viewed a product or added it to the cart
+ * @param productId Product ID or GID
+ */
+export function buildProductSessionsQuery(productId: string, range: ShopifyqlDateRange): string {
+  const id = productId.split("/").pop() ?? "";
+  if (!/^\d+$/.test(id)) {
+    throw new Error(`Invalid product ID ${productId}`);
+  }
+  return `FROM products SHOW view_sessions, cart_sessions WHERE product_id = ${id} ${dateRange(range)}`;
+}
@@ -0,0 +1,220 @@
+/**
+ * Persistent store for webhook deliveries received by the webhook receiver
+ */
+
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export interface WebhookEvent {
+  // X-Shopify-Webhook-Id, the same for every retry of a delivery
+  id: string;
+  topic: string;
+  shopDomain: string;
+  apiVersion: string | null;
+  // X-Shopify-Event-Id, shared by the deliveries of one event to several subscriptions
+  eventId: string | null;
+  triggeredAt: string | null;
+  receivedAt: string;
+  // Parsed JSON payload, or the raw body for XML subscriptions
+  payload: unknown;
+}
+
+export type WebhookEventSummary = Omit<WebhookEvent, "payload">;
+
+export interface WebhookEventQuery {
+  topic?: string;
+  shopDomain?: string;
+  // Only events received at or after this ISO date
+  since?: string;
+  first?: number;
+  after?: string;
+}
+
+export interface WebhookEventPage {
+  events: WebhookEvent[];
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+}
+
+interface WebhookEventStoreOptions {
+  // JSONL file the events are appended to; events are only kept in memory when omitted
+  path?: string;
+  maxEvents?: number;
+}
+
+const DEFAULT_MAX_EVENTS = 1000;
+
+/**
+ * Keeps the most recent webhook events, newest last, deduplicated by webhook ID.
+ * Events are appended to a JSONL file as they arrive; the file is rewritten
+ * with only the retained events once it holds twice as many lines.
+ */
+export class WebhookEventStore {
+  private events: WebhookEvent[] = [];
+  private readonly ids = new Set<string>();
+  // Events being written, so a retry arriving meanwhile waits for the outcome
+  private readonly pending = new Map<string, Promise<void>>();
+  private readonly path?: string;
+  private readonly maxEvents: number;
+  private linesInFile = 0;
+  // Serializes file writes so appends and compactions never interleave
+  private writes: Promise<void> = Promise.resolve();
+  private readonly listeners = new Set<(event: WebhookEvent) => void>();
+
+  constructor(options: WebhookEventStoreOptions = {}) {
+    this.path = options.path;
+    this.maxEvents = options.maxEvents ?? DEFAULT_MAX_EVENTS;
+  }
+
+  /**
+   * Loads the events persisted by a previous run, skipping unreadable lines
+   */
+  async load(): Promise<void> {
+    if (!this.path) {
+      return;
+    }
+
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+
+    const lines = raw.split("\n").filter((line) => line.trim());
+    this.linesInFile = lines.length;
+    for (const line of lines) {
+      try {
+        this.remember(JSON.parse(line) as WebhookEvent);
+      } catch {
+        console.error(`Skipping unreadable webhook event in ${this.path}`);
+      }
+    }
+  }
+
+  has(id: string): boolean {
+    return this.ids.has(id);
+  }
+
+  /**
+   * Stores an event unless one with the same webhook ID was already received.
+   * The ID only counts as received once the event is written, so a retry of a
+   * delivery whose write failed is stored.
+   * @returns False for duplicates
+   * @throws Error if the event could not be written
+   */
+  async add(event: WebhookEvent): Promise<boolean> {
+    if (this.ids.has(event.id)) {
+      return false;
+    }
+    const pending = this.pending.get(event.id);
+    if (pending) {
+      await pending;
+      return false;
+    }
+
+    const adding = this.persist(event);
+    this.pending.set(event.id, adding);
+    try {
+      await adding;
+    } finally {
+      this.pending.delete(event.id);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Webhook event listener failed:", error);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Calls `listener` with every event stored from now on, duplicates excluded
+   * @returns A function removing the listener
+   */
+  onEvent(listener: (event: WebhookEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  get(id: string): WebhookEvent | undefined {
+    return this.events.find((event) => event.id === id);
+  }
+
+  /**
+   * Lists matching events, newest first
+   */
+  list(query: WebhookEventQuery = {}): WebhookEventPage {
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const matching = this.events
+      .filter(
+        (event) =>
+          (!query.topic || event.topic === query.topic) &&
+          (!query.shopDomain || event.shopDomain === query.shopDomain) &&
+          (since === undefined || Date.parse(event.receivedAt) >= since)
+      )
+      .reverse();
+
+    const start = query.after ? Number(query.after) : 0;
+    const end = start + (query.first ?? 50);
+    return {
+      events: matching.slice(start, end),
+      pageInfo: {
+        hasNextPage: end < matching.length,
+        endCursor: end < matching.length ? String(end) : null,
+      },
+    };
+  }
+
+  get size(): number {
+    return this.events.length;
+  }
+
+  private persist(event: WebhookEvent): Promise<void> {
+    if (!this.path) {
+      this.remember(event);
+      return Promise.resolve();
+    }
+
+    const path = this.path;
+    const write = this.writes.then(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, `${JSON.stringify(event)}\n`);
+      this.linesInFile++;
+      this.remember(event);
+      if (this.linesInFile >= this.maxEvents * 2) {
+        await this.compact(path);
+      }
+    });
+    // A failed write must not block the ones queued after it
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private remember(event: WebhookEvent): boolean {
+    if (this.ids.has(event.id)) {
+      return false;
+    }
+    this.events.push(event);
+    this.ids.add(event.id);
+    while (this.events.length > this.maxEvents) {
+      this.ids.delete(this.events.shift()!.id);
+    }
+    return true;
+  }
+
+  private async compact(path: string): Promise<void> {
+    const temporary = `${path}.tmp`;
+    await writeFile(temporary, this.events.map((event) => `${JSON.stringify(event)}\n`).join(""));
+    await rename(temporary, path);
+    this.linesInFile = this.events.length;
+  }
+}